@@ -1,18 +1,20 @@
 import { Stack } from 'expo-router';
-import { useAuth } from '../../hooks/useAuth';
+import { useRole } from '../../hooks/useRole';
 import { Redirect } from 'expo-router';
+import { getRoleHome } from '../../lib/roles';
 
 export default function AuthLayout() {
-  const { session, isLoading } = useAuth();
+  const { role, isLoading } = useRole();
 
   // Show loading state
   if (isLoading) {
     return null;
   }
 
-  // Redirect to main app if authenticated
-  if (session) {
-    return <Redirect href="/(tabs)" />;
+  // Redirect to the role's tabs if authenticated. Users without a profile
+  // stay here so they aren't bounced between the two layouts
+  if (role) {
+    return <Redirect href={getRoleHome(role)} />;
   }
 
   return (
@@ -3,6 +3,8 @@ import { View, Text, TextInput, TouchableOpacity, StyleSheet } from 'react-nativ
 import { useRouter } from 'expo-router';
 import { Shield, TriangleAlert as AlertTriangle } from 'lucide-react-native';
 import { supabase } from '../../lib/supabase';
+import { fetchUserRole, getRoleHome } from '../../lib/roles';
+import { recordCivilianLogin } from '../../lib/profiles';
 
 export default function LoginScreen() {
   const [email, setEmail] = useState('');
@@ -44,71 +46,22 @@ export default function LoginScreen() {
 
       if (data.user) {
         try {
-          // First, check if user is a civilian or responder
-          const { data: userProfile, error: userError } = await supabase
-            .from('users')
-            .select('user_type, last_login')
-            .eq('id', data.user.id)
-            .single();
-
-          const { data: responderProfile, error: responderError } = await supabase
-            .from('responders')
-            .select('responder_type, verification_status')
-            .eq('id', data.user.id)
-            .single();
-
-          let isFirstLogin = false;
-          let userType = null;
-
-          if (userProfile) {
-            // User is a civilian
-            userType = 'civilian';
-            isFirstLogin = !userProfile.last_login;
-            
-            // Update last login for civilian
-            await supabase
-              .from('users')
-              .update({ last_login: new Date().toISOString() })
-              .eq('id', data.user.id);
-              
-          } else if (responderProfile) {
-            // User is a responder (police or hospital)
-            userType = responderProfile.responder_type;
-            isFirstLogin = !responderProfile.verification_status; // Assuming first login if not verified
-            
-            // You might want to track last login for responders too
-            // Add a last_login column to responders table if needed
-            
-          } else {
+          const resolved = await fetchUserRole(data.user.id);
+          if (!resolved) {
             // This shouldn't happen if registration worked correctly
             console.error('User profile not found in either table');
             setError('User profile not found. Please contact support.');
             return;
           }
 
-          // Navigate based on user type and first login status
-          if (isFirstLogin) {
-            router.replace('/welcome');
-          } else {
-            // You might want different navigation based on user type
-            switch (userType) {
-              case 'civilian':
-                router.replace('/(tabs)');
-                break;
-              case 'police':
-                router.replace('/(police-tabs)'); // Assuming you have police-specific tabs
-                break;
-              case 'hospital':
-                router.replace('/(hospital-tabs)'); // Assuming you have hospital-specific tabs
-                break;
-              default:
-                router.replace('/(tabs)');
-            }
-          }
+          const isFirstLogin =
+            resolved.role === 'civilian' && (await recordCivilianLogin(data.user.id));
+
+          // Each role has its own tab group; its layout turns away anyone else
+          router.replace(isFirstLogin ? '/welcome' : getRoleHome(resolved.role));
         } catch (profileError) {
           console.error('Profile lookup error:', profileError);
-          // Still allow login even if profile lookup fails
-          router.replace('/(tabs)');
+          setError('Could not load your profile. Please try again.');
         }
       }
     } catch (err) {
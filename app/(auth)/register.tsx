@@ -3,6 +3,7 @@ import { View, Text, TextInput, TouchableOpacity, StyleSheet, ScrollView, Alert
 import { Link, useRouter } from 'expo-router';
 import { Shield, TriangleAlert as AlertTriangle } from 'lucide-react-native';
 import { supabase } from '../../lib/supabase';
+import { createCivilianProfile, createResponderProfile } from '../../lib/profiles';
 
 type UserType = 'civilian' | 'police' | 'hospital';
 
@@ -11,6 +12,8 @@ export default function RegisterScreen() {
   const [password, setPassword] = useState('');
   const [fullName, setFullName] = useState('');
   const [organizationName, setOrganizationName] = useState('');
+  const [badgeNumber, setBadgeNumber] = useState('');
+  const [organizationId, setOrganizationId] = useState('');
   const [userType, setUserType] = useState<UserType>('civilian');
   const [error, setError] = useState('');
   const [isLoading, setIsLoading] = useState(false);
@@ -73,15 +76,9 @@ export default function RegisterScreen() {
 
       // Step 2: Create profile based on user type
       if (userType === 'civilian') {
-        const { error: profileError } = await supabase.from('users').insert({
-          id: user.id,
-          email: user.email,
-          full_name: fullName.trim(),
-          user_type: userType,
-          created_at: new Date().toISOString(),
-        });
-
-        if (profileError) {
+        try {
+          await createCivilianProfile(user.id, user.email ?? null, fullName.trim());
+        } catch (profileError: any) {
           console.error('Profile creation error:', profileError);
           if (profileError.message.includes('duplicate key value violates unique constraint')) {
             // Profile already exists, continue
@@ -92,15 +89,14 @@ export default function RegisterScreen() {
         }
       } else {
         // For police and hospital users - store in responders table
-        const { error: responderError } = await supabase.from('responders').insert({
-          id: user.id,
-          organization_name: organizationName.trim(),
-          responder_type: userType,
-          verification_status: false, // New responders need verification
-          created_at: new Date().toISOString(),
-        });
-
-        if (responderError) {
+        try {
+          await createResponderProfile(user.id, {
+            organization_name: organizationName.trim(),
+            responder_type: userType,
+            badge_number: badgeNumber.trim() || null,
+            organization_id: organizationId.trim() || null,
+          });
+        } catch (responderError: any) {
           console.error('Responder creation error:', responderError);
           if (responderError.message.includes('duplicate key value violates unique constraint')) {
             // Responder already exists, continue
@@ -126,7 +122,7 @@ export default function RegisterScreen() {
       } else {
         Alert.alert(
           'Registration Successful',
-          'Your account has been created. Please check your email for verification instructions. Your account will need to be verified by an administrator before you can access all features.',
+          'Your account has been created. Please check your email for verification instructions. Your account will need to be verified by an administrator before you can access all features. Once signed in, upload your credentials from Settings to speed up the review.',
           [
             {
               text: 'OK',
@@ -236,14 +232,32 @@ export default function RegisterScreen() {
             editable={!isLoading}
           />
         ) : (
-          <TextInput
-            style={styles.input}
-            placeholder={`${userType === 'police' ? 'Police Department' : 'Hospital'} Name`}
-            value={organizationName}
-            onChangeText={setOrganizationName}
-            placeholderTextColor='black'
-            editable={!isLoading}
-          />
+          <>
+            <TextInput
+              style={styles.input}
+              placeholder={`${userType === 'police' ? 'Police Department' : 'Hospital'} Name`}
+              value={organizationName}
+              onChangeText={setOrganizationName}
+              placeholderTextColor='black'
+              editable={!isLoading}
+            />
+            <TextInput
+              style={styles.input}
+              placeholder={userType === 'police' ? 'Badge Number' : 'Staff ID / License Number'}
+              value={badgeNumber}
+              onChangeText={setBadgeNumber}
+              placeholderTextColor='black'
+              editable={!isLoading}
+            />
+            <TextInput
+              style={styles.input}
+              placeholder="Organization ID"
+              value={organizationId}
+              onChangeText={setOrganizationId}
+              placeholderTextColor='black'
+              editable={!isLoading}
+            />
+          </>
         )}
 
         <TouchableOpacity 
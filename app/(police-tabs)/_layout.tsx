@@ -0,0 +1,5 @@
+import RoleTabs from '../../components/RoleTabs';
+
+export default function PoliceTabLayout() {
+  return <RoleTabs role="police" />;
+}
@@ -1,25 +1,44 @@
 import { useEffect } from 'react';
-import { Stack } from 'expo-router';
+import { Stack, useRouter } from 'expo-router';
 import { StatusBar } from 'expo-status-bar';
 import { useFrameworkReady } from '@/hooks/useFrameworkReady';
-import { useAuth } from '@/hooks/useAuth';
+import { RoleProvider } from '@/hooks/useRole';
+import { observeAlertNotificationTaps, setupNotifications } from '@/lib/notifications';
+import { getAlertRoute } from '@/lib/alerts';
+import { startAlertQueue } from '@/lib/alertQueue';
+// Registers the background location task before any screen can start it
+import '@/lib/tracking';
 
 export default function RootLayout() {
   useFrameworkReady();
-  const { session } = useAuth();
+  const router = useRouter();
 
   useEffect(() => {
     window.frameworkReady?.();
+    setupNotifications();
+    // Retries SOS alerts that couldn't be uploaded, even from a previous session
+    startAlertQueue();
+  }, []);
+
+  // Tapping an alert push opens that alert, even from a cold start
+  useEffect(() => {
+    return observeAlertNotificationTaps((alertId) => router.push(getAlertRoute(alertId)));
   }, []);
 
   return (
-    <>
+    <RoleProvider>
       <Stack screenOptions={{ headerShown: false }}>
         <Stack.Screen name="(auth)" />
         <Stack.Screen name="welcome" />
-        <Stack.Screen name="(tabs)" />
+        <Stack.Screen name="(civilian-tabs)" />
+        <Stack.Screen name="(police-tabs)" />
+        <Stack.Screen name="(hospital-tabs)" />
+        <Stack.Screen name="admin" />
+        <Stack.Screen name="alerts" />
+        <Stack.Screen name="medical-id" />
+        <Stack.Screen name="privacy" />
       </Stack>
       <StatusBar style="auto" />
-    </>
+    </RoleProvider>
   );
 }
\ No newline at end of file
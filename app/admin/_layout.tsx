@@ -0,0 +1,41 @@
+import { useEffect, useState } from 'react';
+import { Redirect, Stack } from 'expo-router';
+import { useRole } from '../../hooks/useRole';
+import { getRoleHome } from '../../lib/roles';
+import { isAdmin } from '../../lib/verification';
+
+export default function AdminLayout() {
+  const { role, userId, isLoading } = useRole();
+  const [allowed, setAllowed] = useState<boolean | null>(null);
+
+  useEffect(() => {
+    if (userId) {
+      isAdmin()
+        .then(setAllowed)
+        .catch((error) => {
+          console.error('Error checking admin access:', error);
+          setAllowed(false);
+        });
+    }
+  }, [userId]);
+
+  if (isLoading || (userId && allowed === null)) {
+    return null;
+  }
+
+  if (!userId) {
+    return <Redirect href="/login" />;
+  }
+
+  // The database enforces this too; the redirect just avoids empty screens
+  if (!allowed) {
+    return <Redirect href={role ? getRoleHome(role) : '/login'} />;
+  }
+
+  return (
+    <Stack screenOptions={{ headerTintColor: '#FF4444' }}>
+      <Stack.Screen name="index" options={{ title: 'Responder Verification' }} />
+      <Stack.Screen name="audit" options={{ title: 'Audit Log' }} />
+    </Stack>
+  );
+}
@@ -0,0 +1,140 @@
+import { useState, useEffect } from 'react';
+import { View, Text, StyleSheet, FlatList } from 'react-native';
+import { format } from 'date-fns';
+import { TriangleAlert as AlertTriangle } from 'lucide-react-native';
+import {
+  VerificationEvent,
+  getVerificationColor,
+  getVerificationEvents,
+  getVerificationLabel,
+} from '../../lib/verification';
+
+export default function AuditLogScreen() {
+  const [events, setEvents] = useState<VerificationEvent[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState('');
+
+  useEffect(() => {
+    loadEvents();
+  }, []);
+
+  const loadEvents = async () => {
+    setIsLoading(true);
+    try {
+      setEvents(await getVerificationEvents());
+      setError('');
+    } catch (err: any) {
+      console.error('Error loading audit log:', err);
+      setError(err.message);
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const renderEvent = ({ item }: { item: VerificationEvent }) => (
+    <View style={styles.event}>
+      <View style={styles.eventHeader}>
+        <Text style={styles.organization}>
+          {item.responder?.organization_name ?? 'Deleted responder'}
+        </Text>
+        <Text style={[styles.decision, { color: getVerificationColor(item.decision) }]}>
+          {item.decision}
+        </Text>
+      </View>
+      <Text style={styles.detailText}>
+        Was {getVerificationLabel(item.previous_state).toLowerCase()}
+      </Text>
+      {item.reason && <Text style={styles.reasonText}>{item.reason}</Text>}
+      <Text style={styles.timeText}>{format(new Date(item.created_at), 'MMM d, yyyy h:mm a')}</Text>
+    </View>
+  );
+
+  return (
+    <View style={styles.container}>
+      {error ? (
+        <View style={styles.errorContainer}>
+          <AlertTriangle color="#FF4444" size={20} />
+          <Text style={styles.errorText}>{error}</Text>
+        </View>
+      ) : null}
+
+      <FlatList
+        data={events}
+        renderItem={renderEvent}
+        keyExtractor={(item) => item.id}
+        contentContainerStyle={styles.list}
+        refreshing={isLoading}
+        onRefresh={loadEvents}
+        ListEmptyComponent={
+          !isLoading ? <Text style={styles.emptyText}>No decisions recorded yet.</Text> : null
+        }
+      />
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#fff',
+  },
+  errorContainer: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: 'rgba(255,68,68,0.1)',
+    padding: 16,
+    borderRadius: 12,
+    margin: 16,
+  },
+  errorText: {
+    color: '#FF4444',
+    marginLeft: 8,
+    fontSize: 14,
+    flex: 1,
+  },
+  list: {
+    padding: 16,
+    gap: 12,
+  },
+  emptyText: {
+    fontSize: 16,
+    color: '#666',
+    textAlign: 'center',
+    marginTop: 40,
+  },
+  event: {
+    backgroundColor: '#f8f9fa',
+    borderRadius: 8,
+    padding: 12,
+    gap: 4,
+  },
+  eventHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+  },
+  organization: {
+    fontSize: 15,
+    fontWeight: '600',
+    color: '#1a1a1a',
+    flex: 1,
+  },
+  decision: {
+    fontSize: 13,
+    fontWeight: '600',
+    textTransform: 'uppercase',
+  },
+  detailText: {
+    fontSize: 13,
+    color: '#666',
+  },
+  reasonText: {
+    fontSize: 14,
+    color: '#1a1a1a',
+    fontStyle: 'italic',
+  },
+  timeText: {
+    fontSize: 12,
+    color: '#999',
+  },
+});
@@ -0,0 +1,415 @@
+import { useState, useEffect } from 'react';
+import { View, Text, StyleSheet, FlatList, TouchableOpacity, Modal, TextInput } from 'react-native';
+import { useRouter } from 'expo-router';
+import * as WebBrowser from 'expo-web-browser';
+import { format } from 'date-fns';
+import { TriangleAlert as AlertTriangle, FileText, History } from 'lucide-react-native';
+import {
+  ResponderDocument,
+  ResponderForReview,
+  VerificationDecision,
+  VerificationState,
+  getAvailableDecisions,
+  getDocumentUrl,
+  getRespondersForReview,
+  getVerificationColor,
+  getVerificationLabel,
+  reviewResponder,
+} from '../../lib/verification';
+
+const STATES: VerificationState[] = ['pending', 'approved', 'rejected', 'revoked'];
+
+const DECISION_LABELS: Record<VerificationDecision, string> = {
+  approved: 'Approve',
+  rejected: 'Reject',
+  revoked: 'Revoke',
+};
+
+export default function AdminScreen() {
+  const [state, setState] = useState<VerificationState>('pending');
+  const [responders, setResponders] = useState<ResponderForReview[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState('');
+  const [pendingReview, setPendingReview] = useState<{
+    responder: ResponderForReview;
+    decision: VerificationDecision;
+  } | null>(null);
+  const [reason, setReason] = useState('');
+  const router = useRouter();
+
+  useEffect(() => {
+    loadResponders();
+  }, [state]);
+
+  const loadResponders = async () => {
+    setIsLoading(true);
+    try {
+      setResponders(await getRespondersForReview(state));
+      setError('');
+    } catch (err: any) {
+      console.error('Error loading responders:', err);
+      setError(err.message);
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const openDocument = async (document: ResponderDocument) => {
+    try {
+      await WebBrowser.openBrowserAsync(await getDocumentUrl(document.storage_path));
+    } catch (err: any) {
+      console.error('Error opening document:', err);
+      setError(err.message);
+    }
+  };
+
+  const startReview = (responder: ResponderForReview, decision: VerificationDecision) => {
+    setReason('');
+    setPendingReview({ responder, decision });
+  };
+
+  const handleReview = async () => {
+    if (!pendingReview) return;
+
+    try {
+      await reviewResponder(pendingReview.responder.id, pendingReview.decision, reason);
+      setPendingReview(null);
+      loadResponders();
+    } catch (err: any) {
+      console.error('Error reviewing responder:', err);
+      setError(err.message);
+      setPendingReview(null);
+    }
+  };
+
+  // Approvals can go through without a reason; rejections and revocations can't
+  const reasonRequired = pendingReview?.decision !== 'approved';
+
+  const renderResponder = ({ item }: { item: ResponderForReview }) => (
+    <View style={styles.card}>
+      <View style={styles.cardHeader}>
+        <Text style={styles.organization}>{item.organization_name}</Text>
+        <View style={[styles.badge, { backgroundColor: getVerificationColor(item.verification_state) }]}>
+          <Text style={styles.badgeText}>{getVerificationLabel(item.verification_state)}</Text>
+        </View>
+      </View>
+
+      <View style={styles.details}>
+        <Text style={styles.detailText}>Type: {item.responder_type}</Text>
+        <Text style={styles.detailText}>Jurisdiction: {item.jurisdiction || 'Not provided'}</Text>
+        <Text style={styles.detailText}>Badge number: {item.badge_number || 'Not provided'}</Text>
+        <Text style={styles.detailText}>Organization ID: {item.organization_id || 'Not provided'}</Text>
+        <Text style={styles.detailText}>
+          Registered {format(new Date(item.created_at), 'MMM d, yyyy')}
+        </Text>
+        {item.verification_reason && (
+          <Text style={styles.reasonText}>Last decision: {item.verification_reason}</Text>
+        )}
+      </View>
+
+      <View style={styles.documents}>
+        <Text style={styles.documentsTitle}>Documents</Text>
+        {item.responder_documents.length === 0 ? (
+          <Text style={styles.detailText}>No documents uploaded</Text>
+        ) : (
+          item.responder_documents.map((document) => (
+            <TouchableOpacity
+              key={document.id}
+              style={styles.documentRow}
+              onPress={() => openDocument(document)}>
+              <FileText size={16} color="#3366FF" />
+              <Text style={styles.documentName}>{document.file_name}</Text>
+            </TouchableOpacity>
+          ))
+        )}
+      </View>
+
+      <View style={styles.actions}>
+        {getAvailableDecisions(item.verification_state).map((decision) => (
+          <TouchableOpacity
+            key={decision}
+            style={[
+              styles.actionButton,
+              { backgroundColor: decision === 'approved' ? '#44B944' : '#FF4444' },
+            ]}
+            onPress={() => startReview(item, decision)}>
+            <Text style={styles.actionButtonText}>{DECISION_LABELS[decision]}</Text>
+          </TouchableOpacity>
+        ))}
+      </View>
+    </View>
+  );
+
+  return (
+    <View style={styles.container}>
+      <View style={styles.filters}>
+        {STATES.map((value) => (
+          <TouchableOpacity
+            key={value}
+            style={[styles.filterChip, state === value && styles.filterChipActive]}
+            onPress={() => setState(value)}>
+            <Text style={[styles.filterChipText, state === value && styles.filterChipTextActive]}>
+              {value}
+            </Text>
+          </TouchableOpacity>
+        ))}
+        <TouchableOpacity style={styles.auditLink} onPress={() => router.push('/admin/audit')}>
+          <History size={16} color="#FF4444" />
+          <Text style={styles.auditLinkText}>Audit log</Text>
+        </TouchableOpacity>
+      </View>
+
+      {error ? (
+        <View style={styles.errorContainer}>
+          <AlertTriangle color="#FF4444" size={20} />
+          <Text style={styles.errorText}>{error}</Text>
+        </View>
+      ) : null}
+
+      <FlatList
+        data={responders}
+        renderItem={renderResponder}
+        keyExtractor={(item) => item.id}
+        contentContainerStyle={styles.list}
+        refreshing={isLoading}
+        onRefresh={loadResponders}
+        ListEmptyComponent={
+          !isLoading ? <Text style={styles.emptyText}>No {state} responders.</Text> : null
+        }
+      />
+
+      <Modal
+        visible={pendingReview !== null}
+        transparent
+        animationType="fade"
+        onRequestClose={() => setPendingReview(null)}>
+        <View style={styles.overlay}>
+          <View style={styles.dialog}>
+            <Text style={styles.dialogTitle}>
+              {pendingReview
+                ? `${DECISION_LABELS[pendingReview.decision]} ${pendingReview.responder.organization_name}`
+                : ''}
+            </Text>
+            <Text style={styles.detailText}>
+              {reasonRequired
+                ? 'The reason is sent to the responder and kept in the audit log.'
+                : 'Add an optional note for the audit log.'}
+            </Text>
+            <TextInput
+              style={styles.input}
+              placeholder={reasonRequired ? 'Reason' : 'Note (optional)'}
+              value={reason}
+              onChangeText={setReason}
+              multiline
+            />
+            <View style={styles.actions}>
+              <TouchableOpacity
+                style={[styles.actionButton, styles.cancelButton]}
+                onPress={() => setPendingReview(null)}>
+                <Text style={styles.cancelButtonText}>Back</Text>
+              </TouchableOpacity>
+              <TouchableOpacity
+                style={[
+                  styles.actionButton,
+                  { backgroundColor: pendingReview?.decision === 'approved' ? '#44B944' : '#FF4444' },
+                  reasonRequired && !reason.trim() && styles.disabledButton,
+                ]}
+                onPress={handleReview}
+                disabled={reasonRequired && !reason.trim()}>
+                <Text style={styles.actionButtonText}>Confirm</Text>
+              </TouchableOpacity>
+            </View>
+          </View>
+        </View>
+      </Modal>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#fff',
+  },
+  filters: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    alignItems: 'center',
+    gap: 8,
+    padding: 16,
+  },
+  filterChip: {
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    borderRadius: 16,
+    backgroundColor: '#f1f1f1',
+  },
+  filterChipActive: {
+    backgroundColor: '#1a1a1a',
+  },
+  filterChipText: {
+    fontSize: 13,
+    fontWeight: '600',
+    color: '#666',
+    textTransform: 'capitalize',
+  },
+  filterChipTextActive: {
+    color: '#fff',
+  },
+  auditLink: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 4,
+    marginLeft: 'auto',
+  },
+  auditLinkText: {
+    color: '#FF4444',
+    fontSize: 14,
+    fontWeight: '600',
+  },
+  errorContainer: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: 'rgba(255,68,68,0.1)',
+    padding: 16,
+    borderRadius: 12,
+    marginHorizontal: 16,
+    marginBottom: 8,
+  },
+  errorText: {
+    color: '#FF4444',
+    marginLeft: 8,
+    fontSize: 14,
+    flex: 1,
+  },
+  list: {
+    padding: 16,
+    gap: 16,
+  },
+  emptyText: {
+    fontSize: 16,
+    color: '#666',
+    textAlign: 'center',
+    marginTop: 40,
+  },
+  card: {
+    backgroundColor: '#fff',
+    borderRadius: 12,
+    padding: 16,
+    shadowColor: '#000',
+    shadowOffset: { width: 0, height: 2 },
+    shadowOpacity: 0.1,
+    shadowRadius: 4,
+    elevation: 2,
+    gap: 12,
+  },
+  cardHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    gap: 8,
+  },
+  organization: {
+    fontSize: 18,
+    fontWeight: '600',
+    color: '#1a1a1a',
+    flex: 1,
+  },
+  badge: {
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    borderRadius: 16,
+  },
+  badgeText: {
+    color: '#fff',
+    fontSize: 12,
+    fontWeight: '500',
+    textTransform: 'uppercase',
+  },
+  details: {
+    gap: 4,
+  },
+  detailText: {
+    fontSize: 14,
+    color: '#666',
+  },
+  reasonText: {
+    fontSize: 14,
+    color: '#666',
+    fontStyle: 'italic',
+  },
+  documents: {
+    backgroundColor: '#f8f9fa',
+    padding: 12,
+    borderRadius: 8,
+    gap: 6,
+  },
+  documentsTitle: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#1a1a1a',
+  },
+  documentRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+  },
+  documentName: {
+    fontSize: 14,
+    color: '#3366FF',
+    flex: 1,
+  },
+  actions: {
+    flexDirection: 'row',
+    gap: 8,
+  },
+  actionButton: {
+    flex: 1,
+    padding: 12,
+    borderRadius: 8,
+    alignItems: 'center',
+  },
+  actionButtonText: {
+    color: '#fff',
+    fontSize: 14,
+    fontWeight: '600',
+  },
+  cancelButton: {
+    backgroundColor: '#f1f1f1',
+  },
+  cancelButtonText: {
+    color: '#666',
+    fontSize: 14,
+    fontWeight: '600',
+  },
+  disabledButton: {
+    opacity: 0.5,
+  },
+  overlay: {
+    flex: 1,
+    backgroundColor: 'rgba(0,0,0,0.4)',
+    justifyContent: 'center',
+    padding: 24,
+  },
+  dialog: {
+    backgroundColor: '#fff',
+    borderRadius: 12,
+    padding: 20,
+    gap: 12,
+  },
+  dialogTitle: {
+    fontSize: 18,
+    fontWeight: '600',
+    color: '#1a1a1a',
+  },
+  input: {
+    backgroundColor: '#fff',
+    borderWidth: 1,
+    borderColor: '#ddd',
+    borderRadius: 8,
+    padding: 12,
+    fontSize: 16,
+    minHeight: 80,
+    textAlignVertical: 'top',
+  },
+});
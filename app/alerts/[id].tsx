@@ -0,0 +1,442 @@
+import { useState, useEffect, useRef } from 'react';
+import { View, Text, StyleSheet, ScrollView, Linking, TouchableOpacity } from 'react-native';
+import { useLocalSearchParams } from 'expo-router';
+import { format } from 'date-fns';
+import { TriangleAlert as AlertTriangle, Clock, MapPin, User, Phone, PhoneOff, Users } from 'lucide-react-native';
+import { useRole } from '../../hooks/useRole';
+import { getAlertAddress } from '../../lib/geocoding';
+import { formatAccuracy, formatCoordinates } from '../../lib/location';
+import { resumeAlertTracking } from '../../lib/tracking';
+import {
+  AlertDetail,
+  AlertStatus,
+  claimAlert,
+  getAlertDetail,
+  getReporterTransitions,
+  getResponderTransitions,
+  getStatusColor,
+  getStatusLabel,
+  getTypeLabel,
+  isAlertOpen,
+  reassignAlert,
+  subscribeToAlert,
+  updateAlertStatus,
+} from '../../lib/alerts';
+import AlertsMap from '../../components/AlertsMap';
+import LocationTrail from '../../components/LocationTrail';
+import StatusActions from '../../components/StatusActions';
+import AssignmentPanel from '../../components/AssignmentPanel';
+import AlertChatButton from '../../components/AlertChatButton';
+import MedicalIdCard from '../../components/MedicalIdCard';
+import SilentAlertBanner from '../../components/SilentAlertBanner';
+import { hasMedicalInfo } from '../../lib/medicalId';
+import { getActorLabel } from '../../lib/responses';
+
+export default function AlertDetailScreen() {
+  const { id } = useLocalSearchParams<{ id: string }>();
+  const { role: userType, userId, isDispatcher } = useRole();
+  const [alert, setAlert] = useState<AlertDetail | null>(null);
+  const [address, setAddress] = useState('');
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState('');
+  // Read by the realtime callback so location updates reuse the reporter's details
+  const alertRef = useRef<AlertDetail | null>(null);
+
+  useEffect(() => {
+    if (!id) return;
+    loadAlert();
+    return subscribeToAlert(id, loadAlert);
+  }, [id]);
+
+  const loadAlert = async () => {
+    try {
+      const loaded = await getAlertDetail(id, alertRef.current);
+      alertRef.current = loaded;
+      setAlert(loaded);
+      setError('');
+    } catch (err: any) {
+      console.error('Error loading alert:', err);
+      setError(err.message);
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  // Stored by the server; only geocoded here when it hasn't been resolved yet
+  useEffect(() => {
+    if (!alert) return;
+    getAlertAddress(alert)
+      .then((stored) => setAddress(stored ?? formatCoordinates(alert.latitude, alert.longitude)))
+      .catch((geocodingError) => {
+        console.error('Geocoding error:', geocodingError);
+        setAddress(formatCoordinates(alert.latitude, alert.longitude));
+      });
+  }, [alert?.id, alert?.address_resolved_at]);
+
+  const handleStatusUpdate = async (status: AlertStatus, reason?: string) => {
+    try {
+      await updateAlertStatus(id, status, reason);
+      if (userType === 'civilian') {
+        // Stops sharing location once the tracked alert is withdrawn
+        await resumeAlertTracking();
+      }
+      loadAlert();
+    } catch (err: any) {
+      console.error('Error updating alert status:', err);
+      setError(err.message);
+    }
+  };
+
+  const handleClaim = async () => {
+    try {
+      await claimAlert(id);
+      loadAlert();
+    } catch (err: any) {
+      console.error('Error claiming alert:', err);
+      setError(err.message);
+    }
+  };
+
+  const handleReassign = async (responderId: string | null, reason?: string) => {
+    try {
+      await reassignAlert(id, responderId, reason);
+      loadAlert();
+    } catch (err: any) {
+      console.error('Error reassigning alert:', err);
+      setError(err.message);
+    }
+  };
+
+  if (isLoading) {
+    return (
+      <View style={styles.centered}>
+        <Text style={styles.mutedText}>Loading alert...</Text>
+      </View>
+    );
+  }
+
+  if (!alert) {
+    return (
+      <View style={styles.centered}>
+        <Text style={styles.mutedText}>
+          {error || 'This alert does not exist or is outside your service area.'}
+        </Text>
+      </View>
+    );
+  }
+
+  const isOpen = isAlertOpen(alert.status);
+  const isReporter = alert.user_id === userId;
+  // Another unit's alert is read-only unless we dispatch
+  const canAct = !alert.assignee || alert.assignee.id === userId || isDispatcher;
+  const reporter = alert.reporter;
+
+  return (
+    <ScrollView style={styles.container} contentContainerStyle={styles.content}>
+      {error ? (
+        <View style={styles.errorContainer}>
+          <AlertTriangle color="#FF4444" size={20} />
+          <Text style={styles.errorText}>{error}</Text>
+        </View>
+      ) : null}
+
+      <View style={styles.header}>
+        <Text style={styles.alertType}>{getTypeLabel(alert.type)}</Text>
+        <View style={[styles.statusBadge, { backgroundColor: getStatusColor(alert.status) }]}>
+          <Text style={styles.statusText}>{getStatusLabel(alert.status)}</Text>
+        </View>
+      </View>
+
+      {!isReporter && alert.silent && <SilentAlertBanner />}
+
+      {/* Medical alerts lead with what the crew needs before they arrive */}
+      {alert.type === 'medical' && !isReporter && reporter?.medical_id && hasMedicalInfo(reporter.medical_id) && (
+        <MedicalIdCard name={reporter.full_name} medicalId={reporter.medical_id} />
+      )}
+
+      <View style={styles.section}>
+        <View style={styles.infoRow}>
+          <Clock size={16} color="#666" />
+          <Text style={styles.infoText}>{format(new Date(alert.created_at), 'MMM d, yyyy h:mm a')}</Text>
+        </View>
+        <View style={styles.infoRow}>
+          <MapPin size={16} color="#666" />
+          <Text style={styles.infoText}>
+            {address || formatCoordinates(alert.latitude, alert.longitude)}
+            {formatAccuracy(alert.location_accuracy) ? ` (${formatAccuracy(alert.location_accuracy)})` : ''}
+          </Text>
+        </View>
+        {alert.location_stale && (
+          <View style={styles.staleLocation}>
+            <AlertTriangle size={16} color="#B26A00" />
+            <Text style={styles.staleLocationText}>
+              Location may be outdated
+              {alert.location_timestamp
+                ? ` (fix from ${format(new Date(alert.location_timestamp), 'h:mm a')})`
+                : ''}
+            </Text>
+          </View>
+        )}
+        {alert.description && <Text style={styles.description}>{alert.description}</Text>}
+      </View>
+
+      <View style={styles.map}>
+        <AlertsMap alerts={[alert]} selectedAlertId={alert.id} onSelectAlert={() => {}} />
+      </View>
+      <LocationTrail points={alert.alert_locations} maxPoints={20} />
+
+      {!isReporter && reporter && (
+        <View style={styles.card}>
+          <Text style={styles.cardTitle}>Reporter</Text>
+          <View style={styles.infoRow}>
+            <User size={16} color="#666" />
+            <Text style={styles.valueText}>{reporter.full_name || 'Name not set'}</Text>
+          </View>
+          {reporter.phone_number &&
+            (alert.silent ? (
+              // No tap-to-call: a ringing phone could give the reporter away
+              <View style={styles.infoRow}>
+                <PhoneOff size={16} color="#666" />
+                <Text style={styles.valueText}>{reporter.phone_number} (do not call)</Text>
+              </View>
+            ) : (
+              <TouchableOpacity
+                style={styles.infoRow}
+                onPress={() => Linking.openURL(`tel:${reporter.phone_number}`)}>
+                <Phone size={16} color="#3366FF" />
+                <Text style={styles.linkText}>{reporter.phone_number}</Text>
+              </TouchableOpacity>
+            ))}
+          {alert.type !== 'medical' && reporter.medical_id && hasMedicalInfo(reporter.medical_id) && (
+            <MedicalIdCard name={reporter.full_name} medicalId={reporter.medical_id} />
+          )}
+        </View>
+      )}
+
+      <View style={styles.card}>
+        <View style={styles.infoRow}>
+          <Users size={16} color="#1a1a1a" />
+          <Text style={styles.cardTitle}>Emergency Contacts</Text>
+        </View>
+        {alert.alert_contacts.length === 0 ? (
+          <Text style={styles.mutedText}>No contacts were on file when this alert was sent.</Text>
+        ) : (
+          alert.alert_contacts.map((contact) => (
+            <View key={contact.id} style={styles.contact}>
+              <Text style={styles.valueText}>
+                {contact.name}
+                {contact.relationship ? ` (${contact.relationship})` : ''}
+                {contact.is_primary ? ' · Primary' : ''}
+              </Text>
+              {contact.phone_number && (
+                <TouchableOpacity onPress={() => Linking.openURL(`tel:${contact.phone_number}`)}>
+                  <Text style={styles.linkText}>{contact.phone_number}</Text>
+                </TouchableOpacity>
+              )}
+              {contact.email && <Text style={styles.mutedText}>{contact.email}</Text>}
+            </View>
+          ))
+        )}
+      </View>
+
+      <AssignmentPanel
+        alertId={alert.id}
+        assignee={alert.assignee}
+        currentResponderId={userType === 'civilian' ? null : userId}
+        isDispatcher={isDispatcher}
+        // Civilians see who is handling their alert but can't change it
+        isOpen={userType !== 'civilian' && isOpen}
+        onClaim={handleClaim}
+        onReassign={handleReassign}
+      />
+
+      {isOpen &&
+        (userType === 'civilian' ? (
+          // Confirmed on the device so nobody can force the reporter to stand responders down
+          <StatusActions
+            transitions={isReporter ? getReporterTransitions(alert.status) : []}
+            onTransition={handleStatusUpdate}
+            confirmIdentity
+          />
+        ) : (
+          <StatusActions
+            transitions={canAct ? getResponderTransitions(alert.status) : []}
+            onTransition={handleStatusUpdate}
+          />
+        ))}
+
+      <AlertChatButton alertId={alert.id} title={getTypeLabel(alert.type)} isOpen={isOpen} />
+
+      <View style={styles.card}>
+        <Text style={styles.cardTitle}>Timeline</Text>
+        <View style={styles.timelineItem}>
+          <View style={[styles.timelineDot, { backgroundColor: getStatusColor('pending') }]} />
+          <View style={styles.timelineBody}>
+            <Text style={styles.valueText}>Alert sent</Text>
+            <Text style={styles.timelineMeta}>
+              {isReporter ? 'You' : reporter?.full_name || 'Reporter'} ·{' '}
+              {format(new Date(alert.created_at), 'MMM d, h:mm:ss a')}
+            </Text>
+          </View>
+        </View>
+        {alert.responses.map((response) => (
+          <View key={response.id} style={styles.timelineItem}>
+            <View
+              style={[
+                styles.timelineDot,
+                { backgroundColor: response.to_status ? getStatusColor(response.to_status) : '#666' },
+              ]}
+            />
+            <View style={styles.timelineBody}>
+              <Text style={styles.valueText}>{response.action_taken}</Text>
+              {response.reason && <Text style={styles.reasonText}>{response.reason}</Text>}
+              <Text style={styles.timelineMeta}>
+                {response.actor ? getActorLabel(response.actor) : 'System'}{' '}
+                · {format(new Date(response.created_at), 'MMM d, h:mm:ss a')}
+              </Text>
+            </View>
+          </View>
+        ))}
+      </View>
+    </ScrollView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#fff',
+  },
+  content: {
+    padding: 20,
+    gap: 16,
+  },
+  centered: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+    padding: 20,
+    backgroundColor: '#fff',
+  },
+  header: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+  },
+  alertType: {
+    fontSize: 22,
+    fontWeight: '600',
+    color: '#1a1a1a',
+  },
+  statusBadge: {
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    borderRadius: 16,
+  },
+  statusText: {
+    color: '#fff',
+    fontSize: 12,
+    fontWeight: '500',
+    textTransform: 'uppercase',
+  },
+  section: {
+    gap: 8,
+  },
+  infoRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+  },
+  infoText: {
+    fontSize: 14,
+    color: '#666',
+    flex: 1,
+  },
+  staleLocation: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+    backgroundColor: '#FFF4E0',
+    padding: 8,
+    borderRadius: 8,
+  },
+  staleLocationText: {
+    fontSize: 13,
+    color: '#B26A00',
+    flex: 1,
+  },
+  description: {
+    fontSize: 14,
+    color: '#1a1a1a',
+    fontStyle: 'italic',
+  },
+  map: {
+    height: 240,
+  },
+  card: {
+    backgroundColor: '#f8f9fa',
+    borderRadius: 12,
+    padding: 16,
+    gap: 8,
+  },
+  cardTitle: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#1a1a1a',
+  },
+  valueText: {
+    fontSize: 14,
+    color: '#1a1a1a',
+  },
+  mutedText: {
+    fontSize: 14,
+    color: '#666',
+  },
+  linkText: {
+    fontSize: 14,
+    color: '#3366FF',
+    fontWeight: '500',
+  },
+  contact: {
+    paddingVertical: 8,
+    borderTopWidth: 1,
+    borderTopColor: '#eee',
+    gap: 2,
+  },
+  timelineItem: {
+    flexDirection: 'row',
+    gap: 12,
+    paddingVertical: 6,
+  },
+  timelineDot: {
+    width: 10,
+    height: 10,
+    borderRadius: 5,
+    marginTop: 5,
+  },
+  timelineBody: {
+    flex: 1,
+    gap: 2,
+  },
+  reasonText: {
+    fontSize: 13,
+    color: '#666',
+    fontStyle: 'italic',
+  },
+  timelineMeta: {
+    fontSize: 12,
+    color: '#666',
+  },
+  errorContainer: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: '#FFE5E5',
+    padding: 12,
+    borderRadius: 8,
+  },
+  errorText: {
+    color: '#FF4444',
+    marginLeft: 8,
+    flex: 1,
+  },
+});
@@ -0,0 +1,21 @@
+import { Redirect, Stack } from 'expo-router';
+import { useRole } from '../../hooks/useRole';
+
+export default function AlertDetailLayout() {
+  const { userId, isLoading } = useRole();
+
+  if (isLoading) {
+    return null;
+  }
+
+  // Deep links can arrive before sign-in; RLS hides the alert anyway
+  if (!userId) {
+    return <Redirect href="/login" />;
+  }
+
+  return (
+    <Stack screenOptions={{ headerTintColor: '#FF4444' }}>
+      <Stack.Screen name="[id]" options={{ title: 'Alert Details' }} />
+    </Stack>
+  );
+}
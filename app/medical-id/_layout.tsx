@@ -0,0 +1,27 @@
+import { Redirect, Stack } from 'expo-router';
+import { useRole } from '../../hooks/useRole';
+import { getRoleHome } from '../../lib/roles';
+
+export default function MedicalIdLayout() {
+  const { role, userId, isLoading } = useRole();
+
+  if (isLoading) {
+    return null;
+  }
+
+  if (!userId) {
+    return <Redirect href="/login" />;
+  }
+
+  // Only civilians have a Medical ID; responders see it on alerts
+  if (role !== 'civilian') {
+    return <Redirect href={role ? getRoleHome(role) : '/login'} />;
+  }
+
+  return (
+    <Stack screenOptions={{ headerTintColor: '#FF4444' }}>
+      <Stack.Screen name="index" options={{ title: 'Medical ID' }} />
+      <Stack.Screen name="card" options={{ title: 'Lock Screen Card' }} />
+    </Stack>
+  );
+}
@@ -0,0 +1,164 @@
+import { useState, useEffect, useRef } from 'react';
+import { View, Text, StyleSheet, ScrollView, TouchableOpacity } from 'react-native';
+import { TriangleAlert as AlertTriangle, Share2 } from 'lucide-react-native';
+import { useRole } from '../../hooks/useRole';
+import { EMPTY_MEDICAL_ID, MedicalId, getMedicalId, shareMedicalIdCard } from '../../lib/medicalId';
+import { getCivilianName } from '../../lib/profiles';
+import { getPrimaryContact } from '../../lib/contacts';
+import MedicalIdCard from '../../components/MedicalIdCard';
+
+type EmergencyContact = { name: string; phone_number: string | null };
+
+export default function MedicalIdCardScreen() {
+  const { userId } = useRole();
+  const [medicalId, setMedicalId] = useState<MedicalId>(EMPTY_MEDICAL_ID);
+  const [name, setName] = useState<string | null>(null);
+  const [contact, setContact] = useState<EmergencyContact | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isSharing, setIsSharing] = useState(false);
+  const [error, setError] = useState('');
+  // The captured area, sized like a phone screen so it fits as a wallpaper
+  const cardRef = useRef<View>(null);
+
+  useEffect(() => {
+    if (userId) {
+      loadCard(userId);
+    }
+  }, [userId]);
+
+  const loadCard = async (id: string) => {
+    try {
+      const [medical, fullName, primary] = await Promise.all([
+        getMedicalId(id),
+        getCivilianName(id),
+        getPrimaryContact(),
+      ]);
+
+      setMedicalId(medical);
+      setName(fullName);
+      setContact(primary);
+      setError('');
+    } catch (err: any) {
+      console.error('Error loading medical ID card:', err);
+      setError(err.message);
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const handleShare = async () => {
+    if (!cardRef.current) return;
+
+    setIsSharing(true);
+    try {
+      await shareMedicalIdCard(cardRef.current);
+      setError('');
+    } catch (err: any) {
+      console.error('Error exporting medical ID card:', err);
+      setError(err.message);
+    } finally {
+      setIsSharing(false);
+    }
+  };
+
+  if (isLoading) {
+    return (
+      <View style={[styles.container, styles.centered]}>
+        <Text>Loading...</Text>
+      </View>
+    );
+  }
+
+  return (
+    <ScrollView style={styles.container} contentContainerStyle={styles.content}>
+      <Text style={styles.hintText}>
+        Save this image and set it as your lock-screen wallpaper so first responders can read it without
+        unlocking your phone.
+      </Text>
+
+      <View ref={cardRef} collapsable={false} style={styles.lockScreen}>
+        <Text style={styles.lockScreenHint}>In case of emergency</Text>
+        <MedicalIdCard name={name} medicalId={medicalId} emergencyContact={contact} />
+      </View>
+
+      {error ? (
+        <View style={styles.errorContainer}>
+          <AlertTriangle color="#FF4444" size={20} />
+          <Text style={styles.errorText}>{error}</Text>
+        </View>
+      ) : null}
+
+      <TouchableOpacity
+        style={[styles.button, isSharing && styles.disabledButton]}
+        onPress={handleShare}
+        disabled={isSharing}>
+        <Share2 size={20} color="#fff" />
+        <Text style={styles.buttonText}>{isSharing ? 'Exporting...' : 'Save or Share Image'}</Text>
+      </TouchableOpacity>
+    </ScrollView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#fff',
+  },
+  centered: {
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  content: {
+    padding: 20,
+    gap: 16,
+  },
+  hintText: {
+    fontSize: 14,
+    color: '#666',
+  },
+  lockScreen: {
+    aspectRatio: 9 / 19.5,
+    backgroundColor: '#000',
+    borderRadius: 24,
+    padding: 16,
+    // The top of a lock screen is taken by the clock
+    justifyContent: 'flex-end',
+    gap: 12,
+  },
+  lockScreenHint: {
+    color: '#FF4444',
+    fontSize: 14,
+    fontWeight: '600',
+    textAlign: 'center',
+    textTransform: 'uppercase',
+  },
+  button: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    backgroundColor: '#FF4444',
+    padding: 16,
+    borderRadius: 8,
+    gap: 8,
+  },
+  disabledButton: {
+    opacity: 0.5,
+  },
+  buttonText: {
+    color: '#fff',
+    fontSize: 16,
+    fontWeight: '600',
+  },
+  errorContainer: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: '#FFE5E5',
+    padding: 12,
+    borderRadius: 8,
+  },
+  errorText: {
+    color: '#FF4444',
+    marginLeft: 8,
+    flex: 1,
+  },
+});
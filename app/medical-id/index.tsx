@@ -0,0 +1,446 @@
+import { useState, useEffect } from 'react';
+import { View, Text, StyleSheet, ScrollView, TextInput, TouchableOpacity } from 'react-native';
+import { useRouter } from 'expo-router';
+import { TriangleAlert as AlertTriangle, Plus, Trash2, Smartphone } from 'lucide-react-native';
+import { useRole } from '../../hooks/useRole';
+import {
+  ALLERGY_SEVERITIES,
+  BLOOD_TYPES,
+  EMPTY_MEDICAL_ID,
+  MedicalId,
+  getMedicalId,
+  getSeverityColor,
+  getSeverityLabel,
+  saveMedicalId,
+  validateMedicalId,
+} from '../../lib/medicalId';
+
+type ListKey = 'allergies' | 'medications' | 'conditions' | 'implanted_devices';
+
+const NEW_ENTRIES = {
+  allergies: { substance: '', severity: 'moderate', reaction: '' },
+  medications: { name: '', dosage: '', frequency: '' },
+  conditions: { name: '', notes: '' },
+  implanted_devices: { name: '', notes: '' },
+} as const;
+
+export default function MedicalIdScreen() {
+  const { userId } = useRole();
+  const [medicalId, setMedicalId] = useState<MedicalId>(EMPTY_MEDICAL_ID);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState('');
+  const [saved, setSaved] = useState(false);
+  const router = useRouter();
+
+  useEffect(() => {
+    if (userId) {
+      loadMedicalId(userId);
+    }
+  }, [userId]);
+
+  const loadMedicalId = async (id: string) => {
+    try {
+      setMedicalId(await getMedicalId(id));
+      setError('');
+    } catch (err: any) {
+      console.error('Error loading medical ID:', err);
+      setError(err.message);
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const update = (changes: Partial<MedicalId>) => {
+    setMedicalId((current) => ({ ...current, ...changes }));
+    setSaved(false);
+  };
+
+  const addEntry = (key: ListKey) => {
+    update({ [key]: [...medicalId[key], { ...NEW_ENTRIES[key] }] });
+  };
+
+  const updateEntry = (key: ListKey, index: number, changes: object) => {
+    update({
+      [key]: medicalId[key].map((entry, i) => (i === index ? { ...entry, ...changes } : entry)),
+    });
+  };
+
+  const removeEntry = (key: ListKey, index: number) => {
+    update({ [key]: medicalId[key].filter((_, i) => i !== index) });
+  };
+
+  const handleSave = async () => {
+    if (!userId) return;
+
+    const problem = validateMedicalId(medicalId);
+    if (problem) {
+      setError(problem);
+      return;
+    }
+
+    setIsSaving(true);
+    try {
+      await saveMedicalId(userId, medicalId);
+      setError('');
+      setSaved(true);
+    } catch (err: any) {
+      console.error('Error saving medical ID:', err);
+      setError(err.message);
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const renderAddButton = (key: ListKey, label: string) => (
+    <TouchableOpacity style={styles.addButton} onPress={() => addEntry(key)}>
+      <Plus size={18} color="#FF4444" />
+      <Text style={styles.addButtonText}>{label}</Text>
+    </TouchableOpacity>
+  );
+
+  const renderRemoveButton = (key: ListKey, index: number) => (
+    <TouchableOpacity style={styles.removeButton} onPress={() => removeEntry(key, index)}>
+      <Trash2 size={18} color="#FF4444" />
+    </TouchableOpacity>
+  );
+
+  if (isLoading) {
+    return (
+      <View style={[styles.container, styles.centered]}>
+        <Text>Loading...</Text>
+      </View>
+    );
+  }
+
+  return (
+    <ScrollView style={styles.container} contentContainerStyle={styles.content}>
+      <Text style={styles.hintText}>
+        Responders see your Medical ID when you send an alert. Keep it up to date.
+      </Text>
+
+      <View style={styles.section}>
+        <Text style={styles.sectionTitle}>Blood Type</Text>
+        <View style={styles.chips}>
+          {BLOOD_TYPES.map((bloodType) => (
+            <TouchableOpacity
+              key={bloodType}
+              style={[styles.chip, medicalId.blood_type === bloodType && styles.chipActive]}
+              onPress={() => update({ blood_type: medicalId.blood_type === bloodType ? null : bloodType })}>
+              <Text style={[styles.chipText, medicalId.blood_type === bloodType && styles.chipTextActive]}>
+                {bloodType}
+              </Text>
+            </TouchableOpacity>
+          ))}
+        </View>
+      </View>
+
+      <View style={styles.section}>
+        <Text style={styles.sectionTitle}>Allergies</Text>
+        {medicalId.allergies.map((allergy, index) => (
+          <View key={index} style={styles.entry}>
+            <View style={styles.entryRow}>
+              <TextInput
+                style={[styles.input, styles.entryInput]}
+                placeholder="Substance (e.g. Penicillin)"
+                value={allergy.substance}
+                onChangeText={(text) => updateEntry('allergies', index, { substance: text })}
+              />
+              {renderRemoveButton('allergies', index)}
+            </View>
+            <TextInput
+              style={styles.input}
+              placeholder="Reaction (optional)"
+              value={allergy.reaction ?? ''}
+              onChangeText={(text) => updateEntry('allergies', index, { reaction: text })}
+            />
+            <View style={styles.chips}>
+              {ALLERGY_SEVERITIES.map((severity) => {
+                const isSelected = allergy.severity === severity;
+                return (
+                  <TouchableOpacity
+                    key={severity}
+                    style={[
+                      styles.chip,
+                      isSelected && { backgroundColor: getSeverityColor(severity), borderColor: getSeverityColor(severity) },
+                    ]}
+                    onPress={() => updateEntry('allergies', index, { severity })}>
+                    <Text style={[styles.chipText, isSelected && styles.chipTextActive]}>
+                      {getSeverityLabel(severity)}
+                    </Text>
+                  </TouchableOpacity>
+                );
+              })}
+            </View>
+          </View>
+        ))}
+        {renderAddButton('allergies', 'Add Allergy')}
+      </View>
+
+      <View style={styles.section}>
+        <Text style={styles.sectionTitle}>Medications</Text>
+        {medicalId.medications.map((medication, index) => (
+          <View key={index} style={styles.entry}>
+            <View style={styles.entryRow}>
+              <TextInput
+                style={[styles.input, styles.entryInput]}
+                placeholder="Medication"
+                value={medication.name}
+                onChangeText={(text) => updateEntry('medications', index, { name: text })}
+              />
+              {renderRemoveButton('medications', index)}
+            </View>
+            <TextInput
+              style={styles.input}
+              placeholder="Dosage (e.g. 10 mg)"
+              value={medication.dosage}
+              onChangeText={(text) => updateEntry('medications', index, { dosage: text })}
+            />
+            <TextInput
+              style={styles.input}
+              placeholder="How often (optional)"
+              value={medication.frequency ?? ''}
+              onChangeText={(text) => updateEntry('medications', index, { frequency: text })}
+            />
+          </View>
+        ))}
+        {renderAddButton('medications', 'Add Medication')}
+      </View>
+
+      <View style={styles.section}>
+        <Text style={styles.sectionTitle}>Conditions</Text>
+        {medicalId.conditions.map((condition, index) => (
+          <View key={index} style={styles.entry}>
+            <View style={styles.entryRow}>
+              <TextInput
+                style={[styles.input, styles.entryInput]}
+                placeholder="Condition (e.g. Type 1 diabetes)"
+                value={condition.name}
+                onChangeText={(text) => updateEntry('conditions', index, { name: text })}
+              />
+              {renderRemoveButton('conditions', index)}
+            </View>
+            <TextInput
+              style={styles.input}
+              placeholder="Notes (optional)"
+              value={condition.notes ?? ''}
+              onChangeText={(text) => updateEntry('conditions', index, { notes: text })}
+            />
+          </View>
+        ))}
+        {renderAddButton('conditions', 'Add Condition')}
+      </View>
+
+      <View style={styles.section}>
+        <Text style={styles.sectionTitle}>Implanted Devices</Text>
+        {medicalId.implanted_devices.map((device, index) => (
+          <View key={index} style={styles.entry}>
+            <View style={styles.entryRow}>
+              <TextInput
+                style={[styles.input, styles.entryInput]}
+                placeholder="Device (e.g. Pacemaker)"
+                value={device.name}
+                onChangeText={(text) => updateEntry('implanted_devices', index, { name: text })}
+              />
+              {renderRemoveButton('implanted_devices', index)}
+            </View>
+            <TextInput
+              style={styles.input}
+              placeholder="Notes (optional)"
+              value={device.notes ?? ''}
+              onChangeText={(text) => updateEntry('implanted_devices', index, { notes: text })}
+            />
+          </View>
+        ))}
+        {renderAddButton('implanted_devices', 'Add Device')}
+      </View>
+
+      <View style={styles.section}>
+        <Text style={styles.sectionTitle}>Organ Donor</Text>
+        <View style={styles.chips}>
+          {([true, false, null] as const).map((value) => (
+            <TouchableOpacity
+              key={String(value)}
+              style={[styles.chip, medicalId.organ_donor === value && styles.chipActive]}
+              onPress={() => update({ organ_donor: value })}>
+              <Text style={[styles.chipText, medicalId.organ_donor === value && styles.chipTextActive]}>
+                {value === null ? 'Not specified' : value ? 'Yes' : 'No'}
+              </Text>
+            </TouchableOpacity>
+          ))}
+        </View>
+      </View>
+
+      <View style={styles.section}>
+        <Text style={styles.sectionTitle}>Physician</Text>
+        <TextInput
+          style={styles.input}
+          placeholder="Name"
+          value={medicalId.physician_name ?? ''}
+          onChangeText={(text) => update({ physician_name: text })}
+        />
+        <TextInput
+          style={styles.input}
+          placeholder="Phone Number"
+          keyboardType="phone-pad"
+          value={medicalId.physician_phone ?? ''}
+          onChangeText={(text) => update({ physician_phone: text })}
+        />
+      </View>
+
+      {error ? (
+        <View style={styles.errorContainer}>
+          <AlertTriangle color="#FF4444" size={20} />
+          <Text style={styles.errorText}>{error}</Text>
+        </View>
+      ) : null}
+
+      <TouchableOpacity
+        style={[styles.button, styles.saveButton, isSaving && styles.disabledButton]}
+        onPress={handleSave}
+        disabled={isSaving}>
+        <Text style={[styles.buttonText, styles.saveButtonText]}>
+          {isSaving ? 'Saving...' : saved ? 'Saved' : 'Save Medical ID'}
+        </Text>
+      </TouchableOpacity>
+
+      <TouchableOpacity
+        style={[styles.button, styles.cardButton]}
+        onPress={() => router.push('/medical-id/card')}>
+        <Smartphone size={20} color="#FF4444" />
+        <Text style={[styles.buttonText, styles.cardButtonText]}>Lock Screen Card</Text>
+      </TouchableOpacity>
+    </ScrollView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#fff',
+  },
+  centered: {
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  content: {
+    padding: 20,
+    gap: 16,
+  },
+  hintText: {
+    fontSize: 14,
+    color: '#666',
+  },
+  section: {
+    backgroundColor: '#f8f9fa',
+    borderRadius: 12,
+    padding: 16,
+    gap: 12,
+  },
+  sectionTitle: {
+    fontSize: 18,
+    fontWeight: '600',
+    color: '#1a1a1a',
+  },
+  chips: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+  },
+  chip: {
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    borderRadius: 16,
+    borderWidth: 1,
+    borderColor: '#ddd',
+    backgroundColor: '#fff',
+  },
+  chipActive: {
+    backgroundColor: '#FF4444',
+    borderColor: '#FF4444',
+  },
+  chipText: {
+    fontSize: 14,
+    color: '#666',
+  },
+  chipTextActive: {
+    color: '#fff',
+    fontWeight: '600',
+  },
+  entry: {
+    gap: 8,
+    paddingBottom: 12,
+    borderBottomWidth: 1,
+    borderBottomColor: '#eee',
+  },
+  entryRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+  },
+  entryInput: {
+    flex: 1,
+  },
+  input: {
+    backgroundColor: '#fff',
+    borderWidth: 1,
+    borderColor: '#ddd',
+    borderRadius: 8,
+    padding: 12,
+    fontSize: 16,
+  },
+  removeButton: {
+    padding: 8,
+  },
+  addButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+  },
+  addButtonText: {
+    color: '#FF4444',
+    fontSize: 16,
+    fontWeight: '600',
+  },
+  button: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    padding: 16,
+    borderRadius: 8,
+    gap: 8,
+  },
+  saveButton: {
+    backgroundColor: '#FF4444',
+  },
+  cardButton: {
+    backgroundColor: '#fff',
+    borderWidth: 1,
+    borderColor: '#FF4444',
+  },
+  disabledButton: {
+    opacity: 0.5,
+  },
+  buttonText: {
+    fontSize: 16,
+    fontWeight: '600',
+  },
+  saveButtonText: {
+    color: '#fff',
+  },
+  cardButtonText: {
+    color: '#FF4444',
+  },
+  errorContainer: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: '#FFE5E5',
+    padding: 12,
+    borderRadius: 8,
+  },
+  errorText: {
+    color: '#FF4444',
+    marginLeft: 8,
+    flex: 1,
+  },
+});
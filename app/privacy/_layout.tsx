@@ -0,0 +1,26 @@
+import { Redirect, Stack } from 'expo-router';
+import { useRole } from '../../hooks/useRole';
+import { getRoleHome } from '../../lib/roles';
+
+export default function PrivacyLayout() {
+  const { role, userId, isLoading } = useRole();
+
+  if (isLoading) {
+    return null;
+  }
+
+  if (!userId) {
+    return <Redirect href="/login" />;
+  }
+
+  // The access log is about the civilian's own details
+  if (role !== 'civilian') {
+    return <Redirect href={role ? getRoleHome(role) : '/login'} />;
+  }
+
+  return (
+    <Stack screenOptions={{ headerTintColor: '#FF4444' }}>
+      <Stack.Screen name="index" options={{ title: 'Who Viewed My Details' }} />
+    </Stack>
+  );
+}
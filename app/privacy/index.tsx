@@ -0,0 +1,148 @@
+import { useState, useEffect } from 'react';
+import { View, Text, StyleSheet, FlatList, TouchableOpacity } from 'react-native';
+import { useRouter } from 'expo-router';
+import { format } from 'date-fns';
+import { TriangleAlert as AlertTriangle } from 'lucide-react-native';
+import { getAlertRoute } from '../../lib/alerts';
+import {
+  REPORTER_ACCESS_WINDOW_HOURS,
+  ReporterAccessEvent,
+  describeAccessedFields,
+  getReporterAccessEvents,
+} from '../../lib/reporterAccess';
+
+export default function AccessLogScreen() {
+  const [events, setEvents] = useState<ReporterAccessEvent[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState('');
+  const router = useRouter();
+
+  useEffect(() => {
+    loadEvents();
+  }, []);
+
+  const loadEvents = async () => {
+    setIsLoading(true);
+    try {
+      setEvents(await getReporterAccessEvents());
+      setError('');
+    } catch (err: any) {
+      console.error('Error loading access log:', err);
+      setError(err.message);
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const renderEvent = ({ item }: { item: ReporterAccessEvent }) => (
+    <TouchableOpacity
+      style={styles.event}
+      disabled={!item.alert_id}
+      onPress={() => item.alert_id && router.push(getAlertRoute(item.alert_id))}>
+      <View style={styles.eventHeader}>
+        <Text style={styles.organization}>{item.organization_name}</Text>
+        <Text style={styles.responderType}>{item.responder_type}</Text>
+      </View>
+      <Text style={styles.detailText}>Viewed your {describeAccessedFields(item.fields)}</Text>
+      {item.created_at && (
+        <Text style={styles.timeText}>{format(new Date(item.created_at), 'MMM d, yyyy h:mm a')}</Text>
+      )}
+    </TouchableOpacity>
+  );
+
+  return (
+    <View style={styles.container}>
+      {error ? (
+        <View style={styles.errorContainer}>
+          <AlertTriangle color="#FF4444" size={20} />
+          <Text style={styles.errorText}>{error}</Text>
+        </View>
+      ) : null}
+
+      <FlatList
+        data={events}
+        renderItem={renderEvent}
+        keyExtractor={(item) => item.id}
+        contentContainerStyle={styles.list}
+        refreshing={isLoading}
+        onRefresh={loadEvents}
+        ListHeaderComponent={
+          <Text style={styles.hintText}>
+            Responders see your details only while your alert is open and they are assigned to it or
+            nearby, and the assigned responder for {REPORTER_ACCESS_WINDOW_HOURS} hours after it
+            closes. Every view is listed here.
+          </Text>
+        }
+        ListEmptyComponent={
+          !isLoading ? <Text style={styles.emptyText}>No responder has viewed your details.</Text> : null
+        }
+      />
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#fff',
+  },
+  errorContainer: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: 'rgba(255,68,68,0.1)',
+    padding: 16,
+    borderRadius: 12,
+    margin: 16,
+  },
+  errorText: {
+    color: '#FF4444',
+    marginLeft: 8,
+    fontSize: 14,
+    flex: 1,
+  },
+  list: {
+    padding: 16,
+    gap: 12,
+  },
+  hintText: {
+    fontSize: 14,
+    color: '#666',
+  },
+  emptyText: {
+    fontSize: 16,
+    color: '#666',
+    textAlign: 'center',
+    marginTop: 40,
+  },
+  event: {
+    backgroundColor: '#f8f9fa',
+    borderRadius: 8,
+    padding: 12,
+    gap: 4,
+  },
+  eventHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+  },
+  organization: {
+    fontSize: 15,
+    fontWeight: '600',
+    color: '#1a1a1a',
+    flex: 1,
+  },
+  responderType: {
+    fontSize: 13,
+    fontWeight: '600',
+    color: '#666',
+    textTransform: 'uppercase',
+  },
+  detailText: {
+    fontSize: 13,
+    color: '#666',
+  },
+  timeText: {
+    fontSize: 12,
+    color: '#999',
+  },
+});
@@ -5,6 +5,9 @@ import { BlurView } from 'expo-blur';
 import { LinearGradient } from 'expo-linear-gradient';
 import { Shield, Bell, Users, MapPin } from 'lucide-react-native';
 import { supabase } from '../lib/supabase';
+import { useRole } from '../hooks/useRole';
+import { getRoleHome } from '../lib/roles';
+import { getCivilianName } from '../lib/profiles';
 
 const WELCOME_STEPS = [
   {
@@ -24,6 +27,7 @@ const WELCOME_STEPS = [
 export default function WelcomeScreen() {
   const [step, setStep] = useState(0);
   const [userName, setUserName] = useState('');
+  const { role } = useRole();
   const router = useRouter();
 
   useEffect(() => {
@@ -34,14 +38,9 @@ export default function WelcomeScreen() {
     try {
       const { data: { user } } = await supabase.auth.getUser();
       if (user) {
-        const { data } = await supabase
-          .from('users')
-          .select('full_name')
-          .eq('id', user.id)
-          .single();
-        
-        if (data?.full_name) {
-          setUserName(data.full_name);
+        const name = await getCivilianName(user.id);
+        if (name) {
+          setUserName(name);
         }
       }
     } catch (error) {
@@ -53,7 +52,7 @@ export default function WelcomeScreen() {
     if (step < WELCOME_STEPS.length - 1) {
       setStep(step + 1);
     } else {
-      router.replace('/(tabs)');
+      router.replace(role ? getRoleHome(role) : '/login');
     }
   };
 
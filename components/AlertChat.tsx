@@ -0,0 +1,295 @@
+import { useEffect, useRef, useState } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  FlatList,
+  TextInput,
+  TouchableOpacity,
+  ScrollView,
+  Image,
+  KeyboardAvoidingView,
+  Platform,
+} from 'react-native';
+import { format } from 'date-fns';
+import { Camera, Send, CheckCheck, Check } from 'lucide-react-native';
+import { useRole } from '../hooks/useRole';
+import {
+  AlertMessage,
+  REPORTER_QUICK_REPLIES,
+  RESPONDER_QUICK_REPLIES,
+  getAlertMessages,
+  markAlertMessagesRead,
+  sendAlertMessage,
+  sendAlertPhoto,
+  subscribeToAlertMessages,
+} from '../lib/chat';
+
+type Props = {
+  alertId: string;
+  // Closed alerts keep their history but take no new messages
+  isOpen: boolean;
+};
+
+export default function AlertChat({ alertId, isOpen }: Props) {
+  const { role, userId } = useRole();
+  const [messages, setMessages] = useState<AlertMessage[]>([]);
+  const [draft, setDraft] = useState('');
+  const [isSending, setIsSending] = useState(false);
+  const [error, setError] = useState('');
+  const listRef = useRef<FlatList<AlertMessage>>(null);
+
+  const quickReplies = role === 'civilian' ? REPORTER_QUICK_REPLIES : RESPONDER_QUICK_REPLIES;
+
+  useEffect(() => {
+    loadMessages();
+    return subscribeToAlertMessages(alertId, loadMessages);
+  }, [alertId]);
+
+  const loadMessages = async () => {
+    try {
+      setMessages(await getAlertMessages(alertId));
+      await markAlertMessagesRead(alertId);
+    } catch (err: any) {
+      console.error('Error loading messages:', err);
+      setError(err.message);
+    }
+  };
+
+  const send = async (body: string) => {
+    if (!body.trim()) return;
+
+    setIsSending(true);
+    try {
+      await sendAlertMessage(alertId, body);
+      setDraft('');
+      setError('');
+      loadMessages();
+    } catch (err: any) {
+      console.error('Error sending message:', err);
+      setError(err.message);
+    } finally {
+      setIsSending(false);
+    }
+  };
+
+  const sendPhoto = async () => {
+    setIsSending(true);
+    try {
+      if (await sendAlertPhoto(alertId)) {
+        setError('');
+        loadMessages();
+      }
+    } catch (err: any) {
+      console.error('Error sending photo:', err);
+      setError(err.message);
+    } finally {
+      setIsSending(false);
+    }
+  };
+
+  const renderMessage = ({ item }: { item: AlertMessage }) => {
+    const isMine = item.sender_id === userId;
+    const isRead = item.alert_message_reads.length > 0;
+
+    return (
+      <View style={[styles.message, isMine ? styles.myMessage : styles.theirMessage]}>
+        {!isMine && <Text style={styles.senderName}>{item.sender?.name ?? 'Unknown'}</Text>}
+        {item.attachment_url && (
+          <Image source={{ uri: item.attachment_url }} style={styles.photo} resizeMode="cover" />
+        )}
+        {item.body && (
+          <Text style={[styles.body, isMine && styles.myBody]}>{item.body}</Text>
+        )}
+        <View style={styles.meta}>
+          <Text style={[styles.time, isMine && styles.myTime]}>
+            {format(new Date(item.created_at), 'h:mm a')}
+          </Text>
+          {isMine &&
+            (isRead ? <CheckCheck size={14} color="#fff" /> : <Check size={14} color="rgba(255,255,255,0.7)" />)}
+        </View>
+      </View>
+    );
+  };
+
+  return (
+    <KeyboardAvoidingView
+      style={styles.container}
+      behavior={Platform.OS === 'ios' ? 'padding' : undefined}>
+      <FlatList
+        ref={listRef}
+        data={messages}
+        renderItem={renderMessage}
+        keyExtractor={(item) => item.id}
+        contentContainerStyle={styles.list}
+        onContentSizeChange={() => listRef.current?.scrollToEnd({ animated: false })}
+        ListEmptyComponent={
+          <Text style={styles.emptyText}>
+            No messages yet. Messages here are seen by the reporter and responders on this alert.
+          </Text>
+        }
+      />
+
+      {error ? <Text style={styles.errorText}>{error}</Text> : null}
+
+      {isOpen ? (
+        <>
+          <ScrollView
+            horizontal
+            showsHorizontalScrollIndicator={false}
+            contentContainerStyle={styles.quickReplies}>
+            {quickReplies.map((reply) => (
+              <TouchableOpacity
+                key={reply}
+                style={styles.quickReply}
+                onPress={() => send(reply)}
+                disabled={isSending}>
+                <Text style={styles.quickReplyText}>{reply}</Text>
+              </TouchableOpacity>
+            ))}
+          </ScrollView>
+
+          <View style={styles.composer}>
+            <TouchableOpacity style={styles.iconButton} onPress={sendPhoto} disabled={isSending}>
+              <Camera size={22} color="#666" />
+            </TouchableOpacity>
+            <TextInput
+              style={styles.input}
+              placeholder="Message"
+              value={draft}
+              onChangeText={setDraft}
+              multiline
+            />
+            <TouchableOpacity
+              style={[styles.sendButton, (!draft.trim() || isSending) && styles.disabledButton]}
+              onPress={() => send(draft)}
+              disabled={!draft.trim() || isSending}>
+              <Send size={18} color="#fff" />
+            </TouchableOpacity>
+          </View>
+        </>
+      ) : (
+        <Text style={styles.closedText}>This alert is closed.</Text>
+      )}
+    </KeyboardAvoidingView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  list: {
+    padding: 16,
+    gap: 8,
+    flexGrow: 1,
+  },
+  emptyText: {
+    fontSize: 14,
+    color: '#666',
+    textAlign: 'center',
+    marginTop: 40,
+  },
+  message: {
+    maxWidth: '80%',
+    borderRadius: 12,
+    padding: 10,
+    gap: 4,
+  },
+  myMessage: {
+    alignSelf: 'flex-end',
+    backgroundColor: '#FF4444',
+  },
+  theirMessage: {
+    alignSelf: 'flex-start',
+    backgroundColor: '#f1f3f5',
+  },
+  senderName: {
+    fontSize: 12,
+    fontWeight: '600',
+    color: '#666',
+  },
+  photo: {
+    width: 200,
+    height: 200,
+    borderRadius: 8,
+  },
+  body: {
+    fontSize: 15,
+    color: '#1a1a1a',
+  },
+  myBody: {
+    color: '#fff',
+  },
+  meta: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    alignSelf: 'flex-end',
+    gap: 4,
+  },
+  time: {
+    fontSize: 11,
+    color: '#999',
+  },
+  myTime: {
+    color: 'rgba(255,255,255,0.8)',
+  },
+  errorText: {
+    color: '#FF4444',
+    fontSize: 14,
+    paddingHorizontal: 16,
+  },
+  quickReplies: {
+    paddingHorizontal: 16,
+    paddingVertical: 8,
+    gap: 8,
+  },
+  quickReply: {
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    borderRadius: 16,
+    borderWidth: 1,
+    borderColor: '#FF4444',
+  },
+  quickReplyText: {
+    color: '#FF4444',
+    fontSize: 13,
+    fontWeight: '600',
+  },
+  composer: {
+    flexDirection: 'row',
+    alignItems: 'flex-end',
+    gap: 8,
+    padding: 12,
+    borderTopWidth: 1,
+    borderTopColor: '#eee',
+  },
+  iconButton: {
+    padding: 10,
+  },
+  input: {
+    flex: 1,
+    backgroundColor: '#fff',
+    borderWidth: 1,
+    borderColor: '#ddd',
+    borderRadius: 8,
+    paddingHorizontal: 12,
+    paddingVertical: 8,
+    fontSize: 16,
+    maxHeight: 120,
+  },
+  sendButton: {
+    backgroundColor: '#FF4444',
+    borderRadius: 8,
+    padding: 11,
+  },
+  disabledButton: {
+    opacity: 0.5,
+  },
+  closedText: {
+    fontSize: 14,
+    color: '#666',
+    textAlign: 'center',
+    padding: 16,
+  },
+});
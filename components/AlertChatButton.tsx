@@ -0,0 +1,74 @@
+import { useState } from 'react';
+import { View, Text, StyleSheet, TouchableOpacity, Modal } from 'react-native';
+import { MessageCircle, X } from 'lucide-react-native';
+import AlertChat from './AlertChat';
+
+type Props = {
+  alertId: string;
+  title: string;
+  isOpen: boolean;
+};
+
+export default function AlertChatButton({ alertId, title, isOpen }: Props) {
+  const [visible, setVisible] = useState(false);
+
+  return (
+    <>
+      <TouchableOpacity style={styles.button} onPress={() => setVisible(true)}>
+        <MessageCircle size={18} color="#3366FF" />
+        <Text style={styles.buttonText}>Messages</Text>
+      </TouchableOpacity>
+
+      <Modal
+        visible={visible}
+        animationType="slide"
+        presentationStyle="pageSheet"
+        onRequestClose={() => setVisible(false)}>
+        <View style={styles.sheet}>
+          <View style={styles.header}>
+            <Text style={styles.title}>{title}</Text>
+            <TouchableOpacity onPress={() => setVisible(false)}>
+              <X size={24} color="#666" />
+            </TouchableOpacity>
+          </View>
+          {visible && <AlertChat alertId={alertId} isOpen={isOpen} />}
+        </View>
+      </Modal>
+    </>
+  );
+}
+
+const styles = StyleSheet.create({
+  button: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    gap: 8,
+    padding: 12,
+    borderRadius: 8,
+    borderWidth: 1,
+    borderColor: '#3366FF',
+  },
+  buttonText: {
+    color: '#3366FF',
+    fontSize: 14,
+    fontWeight: '600',
+  },
+  sheet: {
+    flex: 1,
+    backgroundColor: '#fff',
+  },
+  header: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    padding: 16,
+    borderBottomWidth: 1,
+    borderBottomColor: '#eee',
+  },
+  title: {
+    fontSize: 18,
+    fontWeight: '600',
+    color: '#1a1a1a',
+  },
+});
@@ -0,0 +1,222 @@
+import { useState } from 'react';
+import { View, Text, StyleSheet, TextInput, TouchableOpacity, ScrollView } from 'react-native';
+import { Search, SlidersHorizontal, X } from 'lucide-react-native';
+import { ALERT_STATUSES, AlertType, getStatusLabel, getTypeLabel } from '../lib/alerts';
+import {
+  ALERT_DATE_RANGES,
+  ALERT_DISTANCES_M,
+  AlertFilters,
+  EMPTY_ALERT_FILTERS,
+  countActiveFilters,
+  getDateRangeLabel,
+} from '../lib/alertSearch';
+
+type Props = {
+  filters: AlertFilters;
+  onChange: (filters: AlertFilters) => void;
+  // Types the viewer can see; no type chips when there is only one choice
+  types: AlertType[];
+  // Distance only means something for responders with a station
+  showDistance: boolean;
+};
+
+function toggle<T>(values: T[], value: T) {
+  return values.includes(value) ? values.filter((item) => item !== value) : [...values, value];
+}
+
+export default function AlertFilterBar({ filters, onChange, types, showDistance }: Props) {
+  const [isExpanded, setIsExpanded] = useState(false);
+  const activeCount = countActiveFilters(filters);
+
+  const renderChip = (label: string, isActive: boolean, onPress: () => void) => (
+    <TouchableOpacity
+      key={label}
+      style={[styles.chip, isActive && styles.chipActive]}
+      onPress={onPress}>
+      <Text style={[styles.chipText, isActive && styles.chipTextActive]}>{label}</Text>
+    </TouchableOpacity>
+  );
+
+  return (
+    <View style={styles.container}>
+      <View style={styles.searchRow}>
+        <View style={styles.searchBox}>
+          <Search size={16} color="#666" />
+          <TextInput
+            style={styles.searchInput}
+            value={filters.query}
+            onChangeText={(query) => onChange({ ...filters, query })}
+            placeholder="Search description or address"
+            returnKeyType="search"
+            autoCorrect={false}
+          />
+          {filters.query ? (
+            <TouchableOpacity onPress={() => onChange({ ...filters, query: '' })}>
+              <X size={16} color="#666" />
+            </TouchableOpacity>
+          ) : null}
+        </View>
+        <TouchableOpacity
+          style={[styles.filterButton, activeCount > 0 && styles.filterButtonActive]}
+          onPress={() => setIsExpanded(!isExpanded)}>
+          <SlidersHorizontal size={18} color={activeCount > 0 ? '#fff' : '#666'} />
+          {activeCount > 0 && <Text style={styles.filterCount}>{activeCount}</Text>}
+        </TouchableOpacity>
+      </View>
+
+      {isExpanded && (
+        <ScrollView style={styles.panel} nestedScrollEnabled>
+          <Text style={styles.label}>Status</Text>
+          <View style={styles.chips}>
+            {ALERT_STATUSES.map((status) =>
+              renderChip(getStatusLabel(status), filters.statuses.includes(status), () =>
+                onChange({ ...filters, statuses: toggle(filters.statuses, status) })
+              )
+            )}
+          </View>
+
+          {types.length > 1 && (
+            <>
+              <Text style={styles.label}>Type</Text>
+              <View style={styles.chips}>
+                {types.map((type) =>
+                  renderChip(getTypeLabel(type), filters.types.includes(type), () =>
+                    onChange({ ...filters, types: toggle(filters.types, type) })
+                  )
+                )}
+              </View>
+            </>
+          )}
+
+          <Text style={styles.label}>Date</Text>
+          <View style={styles.chips}>
+            {ALERT_DATE_RANGES.map((range) =>
+              renderChip(getDateRangeLabel(range), filters.dateRange === range, () =>
+                onChange({ ...filters, dateRange: range })
+              )
+            )}
+          </View>
+
+          {showDistance && (
+            <>
+              <Text style={styles.label}>Distance from station</Text>
+              <View style={styles.chips}>
+                {renderChip('Any distance', filters.maxDistanceM === null, () =>
+                  onChange({ ...filters, maxDistanceM: null })
+                )}
+                {ALERT_DISTANCES_M.map((distance) =>
+                  renderChip(`Within ${distance / 1000} km`, filters.maxDistanceM === distance, () =>
+                    onChange({ ...filters, maxDistanceM: distance })
+                  )
+                )}
+              </View>
+            </>
+          )}
+
+          {activeCount > 0 && (
+            <TouchableOpacity
+              style={styles.clearButton}
+              onPress={() => onChange({ ...EMPTY_ALERT_FILTERS, query: filters.query })}>
+              <Text style={styles.clearText}>Clear Filters</Text>
+            </TouchableOpacity>
+          )}
+        </ScrollView>
+      )}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    marginBottom: 16,
+  },
+  searchRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+  },
+  searchBox: {
+    flex: 1,
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+    backgroundColor: '#f8f9fa',
+    borderWidth: 1,
+    borderColor: '#ddd',
+    borderRadius: 8,
+    paddingHorizontal: 12,
+  },
+  searchInput: {
+    flex: 1,
+    paddingVertical: 10,
+    fontSize: 16,
+  },
+  filterButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 4,
+    padding: 11,
+    borderRadius: 8,
+    borderWidth: 1,
+    borderColor: '#ddd',
+    backgroundColor: '#f8f9fa',
+  },
+  filterButtonActive: {
+    backgroundColor: '#FF4444',
+    borderColor: '#FF4444',
+  },
+  filterCount: {
+    color: '#fff',
+    fontSize: 14,
+    fontWeight: '600',
+  },
+  panel: {
+    maxHeight: 320,
+    marginTop: 12,
+    backgroundColor: '#f8f9fa',
+    borderRadius: 12,
+    padding: 12,
+  },
+  label: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#1a1a1a',
+    marginBottom: 8,
+  },
+  chips: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+    marginBottom: 12,
+  },
+  chip: {
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    borderRadius: 16,
+    borderWidth: 1,
+    borderColor: '#ddd',
+    backgroundColor: '#fff',
+  },
+  chipActive: {
+    backgroundColor: '#FF4444',
+    borderColor: '#FF4444',
+  },
+  chipText: {
+    fontSize: 14,
+    color: '#666',
+    textTransform: 'capitalize',
+  },
+  chipTextActive: {
+    color: '#fff',
+    fontWeight: '600',
+  },
+  clearButton: {
+    alignItems: 'center',
+    paddingVertical: 8,
+  },
+  clearText: {
+    color: '#FF4444',
+    fontSize: 14,
+    fontWeight: '600',
+  },
+});
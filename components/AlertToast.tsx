@@ -0,0 +1,90 @@
+import { useEffect, useRef } from 'react';
+import { Text, StyleSheet, TouchableOpacity, Animated, View } from 'react-native';
+import { Bell, X } from 'lucide-react-native';
+
+export type Toast = {
+  alertId: string;
+  title: string;
+  message: string;
+};
+
+type Props = {
+  toast: Toast | null;
+  onPress: (alertId: string) => void;
+  onDismiss: () => void;
+};
+
+const TOAST_DURATION_MS = 8000;
+
+export default function AlertToast({ toast, onPress, onDismiss }: Props) {
+  const opacity = useRef(new Animated.Value(0)).current;
+
+  useEffect(() => {
+    if (!toast) return;
+
+    opacity.setValue(0);
+    Animated.timing(opacity, { toValue: 1, duration: 200, useNativeDriver: true }).start();
+    const timer = setTimeout(onDismiss, TOAST_DURATION_MS);
+    return () => clearTimeout(timer);
+  }, [toast?.alertId]);
+
+  if (!toast) {
+    return null;
+  }
+
+  return (
+    <Animated.View style={[styles.container, { opacity }]}>
+      <TouchableOpacity style={styles.body} onPress={() => onPress(toast.alertId)}>
+        <Bell size={20} color="#fff" />
+        <View style={styles.text}>
+          <Text style={styles.title}>{toast.title}</Text>
+          <Text style={styles.message}>{toast.message}</Text>
+        </View>
+      </TouchableOpacity>
+      <TouchableOpacity style={styles.close} onPress={onDismiss}>
+        <X size={18} color="#fff" />
+      </TouchableOpacity>
+    </Animated.View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    position: 'absolute',
+    top: 50,
+    left: 16,
+    right: 16,
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: '#FF4444',
+    borderRadius: 12,
+    padding: 12,
+    shadowColor: '#000',
+    shadowOffset: { width: 0, height: 2 },
+    shadowOpacity: 0.25,
+    shadowRadius: 4,
+    elevation: 6,
+    zIndex: 10,
+  },
+  body: {
+    flex: 1,
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 12,
+  },
+  text: {
+    flex: 1,
+  },
+  title: {
+    color: '#fff',
+    fontSize: 15,
+    fontWeight: '600',
+  },
+  message: {
+    color: '#fff',
+    fontSize: 13,
+  },
+  close: {
+    padding: 4,
+  },
+});
@@ -0,0 +1,117 @@
+import { Fragment, useEffect, useRef } from 'react';
+import { View, StyleSheet } from 'react-native';
+import MapView, { Marker, Polyline } from 'react-native-maps';
+import { Ambulance, Slice as Police, Shield } from 'lucide-react-native';
+import { AlertStatus, AlertType, getStatusColor, getStatusLabel, getTypeLabel } from '../lib/alerts';
+import { TrailPoint } from './LocationTrail';
+
+export type MapAlert = {
+  id: string;
+  type: AlertType;
+  status: AlertStatus;
+  latitude: number;
+  longitude: number;
+  last_latitude?: number | null;
+  last_longitude?: number | null;
+  alert_locations?: TrailPoint[];
+};
+
+type Props = {
+  alerts: MapAlert[];
+  selectedAlertId?: string | null;
+  onSelectAlert: (alertId: string) => void;
+};
+
+const EDGE_PADDING = { top: 60, right: 60, bottom: 60, left: 60 };
+
+// Markers sit on the latest trail point when the alert is being tracked
+function getAlertPosition(alert: MapAlert) {
+  if (alert.last_latitude != null && alert.last_longitude != null) {
+    return { latitude: alert.last_latitude, longitude: alert.last_longitude };
+  }
+  return { latitude: alert.latitude, longitude: alert.longitude };
+}
+
+function TypeIcon({ type }: { type: AlertType }) {
+  switch (type) {
+    case 'police':
+      return <Police size={18} color="#fff" />;
+    case 'medical':
+      return <Ambulance size={18} color="#fff" />;
+    default:
+      return <Shield size={18} color="#fff" />;
+  }
+}
+
+export default function AlertsMap({ alerts, selectedAlertId, onSelectAlert }: Props) {
+  const mapRef = useRef<MapView>(null);
+  const located = alerts.filter(
+    (alert) => Number.isFinite(alert.latitude) && Number.isFinite(alert.longitude)
+  );
+
+  useEffect(() => {
+    if (located.length === 0) return;
+    mapRef.current?.fitToCoordinates(located.map(getAlertPosition), {
+      edgePadding: EDGE_PADDING,
+      animated: true,
+    });
+  }, [located.length]);
+
+  return (
+    <MapView ref={mapRef} style={styles.map} showsUserLocation>
+      {located.map((alert) => {
+        const color = getStatusColor(alert.status);
+        const trail = alert.alert_locations ?? [];
+
+        return (
+          <Fragment key={alert.id}>
+            {trail.length > 1 && (
+              <Polyline
+                coordinates={trail.map(({ latitude, longitude }) => ({ latitude, longitude }))}
+                strokeColor={color}
+                strokeWidth={3}
+              />
+            )}
+            <Marker
+              coordinate={getAlertPosition(alert)}
+              title={getTypeLabel(alert.type)}
+              description={getStatusLabel(alert.status)}
+              onPress={() => onSelectAlert(alert.id)}>
+              <View
+                style={[
+                  styles.marker,
+                  { backgroundColor: color },
+                  alert.id === selectedAlertId && styles.markerSelected,
+                ]}>
+                <TypeIcon type={alert.type} />
+              </View>
+            </Marker>
+          </Fragment>
+        );
+      })}
+    </MapView>
+  );
+}
+
+const styles = StyleSheet.create({
+  map: {
+    flex: 1,
+    borderRadius: 12,
+  },
+  marker: {
+    width: 36,
+    height: 36,
+    borderRadius: 18,
+    alignItems: 'center',
+    justifyContent: 'center',
+    borderWidth: 2,
+    borderColor: '#fff',
+  },
+  markerSelected: {
+    width: 44,
+    height: 44,
+    borderRadius: 22,
+    borderWidth: 3,
+    borderColor: '#1a1a1a',
+  },
+});
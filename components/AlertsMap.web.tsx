@@ -0,0 +1,39 @@
+import { View, Text, StyleSheet } from 'react-native';
+import { MapPin } from 'lucide-react-native';
+import type { MapAlert } from './AlertsMap';
+
+type Props = {
+  alerts: MapAlert[];
+  selectedAlertId?: string | null;
+  onSelectAlert: (alertId: string) => void;
+};
+
+// react-native-maps has no web implementation
+export default function AlertsMap({ alerts }: Props) {
+  return (
+    <View style={styles.container}>
+      <MapPin size={32} color="#666" />
+      <Text style={styles.text}>
+        The map is only available in the mobile app. {alerts.length} active alert
+        {alerts.length === 1 ? '' : 's'} in the list view.
+      </Text>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    alignItems: 'center',
+    justifyContent: 'center',
+    gap: 12,
+    padding: 32,
+    backgroundColor: '#fff',
+    borderRadius: 12,
+  },
+  text: {
+    fontSize: 16,
+    color: '#666',
+    textAlign: 'center',
+  },
+});
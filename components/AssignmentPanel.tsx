@@ -0,0 +1,239 @@
+import { useState } from 'react';
+import { View, Text, StyleSheet, TouchableOpacity, Modal, TextInput, ScrollView } from 'react-native';
+import { UserCheck, UserX } from 'lucide-react-native';
+import { AlertAssignee, getAssignableResponders } from '../lib/alerts';
+
+type Props = {
+  alertId: string;
+  assignee: AlertAssignee | null;
+  currentResponderId: string | null;
+  isDispatcher: boolean;
+  // Closed alerts show the assignment without any actions
+  isOpen: boolean;
+  onClaim: () => void;
+  onReassign: (responderId: string | null, reason?: string) => void;
+};
+
+export default function AssignmentPanel({
+  alertId,
+  assignee,
+  currentResponderId,
+  isDispatcher,
+  isOpen,
+  onClaim,
+  onReassign,
+}: Props) {
+  const [handoffVisible, setHandoffVisible] = useState(false);
+  const [candidates, setCandidates] = useState<AlertAssignee[]>([]);
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [reason, setReason] = useState('');
+  const [error, setError] = useState('');
+
+  const isMine = assignee !== null && assignee.id === currentResponderId;
+  const canHandOff = isOpen && assignee !== null && (isMine || isDispatcher);
+
+  const openHandoff = async () => {
+    setSelectedId(null);
+    setReason('');
+    setError('');
+    setHandoffVisible(true);
+
+    try {
+      const responders = await getAssignableResponders(alertId);
+      setCandidates(responders.filter((responder) => responder.id !== assignee?.id));
+    } catch (err: any) {
+      console.error('Error loading units:', err);
+      setError(err.message);
+    }
+  };
+
+  const handleConfirm = (responderId: string | null) => {
+    onReassign(responderId, reason);
+    setHandoffVisible(false);
+  };
+
+  return (
+    <View style={styles.container}>
+      <View style={styles.row}>
+        {assignee ? <UserCheck size={16} color="#3366FF" /> : <UserX size={16} color="#999" />}
+        <Text style={styles.text}>
+          {assignee
+            ? `Assigned to ${assignee.organization_name}${isMine ? ' (you)' : ''}`
+            : 'Unassigned'}
+        </Text>
+        {isOpen && !assignee && (
+          <TouchableOpacity style={styles.button} onPress={onClaim}>
+            <Text style={styles.buttonText}>Claim</Text>
+          </TouchableOpacity>
+        )}
+        {canHandOff && (
+          <TouchableOpacity style={styles.button} onPress={openHandoff}>
+            <Text style={styles.buttonText}>Hand Off</Text>
+          </TouchableOpacity>
+        )}
+      </View>
+
+      <Modal
+        visible={handoffVisible}
+        transparent
+        animationType="fade"
+        onRequestClose={() => setHandoffVisible(false)}>
+        <View style={styles.overlay}>
+          <View style={styles.dialog}>
+            <Text style={styles.dialogTitle}>Hand off alert</Text>
+            {error ? <Text style={styles.errorText}>{error}</Text> : null}
+            <ScrollView style={styles.candidates}>
+              {candidates.length === 0 && !error && (
+                <Text style={styles.dialogText}>No other units cover this alert.</Text>
+              )}
+              {candidates.map((responder) => (
+                <TouchableOpacity
+                  key={responder.id}
+                  style={[styles.candidate, selectedId === responder.id && styles.candidateSelected]}
+                  onPress={() => setSelectedId(responder.id)}>
+                  <Text style={styles.candidateName}>{responder.organization_name}</Text>
+                  <Text style={styles.candidateType}>{responder.responder_type}</Text>
+                </TouchableOpacity>
+              ))}
+            </ScrollView>
+            <TextInput
+              style={styles.input}
+              placeholder="Reason (optional)"
+              value={reason}
+              onChangeText={setReason}
+            />
+            <View style={styles.dialogButtons}>
+              <TouchableOpacity
+                style={[styles.dialogButton, styles.secondaryButton]}
+                onPress={() => setHandoffVisible(false)}>
+                <Text style={styles.secondaryButtonText}>Back</Text>
+              </TouchableOpacity>
+              <TouchableOpacity
+                style={[styles.dialogButton, styles.secondaryButton]}
+                onPress={() => handleConfirm(null)}>
+                <Text style={styles.secondaryButtonText}>Release</Text>
+              </TouchableOpacity>
+              <TouchableOpacity
+                style={[styles.dialogButton, styles.primaryButton, !selectedId && styles.disabledButton]}
+                onPress={() => selectedId && handleConfirm(selectedId)}
+                disabled={!selectedId}>
+                <Text style={styles.buttonText}>Hand Off</Text>
+              </TouchableOpacity>
+            </View>
+          </View>
+        </View>
+      </Modal>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    backgroundColor: '#f8f9fa',
+    padding: 12,
+    borderRadius: 8,
+  },
+  row: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+  },
+  text: {
+    fontSize: 14,
+    color: '#1a1a1a',
+    flex: 1,
+  },
+  button: {
+    backgroundColor: '#3366FF',
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    borderRadius: 16,
+  },
+  buttonText: {
+    color: '#fff',
+    fontSize: 13,
+    fontWeight: '600',
+  },
+  overlay: {
+    flex: 1,
+    backgroundColor: 'rgba(0,0,0,0.4)',
+    justifyContent: 'center',
+    padding: 24,
+  },
+  dialog: {
+    backgroundColor: '#fff',
+    borderRadius: 12,
+    padding: 20,
+    gap: 12,
+    maxHeight: '80%',
+  },
+  dialogTitle: {
+    fontSize: 18,
+    fontWeight: '600',
+    color: '#1a1a1a',
+  },
+  dialogText: {
+    fontSize: 14,
+    color: '#666',
+  },
+  errorText: {
+    color: '#FF4444',
+    fontSize: 14,
+  },
+  candidates: {
+    maxHeight: 240,
+  },
+  candidate: {
+    padding: 12,
+    borderRadius: 8,
+    borderWidth: 1,
+    borderColor: '#ddd',
+    marginBottom: 8,
+  },
+  candidateSelected: {
+    borderColor: '#3366FF',
+    backgroundColor: '#EEF2FF',
+  },
+  candidateName: {
+    fontSize: 15,
+    fontWeight: '500',
+    color: '#1a1a1a',
+  },
+  candidateType: {
+    fontSize: 12,
+    color: '#666',
+    textTransform: 'capitalize',
+  },
+  input: {
+    backgroundColor: '#fff',
+    borderWidth: 1,
+    borderColor: '#ddd',
+    borderRadius: 8,
+    padding: 12,
+    fontSize: 16,
+  },
+  dialogButtons: {
+    flexDirection: 'row',
+    gap: 8,
+  },
+  dialogButton: {
+    flex: 1,
+    padding: 12,
+    borderRadius: 8,
+    alignItems: 'center',
+  },
+  primaryButton: {
+    backgroundColor: '#3366FF',
+  },
+  secondaryButton: {
+    backgroundColor: '#f1f1f1',
+  },
+  secondaryButtonText: {
+    color: '#666',
+    fontSize: 13,
+    fontWeight: '600',
+  },
+  disabledButton: {
+    opacity: 0.5,
+  },
+});
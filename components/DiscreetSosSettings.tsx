@@ -0,0 +1,93 @@
+import { useState } from 'react';
+import { View, Text, StyleSheet, Switch } from 'react-native';
+import { Vibrate } from 'lucide-react-native';
+import { useDiscreetSos } from '../hooks/useDiscreetSos';
+
+// Civilian-only settings section; needs the DiscreetSosProvider from the civilian tabs
+export default function DiscreetSosSettings() {
+  const { settings, updateSettings } = useDiscreetSos();
+  const [error, setError] = useState<string | null>(null);
+
+  const toggleShakeToSend = async (value: boolean) => {
+    try {
+      setError(null);
+      await updateSettings({ ...settings, shakeToSend: value });
+    } catch (err: any) {
+      console.error('Error saving discreet SOS settings:', err);
+      setError(err.message);
+    }
+  };
+
+  return (
+    <View style={styles.section}>
+      <Text style={styles.sectionTitle}>Discreet SOS</Text>
+      <Text style={styles.hintText}>
+        Hold the Silent SOS button on the home screen to send an alert with no sound, vibration or
+        confirmation. The screen turns into a calculator straight away; hold its display for two
+        seconds to leave it. Responders are told not to call or text you.
+      </Text>
+
+      <View style={styles.preference}>
+        <View style={styles.preferenceText}>
+          <Vibrate size={20} color="#666" />
+          <Text style={styles.preferenceLabel}>Shake 4 times to send</Text>
+        </View>
+        <Switch
+          value={settings.shakeToSend}
+          onValueChange={toggleShakeToSend}
+          trackColor={{ false: '#ddd', true: '#FF4444' }}
+        />
+      </View>
+      <Text style={styles.footnoteText}>
+        Works while the app is open. Phones don't let apps listen for power or volume button
+        presses, so those can't be used as a trigger.
+      </Text>
+
+      {error && <Text style={styles.errorText}>{error}</Text>}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  section: {
+    backgroundColor: '#f8f9fa',
+    borderRadius: 12,
+    padding: 16,
+    marginBottom: 20,
+  },
+  sectionTitle: {
+    fontSize: 18,
+    fontWeight: '600',
+    marginBottom: 16,
+    color: '#1a1a1a',
+  },
+  hintText: {
+    fontSize: 14,
+    color: '#666',
+    marginBottom: 12,
+  },
+  preference: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+  },
+  preferenceText: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 12,
+  },
+  preferenceLabel: {
+    fontSize: 16,
+    color: '#666',
+  },
+  footnoteText: {
+    fontSize: 12,
+    color: '#999',
+    marginTop: 8,
+  },
+  errorText: {
+    fontSize: 14,
+    color: '#FF4444',
+    marginTop: 8,
+  },
+});
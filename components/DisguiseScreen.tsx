@@ -0,0 +1,161 @@
+import { useState } from 'react';
+import { View, Text, StyleSheet, TouchableOpacity, Modal, Pressable } from 'react-native';
+
+type Props = {
+  visible: boolean;
+  onExit: () => void;
+};
+
+const KEYS = [
+  ['C', '±', '%', '÷'],
+  ['7', '8', '9', '×'],
+  ['4', '5', '6', '−'],
+  ['1', '2', '3', '+'],
+  ['0', '.', '='],
+];
+
+// Holding the display this long leaves the disguise
+const EXIT_HOLD_MS = 2000;
+
+function applyOperator(left: number, right: number, operator: string) {
+  switch (operator) {
+    case '+':
+      return left + right;
+    case '−':
+      return left - right;
+    case '×':
+      return left * right;
+    case '÷':
+      return right === 0 ? NaN : left / right;
+    default:
+      return right;
+  }
+}
+
+/**
+ * A plain calculator shown over the app after a silent SOS, so anyone
+ * glancing at the screen sees nothing to do with an emergency. It works, so
+ * tapping it doesn't give it away.
+ */
+export default function DisguiseScreen({ visible, onExit }: Props) {
+  const [display, setDisplay] = useState('0');
+  const [stored, setStored] = useState<number | null>(null);
+  const [operator, setOperator] = useState<string | null>(null);
+  const [isFresh, setIsFresh] = useState(true);
+
+  const press = (key: string) => {
+    const value = parseFloat(display);
+
+    if (/^[0-9]$/.test(key)) {
+      setDisplay(isFresh || display === '0' ? key : display + key);
+      setIsFresh(false);
+    } else if (key === '.') {
+      if (isFresh) {
+        setDisplay('0.');
+        setIsFresh(false);
+      } else if (!display.includes('.')) {
+        setDisplay(display + '.');
+      }
+    } else if (key === 'C') {
+      setDisplay('0');
+      setStored(null);
+      setOperator(null);
+      setIsFresh(true);
+    } else if (key === '±') {
+      setDisplay(String(-value));
+    } else if (key === '%') {
+      setDisplay(String(value / 100));
+    } else if (key === '=') {
+      if (stored !== null && operator) {
+        setDisplay(String(applyOperator(stored, value, operator)));
+        setStored(null);
+        setOperator(null);
+      }
+      setIsFresh(true);
+    } else {
+      setStored(stored !== null && operator && !isFresh ? applyOperator(stored, value, operator) : value);
+      setOperator(key);
+      setIsFresh(true);
+    }
+  };
+
+  return (
+    <Modal visible={visible} animationType="none" statusBarTranslucent onRequestClose={() => {}}>
+      <View style={styles.container}>
+        <Pressable style={styles.display} onLongPress={onExit} delayLongPress={EXIT_HOLD_MS}>
+          <Text style={styles.displayText} numberOfLines={1} adjustsFontSizeToFit>
+            {display}
+          </Text>
+        </Pressable>
+
+        {KEYS.map((row) => (
+          <View key={row.join('')} style={styles.row}>
+            {row.map((key) => (
+              <TouchableOpacity
+                key={key}
+                style={[
+                  styles.key,
+                  key === '0' && styles.wideKey,
+                  /[÷×−+=]/.test(key) && styles.operatorKey,
+                  /[C±%]/.test(key) && styles.functionKey,
+                ]}
+                onPress={() => press(key)}>
+                <Text style={[styles.keyText, /[C±%]/.test(key) && styles.functionKeyText]}>{key}</Text>
+              </TouchableOpacity>
+            ))}
+          </View>
+        ))}
+      </View>
+    </Modal>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#000',
+    justifyContent: 'flex-end',
+    padding: 16,
+    paddingBottom: 40,
+    gap: 12,
+  },
+  display: {
+    paddingHorizontal: 12,
+    paddingVertical: 24,
+  },
+  displayText: {
+    color: '#fff',
+    fontSize: 72,
+    fontWeight: '300',
+    textAlign: 'right',
+  },
+  row: {
+    flexDirection: 'row',
+    gap: 12,
+  },
+  key: {
+    flex: 1,
+    aspectRatio: 1,
+    borderRadius: 999,
+    backgroundColor: '#333',
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  wideKey: {
+    flex: 2.15,
+    aspectRatio: undefined,
+  },
+  operatorKey: {
+    backgroundColor: '#FF9F0A',
+  },
+  functionKey: {
+    backgroundColor: '#a5a5a5',
+  },
+  keyText: {
+    color: '#fff',
+    fontSize: 32,
+  },
+  functionKeyText: {
+    color: '#000',
+  },
+});
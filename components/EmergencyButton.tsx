@@ -0,0 +1,108 @@
+import { ReactNode, useEffect, useRef, useState } from 'react';
+import { View, StyleSheet, Pressable, Animated, Platform, StyleProp, ViewStyle } from 'react-native';
+import * as Haptics from 'expo-haptics';
+import { ALERT_HOLD_DURATION_MS, AlertActivationMode } from '../lib/alertActivation';
+
+type Props = {
+  mode: AlertActivationMode;
+  onActivate: () => void;
+  disabled?: boolean;
+  style?: StyleProp<ViewStyle>;
+  children: ReactNode;
+};
+
+// Haptic ticks while the button fills, getting stronger towards the end
+const HOLD_STEPS = [
+  Haptics.ImpactFeedbackStyle.Light,
+  Haptics.ImpactFeedbackStyle.Medium,
+  Haptics.ImpactFeedbackStyle.Heavy,
+];
+
+function vibrate(feedback: () => Promise<void>) {
+  if (Platform.OS === 'web') return;
+  feedback().catch((error) => console.error('Haptics error:', error));
+}
+
+/**
+ * An emergency button that only fires once the press is confirmed. In
+ * countdown mode a tap calls onActivate straight away and the caller runs
+ * the countdown; in hold mode the button fills while held and calls
+ * onActivate only if it is held for the full duration.
+ */
+export default function EmergencyButton({ mode, onActivate, disabled, style, children }: Props) {
+  const progress = useRef(new Animated.Value(0)).current;
+  const [isHolding, setIsHolding] = useState(false);
+  const tickTimers = useRef<ReturnType<typeof setTimeout>[]>([]);
+
+  const clearTicks = () => {
+    tickTimers.current.forEach(clearTimeout);
+    tickTimers.current = [];
+  };
+
+  useEffect(() => clearTicks, []);
+
+  const startHold = () => {
+    setIsHolding(true);
+    vibrate(() => Haptics.selectionAsync());
+
+    const stepMs = ALERT_HOLD_DURATION_MS / (HOLD_STEPS.length + 1);
+    tickTimers.current = HOLD_STEPS.map((feedbackStyle, index) =>
+      setTimeout(() => vibrate(() => Haptics.impactAsync(feedbackStyle)), stepMs * (index + 1))
+    );
+
+    Animated.timing(progress, {
+      toValue: 1,
+      duration: ALERT_HOLD_DURATION_MS,
+      useNativeDriver: false,
+    }).start(({ finished }) => {
+      clearTicks();
+      setIsHolding(false);
+      progress.setValue(0);
+      if (finished) {
+        vibrate(() => Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success));
+        onActivate();
+      }
+    });
+  };
+
+  // Letting go early stops the animation, which reports finished: false
+  const cancelHold = () => {
+    progress.stopAnimation();
+  };
+
+  if (mode === 'countdown') {
+    return (
+      <Pressable style={style} onPress={onActivate} disabled={disabled}>
+        {children}
+      </Pressable>
+    );
+  }
+
+  return (
+    <Pressable style={style} onPressIn={startHold} onPressOut={cancelHold} disabled={disabled}>
+      {children}
+      {isHolding && (
+        <View style={StyleSheet.absoluteFill} pointerEvents="none">
+          <Animated.View
+            style={[
+              styles.fill,
+              {
+                width: progress.interpolate({
+                  inputRange: [0, 1],
+                  outputRange: ['0%', '100%'],
+                }),
+              },
+            ]}
+          />
+        </View>
+      )}
+    </Pressable>
+  );
+}
+
+const styles = StyleSheet.create({
+  fill: {
+    height: '100%',
+    backgroundColor: 'rgba(255, 255, 255, 0.35)',
+  },
+});
@@ -0,0 +1,134 @@
+import { useState } from 'react';
+import { View, Text, StyleSheet, TouchableOpacity, Share, Linking } from 'react-native';
+import * as Clipboard from 'expo-clipboard';
+import { Check, Copy, Map as MapIcon, Share2 } from 'lucide-react-native';
+import { describeLocation, getLocationFormats, getMapsDeepLink, getMapsUrl } from '../lib/locationFormats';
+
+type Props = {
+  latitude: number;
+  longitude: number;
+  // First line of the shared message and the pin label in maps apps
+  label?: string;
+};
+
+// How long the copy icon stays a tick
+const COPIED_MS = 2000;
+
+export default function LocationFormats({ latitude, longitude, label }: Props) {
+  const [copied, setCopied] = useState<string | null>(null);
+  const formats = getLocationFormats(latitude, longitude);
+
+  const rows = [
+    { name: 'Plus code', value: formats.plusCode },
+    { name: 'MGRS', value: formats.mgrs },
+    { name: 'DMS', value: formats.dms },
+    { name: 'Decimal', value: formats.decimal },
+  ].filter((row): row is { name: string; value: string } => !!row.value);
+
+  const handleCopy = async (name: string, value: string) => {
+    try {
+      await Clipboard.setStringAsync(value);
+      setCopied(name);
+      setTimeout(() => setCopied((current) => (current === name ? null : current)), COPIED_MS);
+    } catch (err) {
+      console.error('Error copying location:', err);
+    }
+  };
+
+  const handleShare = async () => {
+    try {
+      const message = describeLocation(latitude, longitude);
+      await Share.share({ message: label ? `${label}\n${message}` : message });
+    } catch (err) {
+      console.error('Error sharing location:', err);
+    }
+  };
+
+  const handleOpenMaps = async () => {
+    try {
+      await Linking.openURL(getMapsDeepLink(latitude, longitude, label));
+    } catch (err) {
+      // No app registered for the scheme; the website works everywhere
+      console.error('Error opening maps app:', err);
+      await Linking.openURL(getMapsUrl(latitude, longitude)).catch((urlError) =>
+        console.error('Error opening maps website:', urlError)
+      );
+    }
+  };
+
+  return (
+    <View style={styles.container}>
+      {rows.map((row) => (
+        <View key={row.name} style={styles.row}>
+          <Text style={styles.name}>{row.name}</Text>
+          <Text style={styles.value} selectable>
+            {row.value}
+          </Text>
+          <TouchableOpacity
+            onPress={() => handleCopy(row.name, row.value)}
+            accessibilityLabel={`Copy ${row.name}`}
+            hitSlop={8}>
+            {copied === row.name ? <Check size={16} color="#4CAF50" /> : <Copy size={16} color="#666" />}
+          </TouchableOpacity>
+        </View>
+      ))}
+
+      <View style={styles.actions}>
+        <TouchableOpacity style={styles.actionButton} onPress={handleOpenMaps}>
+          <MapIcon size={16} color="#3366FF" />
+          <Text style={styles.actionText}>Open in Maps</Text>
+        </TouchableOpacity>
+        <TouchableOpacity style={styles.actionButton} onPress={handleShare}>
+          <Share2 size={16} color="#3366FF" />
+          <Text style={styles.actionText}>Share</Text>
+        </TouchableOpacity>
+      </View>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    backgroundColor: '#f8f9fa',
+    padding: 12,
+    borderRadius: 8,
+    gap: 6,
+  },
+  row: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+  },
+  name: {
+    width: 72,
+    fontSize: 12,
+    color: '#666',
+  },
+  value: {
+    flex: 1,
+    fontSize: 14,
+    color: '#1a1a1a',
+    fontVariant: ['tabular-nums'],
+  },
+  actions: {
+    flexDirection: 'row',
+    gap: 8,
+    marginTop: 6,
+  },
+  actionButton: {
+    flex: 1,
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    gap: 6,
+    padding: 8,
+    borderRadius: 8,
+    borderWidth: 1,
+    borderColor: '#3366FF',
+  },
+  actionText: {
+    color: '#3366FF',
+    fontSize: 13,
+    fontWeight: '600',
+  },
+});
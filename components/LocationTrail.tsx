@@ -0,0 +1,83 @@
+import { View, Text, StyleSheet } from 'react-native';
+import { format, formatDistanceToNow } from 'date-fns';
+import { Navigation } from 'lucide-react-native';
+import { formatAccuracy, formatCoordinates } from '../lib/location';
+
+export type TrailPoint = {
+  latitude: number;
+  longitude: number;
+  accuracy: number | null;
+  recorded_at: string;
+};
+
+type Props = {
+  // Newest first, as returned by the alert queries
+  points: TrailPoint[];
+  maxPoints?: number;
+};
+
+export default function LocationTrail({ points, maxPoints = 5 }: Props) {
+  if (points.length === 0) {
+    return null;
+  }
+
+  const [latest, ...previous] = points;
+  const accuracy = formatAccuracy(latest.accuracy);
+
+  return (
+    <View style={styles.container}>
+      <View style={styles.latestRow}>
+        <Navigation size={16} color="#3366FF" />
+        <Text style={styles.latestText}>
+          Last seen {formatDistanceToNow(new Date(latest.recorded_at), { addSuffix: true })}:{' '}
+          {formatCoordinates(latest.latitude, latest.longitude)}
+          {accuracy ? ` (${accuracy})` : ''}
+        </Text>
+      </View>
+
+      {previous.length > 0 && (
+        <View style={styles.trail}>
+          <Text style={styles.trailTitle}>Trail ({points.length} points)</Text>
+          {previous.slice(0, maxPoints).map((point) => (
+            <Text key={point.recorded_at} style={styles.trailText}>
+              {format(new Date(point.recorded_at), 'h:mm:ss a')} —{' '}
+              {formatCoordinates(point.latitude, point.longitude)}
+            </Text>
+          ))}
+        </View>
+      )}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    backgroundColor: '#EEF2FF',
+    padding: 12,
+    borderRadius: 8,
+    gap: 8,
+  },
+  latestRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+  },
+  latestText: {
+    fontSize: 14,
+    color: '#1a1a1a',
+    flex: 1,
+  },
+  trail: {
+    gap: 2,
+  },
+  trailTitle: {
+    fontSize: 13,
+    fontWeight: '600',
+    color: '#1a1a1a',
+    marginBottom: 2,
+  },
+  trailText: {
+    fontSize: 12,
+    color: '#666',
+  },
+});
@@ -0,0 +1,192 @@
+import { ReactNode } from 'react';
+import { View, Text, StyleSheet } from 'react-native';
+import { Asterisk } from 'lucide-react-native';
+import { MedicalId, getOrganDonorLabel, getSeverityColor, getSeverityLabel } from '../lib/medicalId';
+
+type Props = {
+  name: string | null;
+  medicalId: MedicalId;
+  // Shown on the exported card so a bystander knows who to call
+  emergencyContact?: { name: string; phone_number: string | null } | null;
+};
+
+function Section({ title, children }: { title: string; children: ReactNode }) {
+  return (
+    <View style={styles.section}>
+      <Text style={styles.sectionTitle}>{title}</Text>
+      {children}
+    </View>
+  );
+}
+
+export default function MedicalIdCard({ name, medicalId, emergencyContact }: Props) {
+  return (
+    <View style={styles.card}>
+      <View style={styles.header}>
+        <Asterisk size={22} color="#FF4444" />
+        <Text style={styles.headerText}>Medical ID</Text>
+      </View>
+
+      <View style={styles.identity}>
+        <Text style={styles.name}>{name || 'Name not set'}</Text>
+        <View style={styles.bloodType}>
+          <Text style={styles.bloodTypeLabel}>Blood</Text>
+          <Text style={styles.bloodTypeValue}>{medicalId.blood_type ?? '?'}</Text>
+        </View>
+      </View>
+
+      {medicalId.allergies.length > 0 && (
+        <Section title="Allergies">
+          {medicalId.allergies.map((allergy, index) => (
+            <View key={index} style={styles.row}>
+              <Text style={styles.value}>
+                {allergy.substance}
+                {allergy.reaction ? ` — ${allergy.reaction}` : ''}
+              </Text>
+              <Text style={[styles.severity, { backgroundColor: getSeverityColor(allergy.severity) }]}>
+                {getSeverityLabel(allergy.severity)}
+              </Text>
+            </View>
+          ))}
+        </Section>
+      )}
+
+      {medicalId.medications.length > 0 && (
+        <Section title="Medications">
+          {medicalId.medications.map((medication, index) => (
+            <Text key={index} style={styles.value}>
+              {medication.name} {medication.dosage}
+              {medication.frequency ? `, ${medication.frequency}` : ''}
+            </Text>
+          ))}
+        </Section>
+      )}
+
+      {medicalId.conditions.length > 0 && (
+        <Section title="Conditions">
+          {medicalId.conditions.map((condition, index) => (
+            <Text key={index} style={styles.value}>
+              {condition.name}
+              {condition.notes ? ` — ${condition.notes}` : ''}
+            </Text>
+          ))}
+        </Section>
+      )}
+
+      {medicalId.implanted_devices.length > 0 && (
+        <Section title="Implanted Devices">
+          {medicalId.implanted_devices.map((device, index) => (
+            <Text key={index} style={styles.value}>
+              {device.name}
+              {device.notes ? ` — ${device.notes}` : ''}
+            </Text>
+          ))}
+        </Section>
+      )}
+
+      <View style={styles.footer}>
+        <Text style={styles.footerText}>Organ donor: {getOrganDonorLabel(medicalId.organ_donor)}</Text>
+        {medicalId.physician_name && (
+          <Text style={styles.footerText}>
+            Physician: {medicalId.physician_name}
+            {medicalId.physician_phone ? ` · ${medicalId.physician_phone}` : ''}
+          </Text>
+        )}
+        {emergencyContact && (
+          <Text style={styles.footerText}>
+            Emergency contact: {emergencyContact.name}
+            {emergencyContact.phone_number ? ` · ${emergencyContact.phone_number}` : ''}
+          </Text>
+        )}
+      </View>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  card: {
+    backgroundColor: '#1a1a1a',
+    borderRadius: 16,
+    padding: 20,
+    gap: 16,
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+  },
+  headerText: {
+    color: '#FF4444',
+    fontSize: 18,
+    fontWeight: 'bold',
+  },
+  identity: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    gap: 12,
+  },
+  name: {
+    flex: 1,
+    color: '#fff',
+    fontSize: 22,
+    fontWeight: '600',
+  },
+  bloodType: {
+    alignItems: 'center',
+    backgroundColor: '#FF4444',
+    borderRadius: 12,
+    paddingHorizontal: 14,
+    paddingVertical: 6,
+  },
+  bloodTypeLabel: {
+    color: '#fff',
+    fontSize: 11,
+    fontWeight: '500',
+    textTransform: 'uppercase',
+  },
+  bloodTypeValue: {
+    color: '#fff',
+    fontSize: 22,
+    fontWeight: 'bold',
+  },
+  section: {
+    gap: 4,
+  },
+  sectionTitle: {
+    color: '#999',
+    fontSize: 12,
+    fontWeight: '600',
+    textTransform: 'uppercase',
+  },
+  row: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    gap: 8,
+  },
+  value: {
+    flex: 1,
+    color: '#fff',
+    fontSize: 15,
+  },
+  severity: {
+    color: '#fff',
+    fontSize: 11,
+    fontWeight: '600',
+    paddingHorizontal: 8,
+    paddingVertical: 2,
+    borderRadius: 8,
+    overflow: 'hidden',
+  },
+  footer: {
+    borderTopWidth: 1,
+    borderTopColor: '#333',
+    paddingTop: 12,
+    gap: 4,
+  },
+  footerText: {
+    color: '#ccc',
+    fontSize: 13,
+  },
+});
@@ -0,0 +1,74 @@
+import { Redirect, Tabs } from 'expo-router';
+import { Chrome as Home, Bell, Users, Settings } from 'lucide-react-native';
+import { useRole } from '../hooks/useRole';
+import { DiscreetSosProvider } from '../hooks/useDiscreetSos';
+import { getRoleHome, hasRoleScreen, UserRole } from '../lib/roles';
+
+type RoleTabsProps = {
+  // The only role allowed into this tab group
+  role: UserRole;
+};
+
+/**
+ * Tab bar shared by the per-role groups. Anyone whose role doesn't match is
+ * sent to their own group, so deep links can't cross between them.
+ */
+export default function RoleTabs({ role }: RoleTabsProps) {
+  const { role: currentRole, userId, isLoading } = useRole();
+
+  // Show loading state
+  if (isLoading) {
+    return null;
+  }
+
+  // Redirect to login if not authenticated or the profile is missing
+  if (!userId || !currentRole) {
+    return <Redirect href="/login" />;
+  }
+
+  if (currentRole !== role) {
+    return <Redirect href={getRoleHome(currentRole)} />;
+  }
+
+  const tabs = (
+    <Tabs
+      screenOptions={{
+        headerShown: false,
+        tabBarActiveTintColor: '#FF4444',
+      }}>
+      <Tabs.Screen
+        name="index"
+        options={{
+          title: 'Home',
+          tabBarIcon: ({ color, size }) => <Home size={size} color={color} />,
+        }}
+      />
+      <Tabs.Screen
+        name="alerts"
+        options={{
+          title: 'Alerts',
+          tabBarIcon: ({ color, size }) => <Bell size={size} color={color} />,
+        }}
+      />
+      {hasRoleScreen(role, 'contacts') && (
+        <Tabs.Screen
+          name="contacts"
+          options={{
+            title: 'Contacts',
+            tabBarIcon: ({ color, size }) => <Users size={size} color={color} />,
+          }}
+        />
+      )}
+      <Tabs.Screen
+        name="settings"
+        options={{
+          title: 'Settings',
+          tabBarIcon: ({ color, size }) => <Settings size={size} color={color} />,
+        }}
+      />
+    </Tabs>
+  );
+
+  // Silent SOS and its shake trigger are only for people who raise alerts
+  return role === 'civilian' ? <DiscreetSosProvider>{tabs}</DiscreetSosProvider> : tabs;
+}
@@ -0,0 +1,230 @@
+import { useState } from 'react';
+import { View, Text, StyleSheet, TouchableOpacity, TextInput } from 'react-native';
+import MapView, { Circle, MapPressEvent, Marker, Polygon } from 'react-native-maps';
+import * as Location from 'expo-location';
+import { Crosshair, Undo2, Trash2 } from 'lucide-react-native';
+import { ServiceArea } from '../lib/serviceArea';
+
+type Props = {
+  value: ServiceArea;
+  onChange: (area: ServiceArea) => void;
+};
+
+type Mode = 'radius' | 'polygon';
+
+export default function ServiceAreaEditor({ value, onChange }: Props) {
+  const [mode, setMode] = useState<Mode>(value.polygon ? 'polygon' : 'radius');
+  const [radiusKm, setRadiusKm] = useState(value.radiusM ? String(value.radiusM / 1000) : '');
+  const [error, setError] = useState('');
+
+  const center = value.station ?? value.polygon?.[0];
+
+  const switchMode = (next: Mode) => {
+    setMode(next);
+    // Only one kind of area is stored; the polygon takes precedence server-side
+    onChange(next === 'polygon' ? { ...value, polygon: value.polygon ?? [] } : { ...value, polygon: null });
+  };
+
+  const handleMapPress = (event: MapPressEvent) => {
+    const coordinate = event.nativeEvent.coordinate;
+    if (mode === 'radius') {
+      onChange({ ...value, station: coordinate });
+    } else {
+      onChange({ ...value, polygon: [...(value.polygon ?? []), coordinate] });
+    }
+  };
+
+  const useCurrentLocation = async () => {
+    try {
+      const { status } = await Location.requestForegroundPermissionsAsync();
+      if (status !== 'granted') {
+        setError('Location permission is required to use your current location.');
+        return;
+      }
+      const location = await Location.getCurrentPositionAsync({});
+      setError('');
+      onChange({
+        ...value,
+        station: { latitude: location.coords.latitude, longitude: location.coords.longitude },
+      });
+    } catch (err: any) {
+      console.error('Error getting location:', err);
+      setError('Unable to get location');
+    }
+  };
+
+  const handleRadiusChange = (text: string) => {
+    setRadiusKm(text);
+    const km = parseFloat(text);
+    onChange({ ...value, radiusM: Number.isFinite(km) && km > 0 ? Math.round(km * 1000) : null });
+  };
+
+  return (
+    <View style={styles.container}>
+      <View style={styles.modeToggle}>
+        <TouchableOpacity
+          style={[styles.modeButton, mode === 'radius' && styles.modeButtonActive]}
+          onPress={() => switchMode('radius')}>
+          <Text style={[styles.modeText, mode === 'radius' && styles.modeTextActive]}>
+            Station + Radius
+          </Text>
+        </TouchableOpacity>
+        <TouchableOpacity
+          style={[styles.modeButton, mode === 'polygon' && styles.modeButtonActive]}
+          onPress={() => switchMode('polygon')}>
+          <Text style={[styles.modeText, mode === 'polygon' && styles.modeTextActive]}>
+            Draw Area
+          </Text>
+        </TouchableOpacity>
+      </View>
+
+      <Text style={styles.hint}>
+        {mode === 'radius'
+          ? 'Tap the map to place your station, then set a radius.'
+          : 'Tap the map to add the corners of your service area.'}
+      </Text>
+
+      <MapView
+        style={styles.map}
+        showsUserLocation
+        onPress={handleMapPress}
+        initialRegion={
+          center
+            ? { ...center, latitudeDelta: 0.2, longitudeDelta: 0.2 }
+            : undefined
+        }>
+        {mode === 'radius' && value.station && (
+          <>
+            <Marker coordinate={value.station} />
+            {value.radiusM && (
+              <Circle
+                center={value.station}
+                radius={value.radiusM}
+                strokeColor="#FF4444"
+                fillColor="rgba(255,68,68,0.15)"
+              />
+            )}
+          </>
+        )}
+        {mode === 'polygon' && value.polygon && value.polygon.length > 0 && (
+          <>
+            {value.polygon.length > 2 && (
+              <Polygon
+                coordinates={value.polygon}
+                strokeColor="#FF4444"
+                fillColor="rgba(255,68,68,0.15)"
+              />
+            )}
+            {value.polygon.map((point, index) => (
+              <Marker key={index} coordinate={point} pinColor="#FF4444" />
+            ))}
+          </>
+        )}
+      </MapView>
+
+      {error ? <Text style={styles.errorText}>{error}</Text> : null}
+
+      {mode === 'radius' ? (
+        <View style={styles.controls}>
+          <TouchableOpacity style={styles.controlButton} onPress={useCurrentLocation}>
+            <Crosshair size={18} color="#FF4444" />
+            <Text style={styles.controlText}>Use My Location</Text>
+          </TouchableOpacity>
+          <TextInput
+            style={styles.radiusInput}
+            placeholder="Radius (km)"
+            value={radiusKm}
+            onChangeText={handleRadiusChange}
+            keyboardType="decimal-pad"
+          />
+        </View>
+      ) : (
+        <View style={styles.controls}>
+          <TouchableOpacity
+            style={styles.controlButton}
+            onPress={() => onChange({ ...value, polygon: (value.polygon ?? []).slice(0, -1) })}>
+            <Undo2 size={18} color="#FF4444" />
+            <Text style={styles.controlText}>Undo</Text>
+          </TouchableOpacity>
+          <TouchableOpacity
+            style={styles.controlButton}
+            onPress={() => onChange({ ...value, polygon: [] })}>
+            <Trash2 size={18} color="#FF4444" />
+            <Text style={styles.controlText}>Clear</Text>
+          </TouchableOpacity>
+        </View>
+      )}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    gap: 12,
+  },
+  modeToggle: {
+    flexDirection: 'row',
+    backgroundColor: '#fff',
+    borderRadius: 8,
+    padding: 4,
+    gap: 4,
+  },
+  modeButton: {
+    flex: 1,
+    padding: 10,
+    borderRadius: 6,
+    alignItems: 'center',
+  },
+  modeButtonActive: {
+    backgroundColor: '#FF4444',
+  },
+  modeText: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#666',
+  },
+  modeTextActive: {
+    color: '#fff',
+  },
+  hint: {
+    fontSize: 14,
+    color: '#666',
+  },
+  map: {
+    height: 280,
+    borderRadius: 8,
+  },
+  controls: {
+    flexDirection: 'row',
+    gap: 12,
+    alignItems: 'center',
+  },
+  controlButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+    backgroundColor: '#fff',
+    borderWidth: 1,
+    borderColor: '#FF4444',
+    padding: 12,
+    borderRadius: 8,
+  },
+  controlText: {
+    color: '#FF4444',
+    fontSize: 14,
+    fontWeight: '600',
+  },
+  radiusInput: {
+    flex: 1,
+    backgroundColor: '#fff',
+    borderWidth: 1,
+    borderColor: '#ddd',
+    borderRadius: 8,
+    padding: 12,
+    fontSize: 16,
+  },
+  errorText: {
+    color: '#FF4444',
+    fontSize: 14,
+  },
+});
@@ -0,0 +1,110 @@
+import { useState } from 'react';
+import { View, Text, StyleSheet, TouchableOpacity, TextInput } from 'react-native';
+import * as Location from 'expo-location';
+import { Crosshair } from 'lucide-react-native';
+import { ServiceArea } from '../lib/serviceArea';
+import { formatCoordinates } from '../lib/location';
+
+type Props = {
+  value: ServiceArea;
+  onChange: (area: ServiceArea) => void;
+};
+
+// react-native-maps has no web implementation, so only station + radius can be set here
+export default function ServiceAreaEditor({ value, onChange }: Props) {
+  const [radiusKm, setRadiusKm] = useState(value.radiusM ? String(value.radiusM / 1000) : '');
+  const [error, setError] = useState('');
+
+  const useCurrentLocation = async () => {
+    try {
+      const location = await Location.getCurrentPositionAsync({});
+      setError('');
+      onChange({
+        ...value,
+        polygon: null,
+        station: { latitude: location.coords.latitude, longitude: location.coords.longitude },
+      });
+    } catch (err: any) {
+      console.error('Error getting location:', err);
+      setError('Unable to get location');
+    }
+  };
+
+  const handleRadiusChange = (text: string) => {
+    setRadiusKm(text);
+    const km = parseFloat(text);
+    onChange({
+      ...value,
+      polygon: null,
+      radiusM: Number.isFinite(km) && km > 0 ? Math.round(km * 1000) : null,
+    });
+  };
+
+  return (
+    <View style={styles.container}>
+      <Text style={styles.hint}>
+        Drawing a service area is only available in the mobile app.
+      </Text>
+      <Text style={styles.hint}>
+        Station: {value.station ? formatCoordinates(value.station.latitude, value.station.longitude) : 'Not set'}
+      </Text>
+      {error ? <Text style={styles.errorText}>{error}</Text> : null}
+      <View style={styles.controls}>
+        <TouchableOpacity style={styles.controlButton} onPress={useCurrentLocation}>
+          <Crosshair size={18} color="#FF4444" />
+          <Text style={styles.controlText}>Use My Location</Text>
+        </TouchableOpacity>
+        <TextInput
+          style={styles.radiusInput}
+          placeholder="Radius (km)"
+          value={radiusKm}
+          onChangeText={handleRadiusChange}
+          keyboardType="decimal-pad"
+        />
+      </View>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    gap: 12,
+  },
+  hint: {
+    fontSize: 14,
+    color: '#666',
+  },
+  controls: {
+    flexDirection: 'row',
+    gap: 12,
+    alignItems: 'center',
+  },
+  controlButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+    backgroundColor: '#fff',
+    borderWidth: 1,
+    borderColor: '#FF4444',
+    padding: 12,
+    borderRadius: 8,
+  },
+  controlText: {
+    color: '#FF4444',
+    fontSize: 14,
+    fontWeight: '600',
+  },
+  radiusInput: {
+    flex: 1,
+    backgroundColor: '#fff',
+    borderWidth: 1,
+    borderColor: '#ddd',
+    borderRadius: 8,
+    padding: 12,
+    fontSize: 16,
+  },
+  errorText: {
+    color: '#FF4444',
+    fontSize: 14,
+  },
+});
@@ -0,0 +1,41 @@
+import { View, Text, StyleSheet } from 'react-native';
+import { PhoneOff } from 'lucide-react-native';
+
+// Shown to responders on alerts sent from discreet mode
+export default function SilentAlertBanner() {
+  return (
+    <View style={styles.banner}>
+      <PhoneOff size={18} color="#fff" />
+      <View style={styles.text}>
+        <Text style={styles.title}>Silent alert</Text>
+        <Text style={styles.body}>
+          Do not call or text the reporter. Someone nearby may be watching their phone.
+        </Text>
+      </View>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  banner: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 12,
+    backgroundColor: '#1a1a1a',
+    padding: 12,
+    borderRadius: 8,
+  },
+  text: {
+    flex: 1,
+  },
+  title: {
+    color: '#fff',
+    fontSize: 14,
+    fontWeight: '600',
+    textTransform: 'uppercase',
+  },
+  body: {
+    color: '#fff',
+    fontSize: 13,
+  },
+});
@@ -0,0 +1,37 @@
+import { Text, StyleSheet, Pressable } from 'react-native';
+import { EyeOff } from 'lucide-react-native';
+import { useDiscreetSos } from '../hooks/useDiscreetSos';
+
+// Long enough that a pocket tap or a brush past it won't send
+const HOLD_TO_SEND_MS = 1500;
+
+export default function SilentSosButton() {
+  const { triggerSilentSos } = useDiscreetSos();
+
+  return (
+    <Pressable style={styles.button} onLongPress={triggerSilentSos} delayLongPress={HOLD_TO_SEND_MS}>
+      <EyeOff size={18} color="#666" />
+      <Text style={styles.text}>Hold for Silent SOS</Text>
+    </Pressable>
+  );
+}
+
+const styles = StyleSheet.create({
+  button: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    gap: 8,
+    padding: 14,
+    marginTop: 16,
+    borderRadius: 8,
+    borderWidth: 1,
+    borderColor: '#ddd',
+    backgroundColor: 'rgba(255, 255, 255, 0.9)',
+  },
+  text: {
+    color: '#666',
+    fontSize: 14,
+    fontWeight: '600',
+  },
+});
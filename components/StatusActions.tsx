@@ -0,0 +1,222 @@
+import { useState } from 'react';
+import { View, Text, StyleSheet, TouchableOpacity, Modal, TextInput } from 'react-native';
+import {
+  AlertStatus,
+  getStatusColor,
+  getTransitionLabel,
+  requiresReason,
+} from '../lib/alerts';
+import { canConfirmWithDevice, confirmWithDevice, confirmWithPassword } from '../lib/identity';
+
+type Props = {
+  // Statuses offered as buttons, in display order
+  transitions: AlertStatus[];
+  onTransition: (status: AlertStatus, reason?: string) => void;
+  // Ask for biometrics, device PIN or the account password before each change
+  confirmIdentity?: boolean;
+};
+
+export default function StatusActions({ transitions, onTransition, confirmIdentity = false }: Props) {
+  const [pendingStatus, setPendingStatus] = useState<AlertStatus | null>(null);
+  const [reason, setReason] = useState('');
+  const [needsPassword, setNeedsPassword] = useState(false);
+  const [password, setPassword] = useState('');
+  const [confirmError, setConfirmError] = useState('');
+  const [confirming, setConfirming] = useState(false);
+
+  if (transitions.length === 0) {
+    return null;
+  }
+
+  const handlePress = async (status: AlertStatus) => {
+    if (!requiresReason(status) && !confirmIdentity) {
+      onTransition(status);
+      return;
+    }
+
+    setReason('');
+    setPassword('');
+    setConfirmError('');
+    setNeedsPassword(confirmIdentity && !(await canConfirmWithDevice()));
+    setPendingStatus(status);
+  };
+
+  const canSubmit =
+    (!pendingStatus || !requiresReason(pendingStatus) || reason.trim() !== '') &&
+    (!needsPassword || password !== '');
+
+  const handleConfirm = async () => {
+    if (!pendingStatus || !canSubmit) return;
+
+    setConfirming(true);
+    setConfirmError('');
+    try {
+      if (confirmIdentity) {
+        const confirmed = needsPassword
+          ? await confirmWithPassword(password)
+          : await confirmWithDevice("Confirm it's you");
+
+        if (!confirmed) {
+          setConfirmError(needsPassword ? 'Incorrect password' : 'Identity not confirmed');
+          return;
+        }
+      }
+
+      onTransition(pendingStatus, reason.trim() || undefined);
+      setPendingStatus(null);
+    } catch (err: any) {
+      console.error('Error confirming identity:', err);
+      setConfirmError(err.message);
+    } finally {
+      setConfirming(false);
+    }
+  };
+
+  return (
+    <View style={styles.actionButtons}>
+      {transitions.map((status) => (
+        <TouchableOpacity
+          key={status}
+          style={[styles.actionButton, { backgroundColor: getStatusColor(status) }]}
+          onPress={() => handlePress(status)}>
+          <Text style={styles.actionButtonText}>{getTransitionLabel(status)}</Text>
+        </TouchableOpacity>
+      ))}
+
+      <Modal
+        visible={pendingStatus !== null}
+        transparent
+        animationType="fade"
+        onRequestClose={() => setPendingStatus(null)}>
+        <View style={styles.overlay}>
+          <View style={styles.dialog}>
+            <Text style={styles.dialogTitle}>
+              {pendingStatus ? getTransitionLabel(pendingStatus) : ''}
+            </Text>
+            {pendingStatus && requiresReason(pendingStatus) && (
+              <>
+                <Text style={styles.dialogText}>Give a reason for this change.</Text>
+                <TextInput
+                  style={[styles.input, styles.reasonInput]}
+                  placeholder="Reason"
+                  value={reason}
+                  onChangeText={setReason}
+                  multiline
+                  autoFocus
+                />
+              </>
+            )}
+            {needsPassword && (
+              <>
+                <Text style={styles.dialogText}>Enter your password to confirm it's you.</Text>
+                <TextInput
+                  style={styles.input}
+                  placeholder="Password"
+                  value={password}
+                  onChangeText={setPassword}
+                  secureTextEntry
+                />
+              </>
+            )}
+            {confirmError ? <Text style={styles.errorText}>{confirmError}</Text> : null}
+            <View style={styles.dialogButtons}>
+              <TouchableOpacity
+                style={[styles.dialogButton, styles.cancelButton]}
+                onPress={() => setPendingStatus(null)}>
+                <Text style={styles.cancelButtonText}>Back</Text>
+              </TouchableOpacity>
+              <TouchableOpacity
+                style={[
+                  styles.dialogButton,
+                  { backgroundColor: pendingStatus ? getStatusColor(pendingStatus) : '#666' },
+                  (!canSubmit || confirming) && styles.disabledButton,
+                ]}
+                onPress={handleConfirm}
+                disabled={!canSubmit || confirming}>
+                <Text style={styles.actionButtonText}>Confirm</Text>
+              </TouchableOpacity>
+            </View>
+          </View>
+        </View>
+      </Modal>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  actionButtons: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+  },
+  actionButton: {
+    flex: 1,
+    minWidth: '30%',
+    padding: 12,
+    borderRadius: 8,
+    alignItems: 'center',
+  },
+  actionButtonText: {
+    color: '#fff',
+    fontSize: 14,
+    fontWeight: '600',
+  },
+  overlay: {
+    flex: 1,
+    backgroundColor: 'rgba(0,0,0,0.4)',
+    justifyContent: 'center',
+    padding: 24,
+  },
+  dialog: {
+    backgroundColor: '#fff',
+    borderRadius: 12,
+    padding: 20,
+    gap: 12,
+  },
+  dialogTitle: {
+    fontSize: 18,
+    fontWeight: '600',
+    color: '#1a1a1a',
+  },
+  dialogText: {
+    fontSize: 14,
+    color: '#666',
+  },
+  input: {
+    backgroundColor: '#fff',
+    borderWidth: 1,
+    borderColor: '#ddd',
+    borderRadius: 8,
+    padding: 12,
+    fontSize: 16,
+  },
+  reasonInput: {
+    minHeight: 80,
+    textAlignVertical: 'top',
+  },
+  errorText: {
+    color: '#FF4444',
+    fontSize: 14,
+  },
+  dialogButtons: {
+    flexDirection: 'row',
+    gap: 12,
+  },
+  dialogButton: {
+    flex: 1,
+    padding: 12,
+    borderRadius: 8,
+    alignItems: 'center',
+  },
+  cancelButton: {
+    backgroundColor: '#f1f1f1',
+  },
+  cancelButtonText: {
+    color: '#666',
+    fontSize: 14,
+    fontWeight: '600',
+  },
+  disabledButton: {
+    opacity: 0.5,
+  },
+});
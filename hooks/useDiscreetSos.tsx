@@ -0,0 +1,73 @@
+import { createContext, ReactNode, useContext, useEffect, useRef, useState } from 'react';
+import { useRole } from './useRole';
+import {
+  DEFAULT_DISCREET_SETTINGS,
+  DiscreetSettings,
+  getDiscreetSettings,
+  saveDiscreetSettings,
+  sendSilentAlert,
+  watchForShakePattern,
+} from '../lib/discreetSos';
+import DisguiseScreen from '../components/DisguiseScreen';
+
+type DiscreetSosContextValue = {
+  settings: DiscreetSettings;
+  updateSettings: (settings: DiscreetSettings) => Promise<void>;
+  // Disguises the screen at once, then sends the silent alert behind it
+  triggerSilentSos: () => void;
+};
+
+const DiscreetSosContext = createContext<DiscreetSosContextValue | null>(null);
+
+export function DiscreetSosProvider({ children }: { children: ReactNode }) {
+  const { userId } = useRole();
+  const [settings, setSettings] = useState<DiscreetSettings>(DEFAULT_DISCREET_SETTINGS);
+  const [isDisguised, setIsDisguised] = useState(false);
+  // A second shake pattern while one alert is in flight must not send another
+  const isSendingRef = useRef(false);
+
+  useEffect(() => {
+    getDiscreetSettings()
+      .then(setSettings)
+      .catch((error) => console.error('Error loading discreet SOS settings:', error));
+  }, []);
+
+  const triggerSilentSos = () => {
+    setIsDisguised(true);
+    if (!userId || isSendingRef.current) return;
+
+    isSendingRef.current = true;
+    // sendSilentAlert waits for a location rather than failing. Other failures
+    // are logged only; an error message on screen would give it away
+    sendSilentAlert(userId)
+      .catch((error) => console.error('Error sending silent alert:', error))
+      .finally(() => {
+        isSendingRef.current = false;
+      });
+  };
+
+  useEffect(() => {
+    if (!settings.shakeToSend || !userId) return;
+    return watchForShakePattern(triggerSilentSos);
+  }, [settings.shakeToSend, userId]);
+
+  const updateSettings = async (next: DiscreetSettings) => {
+    await saveDiscreetSettings(next);
+    setSettings(next);
+  };
+
+  return (
+    <DiscreetSosContext.Provider value={{ settings, updateSettings, triggerSilentSos }}>
+      {children}
+      <DisguiseScreen visible={isDisguised} onExit={() => setIsDisguised(false)} />
+    </DiscreetSosContext.Provider>
+  );
+}
+
+export function useDiscreetSos() {
+  const context = useContext(DiscreetSosContext);
+  if (!context) {
+    throw new Error('useDiscreetSos must be used inside a DiscreetSosProvider');
+  }
+  return context;
+}
@@ -0,0 +1,81 @@
+import { createContext, ReactNode, useContext, useEffect, useState } from 'react';
+import { useAuth } from './useAuth';
+import { fetchUserRole, UserRole } from '../lib/roles';
+import { savePushToken } from '../lib/notifications';
+
+type RoleContextValue = {
+  role: UserRole | null;
+  userId: string | null;
+  isDispatcher: boolean;
+  // True until the signed-in user's role has been looked up
+  isLoading: boolean;
+  error: string;
+  refreshRole: () => Promise<void>;
+};
+
+const RoleContext = createContext<RoleContextValue | null>(null);
+
+export function RoleProvider({ children }: { children: ReactNode }) {
+  const { session, isLoading: isAuthLoading } = useAuth();
+  const userId = session?.user.id ?? null;
+  const [role, setRole] = useState<UserRole | null>(null);
+  const [isDispatcher, setIsDispatcher] = useState(false);
+  const [resolvedFor, setResolvedFor] = useState<string | null>(null);
+  const [error, setError] = useState('');
+
+  const loadRole = async (id: string) => {
+    try {
+      const resolved = await fetchUserRole(id);
+      setRole(resolved?.role ?? null);
+      setIsDispatcher(resolved?.isDispatcher ?? false);
+      setError(resolved ? '' : 'User profile not found');
+    } catch (err: any) {
+      console.error('Error loading user role:', err);
+      setRole(null);
+      setError(err.message);
+    } finally {
+      setResolvedFor(id);
+    }
+  };
+
+  useEffect(() => {
+    if (userId) {
+      loadRole(userId);
+    } else {
+      setRole(null);
+      setIsDispatcher(false);
+      setResolvedFor(null);
+      setError('');
+    }
+  }, [userId]);
+
+  useEffect(() => {
+    // Responders must be reachable by push without first opening Settings
+    if (role) {
+      savePushToken(role).catch((error) => {
+        console.error('Error saving push token:', error);
+      });
+    }
+  }, [role, userId]);
+
+  const value: RoleContextValue = {
+    role: resolvedFor === userId ? role : null,
+    userId,
+    isDispatcher: resolvedFor === userId && isDispatcher,
+    isLoading: isAuthLoading || (userId !== null && resolvedFor !== userId),
+    error,
+    refreshRole: async () => {
+      if (userId) await loadRole(userId);
+    },
+  };
+
+  return <RoleContext.Provider value={value}>{children}</RoleContext.Provider>;
+}
+
+export function useRole() {
+  const context = useContext(RoleContext);
+  if (!context) {
+    throw new Error('useRole must be used inside a RoleProvider');
+  }
+  return context;
+}
@@ -0,0 +1,30 @@
+import { supabase } from './supabase';
+import { ALERT_GRACE_PERIOD_SECONDS } from './alerts';
+
+export type AlertActivationMode = 'countdown' | 'hold';
+
+export const ALERT_ACTIVATION_MODES: AlertActivationMode[] = ['countdown', 'hold'];
+
+export const DEFAULT_ACTIVATION_MODE: AlertActivationMode = 'countdown';
+
+// How long an emergency button must be held down in hold mode
+export const ALERT_HOLD_DURATION_MS = 2000;
+
+export function getActivationModeLabel(mode: AlertActivationMode) {
+  return mode === 'hold' ? 'Press and hold' : 'Tap, then countdown';
+}
+
+export function getActivationModeDescription(mode: AlertActivationMode) {
+  return mode === 'hold'
+    ? `Hold a button for ${ALERT_HOLD_DURATION_MS / 1000} seconds. The phone vibrates as it fills and the alert is sent on the final buzz. Let go early to call it off.`
+    : `Tap a button to start a ${ALERT_GRACE_PERIOD_SECONDS} second countdown. The alert is sent when it reaches zero unless you cancel it.`;
+}
+
+export async function saveAlertActivationMode(userId: string, mode: AlertActivationMode) {
+  const { error } = await supabase
+    .from('users')
+    .update({ alert_activation_mode: mode })
+    .eq('id', userId);
+
+  if (error) throw error;
+}
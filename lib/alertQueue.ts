@@ -0,0 +1,333 @@
+import * as SecureStore from 'expo-secure-store';
+import * as Network from 'expo-network';
+import * as SMS from 'expo-sms';
+import * as Crypto from 'expo-crypto';
+import { AppState, Platform } from 'react-native';
+import { supabase } from './supabase';
+import { AlertType, getTypeLabel } from './alerts';
+import { LocationFix, formatAccuracy } from './location';
+import { describeLocation } from './locationFormats';
+import { startAlertTracking } from './tracking';
+import { getPrimaryContact } from './contacts';
+
+// SecureStore has no key listing, so the ids of queued alerts are kept here
+const QUEUE_INDEX_KEY = 'queued_alert_ids';
+const QUEUED_ALERT_KEY_PREFIX = 'queued_alert_';
+const FALLBACK_CONTACT_KEY = 'fallback_contact_phone';
+
+const RETRY_BASE_MS = 5 * 1000;
+const RETRY_MAX_MS = 5 * 60 * 1000;
+
+// Number that receives the SMS fallback alongside the primary contact
+const EMERGENCY_SMS_NUMBER = process.env.EXPO_PUBLIC_EMERGENCY_SMS_NUMBER || '';
+// How long an alert may sit in the queue before the SMS fallback is offered
+export const SMS_FALLBACK_DELAY_MS =
+  Number(process.env.EXPO_PUBLIC_SMS_FALLBACK_DELAY_SECONDS || 60) * 1000;
+
+export type QueuedAlert = {
+  // Generated on the device and reused as alerts.id, so a retry after a
+  // lost response can't create a second alert
+  id: string;
+  user_id: string;
+  type: AlertType;
+  fix: LocationFix;
+  description: string;
+  // Resolved on the device before sending; stored so lists needn't geocode
+  address?: string | null;
+  queued_at: string;
+  attempts: number;
+  next_attempt_at: string;
+  sms_sent_at: string | null;
+  last_error: string | null;
+  // Discreet mode: no SMS composer, which would show on screen
+  silent?: boolean;
+};
+
+export type SubmitResult = { id: string; queued: boolean };
+
+type QueueListener = (alerts: QueuedAlert[]) => void;
+
+const listeners = new Set<QueueListener>();
+let flushTimer: ReturnType<typeof setTimeout> | null = null;
+let isFlushing = false;
+let isStarted = false;
+
+async function readIndex(): Promise<string[]> {
+  const raw = await SecureStore.getItemAsync(QUEUE_INDEX_KEY);
+  return raw ? JSON.parse(raw) : [];
+}
+
+async function writeIndex(ids: string[]) {
+  await SecureStore.setItemAsync(QUEUE_INDEX_KEY, JSON.stringify(ids));
+}
+
+async function saveEntry(entry: QueuedAlert) {
+  await SecureStore.setItemAsync(QUEUED_ALERT_KEY_PREFIX + entry.id, JSON.stringify(entry));
+}
+
+async function removeEntry(id: string) {
+  await writeIndex((await readIndex()).filter((queuedId) => queuedId !== id));
+  await SecureStore.deleteItemAsync(QUEUED_ALERT_KEY_PREFIX + id);
+}
+
+export async function getQueuedAlerts(): Promise<QueuedAlert[]> {
+  if (Platform.OS === 'web') {
+    return [];
+  }
+
+  const entries = await Promise.all(
+    (await readIndex()).map((id) => SecureStore.getItemAsync(QUEUED_ALERT_KEY_PREFIX + id))
+  );
+  return entries
+    .filter((raw): raw is string => !!raw)
+    .map((raw) => JSON.parse(raw) as QueuedAlert)
+    .sort((a, b) => a.queued_at.localeCompare(b.queued_at));
+}
+
+async function notifyListeners() {
+  const alerts = await getQueuedAlerts();
+  listeners.forEach((listener) => listener(alerts));
+}
+
+/**
+ * Calls the listener with the current queue and again whenever it changes.
+ * Returns an unsubscribe function.
+ */
+export function subscribeToAlertQueue(listener: QueueListener) {
+  listeners.add(listener);
+  getQueuedAlerts().then(listener).catch((error) => {
+    console.error('Error reading alert queue:', error);
+  });
+  return () => {
+    listeners.delete(listener);
+  };
+}
+
+// PostgREST errors carry an SQLSTATE code; fetch failures don't
+function isNetworkError(error: any) {
+  if (!error) return false;
+  if (error.code) return false;
+  return /network|fetch|timed? ?out|abort/i.test(error.message ?? String(error));
+}
+
+function getRetryDelay(attempts: number) {
+  return Math.min(RETRY_BASE_MS * 2 ** attempts, RETRY_MAX_MS);
+}
+
+async function insertAlert(entry: QueuedAlert) {
+  const { error } = await supabase.from('alerts').insert({
+    id: entry.id,
+    user_id: entry.user_id,
+    type: entry.type,
+    latitude: entry.fix.latitude,
+    longitude: entry.fix.longitude,
+    location_accuracy: entry.fix.accuracy,
+    altitude: entry.fix.altitude,
+    location_timestamp: entry.fix.timestamp,
+    location_provider: entry.fix.provider,
+    location_stale: entry.fix.stale,
+    status: 'pending',
+    description: entry.description,
+    address: entry.address ?? null,
+    silent: !!entry.silent,
+  });
+
+  // The first attempt may have landed even though its response was lost
+  if (error && error.code !== '23505') throw error;
+}
+
+/**
+ * Inserts an emergency alert, or queues it on the device when the network or
+ * Supabase can't be reached. Queued alerts are retried with backoff until the
+ * insert succeeds. Any other error is thrown as usual. Silent alerts are never
+ * offered as an SMS.
+ */
+export async function submitAlert(
+  userId: string,
+  type: AlertType,
+  fix: LocationFix,
+  description: string,
+  address: string | null,
+  silent = false
+): Promise<SubmitResult> {
+  const now = new Date().toISOString();
+  const entry: QueuedAlert = {
+    id: Crypto.randomUUID(),
+    user_id: userId,
+    type,
+    fix,
+    description,
+    address,
+    queued_at: now,
+    attempts: 0,
+    next_attempt_at: now,
+    sms_sent_at: null,
+    last_error: null,
+    silent,
+  };
+
+  try {
+    await insertAlert(entry);
+    return { id: entry.id, queued: false };
+  } catch (error: any) {
+    if (!isNetworkError(error) || Platform.OS === 'web') throw error;
+    console.error('Alert insert failed, queueing for retry:', error);
+  }
+
+  entry.attempts = 1;
+  entry.next_attempt_at = new Date(Date.now() + getRetryDelay(0)).toISOString();
+  await saveEntry(entry);
+  await writeIndex([...(await readIndex()), entry.id]);
+  await notifyListeners();
+  scheduleFlush(getRetryDelay(0));
+
+  return { id: entry.id, queued: true };
+}
+
+function composeFallbackMessage(entry: QueuedAlert) {
+  const { latitude, longitude, accuracy } = entry.fix;
+  const precision = formatAccuracy(accuracy);
+
+  // Every format, since whoever reads it may be relaying it over a radio
+  return [
+    `EMERGENCY: ${getTypeLabel(entry.type)} SOS. I need help and have no data connection.`,
+    describeLocation(latitude, longitude),
+    precision ? `Accuracy: ${precision}` : null,
+    `Sent ${new Date(entry.queued_at).toLocaleTimeString()}`,
+  ]
+    .filter(Boolean)
+    .join('\n');
+}
+
+async function sendSmsFallback(entry: QueuedAlert) {
+  const recipients = [EMERGENCY_SMS_NUMBER, await SecureStore.getItemAsync(FALLBACK_CONTACT_KEY)]
+    .filter((number): number is string => !!number);
+
+  if (!recipients.length || !(await SMS.isAvailableAsync())) {
+    return false;
+  }
+
+  // Opens the composer; the user still has to press send
+  await SMS.sendSMSAsync(recipients, composeFallbackMessage(entry));
+  return true;
+}
+
+async function isOnline() {
+  try {
+    const state = await Network.getNetworkStateAsync();
+    return !!state.isConnected && state.isInternetReachable !== false;
+  } catch {
+    return true;
+  }
+}
+
+// Pass force to retry every entry now instead of waiting out its backoff
+export async function flushAlertQueue(force = false) {
+  if (isFlushing || Platform.OS === 'web') return;
+  isFlushing = true;
+
+  let nextDelay: number | null = null;
+  const wake = (delay: number) => {
+    nextDelay = nextDelay === null ? delay : Math.min(nextDelay, delay);
+  };
+
+  try {
+    const online = await isOnline();
+
+    for (const entry of await getQueuedAlerts()) {
+      const now = Date.now();
+
+      // While offline the network listener triggers the next attempt
+      if (online && (force || Date.parse(entry.next_attempt_at) <= now)) {
+        entry.attempts += 1;
+        entry.next_attempt_at = new Date(now + getRetryDelay(entry.attempts)).toISOString();
+
+        try {
+          await insertAlert(entry);
+          await removeEntry(entry.id);
+          startAlertTracking(entry.id, entry.silent);
+          continue;
+        } catch (error: any) {
+          entry.last_error = error.message;
+          if (!isNetworkError(error)) {
+            // Retrying won't fix a rejected insert; keep it visible and back off
+            console.error('Queued alert rejected:', error);
+            entry.next_attempt_at = new Date(now + RETRY_MAX_MS).toISOString();
+          }
+        }
+      }
+
+      // Still not uploaded, so nobody has been told yet
+      if (!entry.sms_sent_at && !entry.silent) {
+        const smsDueAt = Date.parse(entry.queued_at) + SMS_FALLBACK_DELAY_MS;
+        if (smsDueAt > now) {
+          wake(smsDueAt - now);
+        } else if (AppState.currentState === 'active' && (await sendSmsFallback(entry))) {
+          entry.sms_sent_at = new Date().toISOString();
+        }
+      }
+
+      await saveEntry(entry);
+      wake(online ? Math.max(Date.parse(entry.next_attempt_at) - now, 0) : RETRY_MAX_MS);
+    }
+  } catch (error) {
+    console.error('Error flushing alert queue:', error);
+    wake(RETRY_BASE_MS);
+  } finally {
+    isFlushing = false;
+  }
+
+  await notifyListeners();
+  if (nextDelay !== null) {
+    scheduleFlush(nextDelay);
+  }
+}
+
+function scheduleFlush(delay: number) {
+  if (flushTimer) clearTimeout(flushTimer);
+  flushTimer = setTimeout(() => {
+    flushTimer = null;
+    flushAlertQueue();
+  }, delay);
+}
+
+/**
+ * Retries anything left in the queue from a previous session and flushes
+ * again whenever the device comes back online or the app is reopened.
+ */
+export function startAlertQueue() {
+  if (isStarted || Platform.OS === 'web') return;
+  isStarted = true;
+
+  Network.addNetworkStateListener((state) => {
+    if (state.isConnected && state.isInternetReachable !== false) {
+      flushAlertQueue(true);
+    }
+  });
+  AppState.addEventListener('change', (state) => {
+    if (state === 'active') {
+      flushAlertQueue();
+    }
+  });
+
+  flushAlertQueue();
+}
+
+/**
+ * Keeps the primary contact's number on the device so the SMS fallback can
+ * reach them without a data connection.
+ */
+export async function rememberFallbackContact(phoneNumber: string | null) {
+  if (Platform.OS === 'web') return;
+
+  if (phoneNumber) {
+    await SecureStore.setItemAsync(FALLBACK_CONTACT_KEY, phoneNumber);
+  } else {
+    await SecureStore.deleteItemAsync(FALLBACK_CONTACT_KEY);
+  }
+}
+
+export async function syncFallbackContact() {
+  const primary = await getPrimaryContact();
+  await rememberFallbackContact(primary?.phone_number ?? null);
+}
@@ -0,0 +1,155 @@
+import { supabase } from './supabase';
+import {
+  ALERT_SUMMARY_SELECT,
+  AlertStatus,
+  AlertSummary,
+  AlertSummaryRow,
+  AlertType,
+  LoadedReporterDetails,
+  TRAIL_POINTS_PER_ALERT,
+  withReporterDetails,
+} from './alerts';
+
+export const ALERT_PAGE_SIZE = 20;
+
+export type AlertDateRange = 'any' | 'day' | 'week' | 'month';
+
+export const ALERT_DATE_RANGES: AlertDateRange[] = ['any', 'day', 'week', 'month'];
+
+// Radius choices for responders, in metres from their station
+export const ALERT_DISTANCES_M = [1000, 5000, 10000, 25000];
+
+export type AlertFilters = {
+  statuses: AlertStatus[];
+  types: AlertType[];
+  dateRange: AlertDateRange;
+  maxDistanceM: number | null;
+  query: string;
+};
+
+export const EMPTY_ALERT_FILTERS: AlertFilters = {
+  statuses: [],
+  types: [],
+  dateRange: 'any',
+  maxDistanceM: null,
+  query: '',
+};
+
+// Where the next page starts; created_at alone isn't unique
+export type AlertCursor = {
+  created_at: string;
+  id: string;
+};
+
+export type AlertPage<T> = {
+  alerts: T[];
+  nextCursor: AlertCursor | null;
+};
+
+// Who the list is for: civilians see their own alerts, responders the types they handle
+export type AlertScope = {
+  userId?: string;
+  types?: AlertType[];
+};
+
+export function getDateRangeLabel(range: AlertDateRange) {
+  switch (range) {
+    case 'day':
+      return 'Last 24 hours';
+    case 'week':
+      return 'Last 7 days';
+    case 'month':
+      return 'Last 30 days';
+    default:
+      return 'Any time';
+  }
+}
+
+function getDateRangeStart(range: AlertDateRange) {
+  const days = range === 'day' ? 1 : range === 'week' ? 7 : range === 'month' ? 30 : null;
+  return days ? new Date(Date.now() - days * 24 * 60 * 60 * 1000).toISOString() : null;
+}
+
+export function countActiveFilters(filters: AlertFilters) {
+  return (
+    filters.statuses.length +
+    filters.types.length +
+    (filters.dateRange !== 'any' ? 1 : 0) +
+    (filters.maxDistanceM ? 1 : 0)
+  );
+}
+
+// Commas, parentheses and quotes are syntax inside a PostgREST or=() filter
+function sanitizeSearch(query: string) {
+  return query.replace(/[,()"\\*%]/g, ' ').trim();
+}
+
+/**
+ * Fetches one page of alerts, newest first. Filtering, search and paging all
+ * happen in the database; pass the previous page's nextCursor to continue.
+ * RLS still decides which alerts the caller can see at all. `loaded` is
+ * passed on to withReporterDetails.
+ */
+export async function searchAlerts(
+  scope: AlertScope,
+  filters: AlertFilters,
+  cursor: AlertCursor | null,
+  loaded: LoadedReporterDetails[] = []
+): Promise<AlertPage<AlertSummary>> {
+  let types = filters.types;
+  if (scope.types) {
+    types = types.length ? types.filter((type) => scope.types!.includes(type)) : scope.types;
+    if (!types.length) return { alerts: [], nextCursor: null };
+  }
+
+  let query = supabase.from('alerts').select(ALERT_SUMMARY_SELECT);
+
+  if (scope.userId) {
+    query = query.eq('user_id', scope.userId);
+  }
+  if (types.length) {
+    query = query.in('type', types);
+  }
+  if (filters.statuses.length) {
+    query = query.in('status', filters.statuses);
+  }
+
+  const since = getDateRangeStart(filters.dateRange);
+  if (since) {
+    query = query.gte('created_at', since);
+  }
+  if (filters.maxDistanceM) {
+    // Computed column; null when the responder has no station, so those drop out
+    query = query.lte('distance_m', filters.maxDistanceM);
+  }
+
+  const search = sanitizeSearch(filters.query);
+  if (search) {
+    query = query.or(`description.ilike.*${search}*,address.ilike.*${search}*`);
+  }
+  if (cursor) {
+    // Quoted: the timestamp's offset and fraction must reach Postgres untouched
+    query = query.or(
+      `created_at.lt."${cursor.created_at}",and(created_at.eq."${cursor.created_at}",id.lt.${cursor.id})`
+    );
+  }
+
+  const { data, error } = await query
+    .order('created_at', { ascending: false })
+    .order('id', { ascending: false })
+    .order('recorded_at', { referencedTable: 'alert_locations', ascending: false })
+    .limit(TRAIL_POINTS_PER_ALERT, { referencedTable: 'alert_locations' })
+    .limit(ALERT_PAGE_SIZE)
+    .overrideTypes<AlertSummaryRow[], { merge: false }>();
+
+  if (error) throw error;
+
+  const alerts = await withReporterDetails(data ?? [], loaded);
+  const last = alerts[alerts.length - 1];
+
+  return {
+    alerts,
+    nextCursor:
+      alerts.length === ALERT_PAGE_SIZE ? { created_at: last.created_at, id: last.id } : null,
+  };
+}
@@ -0,0 +1,381 @@
+import { supabase } from './supabase';
+import { MedicalId } from './medicalId';
+import { StoredAddress } from './geocoding';
+import { AlertSortOrder } from './serviceArea';
+import { UserRole } from './roles';
+import { AlertTimelineEntry, RESPONSE_SELECT } from './responses';
+
+export type AlertType = 'police' | 'medical' | 'general';
+export type AlertStatus =
+  | 'pending'
+  | 'acknowledged'
+  | 'responding'
+  | 'escalated'
+  | 'resolved'
+  | 'cancelled'
+  | 'false_alarm';
+
+export const ALERT_TYPES: AlertType[] = ['general', 'police', 'medical'];
+
+export const ALERT_STATUSES: AlertStatus[] = [
+  'pending',
+  'acknowledged',
+  'responding',
+  'escalated',
+  'resolved',
+  'cancelled',
+  'false_alarm',
+];
+
+// Statuses an alert never leaves
+export const TERMINAL_STATUSES: AlertStatus[] = ['resolved', 'cancelled', 'false_alarm'];
+
+// Seconds between tapping an emergency button and the alert being sent, in countdown mode
+export const ALERT_GRACE_PERIOD_SECONDS = 5;
+
+// Mirrors alert_transition_allowed() in the database, which has the final say
+const RESPONDER_TRANSITIONS: Record<AlertStatus, AlertStatus[]> = {
+  pending: ['acknowledged', 'responding', 'false_alarm'],
+  acknowledged: ['responding', 'escalated', 'false_alarm'],
+  responding: ['resolved', 'escalated', 'false_alarm'],
+  escalated: ['acknowledged', 'responding', 'resolved', 'false_alarm'],
+  resolved: [],
+  cancelled: [],
+  false_alarm: [],
+};
+
+export function isAlertOpen(status: AlertStatus) {
+  return !TERMINAL_STATUSES.includes(status);
+}
+
+export function getResponderTransitions(status: AlertStatus) {
+  return RESPONDER_TRANSITIONS[status] ?? [];
+}
+
+// The reporter can withdraw their own alert at any point until it closes
+export function getReporterTransitions(status: AlertStatus): AlertStatus[] {
+  return isAlertOpen(status) ? ['cancelled', 'false_alarm'] : [];
+}
+
+// Changes that must be explained before they are made
+export function requiresReason(status: AlertStatus) {
+  return status === 'escalated' || status === 'false_alarm' || status === 'cancelled';
+}
+
+export function getStatusColor(status: AlertStatus) {
+  switch (status) {
+    case 'pending':
+      return '#FF4444';
+    case 'acknowledged':
+      return '#FFB020';
+    case 'responding':
+      return '#3366FF';
+    case 'escalated':
+      return '#9C27B0';
+    case 'resolved':
+      return '#44B944';
+    case 'cancelled':
+    case 'false_alarm':
+      return '#999';
+    default:
+      return '#666';
+  }
+}
+
+export function getStatusLabel(status: AlertStatus) {
+  return status === 'false_alarm' ? 'false alarm' : status;
+}
+
+export function getTransitionLabel(status: AlertStatus) {
+  switch (status) {
+    case 'acknowledged':
+      return 'Acknowledge';
+    case 'responding':
+      return 'Respond';
+    case 'escalated':
+      return 'Escalate';
+    case 'resolved':
+      return 'Mark as Resolved';
+    case 'false_alarm':
+      return 'False Alarm';
+    case 'cancelled':
+      return "I'm Safe";
+    default:
+      return status;
+  }
+}
+
+// Responders see the alert types they handle plus general SOS; null means no restriction
+export function getHandledAlertTypes(role: UserRole): AlertType[] | null {
+  if (role === 'police') return ['police', 'general'];
+  if (role === 'hospital') return ['medical', 'general'];
+  return null;
+}
+
+export function getTypeLabel(type: AlertType) {
+  switch (type) {
+    case 'police':
+      return 'Police Emergency';
+    case 'medical':
+      return 'Medical Emergency';
+    case 'general':
+      return 'Emergency SOS';
+    default:
+      return 'Emergency';
+  }
+}
+
+/**
+ * Moves an alert through its lifecycle. The database checks the transition
+ * and records the `responses` row in the same transaction.
+ */
+export async function updateAlertStatus(alertId: string, status: AlertStatus, reason?: string) {
+  const { error } = await supabase.rpc('transition_alert', {
+    p_alert_id: alertId,
+    p_status: status,
+    p_reason: reason?.trim() || undefined,
+  });
+
+  if (error) throw error;
+}
+
+export type AlertAssignee = {
+  id: string;
+  organization_name: string;
+  responder_type: 'police' | 'hospital';
+};
+
+/**
+ * Takes ownership of an unassigned alert. Fails if another unit got there
+ * first.
+ */
+export async function claimAlert(alertId: string) {
+  const { error } = await supabase.rpc('claim_alert', { p_alert_id: alertId });
+
+  if (error) throw error;
+}
+
+// Pass null to release the alert back to the pool
+export async function reassignAlert(alertId: string, responderId: string | null, reason?: string) {
+  const { error } = await supabase.rpc('reassign_alert', {
+    p_alert_id: alertId,
+    p_responder_id: responderId ?? undefined,
+    p_reason: reason?.trim() || undefined,
+  });
+
+  if (error) throw error;
+}
+
+export async function getAssignableResponders(alertId: string): Promise<AlertAssignee[]> {
+  const { data, error } = await supabase.rpc('assignable_responders', { p_alert_id: alertId });
+
+  if (error) throw error;
+  return data ?? [];
+}
+
+// Deep-link target for push notifications, toasts and list cards
+export function getAlertRoute(alertId: string) {
+  return `/alerts/${alertId}`;
+}
+
+export type AlertReporter = {
+  id: string;
+  full_name: string | null;
+  phone_number: string | null;
+  medical_id: MedicalId | null;
+};
+
+export type AlertContactSnapshot = {
+  id: string;
+  name: string;
+  relationship: string | null;
+  phone_number: string | null;
+  email: string | null;
+  is_primary: boolean;
+};
+
+export type AlertTrailPoint = {
+  latitude: number;
+  longitude: number;
+  accuracy: number | null;
+  recorded_at: string;
+};
+
+// One alert with its relations, as every alert screen shows it
+export type AlertSummary = StoredAddress & {
+  id: string;
+  user_id: string;
+  type: AlertType;
+  status: AlertStatus;
+  created_at: string;
+  description: string | null;
+  latitude: number;
+  longitude: number;
+  last_latitude: number | null;
+  last_longitude: number | null;
+  location_accuracy: number | null;
+  location_timestamp: string | null;
+  location_stale: boolean;
+  address: string | null;
+  address_resolved_at: string | null;
+  // Sent from discreet mode: nobody may call or text the reporter
+  silent: boolean;
+  // From the responder's station; null for civilians and responders without one
+  distance_m: number | null;
+  assignee: AlertAssignee | null;
+  reporter: AlertReporter | null;
+  responses: AlertTimelineEntry[];
+  // Newest first
+  alert_locations: AlertTrailPoint[];
+  alert_contacts: AlertContactSnapshot[];
+};
+
+// The detail screen has no station distance, and its timeline runs oldest first
+export type AlertDetail = Omit<AlertSummary, 'distance_m'>;
+
+// Trail points embedded per alert in lists; the detail screen has the full trail
+export const TRAIL_POINTS_PER_ALERT = 20;
+
+const ALERT_RELATIONS = `
+  assignee,
+  responses (${RESPONSE_SELECT}),
+  alert_locations (
+    latitude,
+    longitude,
+    accuracy,
+    recorded_at
+  )
+`;
+
+// `distance_m` is a computed column, so it has to be named
+export const ALERT_SUMMARY_SELECT = `*, distance_m, ${ALERT_RELATIONS}`;
+
+// What ALERT_SUMMARY_SELECT returns, before withReporterDetails fills in the rest
+export type AlertSummaryRow = Omit<AlertSummary, 'reporter' | 'alert_contacts'>;
+
+// An alert as last shown, whose reporter details can be reused on reload
+export type LoadedReporterDetails = Pick<AlertSummary, 'id' | 'status' | 'assignee' | 'reporter' | 'alert_contacts'>;
+
+/**
+ * Adds the reporter and their emergency contacts to each alert. These come
+ * from `read_alert_reporters`, which only returns them to the reporter and
+ * to responders who need them, and logs every responder read for the
+ * reporter to see in Settings. Alerts the caller can't see them on get a
+ * null reporter and no contacts.
+ *
+ * Pass the alerts already on screen as `loaded` when reloading: details are
+ * reused for alerts whose status and assignee haven't changed, so location
+ * updates don't read the reporter's details again.
+ */
+export async function withReporterDetails<T extends Pick<AlertSummary, 'id' | 'status' | 'assignee'>>(
+  alerts: T[],
+  loaded: LoadedReporterDetails[] = []
+): Promise<(T & Pick<AlertSummary, 'reporter' | 'alert_contacts'>)[]> {
+  const reusable = new Map(
+    loaded.filter((alert) => alert.reporter).map((alert) => [alert.id, alert])
+  );
+  const reuse = (alert: T) => {
+    const previous = reusable.get(alert.id);
+    return previous?.status === alert.status && previous.assignee?.id === alert.assignee?.id
+      ? previous
+      : undefined;
+  };
+
+  const missing = alerts.filter((alert) => !reuse(alert)).map((alert) => alert.id);
+  const details = new Map<string, { reporter: unknown; contacts: unknown }>();
+
+  if (missing.length > 0) {
+    const { data, error } = await supabase.rpc('read_alert_reporters', {
+      p_alert_ids: missing,
+    });
+
+    if (error) throw error;
+    (data ?? []).forEach((row) => details.set(row.alert_id, row));
+  }
+
+  return alerts.map((alert) => {
+    const previous = reuse(alert);
+    if (previous) {
+      return { ...alert, reporter: previous.reporter, alert_contacts: previous.alert_contacts };
+    }
+
+    const row = details.get(alert.id);
+    return {
+      ...alert,
+      reporter: (row?.reporter ?? null) as AlertReporter | null,
+      alert_contacts: (row?.contacts ?? []) as AlertContactSnapshot[],
+    };
+  });
+}
+
+/**
+ * Open alerts of the given types for the responder home feed. RLS keeps them
+ * to the caller's service area.
+ */
+export async function getOpenAlerts(
+  types: AlertType[] | null,
+  sortOrder: AlertSortOrder,
+  loaded: LoadedReporterDetails[] = []
+) {
+  let query = supabase
+    .from('alerts')
+    .select(ALERT_SUMMARY_SELECT)
+    .not('status', 'in', `(${TERMINAL_STATUSES.join(',')})`);
+
+  if (types) {
+    query = query.in('type', types);
+  }
+  if (sortOrder === 'nearest') {
+    query = query.order('distance_m', { ascending: true, nullsFirst: false });
+  }
+
+  const { data, error } = await query
+    .order('created_at', { ascending: false })
+    .order('recorded_at', { referencedTable: 'alert_locations', ascending: false })
+    .limit(TRAIL_POINTS_PER_ALERT, { referencedTable: 'alert_locations' })
+    .overrideTypes<AlertSummaryRow[], { merge: false }>();
+
+  if (error) throw error;
+  return withReporterDetails(data ?? [], loaded);
+}
+
+/**
+ * Loads one alert with everything the detail screen shows. Returns null when
+ * the alert doesn't exist or the caller can't see it.
+ */
+export async function getAlertDetail(
+  alertId: string,
+  loaded?: LoadedReporterDetails | null
+): Promise<AlertDetail | null> {
+  const { data, error } = await supabase
+    .from('alerts')
+    .select(`*, ${ALERT_RELATIONS}`)
+    .eq('id', alertId)
+    .order('created_at', { referencedTable: 'responses', ascending: true })
+    .order('recorded_at', { referencedTable: 'alert_locations', ascending: false })
+    .maybeSingle()
+    .overrideTypes<Omit<AlertDetail, 'reporter' | 'alert_contacts'> | null, { merge: false }>();
+
+  if (error) throw error;
+  if (!data) return null;
+
+  const [alert] = await withReporterDetails([data], loaded ? [loaded] : []);
+  return alert;
+}
+
+/**
+ * Calls onChange whenever the alert, its timeline or its location trail
+ * changes. Returns a cleanup function.
+ */
+export function subscribeToAlert(alertId: string, onChange: () => void) {
+  const channel = supabase
+    .channel(`alert-${alertId}`)
+    .on('postgres_changes', { event: 'UPDATE', schema: 'public', table: 'alerts', filter: `id=eq.${alertId}` }, onChange)
+    .on('postgres_changes', { event: 'INSERT', schema: 'public', table: 'responses', filter: `alert_id=eq.${alertId}` }, onChange)
+    .on('postgres_changes', { event: 'INSERT', schema: 'public', table: 'alert_locations', filter: `alert_id=eq.${alertId}` }, onChange)
+    .subscribe();
+
+  return () => {
+    supabase.removeChannel(channel);
+  };
+}
@@ -0,0 +1,145 @@
+import * as ImagePicker from 'expo-image-picker';
+import * as Crypto from 'expo-crypto';
+import { supabase } from './supabase';
+
+export const ALERT_ATTACHMENTS_BUCKET = 'alert-attachments';
+
+export type MessageSender = {
+  id: string;
+  name: string;
+  role: 'civilian' | 'police' | 'hospital';
+};
+
+export type AlertMessage = {
+  id: string;
+  alert_id: string;
+  sender_id: string;
+  body: string | null;
+  attachment_path: string | null;
+  // Signed URL for the attachment, resolved when the thread is loaded
+  attachment_url: string | null;
+  created_at: string;
+  sender: MessageSender | null;
+  alert_message_reads: { reader_id: string; read_at: string }[];
+};
+
+// Canned replies for moments when typing isn't practical
+export const RESPONDER_QUICK_REPLIES = [
+  'Are you safe?',
+  'Stay where you are',
+  'Help is on the way',
+  'Can you describe any injuries?',
+];
+
+export const REPORTER_QUICK_REPLIES = [
+  "I'm safe",
+  'I need help now',
+  "I can't talk",
+  'I have moved',
+];
+
+export async function getAlertMessages(alertId: string): Promise<AlertMessage[]> {
+  const { data, error } = await supabase
+    .from('alert_messages')
+    .select(`
+      id,
+      alert_id,
+      sender_id,
+      body,
+      attachment_path,
+      created_at,
+      sender,
+      alert_message_reads (reader_id, read_at)
+    `)
+    .eq('alert_id', alertId)
+    .order('created_at', { ascending: true });
+
+  if (error) throw error;
+
+  const messages = (data ?? []) as unknown as Omit<AlertMessage, 'attachment_url'>[];
+  const paths = messages.map((message) => message.attachment_path).filter((path): path is string => !!path);
+
+  const urls: Record<string, string> = {};
+  if (paths.length) {
+    const { data: signed, error: signError } = await supabase.storage
+      .from(ALERT_ATTACHMENTS_BUCKET)
+      .createSignedUrls(paths, 60 * 60);
+    if (signError) throw signError;
+    signed.forEach((item) => {
+      if (item.path && item.signedUrl) urls[item.path] = item.signedUrl;
+    });
+  }
+
+  return messages.map((message) => ({
+    ...message,
+    attachment_url: message.attachment_path ? urls[message.attachment_path] ?? null : null,
+  }));
+}
+
+export async function sendAlertMessage(alertId: string, body: string) {
+  const { error } = await supabase.from('alert_messages').insert({
+    alert_id: alertId,
+    body: body.trim(),
+  });
+
+  if (error) throw error;
+}
+
+/**
+ * Opens the camera and posts the photo to the thread. Returns false if the
+ * user cancelled or denied camera access.
+ */
+export async function sendAlertPhoto(alertId: string) {
+  const { status } = await ImagePicker.requestCameraPermissionsAsync();
+  if (status !== 'granted') return false;
+
+  const result = await ImagePicker.launchCameraAsync({
+    mediaTypes: ['images'],
+    quality: 0.6,
+  });
+  if (result.canceled) return false;
+
+  const asset = result.assets[0];
+  // Storage policies check the alert id in the first path segment
+  const storagePath = `${alertId}/${Crypto.randomUUID()}.jpg`;
+  const body = await (await fetch(asset.uri)).arrayBuffer();
+
+  const { error: uploadError } = await supabase.storage
+    .from(ALERT_ATTACHMENTS_BUCKET)
+    .upload(storagePath, body, { contentType: asset.mimeType ?? 'image/jpeg' });
+  if (uploadError) throw uploadError;
+
+  const { error } = await supabase.from('alert_messages').insert({
+    alert_id: alertId,
+    attachment_path: storagePath,
+  });
+  if (error) throw error;
+
+  return true;
+}
+
+export async function markAlertMessagesRead(alertId: string) {
+  const { error } = await supabase.rpc('mark_alert_messages_read', { p_alert_id: alertId });
+  if (error) throw error;
+}
+
+/**
+ * Calls onChange whenever a message is posted to the thread or a receipt is
+ * recorded. Returns a cleanup function.
+ */
+export function subscribeToAlertMessages(alertId: string, onChange: () => void) {
+  const channel = supabase
+    .channel(`alert-messages-${alertId}`)
+    .on(
+      'postgres_changes',
+      { event: 'INSERT', schema: 'public', table: 'alert_messages', filter: `alert_id=eq.${alertId}` },
+      onChange
+    )
+    // Receipts carry no alert id; RLS limits them to threads we can see
+    .on('postgres_changes', { event: 'INSERT', schema: 'public', table: 'alert_message_reads' }, onChange)
+    .subscribe();
+
+  return () => {
+    supabase.removeChannel(channel);
+  };
+}
@@ -0,0 +1,59 @@
+import { supabase } from './supabase';
+import { Tables } from './database.types';
+
+export type Contact = Tables<'contacts'>;
+
+export type NewContact = Pick<Contact, 'name' | 'relationship' | 'phone_number' | 'email'>;
+
+// RLS limits every query here to the signed-in user's own contacts. Primary first.
+export async function getContacts(): Promise<Contact[]> {
+  const { data, error } = await supabase
+    .from('contacts')
+    .select('*')
+    .order('is_primary', { ascending: false });
+
+  if (error) throw error;
+  return data ?? [];
+}
+
+export async function getPrimaryContact() {
+  const { data, error } = await supabase
+    .from('contacts')
+    .select('name, phone_number')
+    .eq('is_primary', true)
+    .limit(1)
+    .maybeSingle();
+
+  if (error) throw error;
+  return data;
+}
+
+// A contact needs a phone number or an email; blank fields are stored as NULL
+export async function addContact(userId: string, contact: NewContact, isPrimary: boolean) {
+  const { error } = await supabase.from('contacts').insert({
+    ...contact,
+    phone_number: contact.phone_number?.trim() || null,
+    email: contact.email?.trim() || null,
+    user_id: userId,
+    is_primary: isPrimary,
+  });
+
+  if (error) throw error;
+}
+
+export async function deleteContact(contactId: string) {
+  const { error } = await supabase.from('contacts').delete().eq('id', contactId);
+
+  if (error) throw error;
+}
+
+export async function setPrimaryContact(contactId: string) {
+  const { error: clearError } = await supabase
+    .from('contacts')
+    .update({ is_primary: false })
+    .neq('id', contactId);
+  if (clearError) throw clearError;
+
+  const { error } = await supabase.from('contacts').update({ is_primary: true }).eq('id', contactId);
+  if (error) throw error;
+}
@@ -0,0 +1,1097 @@
+// Generated from supabase/migrations. Do not edit by hand; regenerate with
+//   npx supabase gen types typescript --local > lib/database.types.ts
+
+export type Json =
+  | string
+  | number
+  | boolean
+  | null
+  | { [key: string]: Json | undefined }
+  | Json[]
+
+export type Database = {
+  public: {
+    Tables: {
+      admins: {
+        Row: {
+          created_at: string | null
+          id: string
+        }
+        Insert: {
+          created_at?: string | null
+          id: string
+        }
+        Update: {
+          created_at?: string | null
+          id?: string
+        }
+        Relationships: []
+      }
+      alert_contacts: {
+        Row: {
+          alert_id: string
+          contact_id: string | null
+          created_at: string | null
+          email: string | null
+          id: string
+          is_primary: boolean
+          name: string
+          phone_number: string | null
+          relationship: string | null
+        }
+        Insert: {
+          alert_id: string
+          contact_id?: string | null
+          created_at?: string | null
+          email?: string | null
+          id?: string
+          is_primary?: boolean
+          name: string
+          phone_number?: string | null
+          relationship?: string | null
+        }
+        Update: {
+          alert_id?: string
+          contact_id?: string | null
+          created_at?: string | null
+          email?: string | null
+          id?: string
+          is_primary?: boolean
+          name?: string
+          phone_number?: string | null
+          relationship?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "alert_contacts_alert_id_fkey"
+            columns: ["alert_id"]
+            isOneToOne: false
+            referencedRelation: "alerts"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "alert_contacts_contact_id_fkey"
+            columns: ["contact_id"]
+            isOneToOne: false
+            referencedRelation: "contacts"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      alert_locations: {
+        Row: {
+          accuracy: number | null
+          alert_id: string
+          altitude: number | null
+          created_at: string | null
+          heading: number | null
+          id: string
+          latitude: number
+          longitude: number
+          recorded_at: string
+          speed: number | null
+        }
+        Insert: {
+          accuracy?: number | null
+          alert_id: string
+          altitude?: number | null
+          created_at?: string | null
+          heading?: number | null
+          id?: string
+          latitude: number
+          longitude: number
+          recorded_at: string
+          speed?: number | null
+        }
+        Update: {
+          accuracy?: number | null
+          alert_id?: string
+          altitude?: number | null
+          created_at?: string | null
+          heading?: number | null
+          id?: string
+          latitude?: number
+          longitude?: number
+          recorded_at?: string
+          speed?: number | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "alert_locations_alert_id_fkey"
+            columns: ["alert_id"]
+            isOneToOne: false
+            referencedRelation: "alerts"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      alert_message_reads: {
+        Row: {
+          message_id: string
+          read_at: string | null
+          reader_id: string
+        }
+        Insert: {
+          message_id: string
+          read_at?: string | null
+          reader_id: string
+        }
+        Update: {
+          message_id?: string
+          read_at?: string | null
+          reader_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "alert_message_reads_message_id_fkey"
+            columns: ["message_id"]
+            isOneToOne: false
+            referencedRelation: "alert_messages"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      alert_messages: {
+        Row: {
+          alert_id: string
+          attachment_path: string | null
+          body: string | null
+          created_at: string | null
+          id: string
+          sender_id: string
+        }
+        Insert: {
+          alert_id: string
+          attachment_path?: string | null
+          body?: string | null
+          created_at?: string | null
+          id?: string
+          sender_id?: string
+        }
+        Update: {
+          alert_id?: string
+          attachment_path?: string | null
+          body?: string | null
+          created_at?: string | null
+          id?: string
+          sender_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "alert_messages_alert_id_fkey"
+            columns: ["alert_id"]
+            isOneToOne: false
+            referencedRelation: "alerts"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      alerts: {
+        Row: {
+          address: string | null
+          address_city: string | null
+          address_country: string | null
+          address_location: unknown | null
+          address_postcode: string | null
+          address_region: string | null
+          address_requested_at: string | null
+          address_resolved_at: string | null
+          address_street: string | null
+          altitude: number | null
+          assigned_at: string | null
+          assigned_responder_id: string | null
+          closed_at: string | null
+          created_at: string | null
+          description: string | null
+          id: string
+          last_latitude: number | null
+          last_location_accuracy: number | null
+          last_location_at: string | null
+          last_longitude: number | null
+          latitude: number
+          location: unknown | null
+          location_accuracy: number | null
+          location_provider: string | null
+          location_stale: boolean
+          location_timestamp: string | null
+          longitude: number
+          silent: boolean
+          status: Database["public"]["Enums"]["alert_status"]
+          status_token: string
+          type: Database["public"]["Enums"]["alert_type"]
+          updated_at: string | null
+          user_id: string | null
+        }
+        Insert: {
+          address?: string | null
+          address_city?: string | null
+          address_country?: string | null
+          address_location?: unknown | null
+          address_postcode?: string | null
+          address_region?: string | null
+          address_requested_at?: string | null
+          address_resolved_at?: string | null
+          address_street?: string | null
+          altitude?: number | null
+          assigned_at?: string | null
+          assigned_responder_id?: string | null
+          closed_at?: string | null
+          created_at?: string | null
+          description?: string | null
+          id?: string
+          last_latitude?: number | null
+          last_location_accuracy?: number | null
+          last_location_at?: string | null
+          last_longitude?: number | null
+          latitude: number
+          location_accuracy?: number | null
+          location_provider?: string | null
+          location_stale?: boolean
+          location_timestamp?: string | null
+          longitude: number
+          silent?: boolean
+          status?: Database["public"]["Enums"]["alert_status"]
+          status_token?: string
+          type: Database["public"]["Enums"]["alert_type"]
+          updated_at?: string | null
+          user_id?: string | null
+        }
+        Update: {
+          address?: string | null
+          address_city?: string | null
+          address_country?: string | null
+          address_location?: unknown | null
+          address_postcode?: string | null
+          address_region?: string | null
+          address_requested_at?: string | null
+          address_resolved_at?: string | null
+          address_street?: string | null
+          altitude?: number | null
+          assigned_at?: string | null
+          assigned_responder_id?: string | null
+          closed_at?: string | null
+          created_at?: string | null
+          description?: string | null
+          id?: string
+          last_latitude?: number | null
+          last_location_accuracy?: number | null
+          last_location_at?: string | null
+          last_longitude?: number | null
+          latitude?: number
+          location_accuracy?: number | null
+          location_provider?: string | null
+          location_stale?: boolean
+          location_timestamp?: string | null
+          longitude?: number
+          silent?: boolean
+          status?: Database["public"]["Enums"]["alert_status"]
+          status_token?: string
+          type?: Database["public"]["Enums"]["alert_type"]
+          updated_at?: string | null
+          user_id?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "alerts_assigned_responder_id_fkey"
+            columns: ["assigned_responder_id"]
+            isOneToOne: false
+            referencedRelation: "responders"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "alerts_user_id_fkey"
+            columns: ["user_id"]
+            isOneToOne: false
+            referencedRelation: "users"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      contact_notifications: {
+        Row: {
+          alert_id: string
+          channel: string
+          contact_id: string | null
+          created_at: string | null
+          destination: string
+          error_message: string | null
+          escalation_level: number
+          id: string
+          provider: string
+          provider_message_id: string | null
+          status: string
+          updated_at: string | null
+        }
+        Insert: {
+          alert_id: string
+          channel: string
+          contact_id?: string | null
+          created_at?: string | null
+          destination: string
+          error_message?: string | null
+          escalation_level?: number
+          id?: string
+          provider: string
+          provider_message_id?: string | null
+          status: string
+          updated_at?: string | null
+        }
+        Update: {
+          alert_id?: string
+          channel?: string
+          contact_id?: string | null
+          created_at?: string | null
+          destination?: string
+          error_message?: string | null
+          escalation_level?: number
+          id?: string
+          provider?: string
+          provider_message_id?: string | null
+          status?: string
+          updated_at?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "contact_notifications_alert_id_fkey"
+            columns: ["alert_id"]
+            isOneToOne: false
+            referencedRelation: "alerts"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "contact_notifications_contact_id_fkey"
+            columns: ["contact_id"]
+            isOneToOne: false
+            referencedRelation: "contacts"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      contacts: {
+        Row: {
+          created_at: string | null
+          email: string | null
+          id: string
+          is_primary: boolean | null
+          name: string
+          phone_number: string | null
+          relationship: string | null
+          updated_at: string | null
+          user_id: string | null
+        }
+        Insert: {
+          created_at?: string | null
+          email?: string | null
+          id?: string
+          is_primary?: boolean | null
+          name: string
+          phone_number?: string | null
+          relationship?: string | null
+          updated_at?: string | null
+          user_id?: string | null
+        }
+        Update: {
+          created_at?: string | null
+          email?: string | null
+          id?: string
+          is_primary?: boolean | null
+          name?: string
+          phone_number?: string | null
+          relationship?: string | null
+          updated_at?: string | null
+          user_id?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "contacts_user_id_fkey"
+            columns: ["user_id"]
+            isOneToOne: false
+            referencedRelation: "users"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      geocode_quotas: {
+        Row: {
+          request_count: number
+          user_id: string
+          window_started_at: string
+        }
+        Insert: {
+          request_count?: number
+          user_id: string
+          window_started_at?: string
+        }
+        Update: {
+          request_count?: number
+          user_id?: string
+          window_started_at?: string
+        }
+        Relationships: []
+      }
+      medical_ids: {
+        Row: {
+          allergies: Json
+          blood_type: Database["public"]["Enums"]["blood_type"] | null
+          conditions: Json
+          implanted_devices: Json
+          medications: Json
+          organ_donor: boolean | null
+          physician_name: string | null
+          physician_phone: string | null
+          updated_at: string | null
+          user_id: string
+        }
+        Insert: {
+          allergies?: Json
+          blood_type?: Database["public"]["Enums"]["blood_type"] | null
+          conditions?: Json
+          implanted_devices?: Json
+          medications?: Json
+          organ_donor?: boolean | null
+          physician_name?: string | null
+          physician_phone?: string | null
+          updated_at?: string | null
+          user_id: string
+        }
+        Update: {
+          allergies?: Json
+          blood_type?: Database["public"]["Enums"]["blood_type"] | null
+          conditions?: Json
+          implanted_devices?: Json
+          medications?: Json
+          organ_donor?: boolean | null
+          physician_name?: string | null
+          physician_phone?: string | null
+          updated_at?: string | null
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "medical_ids_user_id_fkey"
+            columns: ["user_id"]
+            isOneToOne: true
+            referencedRelation: "users"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      password_check_failures: {
+        Row: {
+          failure_count: number
+          user_id: string
+          window_started_at: string
+        }
+        Insert: {
+          failure_count?: number
+          user_id: string
+          window_started_at?: string
+        }
+        Update: {
+          failure_count?: number
+          user_id?: string
+          window_started_at?: string
+        }
+        Relationships: []
+      }
+      push_deliveries: {
+        Row: {
+          alert_id: string
+          created_at: string | null
+          error_code: string | null
+          error_message: string | null
+          event: string
+          id: string
+          push_token: string
+          receipt_checked_at: string | null
+          receipt_status: string | null
+          recipient_id: string
+          ticket_id: string | null
+          ticket_status: string
+        }
+        Insert: {
+          alert_id: string
+          created_at?: string | null
+          error_code?: string | null
+          error_message?: string | null
+          event: string
+          id?: string
+          push_token: string
+          receipt_checked_at?: string | null
+          receipt_status?: string | null
+          recipient_id: string
+          ticket_id?: string | null
+          ticket_status: string
+        }
+        Update: {
+          alert_id?: string
+          created_at?: string | null
+          error_code?: string | null
+          error_message?: string | null
+          event?: string
+          id?: string
+          push_token?: string
+          receipt_checked_at?: string | null
+          receipt_status?: string | null
+          recipient_id?: string
+          ticket_id?: string | null
+          ticket_status?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "push_deliveries_alert_id_fkey"
+            columns: ["alert_id"]
+            isOneToOne: false
+            referencedRelation: "alerts"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      reporter_access_events: {
+        Row: {
+          alert_id: string | null
+          created_at: string | null
+          fields: string[]
+          id: string
+          organization_name: string
+          responder_id: string | null
+          responder_type: Database["public"]["Enums"]["responder_type"]
+          user_id: string
+        }
+        Insert: {
+          alert_id?: string | null
+          created_at?: string | null
+          fields: string[]
+          id?: string
+          organization_name: string
+          responder_id?: string | null
+          responder_type: Database["public"]["Enums"]["responder_type"]
+          user_id: string
+        }
+        Update: {
+          alert_id?: string | null
+          created_at?: string | null
+          fields?: string[]
+          id?: string
+          organization_name?: string
+          responder_id?: string | null
+          responder_type?: Database["public"]["Enums"]["responder_type"]
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "reporter_access_events_alert_id_fkey"
+            columns: ["alert_id"]
+            isOneToOne: false
+            referencedRelation: "alerts"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "reporter_access_events_responder_id_fkey"
+            columns: ["responder_id"]
+            isOneToOne: false
+            referencedRelation: "responders"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "reporter_access_events_user_id_fkey"
+            columns: ["user_id"]
+            isOneToOne: false
+            referencedRelation: "users"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      responder_documents: {
+        Row: {
+          content_type: string | null
+          created_at: string | null
+          file_name: string
+          id: string
+          responder_id: string
+          storage_path: string
+        }
+        Insert: {
+          content_type?: string | null
+          created_at?: string | null
+          file_name: string
+          id?: string
+          responder_id: string
+          storage_path: string
+        }
+        Update: {
+          content_type?: string | null
+          created_at?: string | null
+          file_name?: string
+          id?: string
+          responder_id?: string
+          storage_path?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "responder_documents_responder_id_fkey"
+            columns: ["responder_id"]
+            isOneToOne: false
+            referencedRelation: "responders"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      responder_verification_events: {
+        Row: {
+          admin_id: string | null
+          created_at: string | null
+          decision: string
+          id: string
+          previous_state: string
+          reason: string | null
+          responder_id: string
+        }
+        Insert: {
+          admin_id?: string | null
+          created_at?: string | null
+          decision: string
+          id?: string
+          previous_state: string
+          reason?: string | null
+          responder_id: string
+        }
+        Update: {
+          admin_id?: string | null
+          created_at?: string | null
+          decision?: string
+          id?: string
+          previous_state?: string
+          reason?: string | null
+          responder_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "responder_verification_events_responder_id_fkey"
+            columns: ["responder_id"]
+            isOneToOne: false
+            referencedRelation: "responders"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      responders: {
+        Row: {
+          badge_number: string | null
+          created_at: string | null
+          id: string
+          is_dispatcher: boolean
+          jurisdiction: string | null
+          organization_id: string | null
+          organization_name: string
+          push_token: string | null
+          responder_type: Database["public"]["Enums"]["responder_type"]
+          reviewed_at: string | null
+          reviewed_by: string | null
+          service_area: unknown | null
+          service_radius_m: number | null
+          station_location: unknown | null
+          updated_at: string | null
+          verification_reason: string | null
+          verification_state: string
+          verification_status: boolean | null
+        }
+        Insert: {
+          badge_number?: string | null
+          created_at?: string | null
+          id: string
+          is_dispatcher?: boolean
+          jurisdiction?: string | null
+          organization_id?: string | null
+          organization_name: string
+          push_token?: string | null
+          responder_type: Database["public"]["Enums"]["responder_type"]
+          reviewed_at?: string | null
+          reviewed_by?: string | null
+          service_area?: unknown | null
+          service_radius_m?: number | null
+          station_location?: unknown | null
+          updated_at?: string | null
+          verification_reason?: string | null
+          verification_state?: string
+          verification_status?: boolean | null
+        }
+        Update: {
+          badge_number?: string | null
+          created_at?: string | null
+          id?: string
+          is_dispatcher?: boolean
+          jurisdiction?: string | null
+          organization_id?: string | null
+          organization_name?: string
+          push_token?: string | null
+          responder_type?: Database["public"]["Enums"]["responder_type"]
+          reviewed_at?: string | null
+          reviewed_by?: string | null
+          service_area?: unknown | null
+          service_radius_m?: number | null
+          station_location?: unknown | null
+          updated_at?: string | null
+          verification_reason?: string | null
+          verification_state?: string
+          verification_status?: boolean | null
+        }
+        Relationships: []
+      }
+      responses: {
+        Row: {
+          action_taken: string
+          actor_id: string | null
+          alert_id: string | null
+          created_at: string | null
+          from_status: Database["public"]["Enums"]["alert_status"] | null
+          id: string
+          reason: string | null
+          responder_id: string | null
+          to_status: Database["public"]["Enums"]["alert_status"] | null
+        }
+        Insert: {
+          action_taken: string
+          actor_id?: string | null
+          alert_id?: string | null
+          created_at?: string | null
+          from_status?: Database["public"]["Enums"]["alert_status"] | null
+          id?: string
+          reason?: string | null
+          responder_id?: string | null
+          to_status?: Database["public"]["Enums"]["alert_status"] | null
+        }
+        Update: {
+          action_taken?: string
+          actor_id?: string | null
+          alert_id?: string | null
+          created_at?: string | null
+          from_status?: Database["public"]["Enums"]["alert_status"] | null
+          id?: string
+          reason?: string | null
+          responder_id?: string | null
+          to_status?: Database["public"]["Enums"]["alert_status"] | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "responses_alert_id_fkey"
+            columns: ["alert_id"]
+            isOneToOne: false
+            referencedRelation: "alerts"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "responses_responder_id_fkey"
+            columns: ["responder_id"]
+            isOneToOne: false
+            referencedRelation: "responders"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      users: {
+        Row: {
+          alert_activation_mode: Database["public"]["Enums"]["alert_activation_mode"]
+          created_at: string | null
+          email: string | null
+          full_name: string | null
+          id: string
+          last_login: string | null
+          phone_number: string | null
+          push_token: string | null
+          updated_at: string | null
+          user_type: string
+        }
+        Insert: {
+          alert_activation_mode?: Database["public"]["Enums"]["alert_activation_mode"]
+          created_at?: string | null
+          email?: string | null
+          full_name?: string | null
+          id: string
+          last_login?: string | null
+          phone_number?: string | null
+          push_token?: string | null
+          updated_at?: string | null
+          user_type?: string
+        }
+        Update: {
+          alert_activation_mode?: Database["public"]["Enums"]["alert_activation_mode"]
+          created_at?: string | null
+          email?: string | null
+          full_name?: string | null
+          id?: string
+          last_login?: string | null
+          phone_number?: string | null
+          push_token?: string | null
+          updated_at?: string | null
+          user_type?: string
+        }
+        Relationships: []
+      }
+    }
+    Views: {
+      [_ in never]: never
+    }
+    Functions: {
+      actor: {
+        Args: { p_response: Database["public"]["Tables"]["responses"]["Row"] }
+        Returns: Json
+      }
+      alert_transition_allowed: {
+        Args: { p_from: string; p_to: string }
+        Returns: boolean
+      }
+      assignable_responders: {
+        Args: { p_alert_id: string }
+        Returns: {
+          id: string
+          organization_name: string
+          responder_type: Database["public"]["Enums"]["responder_type"]
+        }[]
+      }
+      assignee: {
+        Args: { p_alert: Database["public"]["Tables"]["alerts"]["Row"] }
+        Returns: Json
+      }
+      can_access_alert_thread: {
+        Args: { p_alert_id: string }
+        Returns: boolean
+      }
+      can_read_reporter_details: {
+        Args: { p_alert_id: string }
+        Returns: boolean
+      }
+      can_respond_at: {
+        Args: { p_location: unknown }
+        Returns: boolean
+      }
+      claim_alert: {
+        Args: { p_alert_id: string }
+        Returns: Database["public"]["Tables"]["alerts"]["Row"]
+      }
+      distance_m: {
+        Args: { p_alert: Database["public"]["Tables"]["alerts"]["Row"] }
+        Returns: number
+      }
+      eligible_push_recipients: {
+        Args: { p_alert_id: string }
+        Returns: {
+          recipient_id: string
+          push_token: string
+        }[]
+      }
+      get_service_area: {
+        Args: Record<PropertyKey, never>
+        Returns: Json
+      }
+      invoke_edge_function: {
+        Args: { p_name: string; p_payload: Json }
+        Returns: undefined
+      }
+      is_admin: {
+        Args: Record<PropertyKey, never>
+        Returns: boolean
+      }
+      is_dispatcher: {
+        Args: Record<PropertyKey, never>
+        Returns: boolean
+      }
+      mark_alert_messages_read: {
+        Args: { p_alert_id: string }
+        Returns: undefined
+      }
+      medical_entries_valid: {
+        Args: { p_entries: Json; p_key: string }
+        Returns: boolean
+      }
+      read_alert_reporters: {
+        Args: { p_alert_ids: string[] }
+        Returns: {
+          alert_id: string
+          reporter: Json
+          contacts: Json
+        }[]
+      }
+      reassign_alert: {
+        Args: { p_alert_id: string; p_responder_id?: string; p_reason?: string }
+        Returns: Database["public"]["Tables"]["alerts"]["Row"]
+      }
+      responder_covers_location: {
+        Args: {
+          p_responder: Database["public"]["Tables"]["responders"]["Row"]
+          p_location: unknown
+        }
+        Returns: boolean
+      }
+      responder_handles_alert: {
+        Args: {
+          p_responder: Database["public"]["Tables"]["responders"]["Row"]
+          p_alert: Database["public"]["Tables"]["alerts"]["Row"]
+        }
+        Returns: boolean
+      }
+      review_responder: {
+        Args: { p_responder_id: string; p_decision: string; p_reason?: string }
+        Returns: Database["public"]["Tables"]["responders"]["Row"]
+      }
+      sender: {
+        Args: { p_message: Database["public"]["Tables"]["alert_messages"]["Row"] }
+        Returns: Json
+      }
+      set_service_area: {
+        Args: {
+          p_station_latitude?: number
+          p_station_longitude?: number
+          p_radius_m?: number
+          p_polygon?: Json
+        }
+        Returns: undefined
+      }
+      take_geocode_quota: {
+        Args: { p_user_id: string; p_limit: number; p_window: unknown }
+        Returns: boolean
+      }
+      transition_alert: {
+        Args: {
+          p_alert_id: string
+          p_status: Database["public"]["Enums"]["alert_status"]
+          p_reason?: string
+        }
+        Returns: Database["public"]["Tables"]["alerts"]["Row"]
+      }
+      verify_own_password: {
+        Args: { p_password: string }
+        Returns: boolean
+      }
+    }
+    Enums: {
+      alert_activation_mode: "countdown" | "hold"
+      alert_status:
+        | "pending"
+        | "acknowledged"
+        | "responding"
+        | "resolved"
+        | "cancelled"
+        | "false_alarm"
+        | "escalated"
+      alert_type: "police" | "medical" | "general"
+      allergy_severity: "mild" | "moderate" | "severe" | "life_threatening"
+      blood_type: "A+" | "A-" | "B+" | "B-" | "AB+" | "AB-" | "O+" | "O-"
+      responder_type: "police" | "hospital"
+    }
+    CompositeTypes: {
+      [_ in never]: never
+    }
+  }
+}
+
+type DefaultSchema = Database[Extract<keyof Database, "public">]
+
+export type Tables<
+  DefaultSchemaTableNameOrOptions extends
+    | keyof (DefaultSchema["Tables"] & DefaultSchema["Views"])
+    | { schema: keyof Database },
+  TableName extends DefaultSchemaTableNameOrOptions extends {
+    schema: keyof Database
+  }
+    ? keyof (Database[DefaultSchemaTableNameOrOptions["schema"]]["Tables"] &
+        Database[DefaultSchemaTableNameOrOptions["schema"]]["Views"])
+    : never = never,
+> = DefaultSchemaTableNameOrOptions extends { schema: keyof Database }
+  ? (Database[DefaultSchemaTableNameOrOptions["schema"]]["Tables"] &
+      Database[DefaultSchemaTableNameOrOptions["schema"]]["Views"])[TableName] extends {
+      Row: infer R
+    }
+    ? R
+    : never
+  : DefaultSchemaTableNameOrOptions extends keyof (DefaultSchema["Tables"] &
+        DefaultSchema["Views"])
+    ? (DefaultSchema["Tables"] &
+        DefaultSchema["Views"])[DefaultSchemaTableNameOrOptions] extends {
+        Row: infer R
+      }
+      ? R
+      : never
+    : never
+
+export type TablesInsert<
+  DefaultSchemaTableNameOrOptions extends
+    | keyof DefaultSchema["Tables"]
+    | { schema: keyof Database },
+  TableName extends DefaultSchemaTableNameOrOptions extends {
+    schema: keyof Database
+  }
+    ? keyof Database[DefaultSchemaTableNameOrOptions["schema"]]["Tables"]
+    : never = never,
+> = DefaultSchemaTableNameOrOptions extends { schema: keyof Database }
+  ? Database[DefaultSchemaTableNameOrOptions["schema"]]["Tables"][TableName] extends {
+      Insert: infer I
+    }
+    ? I
+    : never
+  : DefaultSchemaTableNameOrOptions extends keyof DefaultSchema["Tables"]
+    ? DefaultSchema["Tables"][DefaultSchemaTableNameOrOptions] extends {
+        Insert: infer I
+      }
+      ? I
+      : never
+    : never
+
+export type TablesUpdate<
+  DefaultSchemaTableNameOrOptions extends
+    | keyof DefaultSchema["Tables"]
+    | { schema: keyof Database },
+  TableName extends DefaultSchemaTableNameOrOptions extends {
+    schema: keyof Database
+  }
+    ? keyof Database[DefaultSchemaTableNameOrOptions["schema"]]["Tables"]
+    : never = never,
+> = DefaultSchemaTableNameOrOptions extends { schema: keyof Database }
+  ? Database[DefaultSchemaTableNameOrOptions["schema"]]["Tables"][TableName] extends {
+      Update: infer U
+    }
+    ? U
+    : never
+  : DefaultSchemaTableNameOrOptions extends keyof DefaultSchema["Tables"]
+    ? DefaultSchema["Tables"][DefaultSchemaTableNameOrOptions] extends {
+        Update: infer U
+      }
+      ? U
+      : never
+    : never
+
+export type Enums<
+  DefaultSchemaEnumNameOrOptions extends
+    | keyof DefaultSchema["Enums"]
+    | { schema: keyof Database },
+  EnumName extends DefaultSchemaEnumNameOrOptions extends {
+    schema: keyof Database
+  }
+    ? keyof Database[DefaultSchemaEnumNameOrOptions["schema"]]["Enums"]
+    : never = never,
+> = DefaultSchemaEnumNameOrOptions extends { schema: keyof Database }
+  ? Database[DefaultSchemaEnumNameOrOptions["schema"]]["Enums"][EnumName]
+  : DefaultSchemaEnumNameOrOptions extends keyof DefaultSchema["Enums"]
+    ? DefaultSchema["Enums"][DefaultSchemaEnumNameOrOptions]
+    : never
+
+export const Constants = {
+  public: {
+    Enums: {
+      alert_activation_mode: ["countdown", "hold"],
+      alert_status: [
+        "pending",
+        "acknowledged",
+        "responding",
+        "resolved",
+        "cancelled",
+        "false_alarm",
+        "escalated",
+      ],
+      alert_type: ["police", "medical", "general"],
+      allergy_severity: ["mild", "moderate", "severe", "life_threatening"],
+      blood_type: ["A+", "A-", "B+", "B-", "AB+", "AB-", "O+", "O-"],
+      responder_type: ["police", "hospital"],
+    },
+  },
+} as const
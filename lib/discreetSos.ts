@@ -0,0 +1,107 @@
+import * as SecureStore from 'expo-secure-store';
+import { Accelerometer } from 'expo-sensors';
+import { Platform } from 'react-native';
+import { reverseGeocode } from './geocoding';
+import { LocationFix, formatCoordinates, getAlertLocationFix } from './location';
+import { startAlertTracking } from './tracking';
+import { SubmitResult, submitAlert } from './alertQueue';
+
+const SETTINGS_KEY = 'discreet_sos_settings';
+
+// Four hard shakes within three seconds; walking or a dropped phone won't do it
+const SHAKE_THRESHOLD_G = 2.3;
+const SHAKES_REQUIRED = 4;
+const SHAKE_WINDOW_MS = 3000;
+// One physical shake produces several readings above the threshold
+const SHAKE_DEBOUNCE_MS = 250;
+const SENSOR_INTERVAL_MS = 100;
+
+// Retries for a first fix when a silent alert has no location to send yet
+const FIX_RETRY_BASE_MS = 5 * 1000;
+const FIX_RETRY_MAX_MS = 60 * 1000;
+
+export type DiscreetSettings = {
+  shakeToSend: boolean;
+};
+
+export const DEFAULT_DISCREET_SETTINGS: DiscreetSettings = {
+  shakeToSend: false,
+};
+
+export async function getDiscreetSettings(): Promise<DiscreetSettings> {
+  if (Platform.OS === 'web') {
+    return DEFAULT_DISCREET_SETTINGS;
+  }
+
+  const raw = await SecureStore.getItemAsync(SETTINGS_KEY);
+  return raw ? { ...DEFAULT_DISCREET_SETTINGS, ...JSON.parse(raw) } : DEFAULT_DISCREET_SETTINGS;
+}
+
+export async function saveDiscreetSettings(settings: DiscreetSettings) {
+  if (Platform.OS === 'web') return;
+  await SecureStore.setItemAsync(SETTINGS_KEY, JSON.stringify(settings));
+}
+
+// Nothing on screen may say the alert didn't go out, so keep trying until a
+// fix arrives instead of giving up
+async function waitForLocationFix(): Promise<LocationFix> {
+  for (let attempt = 0; ; attempt++) {
+    try {
+      return await getAlertLocationFix(null);
+    } catch (error) {
+      console.error('No location for silent alert yet, retrying:', error);
+      const delay = Math.min(FIX_RETRY_BASE_MS * 2 ** attempt, FIX_RETRY_MAX_MS);
+      await new Promise((resolve) => setTimeout(resolve, delay));
+    }
+  }
+}
+
+/**
+ * Sends a general SOS flagged as silent. Nothing is shown or played: no
+ * countdown, no confirmation and no SMS composer if the device is offline.
+ * Without any location yet it waits in the background for one rather than
+ * dropping the alert.
+ */
+export async function sendSilentAlert(userId: string): Promise<SubmitResult> {
+  const fix = await waitForLocationFix();
+  const place = await reverseGeocode(fix.latitude, fix.longitude);
+  const address = place?.formatted ?? formatCoordinates(fix.latitude, fix.longitude);
+
+  const alert = await submitAlert(userId, 'general', fix, `Silent SOS sent from ${address}`, place?.formatted ?? null, true);
+  if (!alert.queued) {
+    startAlertTracking(alert.id, true);
+  }
+  return alert;
+}
+
+/**
+ * Calls onPattern when the phone is shaken hard several times in quick
+ * succession. Only works while the app is in the foreground: neither platform
+ * lets apps read the accelerometer, power or volume buttons in the background.
+ * Returns a cleanup function.
+ */
+export function watchForShakePattern(onPattern: () => void) {
+  if (Platform.OS === 'web') {
+    return () => {};
+  }
+
+  let shakes: number[] = [];
+
+  Accelerometer.setUpdateInterval(SENSOR_INTERVAL_MS);
+  const subscription = Accelerometer.addListener(({ x, y, z }) => {
+    if (Math.sqrt(x * x + y * y + z * z) < SHAKE_THRESHOLD_G) return;
+
+    const now = Date.now();
+    if (shakes.length && now - shakes[shakes.length - 1] < SHAKE_DEBOUNCE_MS) return;
+
+    shakes = [...shakes.filter((time) => now - time < SHAKE_WINDOW_MS), now];
+    if (shakes.length >= SHAKES_REQUIRED) {
+      shakes = [];
+      onPattern();
+    }
+  });
+
+  return () => {
+    subscription.remove();
+  };
+}
@@ -0,0 +1,195 @@
+import type { GeocodeResult, GeocodingProvider } from './geocoding';
+
+// [name, region, country, latitude, longitude]
+type Place = [string, string | null, string, number, number];
+
+// Bundled with the app so an alert still says roughly where it is offline
+const PLACES: Place[] = [
+  ['London', 'England', 'United Kingdom', 51.5074, -0.1278],
+  ['Birmingham', 'England', 'United Kingdom', 52.4862, -1.8904],
+  ['Manchester', 'England', 'United Kingdom', 53.4808, -2.2426],
+  ['Liverpool', 'England', 'United Kingdom', 53.4084, -2.9916],
+  ['Leeds', 'England', 'United Kingdom', 53.8008, -1.5491],
+  ['Sheffield', 'England', 'United Kingdom', 53.3811, -1.4701],
+  ['Bristol', 'England', 'United Kingdom', 51.4545, -2.5879],
+  ['Newcastle upon Tyne', 'England', 'United Kingdom', 54.9783, -1.6178],
+  ['Nottingham', 'England', 'United Kingdom', 52.9548, -1.1581],
+  ['Leicester', 'England', 'United Kingdom', 52.6369, -1.1398],
+  ['Southampton', 'England', 'United Kingdom', 50.9097, -1.4044],
+  ['Brighton', 'England', 'United Kingdom', 50.8225, -0.1372],
+  ['Plymouth', 'England', 'United Kingdom', 50.3755, -4.1427],
+  ['Norwich', 'England', 'United Kingdom', 52.6309, 1.2974],
+  ['Cambridge', 'England', 'United Kingdom', 52.2053, 0.1218],
+  ['Oxford', 'England', 'United Kingdom', 51.752, -1.2577],
+  ['York', 'England', 'United Kingdom', 53.96, -1.0873],
+  ['Hull', 'England', 'United Kingdom', 53.7676, -0.3274],
+  ['Exeter', 'England', 'United Kingdom', 50.7184, -3.5339],
+  ['Carlisle', 'England', 'United Kingdom', 54.8925, -2.9329],
+  ['Glasgow', 'Scotland', 'United Kingdom', 55.8642, -4.2518],
+  ['Edinburgh', 'Scotland', 'United Kingdom', 55.9533, -3.1883],
+  ['Aberdeen', 'Scotland', 'United Kingdom', 57.1497, -2.0943],
+  ['Dundee', 'Scotland', 'United Kingdom', 56.462, -2.9707],
+  ['Inverness', 'Scotland', 'United Kingdom', 57.4778, -4.2247],
+  ['Cardiff', 'Wales', 'United Kingdom', 51.4816, -3.1791],
+  ['Swansea', 'Wales', 'United Kingdom', 51.6214, -3.9436],
+  ['Aberystwyth', 'Wales', 'United Kingdom', 52.4153, -4.0829],
+  ['Belfast', 'Northern Ireland', 'United Kingdom', 54.5973, -5.9301],
+  ['Derry', 'Northern Ireland', 'United Kingdom', 54.9966, -7.3086],
+  ['Dublin', null, 'Ireland', 53.3498, -6.2603],
+  ['Cork', null, 'Ireland', 51.8985, -8.4756],
+  ['Galway', null, 'Ireland', 53.2707, -9.0568],
+  ['Paris', 'Île-de-France', 'France', 48.8566, 2.3522],
+  ['Lyon', 'Auvergne-Rhône-Alpes', 'France', 45.764, 4.8357],
+  ['Marseille', "Provence-Alpes-Côte d'Azur", 'France', 43.2965, 5.3698],
+  ['Toulouse', 'Occitanie', 'France', 43.6047, 1.4442],
+  ['Bordeaux', 'Nouvelle-Aquitaine', 'France', 44.8378, -0.5792],
+  ['Lille', 'Hauts-de-France', 'France', 50.6292, 3.0573],
+  ['Brussels', null, 'Belgium', 50.8503, 4.3517],
+  ['Amsterdam', 'North Holland', 'Netherlands', 52.3676, 4.9041],
+  ['Rotterdam', 'South Holland', 'Netherlands', 51.9244, 4.4777],
+  ['Berlin', null, 'Germany', 52.52, 13.405],
+  ['Hamburg', null, 'Germany', 53.5511, 9.9937],
+  ['Munich', 'Bavaria', 'Germany', 48.1351, 11.582],
+  ['Cologne', 'North Rhine-Westphalia', 'Germany', 50.9375, 6.9603],
+  ['Frankfurt', 'Hesse', 'Germany', 50.1109, 8.6821],
+  ['Copenhagen', null, 'Denmark', 55.6761, 12.5683],
+  ['Oslo', null, 'Norway', 59.9139, 10.7522],
+  ['Stockholm', null, 'Sweden', 59.3293, 18.0686],
+  ['Helsinki', null, 'Finland', 60.1699, 24.9384],
+  ['Warsaw', 'Masovia', 'Poland', 52.2297, 21.0122],
+  ['Prague', null, 'Czechia', 50.0755, 14.4378],
+  ['Vienna', null, 'Austria', 48.2082, 16.3738],
+  ['Zurich', null, 'Switzerland', 47.3769, 8.5417],
+  ['Geneva', null, 'Switzerland', 46.2044, 6.1432],
+  ['Madrid', 'Community of Madrid', 'Spain', 40.4168, -3.7038],
+  ['Barcelona', 'Catalonia', 'Spain', 41.3874, 2.1686],
+  ['Seville', 'Andalusia', 'Spain', 37.3891, -5.9845],
+  ['Lisbon', null, 'Portugal', 38.7223, -9.1393],
+  ['Porto', null, 'Portugal', 41.1579, -8.6291],
+  ['Rome', 'Lazio', 'Italy', 41.9028, 12.4964],
+  ['Milan', 'Lombardy', 'Italy', 45.4642, 9.19],
+  ['Naples', 'Campania', 'Italy', 40.8518, 14.2681],
+  ['Athens', null, 'Greece', 37.9838, 23.7275],
+  ['Istanbul', null, 'Turkey', 41.0082, 28.9784],
+  ['Cairo', null, 'Egypt', 30.0444, 31.2357],
+  ['Lagos', null, 'Nigeria', 6.5244, 3.3792],
+  ['Nairobi', null, 'Kenya', -1.2921, 36.8219],
+  ['Johannesburg', 'Gauteng', 'South Africa', -26.2041, 28.0473],
+  ['Cape Town', 'Western Cape', 'South Africa', -33.9249, 18.4241],
+  ['Dubai', null, 'United Arab Emirates', 25.2048, 55.2708],
+  ['Mumbai', 'Maharashtra', 'India', 19.076, 72.8777],
+  ['Delhi', null, 'India', 28.7041, 77.1025],
+  ['Bengaluru', 'Karnataka', 'India', 12.9716, 77.5946],
+  ['Singapore', null, 'Singapore', 1.3521, 103.8198],
+  ['Hong Kong', null, 'China', 22.3193, 114.1694],
+  ['Shanghai', null, 'China', 31.2304, 121.4737],
+  ['Beijing', null, 'China', 39.9042, 116.4074],
+  ['Seoul', null, 'South Korea', 37.5665, 126.978],
+  ['Tokyo', null, 'Japan', 35.6762, 139.6503],
+  ['Osaka', null, 'Japan', 34.6937, 135.5023],
+  ['Sydney', 'New South Wales', 'Australia', -33.8688, 151.2093],
+  ['Melbourne', 'Victoria', 'Australia', -37.8136, 144.9631],
+  ['Brisbane', 'Queensland', 'Australia', -27.4698, 153.0251],
+  ['Perth', 'Western Australia', 'Australia', -31.9505, 115.8605],
+  ['Auckland', null, 'New Zealand', -36.8485, 174.7633],
+  ['Wellington', null, 'New Zealand', -41.2865, 174.7762],
+  ['New York', 'New York', 'United States', 40.7128, -74.006],
+  ['Boston', 'Massachusetts', 'United States', 42.3601, -71.0589],
+  ['Washington', 'District of Columbia', 'United States', 38.9072, -77.0369],
+  ['Atlanta', 'Georgia', 'United States', 33.749, -84.388],
+  ['Miami', 'Florida', 'United States', 25.7617, -80.1918],
+  ['Chicago', 'Illinois', 'United States', 41.8781, -87.6298],
+  ['Houston', 'Texas', 'United States', 29.7604, -95.3698],
+  ['Dallas', 'Texas', 'United States', 32.7767, -96.797],
+  ['Denver', 'Colorado', 'United States', 39.7392, -104.9903],
+  ['Phoenix', 'Arizona', 'United States', 33.4484, -112.074],
+  ['Los Angeles', 'California', 'United States', 34.0522, -118.2437],
+  ['San Francisco', 'California', 'United States', 37.7749, -122.4194],
+  ['Seattle', 'Washington', 'United States', 47.6062, -122.3321],
+  ['Toronto', 'Ontario', 'Canada', 43.6532, -79.3832],
+  ['Montreal', 'Quebec', 'Canada', 45.5017, -73.5673],
+  ['Vancouver', 'British Columbia', 'Canada', 49.2827, -123.1207],
+  ['Mexico City', null, 'Mexico', 19.4326, -99.1332],
+  ['Bogotá', null, 'Colombia', 4.711, -74.0721],
+  ['Lima', null, 'Peru', -12.0464, -77.0428],
+  ['Santiago', null, 'Chile', -33.4489, -70.6693],
+  ['Buenos Aires', null, 'Argentina', -34.6037, -58.3816],
+  ['São Paulo', 'São Paulo', 'Brazil', -23.5505, -46.6333],
+  ['Rio de Janeiro', 'Rio de Janeiro', 'Brazil', -22.9068, -43.1729],
+];
+
+// Past this a place name says more about the gazetteer than the location
+const MAX_DISTANCE_KM = 300;
+// Closer than this reads as "in" the place rather than "near" it
+const NEARBY_KM = 2;
+
+const COMPASS = ['N', 'NE', 'E', 'SE', 'S', 'SW', 'W', 'NW'];
+
+const toRadians = (degrees: number) => (degrees * Math.PI) / 180;
+
+function distanceKm(lat1: number, lon1: number, lat2: number, lon2: number) {
+  const dLat = toRadians(lat2 - lat1);
+  const dLon = toRadians(lon2 - lon1);
+  const a =
+    Math.sin(dLat / 2) ** 2 +
+    Math.cos(toRadians(lat1)) * Math.cos(toRadians(lat2)) * Math.sin(dLon / 2) ** 2;
+  return 6371 * 2 * Math.atan2(Math.sqrt(a), Math.sqrt(1 - a));
+}
+
+// Compass direction of the point as seen from the place
+function bearing(fromLat: number, fromLon: number, toLat: number, toLon: number) {
+  const dLon = toRadians(toLon - fromLon);
+  const y = Math.sin(dLon) * Math.cos(toRadians(toLat));
+  const x =
+    Math.cos(toRadians(fromLat)) * Math.sin(toRadians(toLat)) -
+    Math.sin(toRadians(fromLat)) * Math.cos(toRadians(toLat)) * Math.cos(dLon);
+  const degrees = (Math.atan2(y, x) * 180) / Math.PI + 360;
+  return COMPASS[Math.round(degrees / 45) % 8];
+}
+
+/**
+ * The nearest bundled place to a point, described relative to it, e.g.
+ * "12 km NE of Leeds, United Kingdom". Null when nothing is close enough.
+ */
+export function findNearestPlace(latitude: number, longitude: number): GeocodeResult | null {
+  let nearest: Place | null = null;
+  let nearestKm = Infinity;
+
+  for (const place of PLACES) {
+    const km = distanceKm(latitude, longitude, place[3], place[4]);
+    if (km < nearestKm) {
+      nearest = place;
+      nearestKm = km;
+    }
+  }
+
+  if (!nearest || nearestKm > MAX_DISTANCE_KM) {
+    return null;
+  }
+
+  const [name, region, country, placeLatitude, placeLongitude] = nearest;
+  const label = `${name}, ${country}`;
+
+  return {
+    formatted:
+      nearestKm < NEARBY_KM
+        ? label
+        : `${Math.round(nearestKm)} km ${bearing(placeLatitude, placeLongitude, latitude, longitude)} of ${label}`,
+    street: null,
+    city: nearestKm < NEARBY_KM ? name : null,
+    region,
+    postcode: null,
+    country,
+    latitude: placeLatitude,
+    longitude: placeLongitude,
+    precision: nearestKm < NEARBY_KM ? 'locality' : 'region',
+    // Never as trusted as a real lookup, and less so the further out the point is
+    confidence: 0.4 * (1 - nearestKm / MAX_DISTANCE_KM),
+    provider: 'gazetteer',
+  };
+}
+
+export const gazetteerProvider: GeocodingProvider = {
+  name: 'gazetteer',
+  reverse: async (latitude, longitude) => findNearestPlace(latitude, longitude),
+};
@@ -1,49 +1,121 @@
-import { Platform } from 'react-native';
+import { gazetteerProvider } from './gazetteer';
+import { supabase } from './supabase';
 
-const LOCATIONIQ_TOKEN = 'pk.b48ca48498a5d2afe30e014ca0c5d7db';
-const LOCATIONIQ_API = 'https://us1.locationiq.com/v1';
+// How precisely an address pins down the point, finest first
+export type GeocodePrecision = 'building' | 'street' | 'locality' | 'region' | 'country';
 
-export async function getAddressFromCoordinates(latitude: number, longitude: number): Promise<string> {
-  try {
-    const response = await fetch(
-      `${LOCATIONIQ_API}/reverse.php?key=${LOCATIONIQ_TOKEN}&lat=${latitude}&lon=${longitude}&format=json`
-    );
-    
-    if (!response.ok) {
-      throw new Error('Failed to fetch address');
-    }
-
-    const data = await response.json();
-    
-    // LocationIQ returns a display_name that includes all address components
-    return data.display_name;
-  } catch (error) {
-    console.error('Error getting address:', error);
-    return `${latitude.toFixed(6)}, ${longitude.toFixed(6)}`;
+// Mirrors GeocodedAddress in supabase/functions/_shared/geocoding
+export type GeocodeResult = {
+  // One line, ready to show
+  formatted: string;
+  street: string | null;
+  city: string | null;
+  region: string | null;
+  postcode: string | null;
+  country: string | null;
+  // Where the address is, which may differ from the point that was looked up
+  latitude: number;
+  longitude: number;
+  precision: GeocodePrecision;
+  // 0 to 1; how much to trust that the address describes the point
+  confidence: number;
+  provider: string;
+};
+
+/**
+ * Resolves null when there's nothing at the point and throws when the lookup
+ * itself failed, so callers can tell the two apart.
+ */
+export interface GeocodingProvider {
+  readonly name: string;
+  reverse(latitude: number, longitude: number): Promise<GeocodeResult | null>;
+}
+
+// Address columns the geocode-alert edge function fills in on each alert
+export type StoredAddress = {
+  latitude: number;
+  longitude: number;
+  address?: string | null;
+  address_street?: string | null;
+  address_city?: string | null;
+  address_region?: string | null;
+  address_postcode?: string | null;
+  address_country?: string | null;
+};
+
+const CACHE_SIZE = 200;
+
+// Server lookups by point, least recently used first
+const cache = new Map<string, GeocodeResult | null>();
+
+// About 11 m, well inside what a phone's fix can tell apart
+const cacheKey = (latitude: number, longitude: number) =>
+  `${latitude.toFixed(4)},${longitude.toFixed(4)}`;
+
+function remember(key: string, result: GeocodeResult | null) {
+  cache.delete(key);
+  cache.set(key, result);
+  if (cache.size > CACHE_SIZE) {
+    cache.delete(cache.keys().next().value!);
   }
 }
 
-export async function getCoordinatesFromAddress(address: string): Promise<{ lat: number; lon: number } | null> {
+// The geocode edge function, which holds the provider key and rate-limits each user
+export const serverProvider: GeocodingProvider = {
+  name: 'server',
+  reverse: async (latitude, longitude) => {
+    const { data, error } = await supabase.functions.invoke<{ address: GeocodeResult | null }>('geocode', {
+      body: { latitude, longitude },
+    });
+    if (error) throw error;
+    return data?.address ?? null;
+  },
+};
+
+/**
+ * The address at a point. Asks the server, then the bundled gazetteer when
+ * the server can't be reached or turns the request down; check `provider`
+ * and `confidence` before presenting the result as an exact address.
+ */
+export async function reverseGeocode(latitude: number, longitude: number): Promise<GeocodeResult | null> {
+  const key = cacheKey(latitude, longitude);
+  if (cache.has(key)) {
+    const cached = cache.get(key)!;
+    remember(key, cached);
+    return cached;
+  }
+
   try {
-    const response = await fetch(
-      `${LOCATIONIQ_API}/search.php?key=${LOCATIONIQ_TOKEN}&q=${encodeURIComponent(address)}&format=json`
-    );
-
-    if (!response.ok) {
-      throw new Error('Failed to fetch coordinates');
-    }
-
-    const data = await response.json();
-    
-    if (data && data[0]) {
-      return {
-        lat: parseFloat(data[0].lat),
-        lon: parseFloat(data[0].lon)
-      };
-    }
-    return null;
+    const result = await serverProvider.reverse(latitude, longitude);
+    remember(key, result);
+    return result;
   } catch (error) {
-    console.error('Error getting coordinates:', error);
-    return null;
+    // Not cached, so the next lookup tries the server again
+    console.warn('Geocoding failed, using the offline gazetteer:', error);
+    return gazetteerProvider.reverse(latitude, longitude);
   }
-}
\ No newline at end of file
+}
+
+/** Places matching a free-text query, best match first. Needs a connection. */
+export async function searchPlaces(query: string, limit = 5): Promise<GeocodeResult[]> {
+  const { data, error } = await supabase.functions.invoke<{ addresses: GeocodeResult[] }>('geocode', {
+    body: { query, limit },
+  });
+  if (error) throw error;
+  return data?.addresses ?? [];
+}
+
+// Short form for cards; the full one-line address when it wasn't broken down
+export function formatStoredAddress(alert: StoredAddress) {
+  const parts = [alert.address_street, alert.address_city, alert.address_postcode].filter(Boolean);
+  return parts.length ? parts.join(', ') : alert.address || null;
+}
+
+/**
+ * The alert's address as stored by the server. Only geocodes on the device
+ * when the server hasn't resolved one yet, e.g. for older alerts. Null when
+ * nothing is known about the place.
+ */
+export async function getAlertAddress(alert: StoredAddress) {
+  return formatStoredAddress(alert) ?? (await reverseGeocode(alert.latitude, alert.longitude))?.formatted ?? null;
+}
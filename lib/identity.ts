@@ -0,0 +1,39 @@
+import * as LocalAuthentication from 'expo-local-authentication';
+import { Platform } from 'react-native';
+import { supabase } from './supabase';
+
+/**
+ * Whether the device can confirm the user with biometrics or its own
+ * PIN/passcode. Without either, callers fall back to the account password.
+ */
+export async function canConfirmWithDevice() {
+  if (Platform.OS === 'web') {
+    return false;
+  }
+
+  const level = await LocalAuthentication.getEnrolledLevelAsync();
+  return level !== LocalAuthentication.SecurityLevel.NONE;
+}
+
+export async function confirmWithDevice(promptMessage: string) {
+  const result = await LocalAuthentication.authenticateAsync({
+    promptMessage,
+    cancelLabel: 'Cancel',
+    disableDeviceFallback: false,
+  });
+
+  return result.success;
+}
+
+/**
+ * Checks the password against the signed-in account in the database, without
+ * signing in again: a new sign-in would swap the session and reload the role
+ * while the confirmation is still open. Throws once too many wrong passwords
+ * have been tried.
+ */
+export async function confirmWithPassword(password: string) {
+  const { data, error } = await supabase.rpc('verify_own_password', { p_password: password });
+
+  if (error) throw error;
+  return data;
+}
@@ -0,0 +1,107 @@
+import * as Location from 'expo-location';
+import { Platform } from 'react-native';
+
+// A fix older than this is refreshed before it is attached to an alert
+export const MAX_FIX_AGE_MS = 2 * 60 * 1000;
+const FIX_TIMEOUT_MS = 10 * 1000;
+
+export type LocationProvider = 'gps' | 'network' | 'passive' | 'fused' | 'mock' | 'unknown';
+
+export type LocationFix = {
+  latitude: number;
+  longitude: number;
+  accuracy: number | null;
+  altitude: number | null;
+  timestamp: string;
+  provider: LocationProvider;
+  stale: boolean;
+};
+
+export function isFixStale(location: Location.LocationObject, now = Date.now()) {
+  return now - location.timestamp > MAX_FIX_AGE_MS;
+}
+
+async function getLocationProvider(location: Location.LocationObject): Promise<LocationProvider> {
+  if (location.mocked) {
+    return 'mock';
+  }
+
+  if (Platform.OS === 'ios') {
+    // Core Location always blends GPS, Wi-Fi and cell data
+    return 'fused';
+  }
+
+  try {
+    const status = await Location.getProviderStatusAsync();
+    if (status.gpsAvailable) return 'gps';
+    if (status.networkAvailable) return 'network';
+    if (status.passiveAvailable) return 'passive';
+  } catch (error) {
+    console.error('Error getting location provider:', error);
+  }
+
+  return 'unknown';
+}
+
+async function requestFreshPosition(): Promise<Location.LocationObject | null> {
+  try {
+    return await Promise.race([
+      Location.getCurrentPositionAsync({ accuracy: Location.Accuracy.High }),
+      new Promise<null>((resolve) => setTimeout(() => resolve(null), FIX_TIMEOUT_MS)),
+    ]);
+  } catch (error) {
+    console.error('Error refreshing location:', error);
+    return null;
+  }
+}
+
+async function toLocationFix(location: Location.LocationObject): Promise<LocationFix> {
+  return {
+    latitude: location.coords.latitude,
+    longitude: location.coords.longitude,
+    accuracy: location.coords.accuracy,
+    altitude: location.coords.altitude,
+    timestamp: new Date(location.timestamp).toISOString(),
+    provider: await getLocationProvider(location),
+    stale: isFixStale(location),
+  };
+}
+
+/**
+ * Returns the fix to attach to an emergency alert. A stale fix is refreshed
+ * first; if that fails the stale fix is still returned, flagged as such, so
+ * the alert goes out. Throws only when no fix is available at all.
+ */
+export async function getAlertLocationFix(
+  lastKnown: Location.LocationObject | null
+): Promise<LocationFix> {
+  if (lastKnown && !isFixStale(lastKnown)) {
+    return toLocationFix(lastKnown);
+  }
+
+  const fresh = await requestFreshPosition();
+  if (fresh) {
+    return toLocationFix(fresh);
+  }
+
+  const fallback = lastKnown ?? (await Location.getLastKnownPositionAsync().catch(() => null));
+  if (fallback) {
+    return toLocationFix(fallback);
+  }
+
+  throw new Error('Unable to get your location. Please enable location services and try again.');
+}
+
+export function formatCoordinates(latitude?: number | null, longitude?: number | null) {
+  if (!Number.isFinite(latitude) || !Number.isFinite(longitude)) {
+    return 'Location unavailable';
+  }
+  return `${latitude!.toFixed(6)}, ${longitude!.toFixed(6)}`;
+}
+
+export function formatAccuracy(accuracy?: number | null) {
+  if (accuracy == null || !Number.isFinite(accuracy)) {
+    return null;
+  }
+  return `±${Math.round(accuracy)} m`;
+}
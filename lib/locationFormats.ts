@@ -0,0 +1,188 @@
+import { Platform } from 'react-native';
+import { formatCoordinates } from './location';
+
+/**
+ * Ways of writing a point that hold up over a radio or where street addresses
+ * are poor. Everything is computed on the device, so it works offline too.
+ */
+export type LocationFormats = {
+  decimal: string;
+  // Open Location Code, e.g. 9C3XGV4C+XV
+  plusCode: string;
+  dms: string;
+  // Null near the poles, which MGRS covers with a different grid
+  mgrs: string | null;
+  geoUri: string;
+  mapsUrl: string;
+};
+
+// Open Location Code: https://github.com/google/open-location-code/blob/main/Documentation/Specification/specification.md
+const OLC_ALPHABET = '23456789CFGHJMPQRVWX';
+const OLC_PAIR_LENGTH = 10;
+// Points are rounded at the finest grid level before being cut down to the
+// 10-digit cell, as the reference implementation does, so codes match it
+const OLC_LAT_PRECISION = 8000 * 5 ** 5;
+const OLC_LNG_PRECISION = 8000 * 4 ** 5;
+
+const roundAwayFromZero = (value: number) => Math.sign(value) * Math.round(Math.abs(value));
+
+export function encodePlusCode(latitude: number, longitude: number) {
+  const latRange = 180 * OLC_LAT_PRECISION;
+  const lngRange = 360 * OLC_LNG_PRECISION;
+
+  let latValue = roundAwayFromZero(Math.min(Math.max(latitude, -90), 90) * OLC_LAT_PRECISION) + latRange / 2;
+  // The north pole belongs to the cell just below it
+  if (latValue >= latRange) latValue = latRange - 1;
+
+  let lngValue = (roundAwayFromZero(longitude * OLC_LNG_PRECISION) + lngRange / 2) % lngRange;
+  if (lngValue < 0) lngValue += lngRange;
+
+  latValue = Math.floor(latValue / 5 ** 5);
+  lngValue = Math.floor(lngValue / 4 ** 5);
+
+  let code = '';
+  for (let i = 0; i < OLC_PAIR_LENGTH / 2; i++) {
+    code = OLC_ALPHABET[latValue % 20] + OLC_ALPHABET[lngValue % 20] + code;
+    latValue = Math.floor(latValue / 20);
+    lngValue = Math.floor(lngValue / 20);
+  }
+
+  return `${code.slice(0, 8)}+${code.slice(8)}`;
+}
+
+function toDms(value: number, positive: string, negative: string) {
+  // Rounded once, to tenths of a second, so 59.96" doesn't print as 60.0"
+  const tenths = Math.round(Math.abs(value) * 36000);
+  const degrees = Math.floor(tenths / 36000);
+  const minutes = Math.floor((tenths % 36000) / 600);
+  const seconds = ((tenths % 600) / 10).toFixed(1);
+
+  return `${degrees}°${String(minutes).padStart(2, '0')}'${seconds.padStart(4, '0')}"${value < 0 ? negative : positive}`;
+}
+
+export function formatDms(latitude: number, longitude: number) {
+  return `${toDms(latitude, 'N', 'S')} ${toDms(longitude, 'E', 'W')}`;
+}
+
+// WGS84, as GPS reports it
+const WGS84_A = 6378137;
+const WGS84_F = 1 / 298.257223563;
+const UTM_SCALE = 0.9996;
+
+const MGRS_BANDS = 'CDEFGHJKLMNPQRSTUVWXX';
+const MGRS_COLUMN_SETS = ['STUVWXYZ', 'ABCDEFGH', 'JKLMNPQR'];
+const MGRS_ROWS = 'ABCDEFGHJKLMNPQRSTUV';
+
+function getUtmZone(latitude: number, longitude: number) {
+  // Norway and Svalbard are the exceptions to the regular 6° zones
+  if (latitude >= 56 && latitude < 64 && longitude >= 3 && longitude < 12) return 32;
+  if (latitude >= 72 && latitude < 84 && longitude >= 0) {
+    if (longitude < 9) return 31;
+    if (longitude < 21) return 33;
+    if (longitude < 33) return 35;
+    if (longitude < 42) return 37;
+  }
+  return Math.floor((longitude + 180) / 6) % 60 + 1;
+}
+
+/**
+ * Military Grid Reference System to the metre, e.g. "30U XC 99316 10163".
+ * Converts through UTM with Snyder's series, which is good to well under a
+ * metre inside each zone.
+ */
+export function formatMgrs(latitude: number, longitude: number) {
+  if (!(latitude >= -80 && latitude < 84)) {
+    return null;
+  }
+
+  const zone = getUtmZone(latitude, longitude);
+  const e2 = WGS84_F * (2 - WGS84_F);
+  const ep2 = e2 / (1 - e2);
+  const phi = (latitude * Math.PI) / 180;
+  const lambda0 = (((zone - 1) * 6 - 180 + 3) * Math.PI) / 180;
+  // Normalised so the difference is correct across the antimeridian
+  const dLambda = ((((longitude * Math.PI) / 180 - lambda0 + 3 * Math.PI) % (2 * Math.PI)) - Math.PI);
+
+  const sinPhi = Math.sin(phi);
+  const cosPhi = Math.cos(phi);
+  const n = WGS84_A / Math.sqrt(1 - e2 * sinPhi * sinPhi);
+  const t = Math.tan(phi) ** 2;
+  const c = ep2 * cosPhi * cosPhi;
+  const a = cosPhi * dLambda;
+  const m =
+    WGS84_A *
+    ((1 - e2 / 4 - (3 * e2 ** 2) / 64 - (5 * e2 ** 3) / 256) * phi -
+      ((3 * e2) / 8 + (3 * e2 ** 2) / 32 + (45 * e2 ** 3) / 1024) * Math.sin(2 * phi) +
+      ((15 * e2 ** 2) / 256 + (45 * e2 ** 3) / 1024) * Math.sin(4 * phi) -
+      ((35 * e2 ** 3) / 3072) * Math.sin(6 * phi));
+
+  const easting =
+    UTM_SCALE *
+      n *
+      (a + ((1 - t + c) * a ** 3) / 6 + ((5 - 18 * t + t * t + 72 * c - 58 * ep2) * a ** 5) / 120) +
+    500000;
+  let northing =
+    UTM_SCALE *
+    (m +
+      n *
+        Math.tan(phi) *
+        ((a * a) / 2 +
+          ((5 - t + 9 * c + 4 * c * c) * a ** 4) / 24 +
+          ((61 - 58 * t + t * t + 600 * c - 330 * ep2) * a ** 6) / 720));
+  if (latitude < 0) northing += 10000000;
+
+  const band = MGRS_BANDS[Math.floor((latitude + 80) / 8)];
+  const column = MGRS_COLUMN_SETS[zone % 3][Math.floor(easting / 100000) - 1];
+  // Even zones start their row letters five squares along
+  const row = MGRS_ROWS[(Math.floor(northing / 100000) + (zone % 2 === 0 ? 5 : 0)) % 20];
+  const digits = (value: number) => String(Math.floor(value % 100000)).padStart(5, '0');
+
+  return `${zone}${band} ${column}${row} ${digits(easting)} ${digits(northing)}`;
+}
+
+// RFC 5870; Android hands these to whichever maps app is installed
+export function getGeoUri(latitude: number, longitude: number, label?: string) {
+  const point = `${latitude.toFixed(6)},${longitude.toFixed(6)}`;
+  return `geo:${point}?q=${point}${label ? `(${encodeURIComponent(label)})` : ''}`;
+}
+
+// Opens the maps app on iOS and Android, or the website anywhere else
+export function getMapsUrl(latitude: number, longitude: number) {
+  return `https://www.google.com/maps/search/?api=1&query=${latitude.toFixed(6)},${longitude.toFixed(6)}`;
+}
+
+// The link "Open in Maps" follows on this device
+export function getMapsDeepLink(latitude: number, longitude: number, label?: string) {
+  if (Platform.OS === 'android') return getGeoUri(latitude, longitude, label);
+  if (Platform.OS === 'ios') {
+    const query = label ? `&q=${encodeURIComponent(label)}` : '';
+    return `maps://?ll=${latitude.toFixed(6)},${longitude.toFixed(6)}${query}`;
+  }
+  return getMapsUrl(latitude, longitude);
+}
+
+export function getLocationFormats(latitude: number, longitude: number): LocationFormats {
+  return {
+    decimal: formatCoordinates(latitude, longitude),
+    plusCode: encodePlusCode(latitude, longitude),
+    dms: formatDms(latitude, longitude),
+    mgrs: formatMgrs(latitude, longitude),
+    geoUri: getGeoUri(latitude, longitude),
+    mapsUrl: getMapsUrl(latitude, longitude),
+  };
+}
+
+/** Every format on its own line, for sharing or an SMS. */
+export function describeLocation(latitude: number, longitude: number) {
+  const formats = getLocationFormats(latitude, longitude);
+  return [
+    `Plus code: ${formats.plusCode}`,
+    `Coordinates: ${formats.decimal}`,
+    `DMS: ${formats.dms}`,
+    formats.mgrs ? `MGRS: ${formats.mgrs}` : null,
+    formats.mapsUrl,
+    formats.geoUri,
+  ]
+    .filter(Boolean)
+    .join('\n');
+}
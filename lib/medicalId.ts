@@ -0,0 +1,157 @@
+import { View } from 'react-native';
+import { captureRef } from 'react-native-view-shot';
+import * as Sharing from 'expo-sharing';
+import { supabase } from './supabase';
+
+export const BLOOD_TYPES = ['A+', 'A-', 'B+', 'B-', 'AB+', 'AB-', 'O+', 'O-'] as const;
+export type BloodType = (typeof BLOOD_TYPES)[number];
+
+export const ALLERGY_SEVERITIES = ['mild', 'moderate', 'severe', 'life_threatening'] as const;
+export type AllergySeverity = (typeof ALLERGY_SEVERITIES)[number];
+
+export type Allergy = {
+  substance: string;
+  severity: AllergySeverity;
+  reaction?: string;
+};
+
+export type Medication = {
+  name: string;
+  dosage: string;
+  frequency?: string;
+};
+
+export type MedicalCondition = {
+  name: string;
+  notes?: string;
+};
+
+export type ImplantedDevice = {
+  name: string;
+  notes?: string;
+};
+
+export type MedicalId = {
+  blood_type: BloodType | null;
+  allergies: Allergy[];
+  medications: Medication[];
+  conditions: MedicalCondition[];
+  implanted_devices: ImplantedDevice[];
+  organ_donor: boolean | null;
+  physician_name: string | null;
+  physician_phone: string | null;
+  updated_at?: string | null;
+};
+
+export const EMPTY_MEDICAL_ID: MedicalId = {
+  blood_type: null,
+  allergies: [],
+  medications: [],
+  conditions: [],
+  implanted_devices: [],
+  organ_donor: null,
+  physician_name: null,
+  physician_phone: null,
+};
+
+export function getSeverityLabel(severity: AllergySeverity) {
+  return severity === 'life_threatening' ? 'Life-threatening' : severity[0].toUpperCase() + severity.slice(1);
+}
+
+export function getSeverityColor(severity: AllergySeverity) {
+  switch (severity) {
+    case 'life_threatening':
+      return '#B00020';
+    case 'severe':
+      return '#FF4444';
+    case 'moderate':
+      return '#FFB020';
+    default:
+      return '#666';
+  }
+}
+
+export function getOrganDonorLabel(organDonor: boolean | null) {
+  if (organDonor === null) return 'Not specified';
+  return organDonor ? 'Yes' : 'No';
+}
+
+// True when there is anything a responder would want to see
+export function hasMedicalInfo(medicalId: MedicalId | null | undefined) {
+  if (!medicalId) return false;
+  return (
+    medicalId.blood_type !== null ||
+    medicalId.allergies.length > 0 ||
+    medicalId.medications.length > 0 ||
+    medicalId.conditions.length > 0 ||
+    medicalId.implanted_devices.length > 0 ||
+    medicalId.organ_donor !== null ||
+    !!medicalId.physician_name
+  );
+}
+
+/**
+ * Returns the first problem with the Medical ID, or null if it can be saved.
+ * Mirrors validate_medical_id() in the database, which has the final say.
+ */
+export function validateMedicalId(medicalId: MedicalId): string | null {
+  if (medicalId.allergies.some((allergy) => !allergy.substance.trim())) {
+    return 'Each allergy needs a substance';
+  }
+  if (medicalId.medications.some((medication) => !medication.name.trim())) {
+    return 'Each medication needs a name';
+  }
+  if (medicalId.medications.some((medication) => !medication.dosage.trim())) {
+    return 'Each medication needs a dosage';
+  }
+  if (medicalId.conditions.some((condition) => !condition.name.trim())) {
+    return 'Each condition needs a name';
+  }
+  if (medicalId.implanted_devices.some((device) => !device.name.trim())) {
+    return 'Each implanted device needs a name';
+  }
+  return null;
+}
+
+export async function getMedicalId(userId: string): Promise<MedicalId> {
+  const { data, error } = await supabase
+    .from('medical_ids')
+    .select('*')
+    .eq('user_id', userId)
+    .maybeSingle();
+
+  if (error) throw error;
+  if (!data) return EMPTY_MEDICAL_ID;
+
+  const { user_id, ...medicalId } = data;
+  return medicalId as MedicalId;
+}
+
+export async function saveMedicalId(userId: string, medicalId: MedicalId) {
+  const problem = validateMedicalId(medicalId);
+  if (problem) throw new Error(problem);
+
+  const { updated_at, ...fields } = medicalId;
+  const { error } = await supabase.from('medical_ids').upsert({
+    ...fields,
+    user_id: userId,
+    physician_name: fields.physician_name?.trim() || null,
+    physician_phone: fields.physician_phone?.trim() || null,
+  });
+
+  if (error) throw error;
+}
+
+/**
+ * Renders the lock-screen card view to an image and opens the share sheet,
+ * where it can be saved to photos and set as the lock-screen wallpaper.
+ */
+export async function shareMedicalIdCard(view: View) {
+  const uri = await captureRef(view, { format: 'png', quality: 1 });
+
+  if (!(await Sharing.isAvailableAsync())) {
+    throw new Error('Sharing is not available on this device');
+  }
+
+  await Sharing.shareAsync(uri, { mimeType: 'image/png', dialogTitle: 'Save Medical ID' });
+}
@@ -1,5 +1,10 @@
 import * as Notifications from 'expo-notifications';
+import Constants from 'expo-constants';
 import { Platform } from 'react-native';
+import { supabase } from './supabase';
+
+// Must match the channelId the alert-push edge function sends with
+export const ALERTS_CHANNEL_ID = 'alerts';
 
 export async function registerForPushNotificationsAsync() {
   if (Platform.OS === 'web') {
@@ -18,8 +23,30 @@ export async function registerForPushNotificationsAsync() {
     return null;
   }
 
-  const token = await Notifications.getExpoPushTokenAsync();
-  return token;
+  const token = await Notifications.getExpoPushTokenAsync({
+    projectId: Constants.expoConfig?.extra?.eas?.projectId,
+  });
+  return token.data;
+}
+
+/**
+ * Registers this device and stores its Expo push token on the caller's
+ * profile so the alert-push edge function can reach it.
+ */
+export async function savePushToken(userType: 'civilian' | 'police' | 'hospital') {
+  const token = await registerForPushNotificationsAsync();
+  if (!token) return;
+
+  const { data: { user } } = await supabase.auth.getUser();
+  if (!user) return;
+
+  const table = userType === 'civilian' ? 'users' : 'responders';
+  const { error } = await supabase
+    .from(table)
+    .update({ push_token: token })
+    .eq('id', user.id);
+
+  if (error) throw error;
 }
 
 export async function sendPushNotification(expoPushToken: string, title: string, body: string) {
@@ -51,6 +78,16 @@ export function setupNotifications() {
     return;
   }
 
+  if (Platform.OS === 'android') {
+    Notifications.setNotificationChannelAsync(ALERTS_CHANNEL_ID, {
+      name: 'Emergency alerts',
+      importance: Notifications.AndroidImportance.MAX,
+      vibrationPattern: [0, 500, 250, 500],
+      lightColor: '#FF4444',
+      sound: 'default',
+    });
+  }
+
   Notifications.setNotificationHandler({
     handleNotification: async () => ({
       shouldShowAlert: true,
@@ -58,4 +95,34 @@ export function setupNotifications() {
       shouldSetBadge: true,
     }),
   });
-}
\ No newline at end of file
+}
+
+/**
+ * Calls onOpen with the alert id whenever the user taps an alert push,
+ * including the tap that launched the app. Returns a cleanup function.
+ */
+export function observeAlertNotificationTaps(onOpen: (alertId: string) => void) {
+  if (Platform.OS === 'web') {
+    return () => {};
+  }
+
+  const handle = (response: Notifications.NotificationResponse | null) => {
+    const alertId = response?.notification.request.content.data?.alertId;
+    if (typeof alertId === 'string') {
+      onOpen(alertId);
+    }
+  };
+
+  let isActive = true;
+  Notifications.getLastNotificationResponseAsync()
+    .then((response) => {
+      if (isActive) handle(response);
+    })
+    .catch((error) => console.error('Error reading the notification that opened the app:', error));
+  const subscription = Notifications.addNotificationResponseReceivedListener(handle);
+
+  return () => {
+    isActive = false;
+    subscription.remove();
+  };
+}
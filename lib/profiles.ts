@@ -0,0 +1,91 @@
+import { supabase } from './supabase';
+import { Tables, TablesInsert, TablesUpdate } from './database.types';
+
+export type CivilianProfile = Tables<'users'>;
+export type ResponderProfile = Tables<'responders'>;
+
+// What each role can change about themselves from Settings
+export type CivilianProfileChanges = Pick<TablesUpdate<'users'>, 'full_name' | 'phone_number'>;
+export type ResponderProfileChanges = Pick<
+  TablesUpdate<'responders'>,
+  'organization_name' | 'jurisdiction' | 'badge_number' | 'organization_id'
+>;
+
+export type NewResponderProfile = Pick<
+  TablesInsert<'responders'>,
+  'organization_name' | 'responder_type' | 'badge_number' | 'organization_id'
+>;
+
+export async function getCivilianProfile(userId: string): Promise<CivilianProfile> {
+  const { data, error } = await supabase.from('users').select('*').eq('id', userId).single();
+
+  if (error) throw error;
+  return data;
+}
+
+export async function getResponderProfile(userId: string): Promise<ResponderProfile> {
+  const { data, error } = await supabase.from('responders').select('*').eq('id', userId).single();
+
+  if (error) throw error;
+  return data;
+}
+
+// Null when the user has no civilian profile or hasn't given a name
+export async function getCivilianName(userId: string) {
+  const { data, error } = await supabase
+    .from('users')
+    .select('full_name')
+    .eq('id', userId)
+    .maybeSingle();
+
+  if (error) throw error;
+  return data?.full_name ?? null;
+}
+
+export async function createCivilianProfile(userId: string, email: string | null, fullName: string) {
+  const { error } = await supabase.from('users').insert({
+    id: userId,
+    email,
+    full_name: fullName,
+    user_type: 'civilian',
+    created_at: new Date().toISOString(),
+  });
+
+  if (error) throw error;
+}
+
+// New responders start unverified; an admin reviews them from their documents
+export async function createResponderProfile(userId: string, responder: NewResponderProfile) {
+  const { error } = await supabase.from('responders').insert({
+    ...responder,
+    id: userId,
+    verification_status: false,
+    created_at: new Date().toISOString(),
+  });
+
+  if (error) throw error;
+}
+
+export async function updateCivilianProfile(userId: string, changes: CivilianProfileChanges) {
+  const { error } = await supabase.from('users').update(changes).eq('id', userId);
+
+  if (error) throw error;
+}
+
+export async function updateResponderProfile(userId: string, changes: ResponderProfileChanges) {
+  const { error } = await supabase.from('responders').update(changes).eq('id', userId);
+
+  if (error) throw error;
+}
+
+/**
+ * Stamps the civilian's last login and reports whether this was their first,
+ * which sends them through the welcome screens.
+ */
+export async function recordCivilianLogin(userId: string) {
+  const { data } = await supabase.from('users').select('last_login').eq('id', userId).single();
+
+  await supabase.from('users').update({ last_login: new Date().toISOString() }).eq('id', userId);
+
+  return !data?.last_login;
+}
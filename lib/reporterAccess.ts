@@ -0,0 +1,33 @@
+import { supabase } from './supabase';
+import { Tables } from './database.types';
+
+export type ReporterAccessEvent = Tables<'reporter_access_events'>;
+
+export type ReporterAccessField = 'contact_details' | 'medical_id' | 'emergency_contacts';
+
+// How long the assigned responder keeps access after an alert closes; set in can_read_reporter_details
+export const REPORTER_ACCESS_WINDOW_HOURS = 24;
+
+const FIELD_LABELS: Record<ReporterAccessField, string> = {
+  contact_details: 'name and phone number',
+  medical_id: 'Medical ID',
+  emergency_contacts: 'emergency contacts',
+};
+
+// Every time a responder was shown the signed-in civilian's details, newest first
+export async function getReporterAccessEvents(): Promise<ReporterAccessEvent[]> {
+  const { data, error } = await supabase
+    .from('reporter_access_events')
+    .select('*')
+    .order('created_at', { ascending: false })
+    .limit(100);
+
+  if (error) throw error;
+  return data ?? [];
+}
+
+export function describeAccessedFields(fields: string[]) {
+  const labels = fields.map((field) => FIELD_LABELS[field as ReporterAccessField] ?? field);
+  if (labels.length <= 1) return labels.join('');
+  return `${labels.slice(0, -1).join(', ')} and ${labels[labels.length - 1]}`;
+}
@@ -0,0 +1,26 @@
+import { AlertStatus } from './alerts';
+import { UserRole } from './roles';
+
+// Whoever made the change: a responder unit, or the reporter withdrawing their alert
+export type ResponseActor = {
+  id: string;
+  name: string;
+  role: UserRole;
+};
+
+export type AlertTimelineEntry = {
+  id: string;
+  action_taken: string;
+  from_status: AlertStatus | null;
+  to_status: AlertStatus | null;
+  reason: string | null;
+  created_at: string;
+  actor: ResponseActor | null;
+};
+
+// Embedded in alert queries as `responses (...)`; `actor` is a computed column
+export const RESPONSE_SELECT = 'id, action_taken, from_status, to_status, reason, created_at, actor';
+
+export function getActorLabel(actor: ResponseActor) {
+  return actor.role === 'civilian' ? actor.name : `${actor.name} (${actor.role})`;
+}
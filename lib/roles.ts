@@ -0,0 +1,62 @@
+import { supabase } from './supabase';
+
+export type UserRole = 'civilian' | 'police' | 'hospital';
+
+export type RoleScreen = 'alerts' | 'contacts' | 'settings';
+
+export type ResolvedRole = {
+  role: UserRole;
+  isDispatcher: boolean;
+};
+
+/**
+ * Looks the user up in `users` first, then `responders`. Returns null when
+ * neither table has a profile for them.
+ */
+export async function fetchUserRole(userId: string): Promise<ResolvedRole | null> {
+  const { data: civilian, error: civilianError } = await supabase
+    .from('users')
+    .select('id')
+    .eq('id', userId)
+    .maybeSingle();
+
+  if (civilianError) throw civilianError;
+  if (civilian) {
+    return { role: 'civilian', isDispatcher: false };
+  }
+
+  const { data: responder, error: responderError } = await supabase
+    .from('responders')
+    .select('responder_type, is_dispatcher')
+    .eq('id', userId)
+    .maybeSingle();
+
+  if (responderError) throw responderError;
+  if (responder) {
+    return {
+      role: responder.responder_type as UserRole,
+      isDispatcher: responder.is_dispatcher ?? false,
+    };
+  }
+
+  return null;
+}
+
+export function isResponderRole(role: UserRole | null): role is 'police' | 'hospital' {
+  return role === 'police' || role === 'hospital';
+}
+
+// Each role has its own tab group, e.g. /(police-tabs)
+export function getRoleHome(role: UserRole) {
+  return `/(${role}-tabs)` as const;
+}
+
+// Screens exist in several groups, so links always name the caller's own
+export function getRoleRoute(role: UserRole, screen: RoleScreen) {
+  return `/(${role}-tabs)/${screen}` as const;
+}
+
+export function hasRoleScreen(role: UserRole, screen: RoleScreen) {
+  // Police have no personal contacts; everything else is shared
+  return !(role === 'police' && screen === 'contacts');
+}
@@ -0,0 +1,79 @@
+import { supabase } from './supabase';
+
+export type LatLng = {
+  latitude: number;
+  longitude: number;
+};
+
+export type ServiceArea = {
+  station: LatLng | null;
+  radiusM: number | null;
+  // Outer ring only, without the closing point
+  polygon: LatLng[] | null;
+};
+
+export type AlertSortOrder = 'recent' | 'nearest';
+
+// What get_service_area() returns; the polygon is GeoJSON
+type StoredServiceArea = {
+  station_latitude: number | null;
+  station_longitude: number | null;
+  radius_m: number | null;
+  polygon: { coordinates: [number, number][][] } | null;
+};
+
+export const EMPTY_SERVICE_AREA: ServiceArea = { station: null, radiusM: null, polygon: null };
+
+export function hasServiceArea(area: ServiceArea) {
+  return !!area.polygon || (!!area.station && !!area.radiusM);
+}
+
+export async function getServiceArea(): Promise<ServiceArea> {
+  const { data, error } = await supabase.rpc('get_service_area');
+  if (error) throw error;
+  if (!data) return EMPTY_SERVICE_AREA;
+
+  const area = data as StoredServiceArea;
+  const ring = area.polygon?.coordinates?.[0];
+
+  return {
+    station:
+      area.station_latitude != null && area.station_longitude != null
+        ? { latitude: area.station_latitude, longitude: area.station_longitude }
+        : null,
+    radiusM: area.radius_m,
+    polygon: ring ? ring.slice(0, -1).map(([longitude, latitude]) => ({ latitude, longitude })) : null,
+  };
+}
+
+export async function saveServiceArea(area: ServiceArea) {
+  if (area.polygon && area.polygon.length < 3) {
+    throw new Error('A service area polygon needs at least three points');
+  }
+
+  // GeoJSON rings are [lon, lat] and must be closed
+  const polygon = area.polygon
+    ? {
+        type: 'Polygon',
+        coordinates: [
+          [...area.polygon, area.polygon[0]].map(({ latitude, longitude }) => [longitude, latitude]),
+        ],
+      }
+    : null;
+
+  const { error } = await supabase.rpc('set_service_area', {
+    p_station_latitude: area.station?.latitude,
+    p_station_longitude: area.station?.longitude,
+    p_radius_m: area.radiusM ?? undefined,
+    p_polygon: polygon ?? undefined,
+  });
+
+  if (error) throw error;
+}
+
+export function formatDistance(meters?: number | null) {
+  if (meters == null || !Number.isFinite(meters)) {
+    return null;
+  }
+  return meters < 1000 ? `${Math.round(meters)} m away` : `${(meters / 1000).toFixed(1)} km away`;
+}
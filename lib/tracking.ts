@@ -0,0 +1,163 @@
+import * as Location from 'expo-location';
+import * as TaskManager from 'expo-task-manager';
+import * as SecureStore from 'expo-secure-store';
+import { Platform } from 'react-native';
+import { supabase } from './supabase';
+import { isAlertOpen } from './alerts';
+
+export const ALERT_TRACKING_TASK = 'alert-location-tracking';
+const TRACKED_ALERT_KEY = 'tracked_alert_id';
+const TRACKING_INTERVAL_MS = 15 * 1000;
+const TRACKING_DISTANCE_M = 10;
+
+// Used when background permission is denied; only runs while the app is open
+let foregroundSubscription: Location.LocationSubscription | null = null;
+
+async function recordTrail(alertId: string, locations: Location.LocationObject[]) {
+  const { error } = await supabase.from('alert_locations').insert(
+    locations.map((location) => ({
+      alert_id: alertId,
+      latitude: location.coords.latitude,
+      longitude: location.coords.longitude,
+      accuracy: location.coords.accuracy,
+      altitude: location.coords.altitude,
+      speed: location.coords.speed,
+      heading: location.coords.heading,
+      recorded_at: new Date(location.timestamp).toISOString(),
+    }))
+  );
+
+  if (error) {
+    console.error('Error recording location trail:', error);
+  }
+
+  const { data: alert } = await supabase
+    .from('alerts')
+    .select('status')
+    .eq('id', alertId)
+    .maybeSingle();
+
+  if (!alert || !isAlertOpen(alert.status)) {
+    await stopAlertTracking();
+  }
+}
+
+if (Platform.OS !== 'web') {
+  // Must be defined at module scope so the task exists when the OS wakes the app
+  TaskManager.defineTask<{ locations: Location.LocationObject[] }>(
+    ALERT_TRACKING_TASK,
+    async ({ data, error }) => {
+      if (error) {
+        console.error('Location tracking task error:', error);
+        return;
+      }
+
+      const alertId = await SecureStore.getItemAsync(TRACKED_ALERT_KEY);
+      if (!alertId || !data?.locations?.length) return;
+
+      await recordTrail(alertId, data.locations);
+    }
+  );
+}
+
+// Pass silent for discreet alerts: the Android notification is disguised and
+// iOS skips the blue location indicator
+export async function startAlertTracking(alertId: string, silent = false) {
+  if (Platform.OS === 'web') {
+    return false;
+  }
+
+  try {
+    await SecureStore.setItemAsync(TRACKED_ALERT_KEY, alertId);
+
+    // Asking would put a system prompt, or Android's settings page, over the disguise
+    const { status } = silent
+      ? await Location.getBackgroundPermissionsAsync()
+      : await Location.requestBackgroundPermissionsAsync();
+    if (status === 'granted') {
+      await Location.startLocationUpdatesAsync(ALERT_TRACKING_TASK, {
+        accuracy: Location.Accuracy.High,
+        timeInterval: TRACKING_INTERVAL_MS,
+        distanceInterval: TRACKING_DISTANCE_M,
+        deferredUpdatesInterval: TRACKING_INTERVAL_MS,
+        pausesUpdatesAutomatically: false,
+        showsBackgroundLocationIndicator: !silent,
+        // Android requires a notification for background updates
+        foregroundService: silent
+          ? {
+              notificationTitle: 'Syncing',
+              notificationBody: 'Checking for updates',
+            }
+          : {
+              notificationTitle: 'Sharing your location',
+              notificationBody: 'Responders can follow your position until your alert is resolved.',
+              notificationColor: '#FF4444',
+            },
+      });
+      return true;
+    }
+
+    foregroundSubscription?.remove();
+    foregroundSubscription = await Location.watchPositionAsync(
+      {
+        accuracy: Location.Accuracy.High,
+        timeInterval: TRACKING_INTERVAL_MS,
+        distanceInterval: TRACKING_DISTANCE_M,
+      },
+      (location) => {
+        recordTrail(alertId, [location]);
+      }
+    );
+    return true;
+  } catch (error) {
+    console.error('Error starting location tracking:', error);
+    return false;
+  }
+}
+
+export async function stopAlertTracking() {
+  if (Platform.OS === 'web') {
+    return;
+  }
+
+  try {
+    foregroundSubscription?.remove();
+    foregroundSubscription = null;
+
+    if (await Location.hasStartedLocationUpdatesAsync(ALERT_TRACKING_TASK)) {
+      await Location.stopLocationUpdatesAsync(ALERT_TRACKING_TASK);
+    }
+    await SecureStore.deleteItemAsync(TRACKED_ALERT_KEY);
+  } catch (error) {
+    console.error('Error stopping location tracking:', error);
+  }
+}
+
+/**
+ * Restarts tracking for an alert that was still active when the app was
+ * closed, or clears it if it has since been closed.
+ */
+export async function resumeAlertTracking() {
+  if (Platform.OS === 'web') {
+    return;
+  }
+
+  const alertId = await SecureStore.getItemAsync(TRACKED_ALERT_KEY);
+  if (!alertId) return;
+
+  const { data: alert } = await supabase
+    .from('alerts')
+    .select('status, silent')
+    .eq('id', alertId)
+    .maybeSingle();
+
+  if (!alert || !isAlertOpen(alert.status)) {
+    await stopAlertTracking();
+    return;
+  }
+
+  const running = await Location.hasStartedLocationUpdatesAsync(ALERT_TRACKING_TASK);
+  if (!running && !foregroundSubscription) {
+    await startAlertTracking(alertId, alert.silent);
+  }
+}
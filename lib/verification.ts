@@ -0,0 +1,217 @@
+import * as DocumentPicker from 'expo-document-picker';
+import { supabase } from './supabase';
+
+export const RESPONDER_DOCUMENTS_BUCKET = 'responder-documents';
+
+export type VerificationState = 'pending' | 'approved' | 'rejected' | 'revoked';
+export type VerificationDecision = 'approved' | 'rejected' | 'revoked';
+
+export type ResponderDocument = {
+  id: string;
+  storage_path: string;
+  file_name: string;
+  content_type: string | null;
+  created_at: string;
+};
+
+export type ResponderForReview = {
+  id: string;
+  organization_name: string;
+  responder_type: 'police' | 'hospital';
+  jurisdiction: string | null;
+  badge_number: string | null;
+  organization_id: string | null;
+  verification_state: VerificationState;
+  verification_reason: string | null;
+  reviewed_at: string | null;
+  created_at: string;
+  responder_documents: ResponderDocument[];
+};
+
+export type VerificationEvent = {
+  id: string;
+  decision: VerificationDecision;
+  previous_state: VerificationState;
+  reason: string | null;
+  created_at: string;
+  responder: { organization_name: string; responder_type: string } | null;
+};
+
+export function getVerificationLabel(state: VerificationState) {
+  switch (state) {
+    case 'approved':
+      return 'Verified';
+    case 'rejected':
+      return 'Rejected';
+    case 'revoked':
+      return 'Revoked';
+    default:
+      return 'Pending Verification';
+  }
+}
+
+export function getVerificationColor(state: VerificationState) {
+  switch (state) {
+    case 'approved':
+      return '#44B944';
+    case 'rejected':
+    case 'revoked':
+      return '#FF4444';
+    default:
+      return '#FFB020';
+  }
+}
+
+// Mirrors the transitions review_responder() accepts
+export function getAvailableDecisions(state: VerificationState): VerificationDecision[] {
+  switch (state) {
+    case 'pending':
+      return ['approved', 'rejected'];
+    case 'approved':
+      return ['revoked'];
+    default:
+      return ['approved'];
+  }
+}
+
+export async function isAdmin() {
+  const { data: { user } } = await supabase.auth.getUser();
+  if (!user) return false;
+
+  const { data, error } = await supabase
+    .from('admins')
+    .select('id')
+    .eq('id', user.id)
+    .maybeSingle();
+
+  if (error) throw error;
+  return !!data;
+}
+
+/**
+ * Lets a responder pick a PDF or image and attaches it to their profile for
+ * review. Returns null if they cancelled the picker.
+ */
+export async function uploadResponderDocument(): Promise<ResponderDocument | null> {
+  const result = await DocumentPicker.getDocumentAsync({
+    type: ['application/pdf', 'image/*'],
+    copyToCacheDirectory: true,
+  });
+  if (result.canceled) return null;
+
+  const { data: { user } } = await supabase.auth.getUser();
+  if (!user) throw new Error('Not authenticated');
+
+  const asset = result.assets[0];
+  // Storage policies only allow writes under the responder's own folder
+  const storagePath = `${user.id}/${Date.now()}-${asset.name.replace(/[^\w.-]/g, '_')}`;
+  const body = await (await fetch(asset.uri)).arrayBuffer();
+
+  const { error: uploadError } = await supabase.storage
+    .from(RESPONDER_DOCUMENTS_BUCKET)
+    .upload(storagePath, body, { contentType: asset.mimeType });
+  if (uploadError) throw uploadError;
+
+  const { data, error } = await supabase
+    .from('responder_documents')
+    .insert({
+      responder_id: user.id,
+      storage_path: storagePath,
+      file_name: asset.name,
+      content_type: asset.mimeType ?? null,
+    })
+    .select('id, storage_path, file_name, content_type, created_at')
+    .single()
+    .overrideTypes<ResponderDocument, { merge: false }>();
+  if (error) throw error;
+
+  return data;
+}
+
+export async function getResponderDocuments(responderId: string): Promise<ResponderDocument[]> {
+  const { data, error } = await supabase
+    .from('responder_documents')
+    .select('id, storage_path, file_name, content_type, created_at')
+    .eq('responder_id', responderId)
+    .order('created_at', { ascending: true })
+    .overrideTypes<ResponderDocument[], { merge: false }>();
+
+  if (error) throw error;
+  return data ?? [];
+}
+
+export async function deleteResponderDocument(document: ResponderDocument) {
+  const { error: storageError } = await supabase.storage
+    .from(RESPONDER_DOCUMENTS_BUCKET)
+    .remove([document.storage_path]);
+  if (storageError) throw storageError;
+
+  const { error } = await supabase.from('responder_documents').delete().eq('id', document.id);
+  if (error) throw error;
+}
+
+// Documents are private; links expire after five minutes
+export async function getDocumentUrl(storagePath: string) {
+  const { data, error } = await supabase.storage
+    .from(RESPONDER_DOCUMENTS_BUCKET)
+    .createSignedUrl(storagePath, 300);
+  if (error) throw error;
+  return data.signedUrl;
+}
+
+export async function getRespondersForReview(state: VerificationState): Promise<ResponderForReview[]> {
+  const { data, error } = await supabase
+    .from('responders')
+    .select(`
+      id,
+      organization_name,
+      responder_type,
+      jurisdiction,
+      badge_number,
+      organization_id,
+      verification_state,
+      verification_reason,
+      reviewed_at,
+      created_at,
+      responder_documents (id, storage_path, file_name, content_type, created_at)
+    `)
+    .eq('verification_state', state)
+    .order('created_at', { ascending: true })
+    .overrideTypes<ResponderForReview[], { merge: false }>();
+
+  if (error) throw error;
+  return data ?? [];
+}
+
+export async function reviewResponder(responderId: string, decision: VerificationDecision, reason?: string) {
+  const { error } = await supabase.rpc('review_responder', {
+    p_responder_id: responderId,
+    p_decision: decision,
+    p_reason: reason?.trim() || undefined,
+  });
+
+  if (error) throw error;
+}
+
+export async function getVerificationEvents(responderId?: string): Promise<VerificationEvent[]> {
+  let query = supabase
+    .from('responder_verification_events')
+    .select(`
+      id,
+      decision,
+      previous_state,
+      reason,
+      created_at,
+      responder:responders (organization_name, responder_type)
+    `)
+    .order('created_at', { ascending: false })
+    .limit(100);
+
+  if (responderId) {
+    query = query.eq('responder_id', responderId);
+  }
+
+  const { data, error } = await query;
+  if (error) throw error;
+  return (data ?? []) as unknown as VerificationEvent[];
+}
@@ -0,0 +1,837 @@
+import { useState, useEffect, useRef } from 'react';
+import { View, Text, StyleSheet, FlatList, TouchableOpacity } from 'react-native';
+import { useRouter } from 'expo-router';
+import { format } from 'date-fns';
+import { TriangleAlert as AlertTriangle, CircleCheck as CheckCircle2, Clock, MapPin, User, CloudOff } from 'lucide-react-native';
+import { supabase } from '../lib/supabase';
+import { useRole } from '../hooks/useRole';
+import { getAlertAddress } from '../lib/geocoding';
+import { formatAccuracy, formatCoordinates } from '../lib/location';
+import {
+  ALERT_TYPES,
+  AlertContactSnapshot,
+  AlertStatus,
+  AlertSummary,
+  claimAlert,
+  getAlertRoute,
+  getHandledAlertTypes,
+  getReporterTransitions,
+  getResponderTransitions,
+  getStatusColor,
+  getStatusLabel,
+  getTypeLabel,
+  isAlertOpen,
+  reassignAlert,
+  updateAlertStatus,
+} from '../lib/alerts';
+import { formatDistance } from '../lib/serviceArea';
+import { getActorLabel } from '../lib/responses';
+import {
+  AlertCursor,
+  AlertFilters,
+  AlertScope,
+  EMPTY_ALERT_FILTERS,
+  countActiveFilters,
+  searchAlerts,
+} from '../lib/alertSearch';
+import LocationTrail from '../components/LocationTrail';
+import LocationFormats from '../components/LocationFormats';
+import StatusActions from '../components/StatusActions';
+import AssignmentPanel from '../components/AssignmentPanel';
+import AlertChatButton from '../components/AlertChatButton';
+import SilentAlertBanner from '../components/SilentAlertBanner';
+import AlertFilterBar from '../components/AlertFilterBar';
+import { resumeAlertTracking } from '../lib/tracking';
+import { QueuedAlert, flushAlertQueue, subscribeToAlertQueue } from '../lib/alertQueue';
+
+type Alert = AlertSummary & {
+  // Primary contact as snapshotted when the alert was sent
+  primary_contact?: AlertContactSnapshot;
+};
+
+const SEARCH_DEBOUNCE_MS = 300;
+
+export default function AlertsScreen() {
+  const [alerts, setAlerts] = useState<Alert[]>([]);
+  const [error, setError] = useState('');
+  const { role: userType, userId: currentUserId, isDispatcher } = useRole();
+  const [isLoading, setIsLoading] = useState(true);
+  // SOS alerts still waiting on the device for a connection
+  const [queuedAlerts, setQueuedAlerts] = useState<QueuedAlert[]>([]);
+  const queuedCountRef = useRef(0);
+  const [filters, setFilters] = useState<AlertFilters>(EMPTY_ALERT_FILTERS);
+  const [nextCursor, setNextCursor] = useState<AlertCursor | null>(null);
+  const [isLoadingMore, setIsLoadingMore] = useState(false);
+  // Read by realtime callbacks, which are created once per user type
+  const filtersRef = useRef<AlertFilters>(EMPTY_ALERT_FILTERS);
+  // Realtime reloads reuse reporter details instead of reading them again
+  const alertsRef = useRef<Alert[]>([]);
+  // Bumped when the list starts again, so loads begun before then are dropped
+  const listVersionRef = useRef(0);
+  const router = useRouter();
+
+  useEffect(() => {
+    if (userType === null) return;
+    return setupRealtimeSubscription();
+  }, [userType]);
+
+  useEffect(() => {
+    alertsRef.current = alerts;
+  }, [alerts]);
+
+  useEffect(() => {
+    filtersRef.current = filters;
+    if (userType === null) return;
+
+    // Typing in the search box shouldn't send a query per keystroke
+    const timeout = setTimeout(loadAlerts, filters.query ? SEARCH_DEBOUNCE_MS : 0);
+    return () => clearTimeout(timeout);
+  }, [userType, filters]);
+
+  useEffect(() => {
+    if (userType !== 'civilian') return;
+
+    return subscribeToAlertQueue((queued) => {
+      // Anything that left the queue has been uploaded
+      if (queued.length < queuedCountRef.current) {
+        refreshAlerts();
+      }
+      queuedCountRef.current = queued.length;
+      setQueuedAlerts(queued);
+    });
+  }, [userType]);
+
+  // Responders only ever see the alert types they handle
+  const getScope = (): AlertScope => {
+    const types = userType ? getHandledAlertTypes(userType) : null;
+    return types ? { types } : { userId: currentUserId ?? undefined };
+  };
+
+  // Alerts the server hasn't geocoded yet are looked up through the shared cache
+  const lookupAddress = async (alert: Alert) =>
+    (await getAlertAddress(alert)) ?? formatCoordinates(alert.latitude, alert.longitude);
+
+  const withAddresses = (page: AlertSummary[]): Promise<Alert[]> =>
+    Promise.all(
+      page.map(async (alert) => ({
+        ...alert,
+        address: await lookupAddress(alert),
+        primary_contact: alert.alert_contacts?.find((contact) => contact.is_primary),
+      }))
+    );
+
+  // Starts again from the newest alert; filter changes and pull-to-refresh land here
+  const loadAlerts = async () => {
+    if (!userType) return;
+
+    listVersionRef.current += 1;
+    setIsLoading(true);
+    try {
+      if (userType === 'civilian' && !currentUserId) {
+        setError('User not authenticated');
+        return;
+      }
+
+      const page = await searchAlerts(getScope(), filtersRef.current, null, alertsRef.current);
+      setAlerts(await withAddresses(page.alerts));
+      setNextCursor(page.nextCursor);
+      setError('');
+    } catch (err: any) {
+      console.error('Error loading alerts:', err);
+      setError(err.message);
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  /**
+   * Reloads the first page and merges it into what is already loaded, so
+   * realtime changes (location updates arrive every few seconds) don't send a
+   * responder paging through history back to the top. Older pages stay as they
+   * were loaded, and so does the cursor, unless the first page is now everything.
+   */
+  const refreshAlerts = async () => {
+    if (!userType) return;
+    if (userType === 'civilian' && !currentUserId) return;
+
+    const version = listVersionRef.current;
+    try {
+      const page = await searchAlerts(getScope(), filtersRef.current, null, alertsRef.current);
+      const fresh = await withAddresses(page.alerts);
+      // A filter change started the list again while this was loading
+      if (version !== listVersionRef.current) return;
+
+      const oldest = fresh[fresh.length - 1];
+      const isOlder = (alert: Alert) =>
+        alert.created_at < oldest.created_at ||
+        (alert.created_at === oldest.created_at && alert.id < oldest.id);
+
+      setAlerts((current) => {
+        if (!page.nextCursor) return fresh;
+        const freshIds = new Set(fresh.map((alert) => alert.id));
+        // Rows newer than the first page's last one but missing from it no longer match
+        return [...fresh, ...current.filter((alert) => !freshIds.has(alert.id) && isOlder(alert))];
+      });
+      setNextCursor((current) => (page.nextCursor && current ? current : page.nextCursor));
+      setError('');
+    } catch (err: any) {
+      console.error('Error refreshing alerts:', err);
+      setError(err.message);
+    }
+  };
+
+  const loadMoreAlerts = async () => {
+    if (!nextCursor || isLoading || isLoadingMore) return;
+
+    const version = listVersionRef.current;
+    setIsLoadingMore(true);
+    try {
+      const page = await searchAlerts(getScope(), filtersRef.current, nextCursor);
+      const more = await withAddresses(page.alerts);
+      if (version !== listVersionRef.current) return;
+      setAlerts((current) => [
+        ...current,
+        ...more.filter((alert) => !current.some((existing) => existing.id === alert.id)),
+      ]);
+      setNextCursor(page.nextCursor);
+    } catch (err: any) {
+      console.error('Error loading more alerts:', err);
+      setError(err.message);
+    } finally {
+      setIsLoadingMore(false);
+    }
+  };
+
+  const setupRealtimeSubscription = () => {
+    if (!userType || !currentUserId) return;
+
+    let channel;
+    
+    if (userType === 'civilian') {
+      // Subscribe to user's own alerts
+      channel = supabase
+        .channel('user-alerts')
+        .on('postgres_changes', 
+          { 
+            event: '*', 
+            schema: 'public', 
+            table: 'alerts',
+            filter: `user_id=eq.${currentUserId}`
+          }, 
+          () => {
+            refreshAlerts();
+          }
+        )
+        .subscribe();
+    } else if (userType === 'police') {
+      // Subscribe to police alerts and general emergency alerts
+      channel = supabase
+        .channel('police-alerts')
+        .on('postgres_changes', 
+          { 
+            event: '*', 
+            schema: 'public', 
+            table: 'alerts',
+            filter: 'type=eq.police'
+          }, 
+          () => {
+            refreshAlerts();
+          }
+        )
+        .on('postgres_changes', 
+          { 
+            event: '*', 
+            schema: 'public', 
+            table: 'alerts',
+            filter: 'type=eq.general'
+          }, 
+          () => {
+            refreshAlerts();
+          }
+        )
+        .subscribe();
+    } else if (userType === 'hospital') {
+      // Subscribe to medical alerts and general emergency alerts
+      channel = supabase
+        .channel('medical-alerts')
+        .on('postgres_changes', 
+          { 
+            event: '*', 
+            schema: 'public', 
+            table: 'alerts',
+            filter: 'type=eq.medical'
+          }, 
+          () => {
+            refreshAlerts();
+          }
+        )
+        .on('postgres_changes', 
+          { 
+            event: '*', 
+            schema: 'public', 
+            table: 'alerts',
+            filter: 'type=eq.general'
+          }, 
+          () => {
+            refreshAlerts();
+          }
+        )
+        .subscribe();
+    }
+
+    // Cleanup subscription on unmount
+    return () => {
+      if (channel) {
+        supabase.removeChannel(channel);
+      }
+    };
+  };
+
+  const handleStatusUpdate = async (alertId: string, status: AlertStatus, reason?: string) => {
+    try {
+      await updateAlertStatus(alertId, status, reason);
+      if (userType === 'civilian') {
+        // Stops sharing location once the tracked alert is withdrawn
+        await resumeAlertTracking();
+      }
+      refreshAlerts();
+    } catch (err: any) {
+      console.error('Error updating alert status:', err);
+      setError(err.message);
+    }
+  };
+
+  const handleClaim = async (alertId: string) => {
+    try {
+      await claimAlert(alertId);
+      refreshAlerts();
+    } catch (err: any) {
+      console.error('Error claiming alert:', err);
+      setError(err.message);
+    }
+  };
+
+  const handleReassign = async (alertId: string, responderId: string | null, reason?: string) => {
+    try {
+      await reassignAlert(alertId, responderId, reason);
+      refreshAlerts();
+    } catch (err: any) {
+      console.error('Error reassigning alert:', err);
+      setError(err.message);
+    }
+  };
+
+  // Another unit's alert is read-only unless we dispatch
+  const canActOn = (alert: Alert) =>
+    !alert.assignee || alert.assignee.id === currentUserId || isDispatcher;
+
+  const renderAlert = ({ item }: { item: Alert }) => (
+    <View style={styles.alertCard}>
+      <View style={styles.alertHeader}>
+        <Text style={styles.alertType}>{getTypeLabel(item.type)}</Text>
+        <View style={[styles.statusBadge, { backgroundColor: getStatusColor(item.status) }]}>
+          <Text style={styles.statusText}>{getStatusLabel(item.status)}</Text>
+        </View>
+      </View>
+
+      {userType !== 'civilian' && item.silent && (
+        <View style={styles.silentBanner}>
+          <SilentAlertBanner />
+        </View>
+      )}
+
+      <View style={styles.alertInfo}>
+        <View style={styles.infoRow}>
+          <Clock size={16} color="#666" />
+          <Text style={styles.infoText}>
+            {format(new Date(item.created_at), 'MMM d, yyyy h:mm a')}
+          </Text>
+        </View>
+        <View style={styles.infoRow}>
+          <MapPin size={16} color="#666" />
+          <Text style={styles.infoText}>
+            {item.address || formatCoordinates(item.latitude, item.longitude)}
+            {formatAccuracy(item.location_accuracy) ? ` (${formatAccuracy(item.location_accuracy)})` : ''}
+          </Text>
+        </View>
+        {userType !== 'civilian' && formatDistance(item.distance_m) && (
+          <Text style={styles.distanceText}>{formatDistance(item.distance_m)}</Text>
+        )}
+        {item.location_stale && (
+          <View style={styles.staleLocation}>
+            <AlertTriangle size={16} color="#B26A00" />
+            <Text style={styles.staleLocationText}>
+              Location may be outdated
+              {item.location_timestamp
+                ? ` (fix from ${format(new Date(item.location_timestamp), 'h:mm a')})`
+                : ''}
+            </Text>
+          </View>
+        )}
+        {userType !== 'civilian' && (
+          <LocationFormats
+            latitude={item.last_latitude ?? item.latitude}
+            longitude={item.last_longitude ?? item.longitude}
+            label={getTypeLabel(item.type)}
+          />
+        )}
+        {isAlertOpen(item.status) && <LocationTrail points={item.alert_locations || []} />}
+        {item.description && (
+          <View style={styles.infoRow}>
+            <Text style={styles.description}>{item.description}</Text>
+          </View>
+        )}
+        
+        {/* User Contact Information */}
+        {userType !== 'civilian' && item.reporter && (
+          <View style={styles.contactSection}>
+            <Text style={styles.contactTitle}>Reporter Details</Text>
+            <View style={styles.infoRow}>
+              <User size={16} color="#666" />
+              <Text style={styles.infoText}>{item.reporter.full_name}</Text>
+            </View>
+            <View style={styles.infoRow}>
+              <Text style={styles.contactLabel}>Phone: </Text>
+              <Text style={styles.contactValue}>{item.reporter.phone_number}</Text>
+            </View>
+            
+            {/* Primary Contact Information */}
+            {item.primary_contact && (
+              <View style={styles.emergencyContact}>
+                <Text style={styles.contactTitle}>Emergency Contact</Text>
+                <View style={styles.infoRow}>
+                  <Text style={styles.contactLabel}>Name: </Text>
+                  <Text style={styles.contactValue}>{item.primary_contact.name}</Text>
+                </View>
+                <View style={styles.infoRow}>
+                  <Text style={styles.contactLabel}>Phone: </Text>
+                  <Text style={styles.contactValue}>{item.primary_contact.phone_number}</Text>
+                </View>
+                {item.primary_contact.relationship && (
+                  <View style={styles.infoRow}>
+                    <Text style={styles.contactLabel}>Relationship: </Text>
+                    <Text style={styles.contactValue}>{item.primary_contact.relationship}</Text>
+                  </View>
+                )}
+                {item.primary_contact.email && (
+                  <View style={styles.infoRow}>
+                    <Text style={styles.contactLabel}>Email: </Text>
+                    <Text style={styles.contactValue}>{item.primary_contact.email}</Text>
+                  </View>
+                )}
+              </View>
+            )}
+          </View>
+        )}
+      </View>
+
+      <View style={styles.assignment}>
+        <AssignmentPanel
+          alertId={item.id}
+          assignee={item.assignee}
+          currentResponderId={userType === 'civilian' ? null : currentUserId}
+          isDispatcher={isDispatcher}
+          // Civilians see who is handling their alert but can't change it
+          isOpen={userType !== 'civilian' && isAlertOpen(item.status)}
+          onClaim={() => handleClaim(item.id)}
+          onReassign={(responderId, reason) => handleReassign(item.id, responderId, reason)}
+        />
+      </View>
+
+      {isAlertOpen(item.status) && (
+        <View style={styles.statusActions}>
+          {userType === 'civilian' ? (
+            // Confirmed on the device so nobody can force the reporter to stand responders down
+            <StatusActions
+              transitions={getReporterTransitions(item.status)}
+              onTransition={(status, reason) => handleStatusUpdate(item.id, status, reason)}
+              confirmIdentity
+            />
+          ) : (
+            <StatusActions
+              transitions={canActOn(item) ? getResponderTransitions(item.status) : []}
+              onTransition={(status, reason) => handleStatusUpdate(item.id, status, reason)}
+            />
+          )}
+        </View>
+      )}
+
+      <View style={styles.chat}>
+        <AlertChatButton
+          alertId={item.id}
+          title={getTypeLabel(item.type)}
+          isOpen={isAlertOpen(item.status)}
+        />
+      </View>
+
+      <TouchableOpacity style={styles.detailsButton} onPress={() => router.push(getAlertRoute(item.id))}>
+        <Text style={styles.detailsText}>Full Details & Timeline</Text>
+      </TouchableOpacity>
+
+      {item.responses?.length > 0 && (
+        <View style={styles.responses}>
+          <Text style={styles.responsesTitle}>Response History</Text>
+          {item.responses.map((response) => (
+            <View key={response.id} style={styles.responseItem}>
+              <Text style={styles.responseText}>{response.action_taken}</Text>
+              {response.reason && <Text style={styles.responseReason}>{response.reason}</Text>}
+              <Text style={styles.responseOrg}>
+                {response.actor ? getActorLabel(response.actor) : 'System'}
+              </Text>
+              <Text style={styles.responseTime}>
+                {format(new Date(response.created_at), 'MMM d, h:mm a')}
+              </Text>
+            </View>
+          ))}
+        </View>
+      )}
+    </View>
+  );
+
+  const renderQueuedAlert = (item: QueuedAlert) => (
+    <View key={item.id} style={styles.alertCard}>
+      <View style={styles.alertHeader}>
+        <Text style={styles.alertType}>{getTypeLabel(item.type)}</Text>
+        <View style={[styles.statusBadge, styles.queuedBadge]}>
+          <Text style={styles.statusText}>Pending upload</Text>
+        </View>
+      </View>
+
+      <View style={styles.alertInfo}>
+        <View style={styles.infoRow}>
+          <Clock size={16} color="#666" />
+          <Text style={styles.infoText}>
+            {format(new Date(item.queued_at), 'MMM d, yyyy h:mm a')}
+          </Text>
+        </View>
+        <View style={styles.infoRow}>
+          <MapPin size={16} color="#666" />
+          <Text style={styles.infoText}>
+            {formatCoordinates(item.fix.latitude, item.fix.longitude)}
+            {formatAccuracy(item.fix.accuracy) ? ` (${formatAccuracy(item.fix.accuracy)})` : ''}
+          </Text>
+        </View>
+        <View style={styles.queuedNotice}>
+          <CloudOff size={16} color="#B26A00" />
+          <Text style={styles.staleLocationText}>
+            Saved on this device, not yet received by responders.
+            {item.sms_sent_at ? ' A text message was prepared for your contacts.' : ''}
+            {item.last_error ? `\nLast error: ${item.last_error}` : ''}
+          </Text>
+        </View>
+      </View>
+
+      <TouchableOpacity style={styles.retryNowButton} onPress={() => flushAlertQueue(true)}>
+        <Text style={styles.retryNowText}>Retry Now</Text>
+      </TouchableOpacity>
+    </View>
+  );
+
+  const renderEmptyState = () => (
+    <View style={styles.emptyState}>
+      <Text style={styles.emptyText}>
+        {filters.query || countActiveFilters(filters)
+          ? 'No alerts match your search and filters.'
+          : userType === 'civilian'
+            ? 'No alerts found. Your emergency alerts will appear here.'
+            : 'No active alerts at this time.'
+        }
+      </Text>
+    </View>
+  );
+
+  return (
+    <View style={styles.container}>
+      <Text style={styles.title}>Emergency Alerts</Text>
+
+      {error ? (
+        <View style={styles.errorContainer}>
+          <AlertTriangle color="#FF4444" size={20} />
+          <Text style={styles.errorText}>{error}</Text>
+          <TouchableOpacity 
+            style={styles.retryButton}
+            onPress={() => {
+              setError('');
+              loadAlerts();
+            }}>
+            <Text style={styles.retryText}>Retry</Text>
+          </TouchableOpacity>
+        </View>
+      ) : null}
+
+      <AlertFilterBar
+        filters={filters}
+        onChange={setFilters}
+        types={getScope().types ?? ALERT_TYPES}
+        showDistance={userType !== 'civilian'}
+      />
+
+      {isLoading && !alerts.length ? (
+        <View style={styles.loadingContainer}>
+          <Text style={styles.loadingText}>Loading alerts...</Text>
+        </View>
+      ) : (
+        <FlatList
+          data={alerts}
+          renderItem={renderAlert}
+          keyExtractor={(item) => item.id}
+          contentContainerStyle={styles.list}
+          ListHeaderComponent={
+            queuedAlerts.length ? <View style={styles.list}>{queuedAlerts.map(renderQueuedAlert)}</View> : null
+          }
+          ListEmptyComponent={queuedAlerts.length ? null : renderEmptyState}
+          ListFooterComponent={
+            isLoadingMore ? <Text style={styles.loadingMoreText}>Loading more alerts...</Text> : null
+          }
+          refreshing={isLoading}
+          onRefresh={loadAlerts}
+          onEndReached={loadMoreAlerts}
+          onEndReachedThreshold={0.5}
+        />
+      )}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#fff',
+    padding: 20,
+    marginTop: 25,
+  },
+  title: {
+    fontSize: 24,
+    fontWeight: 'bold',
+    marginBottom: 20,
+    color: '#1a1a1a',
+    marginTop: 25,
+  },
+  list: {
+    gap: 16,
+  },
+  alertCard: {
+    backgroundColor: '#f8f9fa',
+    borderRadius: 12,
+    padding: 16,
+  },
+  alertHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    marginBottom: 12,
+  },
+  alertType: {
+    fontSize: 18,
+    fontWeight: '600',
+    color: '#1a1a1a',
+  },
+  statusBadge: {
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    borderRadius: 16,
+  },
+  statusText: {
+    color: '#fff',
+    fontSize: 12,
+    fontWeight: '500',
+    textTransform: 'uppercase',
+  },
+  alertInfo: {
+    gap: 8,
+    marginBottom: 16,
+  },
+  silentBanner: {
+    marginBottom: 12,
+  },
+  infoRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+  },
+  infoText: {
+    fontSize: 14,
+    color: '#666',
+  },
+  staleLocation: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+    backgroundColor: '#FFF4E0',
+    padding: 8,
+    borderRadius: 8,
+  },
+  staleLocationText: {
+    fontSize: 13,
+    color: '#B26A00',
+    flex: 1,
+  },
+  queuedBadge: {
+    backgroundColor: '#FFB020',
+  },
+  queuedNotice: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+    backgroundColor: '#FFF4E0',
+    padding: 8,
+    borderRadius: 8,
+  },
+  retryNowButton: {
+    backgroundColor: '#1a1a1a',
+    padding: 12,
+    borderRadius: 8,
+    alignItems: 'center',
+  },
+  retryNowText: {
+    color: '#fff',
+    fontSize: 14,
+    fontWeight: '600',
+  },
+  distanceText: {
+    fontSize: 13,
+    fontWeight: '600',
+    color: '#3366FF',
+    marginLeft: 24,
+  },
+  description: {
+    fontSize: 14,
+    color: '#1a1a1a',
+    fontStyle: 'italic',
+  },
+  contactSection: {
+    marginTop: 12,
+    padding: 12,
+    backgroundColor: '#e8f4f8',
+    borderRadius: 8,
+  },
+  contactTitle: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#1a1a1a',
+    marginBottom: 8,
+  },
+  contactLabel: {
+    fontSize: 14,
+    fontWeight: '500',
+    color: '#666',
+  },
+  contactValue: {
+    fontSize: 14,
+    color: '#1a1a1a',
+  },
+  emergencyContact: {
+    marginTop: 12,
+    padding: 12,
+    backgroundColor: '#fff3cd',
+    borderRadius: 8,
+  },
+  assignment: {
+    marginBottom: 16,
+  },
+  statusActions: {
+    marginBottom: 16,
+  },
+  chat: {
+    marginBottom: 16,
+  },
+  detailsButton: {
+    backgroundColor: '#FF4444',
+    padding: 12,
+    borderRadius: 8,
+    alignItems: 'center',
+    marginBottom: 16,
+  },
+  detailsText: {
+    color: '#fff',
+    fontSize: 14,
+    fontWeight: '600',
+  },
+  responses: {
+    borderTopWidth: 1,
+    borderTopColor: '#ddd',
+    paddingTop: 16,
+    gap: 12,
+  },
+  responsesTitle: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#1a1a1a',
+  },
+  responseItem: {
+    backgroundColor: '#fff',
+    padding: 12,
+    borderRadius: 8,
+  },
+  responseText: {
+    fontSize: 14,
+    color: '#1a1a1a',
+    marginBottom: 4,
+  },
+  responseReason: {
+    fontSize: 13,
+    color: '#666',
+    fontStyle: 'italic',
+    marginBottom: 4,
+  },
+  responseOrg: {
+    fontSize: 12,
+    color: '#666',
+    fontStyle: 'italic',
+    marginBottom: 4,
+  },
+  responseTime: {
+    fontSize: 12,
+    color: '#666',
+  },
+  errorContainer: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: '#FFE5E5',
+    padding: 12,
+    borderRadius: 8,
+    marginBottom: 16,
+  },
+  errorText: {
+    color: '#FF4444',
+    marginLeft: 8,
+    flex: 1,
+  },
+  retryButton: {
+    backgroundColor: '#FF4444',
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    borderRadius: 6,
+  },
+  retryText: {
+    color: '#fff',
+    fontSize: 12,
+    fontWeight: '600',
+  },
+  loadingContainer: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  loadingText: {
+    fontSize: 16,
+    color: '#666',
+  },
+  loadingMoreText: {
+    fontSize: 14,
+    color: '#666',
+    textAlign: 'center',
+    paddingVertical: 12,
+  },
+  emptyState: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+    paddingVertical: 40,
+  },
+  emptyText: {
+    fontSize: 16,
+    color: '#666',
+    textAlign: 'center',
+  },
+});
\ No newline at end of file
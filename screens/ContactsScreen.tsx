@@ -1,18 +1,12 @@
 import { useState, useEffect } from 'react';
 import { View, Text, StyleSheet, FlatList, TouchableOpacity, TextInput } from 'react-native';
 import { Plus, Trash2, TriangleAlert as AlertTriangle } from 'lucide-react-native';
-import { supabase } from '../../lib/supabase';
-
-type Contact = {
-  id: string;
-  name: string;
-  relationship: string;
-  phone_number: string;
-  email: string;
-  is_primary: boolean;
-};
+import { useRole } from '../hooks/useRole';
+import { rememberFallbackContact } from '../lib/alertQueue';
+import { Contact, addContact, deleteContact, getContacts, setPrimaryContact } from '../lib/contacts';
 
 export default function ContactsScreen() {
+  const { userId } = useRole();
   const [contacts, setContacts] = useState<Contact[]>([]);
   const [isAdding, setIsAdding] = useState(false);
   const [error, setError] = useState('');
@@ -29,28 +23,23 @@ export default function ContactsScreen() {
 
   const loadContacts = async () => {
     try {
-      const { data, error } = await supabase
-        .from('contacts')
-        .select('*')
-        .order('is_primary', { ascending: false });
+      const data = await getContacts();
+      setContacts(data);
 
-      if (error) throw error;
-      setContacts(data || []);
+      const primary = data.find((contact) => contact.is_primary);
+      rememberFallbackContact(primary?.phone_number ?? null).catch((err) => {
+        console.error('Error caching primary contact:', err);
+      });
     } catch (err: any) {
       setError(err.message);
     }
   };
 
-  const addContact = async () => {
-    try {
-      const { error } = await supabase.from('contacts').insert([
-        {
-          ...newContact,
-          is_primary: contacts.length === 0,
-        },
-      ]);
+  const handleAddContact = async () => {
+    if (!userId) return;
 
-      if (error) throw error;
+    try {
+      await addContact(userId, newContact, contacts.length === 0);
 
       setIsAdding(false);
       setNewContact({ name: '', relationship: '', phone_number: '', email: '' });
@@ -60,21 +49,18 @@ export default function ContactsScreen() {
     }
   };
 
-  const deleteContact = async (id: string) => {
+  const handleDeleteContact = async (id: string) => {
     try {
-      const { error } = await supabase.from('contacts').delete().eq('id', id);
-      if (error) throw error;
+      await deleteContact(id);
       loadContacts();
     } catch (err: any) {
       setError(err.message);
     }
   };
 
-  const setPrimaryContact = async (id: string) => {
+  const handleSetPrimary = async (id: string) => {
     try {
-      await supabase.from('contacts').update({ is_primary: false }).neq('id', id);
-      const { error } = await supabase.from('contacts').update({ is_primary: true }).eq('id', id);
-      if (error) throw error;
+      await setPrimaryContact(id);
       loadContacts();
     } catch (err: any) {
       setError(err.message);
@@ -85,7 +71,7 @@ export default function ContactsScreen() {
     <View style={styles.contactCard}>
       <TouchableOpacity
         style={[styles.primaryBadge, item.is_primary && styles.primaryBadgeActive]}
-        onPress={() => setPrimaryContact(item.id)}>
+        onPress={() => handleSetPrimary(item.id)}>
         <Text style={[styles.primaryText, item.is_primary && styles.primaryTextActive]}>
           {item.is_primary ? 'Primary' : 'Set as Primary'}
         </Text>
@@ -96,7 +82,7 @@ export default function ContactsScreen() {
       <Text style={styles.contactDetail}>{item.phone_number}</Text>
       <Text style={styles.contactDetail}>{item.email}</Text>
 
-      <TouchableOpacity style={styles.deleteButton} onPress={() => deleteContact(item.id)}>
+      <TouchableOpacity style={styles.deleteButton} onPress={() => handleDeleteContact(item.id)}>
         <Trash2 size={20} color="#FF4444" />
       </TouchableOpacity>
     </View>
@@ -149,7 +135,7 @@ export default function ContactsScreen() {
               onPress={() => setIsAdding(false)}>
               <Text style={styles.buttonText}>Cancel</Text>
             </TouchableOpacity>
-            <TouchableOpacity style={[styles.button, styles.saveButton]} onPress={addContact}>
+            <TouchableOpacity style={[styles.button, styles.saveButton]} onPress={handleAddContact}>
               <Text style={[styles.buttonText, styles.saveButtonText]}>Save Contact</Text>
             </TouchableOpacity>
           </View>
@@ -0,0 +1,1227 @@
+import { useState, useEffect, useRef, useCallback } from 'react';
+import { View, Text, TextInput, TouchableOpacity, StyleSheet, Alert, Image, Platform, ScrollView, Animated } from 'react-native';
+import { useFocusEffect, useRouter } from 'expo-router';
+import * as Location from 'expo-location';
+import { Ambulance, Slice as Police, Shield, TriangleAlert as AlertTriangle, Clock, MapPin, User, List, Map as MapIcon, X } from 'lucide-react-native';
+import { LinearGradient } from 'expo-linear-gradient';
+import { BlurView } from 'expo-blur';
+import { supabase } from '../lib/supabase';
+import { useRole } from '../hooks/useRole';
+import { UserRole, getRoleRoute } from '../lib/roles';
+import { CivilianProfile, getCivilianProfile } from '../lib/profiles';
+import { getAlertAddress, reverseGeocode } from '../lib/geocoding';
+import { formatAccuracy, formatCoordinates, getAlertLocationFix } from '../lib/location';
+import { resumeAlertTracking, startAlertTracking } from '../lib/tracking';
+import { submitAlert, syncFallbackContact } from '../lib/alertQueue';
+import {
+  ALERT_GRACE_PERIOD_SECONDS,
+  AlertStatus,
+  AlertSummary,
+  AlertType,
+  claimAlert,
+  getAlertRoute,
+  getHandledAlertTypes,
+  getOpenAlerts,
+  getResponderTransitions,
+  getStatusColor,
+  getStatusLabel,
+  getTypeLabel,
+  reassignAlert,
+  updateAlertStatus,
+} from '../lib/alerts';
+import LocationTrail from '../components/LocationTrail';
+import LocationFormats from '../components/LocationFormats';
+import { AlertSortOrder, formatDistance, getServiceArea, hasServiceArea } from '../lib/serviceArea';
+import AlertsMap from '../components/AlertsMap';
+import StatusActions from '../components/StatusActions';
+import AssignmentPanel from '../components/AssignmentPanel';
+import AlertChatButton from '../components/AlertChatButton';
+import AlertToast, { Toast } from '../components/AlertToast';
+import MedicalIdCard from '../components/MedicalIdCard';
+import SilentSosButton from '../components/SilentSosButton';
+import EmergencyButton from '../components/EmergencyButton';
+import SilentAlertBanner from '../components/SilentAlertBanner';
+import { MedicalId, getMedicalId, hasMedicalInfo } from '../lib/medicalId';
+import { AlertActivationMode, DEFAULT_ACTIVATION_MODE } from '../lib/alertActivation';
+import { format } from 'date-fns';
+
+const SAFETY_TIPS = [
+  "Stay calm during emergencies - clear thinking saves lives",
+  "Keep emergency contacts easily accessible",
+  "Learn basic first aid - it could save someone's life",
+  "Create a family emergency plan and practice it",
+  "Keep emergency supplies in your home and car",
+  "Know your evacuation routes and meeting points",
+  "Save emergency numbers on speed dial",
+  "Keep important documents in a waterproof container",
+  "Learn CPR and basic life support",
+  "Install smoke detectors and check them monthly"
+];
+
+export default function HomeScreen() {
+  const [location, setLocation] = useState<Location.LocationObject | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState('');
+  const { role: userType, userId, isDispatcher } = useRole();
+  const [activeAlerts, setActiveAlerts] = useState<AlertSummary[]>([]);
+  const [userProfile, setUserProfile] = useState<CivilianProfile | null>(null);
+  const [medicalId, setMedicalId] = useState<MedicalId | null>(null);
+  const [tipIndex, setTipIndex] = useState(0);
+  const [alertAddresses, setAlertAddresses] = useState<{ [key: string]: string }>({});
+  const [viewMode, setViewMode] = useState<'list' | 'map'>('list');
+  const [selectedAlertId, setSelectedAlertId] = useState<string | null>(null);
+  const [sortOrder, setSortOrder] = useState<AlertSortOrder>('recent');
+  // Responders without a service area are sent no alerts at all
+  const [needsServiceArea, setNeedsServiceArea] = useState(false);
+  // Alert waiting out the grace period before it is sent
+  const [countdown, setCountdown] = useState<{ type: AlertType; secondsLeft: number } | null>(null);
+  // Banner for alerts that arrive while the screen is open
+  const [toast, setToast] = useState<Toast | null>(null);
+  // Read by the realtime callback, which is created once per user type
+  const sortOrderRef = useRef<AlertSortOrder>('recent');
+  const activeAlertsRef = useRef<AlertSummary[]>([]);
+  const fadeAnim = useState(new Animated.Value(1))[0];
+  const router = useRouter();
+  const activationMode = userProfile?.alert_activation_mode ?? DEFAULT_ACTIVATION_MODE;
+
+  useEffect(() => {
+    getLocation();
+  }, []);
+
+  useEffect(() => {
+    if (userType === 'civilian') {
+      loadUserProfile();
+      resumeAlertTracking();
+      syncFallbackContact().catch((err) => {
+        console.error('Error caching primary contact:', err);
+      });
+    }
+  }, [userType]);
+
+  useEffect(() => {
+    if (userType && (userType === 'police' || userType === 'hospital')) {
+      loadActiveAlerts(userType);
+      const cleanup = setupRealtimeSubscription();
+      return cleanup;
+    }
+  }, [userType]);
+
+  // Checked on focus so the prompt goes away after saving an area in Settings
+  useFocusEffect(
+    useCallback(() => {
+      if (userType !== 'police' && userType !== 'hospital') return;
+      getServiceArea()
+        .then((area) => setNeedsServiceArea(!hasServiceArea(area)))
+        .catch((err) => {
+          console.error('Error loading service area:', err);
+        });
+    }, [userType])
+  );
+
+  useEffect(() => {
+    if (!countdown) return;
+
+    if (countdown.secondsLeft === 0) {
+      setCountdown(null);
+      sendEmergencyAlert(countdown.type);
+      return;
+    }
+
+    const timeout = setTimeout(() => {
+      setCountdown((current) => current && { ...current, secondsLeft: current.secondsLeft - 1 });
+    }, 1000);
+    return () => clearTimeout(timeout);
+  }, [countdown]);
+
+  useEffect(() => {
+    sortOrderRef.current = sortOrder;
+    if (userType === 'police' || userType === 'hospital') {
+      loadActiveAlerts(userType);
+    }
+  }, [sortOrder]);
+
+  useEffect(() => {
+    const interval = setInterval(() => {
+      Animated.sequence([
+        Animated.timing(fadeAnim, {
+          toValue: 0,
+          duration: 500,
+          useNativeDriver: true,
+        }),
+        Animated.timing(fadeAnim, {
+          toValue: 1,
+          duration: 500,
+          useNativeDriver: true,
+        })
+      ]).start();
+
+      setTipIndex((current) => (current + 1) % SAFETY_TIPS.length);
+    }, 5000);
+
+    return () => clearInterval(interval);
+  }, []);
+
+  const loadUserProfile = async () => {
+    try {
+      const { data: { user } } = await supabase.auth.getUser();
+      if (!user) return;
+
+      setUserProfile(await getCivilianProfile(user.id));
+      setMedicalId(await getMedicalId(user.id));
+    } catch (err: any) {
+      console.error('Error loading user profile:', err);
+      setError(err.message);
+    }
+  };
+
+  const getLocation = async () => {
+    try {
+      const { status } = await Location.requestForegroundPermissionsAsync();
+      if (status !== 'granted') {
+        Alert.alert('Permission denied', 'Location permission is required for emergency services.');
+        return;
+      }
+
+      const location = await Location.getCurrentPositionAsync({});
+      setLocation(location);
+    } catch (err: any) {
+      console.error('Error getting location:', err);
+      setError('Unable to get location');
+    }
+  };
+
+  const loadActiveAlerts = async (type: UserRole) => {
+    try {
+      console.log('Loading active alerts for type:', type);
+      
+      // Service area filtering happens in RLS; distance is from the responder's station
+      // Reporter details are reused, so location updates don't log another read
+      const transformedData = await getOpenAlerts(
+        getHandledAlertTypes(type),
+        sortOrderRef.current,
+        activeAlertsRef.current
+      );
+      console.log('Loaded alerts:', transformedData.length);
+
+      activeAlertsRef.current = transformedData;
+      setActiveAlerts(transformedData);
+      
+      // Load addresses for alerts
+      if (transformedData && transformedData.length > 0) {
+        const addresses: { [key: string]: string } = {};
+        await Promise.all(
+          transformedData.map(async (alert) => {
+            try {
+              addresses[alert.id] =
+                (await getAlertAddress(alert)) ?? formatCoordinates(alert.latitude, alert.longitude);
+            } catch (err) {
+              console.error('Error getting address:', err);
+              addresses[alert.id] = formatCoordinates(alert.latitude, alert.longitude);
+            }
+          })
+        );
+        setAlertAddresses(addresses);
+      }
+    } catch (err: any) {
+      console.error('Error loading active alerts:', err);
+      setError(err.message);
+    }
+  };
+
+  const setupRealtimeSubscription = () => {
+    if (!userType || userType === 'civilian') return () => {};
+
+    // Realtime applies the alerts select policy, so only alerts inside the
+    // responder's service area are delivered
+    let channel;
+    
+    if (userType === 'police') {
+      // Subscribe to police and general alerts
+      channel = supabase
+        .channel('police-alerts')
+        .on('postgres_changes', 
+          { 
+            event: '*', 
+            schema: 'public', 
+            table: 'alerts',
+            filter: 'type=in.(police,general)'
+          }, 
+          (payload) => {
+            console.log('Police alert update:', payload);
+            showNewAlertToast(payload);
+            loadActiveAlerts(userType);
+          }
+        )
+        .subscribe();
+    } else if (userType === 'hospital') {
+      // Subscribe to medical and general alerts
+      channel = supabase
+        .channel('medical-alerts')
+        .on('postgres_changes', 
+          { 
+            event: '*', 
+            schema: 'public', 
+            table: 'alerts',
+            filter: 'type=in.(medical,general)'
+          }, 
+          (payload) => {
+            console.log('Medical alert update:', payload);
+            showNewAlertToast(payload);
+            loadActiveAlerts(userType);
+          }
+        )
+        .subscribe();
+    }
+
+    // Cleanup subscription on unmount
+    return () => {
+      if (channel) {
+        console.log('Cleaning up subscription');
+        supabase.removeChannel(channel);
+      }
+    };
+  };
+
+  const showNewAlertToast = (payload: { eventType: string; new: any }) => {
+    if (payload.eventType !== 'INSERT') return;
+    setToast({
+      alertId: payload.new.id,
+      title: `New ${payload.new.silent ? 'silent ' : ''}${getTypeLabel(payload.new.type)}`,
+      message: payload.new.silent
+        ? 'Do not call or text the reporter. Tap to view the alert'
+        : payload.new.description || 'Tap to view the alert',
+    });
+  };
+
+  const openToast = (alertId: string) => {
+    setToast(null);
+    router.push(getAlertRoute(alertId));
+  };
+
+  // Accidental presses are caught on the device, before anything is written
+  const activateAlert = (type: AlertType) => {
+    setError('');
+    if (activationMode === 'hold') {
+      // Holding for the full duration is the confirmation
+      sendEmergencyAlert(type);
+      return;
+    }
+    setCountdown({ type, secondsLeft: ALERT_GRACE_PERIOD_SECONDS });
+  };
+
+  const sendEmergencyAlert = async (type: 'police' | 'medical' | 'general') => {
+    setLoading(true);
+    setError('');
+
+    try {
+      // Taken from the role lookup; asking the auth server would fail offline
+      if (!userId) throw new Error('Not authenticated');
+
+      // Refreshes a stale fix; if that fails the alert is flagged instead of blocked
+      const fix = await getAlertLocationFix(location);
+
+      // The server geocodes the alert again once it arrives
+      const place = await reverseGeocode(fix.latitude, fix.longitude);
+      const address = place?.formatted ?? formatCoordinates(fix.latitude, fix.longitude);
+
+      // Queued on the device if the network or Supabase can't be reached
+      const alert = await submitAlert(userId, type, fix, `Emergency alert sent from ${address}`, place?.formatted ?? null);
+
+      if (alert.queued) {
+        Alert.alert(
+          'No Connection',
+          'Your alert is saved on this device and will be sent as soon as you are back online. If that takes too long you will be offered a text message to send instead.',
+          [{ text: 'View Status', onPress: () => router.push(getRoleRoute('civilian', 'alerts')) }]
+        );
+        return;
+      }
+
+      // Keep sharing position with responders until the alert is resolved
+      startAlertTracking(alert.id);
+
+      const alertTypeMessage = type === 'general' ? 'Emergency SOS' : 
+                             type === 'police' ? 'Police emergency' : 'Medical emergency';
+
+      Alert.alert(
+        'Alert Sent',
+        `${alertTypeMessage} services have been notified and are on their way to ${address}`,
+        [{ text: 'View Status', onPress: () => router.push(getAlertRoute(alert.id)) }]
+      );
+    } catch (err: any) {
+      console.error('Error sending alert:', err);
+      setError(err.message);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleStatusUpdate = async (alertId: string, status: AlertStatus, reason?: string) => {
+    try {
+      await updateAlertStatus(alertId, status, reason);
+      if (userType) {
+        loadActiveAlerts(userType);
+      }
+    } catch (err: any) {
+      console.error('Error updating alert status:', err);
+      setError(err.message);
+    }
+  };
+
+  const handleClaim = async (alertId: string) => {
+    try {
+      await claimAlert(alertId);
+      if (userType) {
+        loadActiveAlerts(userType);
+      }
+    } catch (err: any) {
+      console.error('Error claiming alert:', err);
+      setError(err.message);
+    }
+  };
+
+  const handleReassign = async (alertId: string, newResponderId: string | null, reason?: string) => {
+    try {
+      await reassignAlert(alertId, newResponderId, reason);
+      if (userType) {
+        loadActiveAlerts(userType);
+      }
+    } catch (err: any) {
+      console.error('Error reassigning alert:', err);
+      setError(err.message);
+    }
+  };
+
+  const renderAssignment = (alert: AlertSummary) => (
+    <View style={styles.assignment}>
+      <AssignmentPanel
+        alertId={alert.id}
+        assignee={alert.assignee}
+        currentResponderId={userId}
+        isDispatcher={isDispatcher}
+        isOpen
+        onClaim={() => handleClaim(alert.id)}
+        onReassign={(newResponderId, reason) => handleReassign(alert.id, newResponderId, reason)}
+      />
+    </View>
+  );
+
+  const renderAlertDetails = (alert: AlertSummary) => (
+    <>
+      <View style={styles.alertHeader}>
+        <Text style={styles.alertType}>
+          {getTypeLabel(alert.type)}
+        </Text>
+        <View style={[styles.statusBadge, { backgroundColor: getStatusColor(alert.status) }]}>
+          <Text style={styles.statusText}>{getStatusLabel(alert.status)}</Text>
+        </View>
+      </View>
+
+      {alert.silent && (
+        <View style={styles.silentBanner}>
+          <SilentAlertBanner />
+        </View>
+      )}
+
+      {/* Medical alerts lead with what the crew needs before they arrive */}
+      {alert.type === 'medical' && alert.reporter?.medical_id && hasMedicalInfo(alert.reporter.medical_id) && (
+        <View style={styles.medicalId}>
+          <MedicalIdCard name={alert.reporter.full_name} medicalId={alert.reporter.medical_id} />
+        </View>
+      )}
+
+      <View style={styles.alertInfo}>
+        <View style={styles.infoRow}>
+          <Clock size={16} color="#666" />
+          <Text style={styles.infoText}>
+            {format(new Date(alert.created_at), 'MMM d, yyyy h:mm a')}
+          </Text>
+        </View>
+        <View style={styles.infoRow}>
+          <MapPin size={16} color="#666" />
+          <Text style={styles.infoText}>
+            {alertAddresses[alert.id] || formatCoordinates(alert.latitude, alert.longitude)}
+            {formatAccuracy(alert.location_accuracy) ? ` (${formatAccuracy(alert.location_accuracy)})` : ''}
+          </Text>
+        </View>
+        {formatDistance(alert.distance_m) && (
+          <Text style={styles.distanceText}>{formatDistance(alert.distance_m)}</Text>
+        )}
+        {alert.location_stale && (
+          <View style={styles.staleLocation}>
+            <AlertTriangle size={16} color="#B26A00" />
+            <Text style={styles.staleLocationText}>
+              Location may be outdated
+              {alert.location_timestamp
+                ? ` (fix from ${format(new Date(alert.location_timestamp), 'h:mm a')})`
+                : ''}
+            </Text>
+          </View>
+        )}
+        <LocationFormats
+          latitude={alert.last_latitude ?? alert.latitude}
+          longitude={alert.last_longitude ?? alert.longitude}
+          label={getTypeLabel(alert.type)}
+        />
+        <LocationTrail points={alert.alert_locations || []} />
+
+        {/* User Contact Information */}
+        {alert.reporter && (
+          <View style={styles.contactInfo}>
+            <Text style={styles.contactTitle}>Contact Information:</Text>
+            <Text style={styles.contactText}>Name: {alert.reporter.full_name || 'N/A'}</Text>
+            <Text style={styles.contactText}>Phone: {alert.reporter.phone_number || 'N/A'}</Text>
+            {alert.type !== 'medical' && alert.reporter.medical_id?.blood_type && (
+              <Text style={styles.contactText}>Blood Type: {alert.reporter.medical_id.blood_type}</Text>
+            )}
+          </View>
+        )}
+
+        {/* Emergency Contacts as they were when the alert was sent */}
+        {alert.alert_contacts && alert.alert_contacts.length > 0 && (
+          <View style={styles.emergencyContacts}>
+            <Text style={styles.contactTitle}>Emergency Contacts:</Text>
+            {alert.alert_contacts.map((contact, index) => (
+              <View key={index} style={styles.emergencyContact}>
+                <Text style={styles.contactText}>
+                  {contact.name} ({contact.relationship})
+                </Text>
+                <Text style={styles.contactText}>Phone: {contact.phone_number}</Text>
+                {contact.email && (
+                  <Text style={styles.contactText}>Email: {contact.email}</Text>
+                )}
+                {contact.is_primary && (
+                  <Text style={styles.primaryContact}>Primary Contact</Text>
+                )}
+              </View>
+            ))}
+          </View>
+        )}
+      </View>
+    </>
+  );
+
+  const renderStatusActions = (alert: AlertSummary) => (
+    <StatusActions
+      // Another unit's alert is read-only unless we dispatch
+      transitions={
+        !alert.assignee || alert.assignee.id === userId || isDispatcher
+          ? getResponderTransitions(alert.status)
+          : []
+      }
+      onTransition={(status, reason) => handleStatusUpdate(alert.id, status, reason)}
+    />
+  );
+
+  const BlurComponent = Platform.OS === 'web' ? View : BlurView;
+
+  // Debug logging
+  console.log('Current userType:', userType);
+  console.log('Active alerts:', activeAlerts.length);
+
+  if (userType === 'police' || userType === 'hospital') {
+    // Cleared automatically once the alert drops out of the active list
+    const selectedAlert = activeAlerts.find((alert) => alert.id === selectedAlertId);
+
+    return (
+      <View style={styles.container}>
+        <LinearGradient
+          colors={['#f8f9fa', '#e9ecef']}
+          style={styles.responderContent}>
+          <View style={styles.header}>
+            <Shield size={48} color="#FF4444" />
+            <Text style={styles.title}>Active Alerts</Text>
+            <Text style={styles.subtitle}>
+              {userType === 'police' ? 'Police & Emergency SOS' : 'Medical & Emergency SOS'}
+            </Text>
+          </View>
+
+          {error ? (
+            <View style={styles.errorContainer}>
+              <AlertTriangle color="#FF4444" size={20} />
+              <Text style={styles.errorText}>{error}</Text>
+            </View>
+          ) : null}
+
+          {needsServiceArea && (
+            <TouchableOpacity
+              style={styles.errorContainer}
+              onPress={() => router.push(getRoleRoute(userType, 'settings'))}>
+              <MapPin color="#FF4444" size={20} />
+              <Text style={styles.errorText}>
+                Set your service area in Settings to start receiving alerts
+              </Text>
+            </TouchableOpacity>
+          )}
+
+          <View style={styles.viewToggle}>
+            <TouchableOpacity
+              style={[styles.viewToggleButton, viewMode === 'list' && styles.viewToggleButtonActive]}
+              onPress={() => setViewMode('list')}>
+              <List size={18} color={viewMode === 'list' ? '#fff' : '#666'} />
+              <Text style={[styles.viewToggleText, viewMode === 'list' && styles.viewToggleTextActive]}>
+                List
+              </Text>
+            </TouchableOpacity>
+            <TouchableOpacity
+              style={[styles.viewToggleButton, viewMode === 'map' && styles.viewToggleButtonActive]}
+              onPress={() => setViewMode('map')}>
+              <MapIcon size={18} color={viewMode === 'map' ? '#fff' : '#666'} />
+              <Text style={[styles.viewToggleText, viewMode === 'map' && styles.viewToggleTextActive]}>
+                Map
+              </Text>
+            </TouchableOpacity>
+          </View>
+
+          {viewMode === 'list' && (
+            <View style={styles.sortRow}>
+              <Text style={styles.sortLabel}>Sort by:</Text>
+              {(['recent', 'nearest'] as const).map((order) => (
+                <TouchableOpacity
+                  key={order}
+                  style={[styles.sortChip, sortOrder === order && styles.sortChipActive]}
+                  onPress={() => setSortOrder(order)}>
+                  <Text style={[styles.sortChipText, sortOrder === order && styles.sortChipTextActive]}>
+                    {order === 'recent' ? 'Newest' : 'Nearest'}
+                  </Text>
+                </TouchableOpacity>
+              ))}
+            </View>
+          )}
+
+          {viewMode === 'map' ? (
+            <View style={styles.mapContainer}>
+              <AlertsMap
+                alerts={activeAlerts}
+                selectedAlertId={selectedAlert?.id}
+                onSelectAlert={setSelectedAlertId}
+              />
+              {selectedAlert && (
+                <View style={styles.selectedAlertPanel}>
+                  <TouchableOpacity
+                    style={styles.closePanelButton}
+                    onPress={() => setSelectedAlertId(null)}>
+                    <X size={20} color="#666" />
+                  </TouchableOpacity>
+                  <ScrollView>
+                    {renderAlertDetails(selectedAlert)}
+                    {renderAssignment(selectedAlert)}
+                    {renderStatusActions(selectedAlert)}
+                    <View style={styles.chatButton}>
+                      <AlertChatButton
+                        alertId={selectedAlert.id}
+                        title={getTypeLabel(selectedAlert.type)}
+                        isOpen
+                      />
+                    </View>
+                    <TouchableOpacity
+                      style={styles.viewDetailsButton}
+                      onPress={() => router.push(getAlertRoute(selectedAlert.id))}>
+                      <Text style={styles.viewDetailsText}>Full Details & Timeline</Text>
+                    </TouchableOpacity>
+                  </ScrollView>
+                </View>
+              )}
+            </View>
+          ) : (
+            <ScrollView style={styles.alertsList}>
+              {activeAlerts.map((alert) => (
+                <View key={alert.id} style={styles.alertCard}>
+                  {renderAlertDetails(alert)}
+                  {renderAssignment(alert)}
+
+                  <TouchableOpacity
+                    style={styles.viewDetailsButton}
+                    onPress={() => router.push(getAlertRoute(alert.id))}>
+                    <Text style={styles.viewDetailsText}>View Details & Respond</Text>
+                  </TouchableOpacity>
+                </View>
+              ))}
+
+              {activeAlerts.length === 0 && (
+                <View style={styles.noAlerts}>
+                  <Text style={styles.noAlertsText}>No active alerts at this time</Text>
+                </View>
+              )}
+            </ScrollView>
+          )}
+        </LinearGradient>
+        <AlertToast toast={toast} onPress={openToast} onDismiss={() => setToast(null)} />
+      </View>
+    );
+  }
+
+  return (
+    <View style={styles.container}>
+      <Image
+        source={{ uri: 'https://images.unsplash.com/photo-1583912086096-8c60d75a53f9?auto=format&fit=crop&w=2000&q=80' }}
+        style={StyleSheet.absoluteFillObject}
+      />
+      
+      <BlurComponent intensity={80} style={StyleSheet.absoluteFillObject} tint="light" />
+
+      <LinearGradient
+        colors={['rgba(255,255,255,0.9)', 'rgba(255,255,255,0.8)']}
+        style={styles.content}>
+        <ScrollView style={styles.scrollView}>
+          <View style={styles.header}>
+            <Shield size={48} color="#FF4444" />
+            <Text style={styles.title}>Emergency Response</Text>
+            <Text style={styles.subtitle}>Quick Access Emergency Services</Text>
+          </View>
+
+          {userProfile && (
+            <View style={styles.profileCard}>
+              <View style={styles.profileHeader}>
+                <User size={24} color="#FF4444" />
+                <Text style={styles.profileTitle}>Personal Information</Text>
+              </View>
+              <View style={styles.profileInfo}>
+                <Text style={styles.profileText}>Name: {userProfile?.full_name || 'Not set'}</Text>
+                <Text style={styles.profileText}>Phone: {userProfile?.phone_number || 'Not set'}</Text>
+                <Text style={styles.profileText}>Blood Type: {medicalId?.blood_type || 'Not set'}</Text>
+                {medicalId && medicalId.allergies.length > 0 && (
+                  <Text style={styles.profileText}>
+                    Allergies: {medicalId.allergies.map((allergy) => allergy.substance).join(', ')}
+                  </Text>
+                )}
+              </View>
+              <TouchableOpacity
+                style={styles.editProfileButton}
+                onPress={() => router.push(getRoleRoute('civilian', 'settings'))}>
+                <Text style={styles.editProfileText}>Edit Profile</Text>
+              </TouchableOpacity>
+              <TouchableOpacity
+                style={styles.editProfileButton}
+                onPress={() => router.push('/medical-id')}>
+                <Text style={styles.editProfileText}>
+                  {hasMedicalInfo(medicalId) ? 'Edit Medical ID' : 'Set Up Medical ID'}
+                </Text>
+              </TouchableOpacity>
+            </View>
+          )}
+
+          <Animated.View style={[styles.tipContainer, { opacity: fadeAnim }]}>
+            <Text style={styles.tipTitle}>Safety Tip</Text>
+            <Text style={styles.tipText}>{SAFETY_TIPS[tipIndex]}</Text>
+          </Animated.View>
+
+          {error ? (
+            <View style={styles.errorContainer}>
+              <AlertTriangle color="#FF4444" size={20} />
+              <Text style={styles.errorText}>{error}</Text>
+            </View>
+          ) : null}
+
+          <View style={styles.buttonContainer}>
+            <Text style={styles.activationHint}>
+              {activationMode === 'hold'
+                ? 'Press and hold a button to send an alert'
+                : 'Tap a button, then you have a few seconds to cancel'}
+            </Text>
+
+            <EmergencyButton
+              style={[styles.emergencyButton, styles.sosButton]}
+              mode={activationMode}
+              onActivate={() => activateAlert('general')}
+              disabled={loading || countdown !== null}>
+              <LinearGradient
+                colors={['#FF4444', '#FF6B6B']}
+                style={styles.buttonGradient}
+                start={{ x: 0, y: 0 }}
+                end={{ x: 1, y: 1 }}>
+                <Shield size={32} color="#fff" />
+                <Text style={styles.buttonText}>Emergency SOS</Text>
+              </LinearGradient>
+            </EmergencyButton>
+
+            <View style={styles.secondaryButtons}>
+              <EmergencyButton
+                style={[styles.emergencyButton, styles.policeButton]}
+                mode={activationMode}
+                onActivate={() => activateAlert('police')}
+                disabled={loading || countdown !== null}>
+                <LinearGradient
+                  colors={['#4444FF', '#6B6BFF']}
+                  style={styles.buttonGradient}
+                  start={{ x: 0, y: 0 }}
+                  end={{ x: 1, y: 1 }}>
+                  <Police size={32} color="#fff" />
+                  <Text style={styles.buttonText}>Police</Text>
+                </LinearGradient>
+              </EmergencyButton>
+
+              <EmergencyButton
+                style={[styles.emergencyButton, styles.medicalButton]}
+                mode={activationMode}
+                onActivate={() => activateAlert('medical')}
+                disabled={loading || countdown !== null}>
+                <LinearGradient
+                  colors={['#44B944', '#6BDB6B']}
+                  style={styles.buttonGradient}
+                  start={{ x: 0, y: 0 }}
+                  end={{ x: 1, y: 1 }}>
+                  <Ambulance size={32} color="#fff" />
+                  <Text style={styles.buttonText}>Medical</Text>
+                </LinearGradient>
+              </EmergencyButton>
+            </View>
+
+            <SilentSosButton />
+          </View>
+        </ScrollView>
+
+        {countdown && (
+          <View style={styles.loadingContainer}>
+            <BlurComponent intensity={80} style={StyleSheet.absoluteFillObject} tint="light" />
+            <Text style={styles.countdownNumber}>{countdown.secondsLeft}</Text>
+            <Text style={styles.loadingText}>Sending {getTypeLabel(countdown.type)} alert</Text>
+            <View style={styles.countdownButtons}>
+              <TouchableOpacity
+                style={[styles.countdownButton, styles.countdownCancel]}
+                onPress={() => setCountdown(null)}>
+                <Text style={styles.countdownCancelText}>Cancel</Text>
+              </TouchableOpacity>
+              <TouchableOpacity
+                style={[styles.countdownButton, styles.countdownSend]}
+                onPress={() => setCountdown({ ...countdown, secondsLeft: 0 })}>
+                <Text style={styles.countdownSendText}>Send Now</Text>
+              </TouchableOpacity>
+            </View>
+          </View>
+        )}
+
+        {loading && (
+          <View style={styles.loadingContainer}>
+            <BlurComponent intensity={80} style={StyleSheet.absoluteFillObject} tint="light" />
+            <Text style={styles.loadingText}>Sending alert...</Text>
+          </View>
+        )}
+      </LinearGradient>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#fff',
+  },
+  content: {
+    flex: 1,
+    padding: 20,
+  },
+  responderContent: {
+    flex: 1,
+    padding: 20,
+  },
+  header: {
+    alignItems: 'center',
+    marginTop: 60,
+    marginBottom: 40,
+  },
+  title: {
+    fontSize: 32,
+    fontWeight: 'bold',
+    marginTop: 16,
+    color: '#1a1a1a',
+    textAlign: 'center',
+  },
+  subtitle: {
+    fontSize: 18,
+    color: '#666',
+    marginTop: 8,
+    textAlign: 'center',
+  },
+  buttonContainer: {
+    flex: 1,
+    gap: 20,
+    maxWidth: 600,
+    width: '100%',
+    alignSelf: 'center',
+  },
+  secondaryButtons: {
+    flexDirection: 'row',
+    gap: 16,
+  },
+  activationHint: {
+    fontSize: 14,
+    color: '#666',
+    textAlign: 'center',
+    marginBottom: 12,
+  },
+  emergencyButton: {
+    borderRadius: 50,
+    overflow: 'hidden',
+    elevation: 4,
+    shadowColor: '#000',
+    shadowOffset: { width: 0, height: 2 },
+    shadowOpacity: 0.15,
+    shadowRadius: 8,
+  },
+  buttonGradient: {
+    padding: 24,
+    alignItems: 'center',
+    justifyContent: 'center',
+    gap: 12,
+  },
+  sosButton: {
+    flex: 0,
+    marginBottom: 16,
+  },
+  policeButton: {
+    flex: 1,
+  },
+  medicalButton: {
+    flex: 1,
+  },
+  buttonText: {
+    color: '#fff',
+    fontSize: 18,
+    fontWeight: 'bold',
+    textAlign: 'center',
+    borderRadius: 40,
+  },
+  loadingContainer: {
+    position: 'absolute',
+    top: 0,
+    left: 0,
+    right: 0,
+    bottom: 0,
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  loadingText: {
+    color: '#1a1a1a',
+    fontSize: 18,
+    fontWeight: 'bold',
+  },
+  countdownNumber: {
+    color: '#FF4444',
+    fontSize: 72,
+    fontWeight: 'bold',
+    marginBottom: 8,
+  },
+  countdownButtons: {
+    flexDirection: 'row',
+    gap: 12,
+    marginTop: 24,
+  },
+  countdownButton: {
+    paddingVertical: 14,
+    paddingHorizontal: 28,
+    borderRadius: 12,
+  },
+  countdownCancel: {
+    backgroundColor: '#1a1a1a',
+  },
+  countdownCancelText: {
+    color: '#fff',
+    fontSize: 16,
+    fontWeight: '600',
+  },
+  countdownSend: {
+    backgroundColor: '#FF4444',
+  },
+  countdownSendText: {
+    color: '#fff',
+    fontSize: 16,
+    fontWeight: '600',
+  },
+  errorContainer: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: 'rgba(255,68,68,0.1)',
+    padding: 16,
+    borderRadius: 12,
+    marginBottom: 20,
+  },
+  errorText: {
+    color: '#FF4444',
+    marginLeft: 8,
+    fontSize: 16,
+  },
+  alertsList: {
+    flex: 1,
+  },
+  alertCard: {
+    backgroundColor: '#fff',
+    borderRadius: 12,
+    padding: 16,
+    marginBottom: 16,
+    shadowColor: '#000',
+    shadowOffset: { width: 0, height: 2 },
+    shadowOpacity: 0.1,
+    shadowRadius: 4,
+    elevation: 2,
+  },
+  alertHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    marginBottom: 12,
+  },
+  alertType: {
+    fontSize: 18,
+    fontWeight: '600',
+    color: '#1a1a1a',
+  },
+  statusBadge: {
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    borderRadius: 16,
+  },
+  statusText: {
+    color: '#fff',
+    fontSize: 12,
+    fontWeight: '500',
+    textTransform: 'uppercase',
+  },
+  assignment: {
+    marginBottom: 12,
+  },
+  alertInfo: {
+    gap: 8,
+    marginBottom: 16,
+  },
+  infoRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+  },
+  infoText: {
+    fontSize: 14,
+    color: '#666',
+  },
+  staleLocation: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+    backgroundColor: '#FFF4E0',
+    padding: 8,
+    borderRadius: 8,
+  },
+  staleLocationText: {
+    fontSize: 13,
+    color: '#B26A00',
+    flex: 1,
+  },
+  contactInfo: {
+    backgroundColor: '#f8f9fa',
+    padding: 12,
+    borderRadius: 8,
+    marginTop: 8,
+  },
+  contactTitle: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#1a1a1a',
+    marginBottom: 4,
+  },
+  contactText: {
+    fontSize: 13,
+    color: '#666',
+    marginBottom: 2,
+  },
+  emergencyContacts: {
+    backgroundColor: '#e3f2fd',
+    padding: 12,
+    borderRadius: 8,
+    marginTop: 8,
+  },
+  emergencyContact: {
+    marginBottom: 8,
+    paddingBottom: 8,
+    borderBottomWidth: 1,
+    borderBottomColor: '#ddd',
+  },
+  primaryContact: {
+    fontSize: 12,
+    color: '#FF4444',
+    fontWeight: '600',
+  },
+  viewToggle: {
+    flexDirection: 'row',
+    backgroundColor: '#fff',
+    borderRadius: 12,
+    padding: 4,
+    marginBottom: 16,
+    gap: 4,
+  },
+  viewToggleButton: {
+    flex: 1,
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    gap: 8,
+    padding: 10,
+    borderRadius: 8,
+  },
+  viewToggleButtonActive: {
+    backgroundColor: '#FF4444',
+  },
+  viewToggleText: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#666',
+  },
+  viewToggleTextActive: {
+    color: '#fff',
+  },
+  sortRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+    marginBottom: 12,
+  },
+  sortLabel: {
+    fontSize: 14,
+    color: '#666',
+  },
+  sortChip: {
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    borderRadius: 16,
+    backgroundColor: '#fff',
+  },
+  sortChipActive: {
+    backgroundColor: '#1a1a1a',
+  },
+  sortChipText: {
+    fontSize: 13,
+    fontWeight: '600',
+    color: '#666',
+  },
+  sortChipTextActive: {
+    color: '#fff',
+  },
+  distanceText: {
+    fontSize: 13,
+    fontWeight: '600',
+    color: '#3366FF',
+    marginLeft: 24,
+  },
+  mapContainer: {
+    flex: 1,
+    borderRadius: 12,
+    overflow: 'hidden',
+  },
+  chatButton: {
+    marginTop: 12,
+  },
+  selectedAlertPanel: {
+    position: 'absolute',
+    left: 12,
+    right: 12,
+    bottom: 12,
+    maxHeight: '60%',
+    backgroundColor: '#fff',
+    borderRadius: 12,
+    padding: 16,
+    paddingTop: 36,
+    shadowColor: '#000',
+    shadowOffset: { width: 0, height: 2 },
+    shadowOpacity: 0.15,
+    shadowRadius: 8,
+    elevation: 4,
+  },
+  closePanelButton: {
+    position: 'absolute',
+    top: 8,
+    right: 8,
+    padding: 4,
+    zIndex: 1,
+  },
+  viewDetailsButton: {
+    backgroundColor: '#f8f9fa',
+    padding: 12,
+    borderRadius: 8,
+    alignItems: 'center',
+  },
+  viewDetailsText: {
+    color: '#1a1a1a',
+    fontSize: 14,
+    fontWeight: '600',
+  },
+  noAlerts: {
+    alignItems: 'center',
+    justifyContent: 'center',
+    padding: 32,
+  },
+  noAlertsText: {
+    fontSize: 16,
+    color: '#666',
+    textAlign: 'center',
+  },
+  scrollView: {
+    flex: 1,
+  },
+  profileCard: {
+    backgroundColor: 'rgba(255, 255, 255, 0.9)',
+    borderRadius: 16,
+    padding: 20,
+    marginBottom: 20,
+    shadowColor: '#000',
+    shadowOffset: { width: 0, height: 2 },
+    shadowOpacity: 0.1,
+    shadowRadius: 8,
+    elevation: 2,
+  },
+  profileHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginBottom: 16,
+    gap: 8,
+  },
+  profileTitle: {
+    fontSize: 18,
+    fontWeight: '600',
+    color: '#1a1a1a',
+  },
+  profileInfo: {
+    gap: 8,
+  },
+  profileText: {
+    fontSize: 16,
+    color: '#666',
+  },
+  editProfileButton: {
+    backgroundColor: '#f8f9fa',
+    padding: 12,
+    borderRadius: 8,
+    alignItems: 'center',
+    marginTop: 16,
+  },
+  medicalId: {
+    marginBottom: 12,
+  },
+  silentBanner: {
+    marginBottom: 12,
+  },
+  editProfileText: {
+    color: '#FF4444',
+    fontSize: 14,
+    fontWeight: '600',
+  },
+  tipContainer: {
+    backgroundColor: 'rgba(255, 255, 255, 0.9)',
+    borderRadius: 16,
+    padding: 20,
+    marginBottom: 20,
+    shadowColor: '#000',
+    shadowOffset: { width: 0, height: 2 },
+    shadowOpacity: 0.1,
+    shadowRadius: 8,
+    elevation: 2,
+  },
+  tipTitle: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#FF4444',
+    marginBottom: 8,
+  },
+  tipText: {
+    fontSize: 14,
+    color: '#666',
+    lineHeight: 20,
+  },
+});
\ No newline at end of file
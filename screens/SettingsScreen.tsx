@@ -0,0 +1,717 @@
+import { useState, useEffect } from 'react';
+import { View, Text, StyleSheet, TouchableOpacity, Switch, ScrollView, TextInput } from 'react-native';
+import { useRouter } from 'expo-router';
+import {
+  TriangleAlert as AlertTriangle,
+  LogOut,
+  Bell,
+  User,
+  Shield,
+  MapPin,
+  FileText,
+  Upload,
+  Trash2,
+  ShieldCheck,
+  HeartPulse,
+  Eye,
+} from 'lucide-react-native';
+import { supabase } from '../lib/supabase';
+import { useRole } from '../hooks/useRole';
+import { UserRole } from '../lib/roles';
+import { formatCoordinates } from '../lib/location';
+import {
+  EMPTY_SERVICE_AREA,
+  ServiceArea,
+  getServiceArea,
+  hasServiceArea,
+  saveServiceArea,
+} from '../lib/serviceArea';
+import {
+  ResponderDocument,
+  VerificationState,
+  deleteResponderDocument,
+  getResponderDocuments,
+  getVerificationColor,
+  getVerificationLabel,
+  isAdmin,
+  uploadResponderDocument,
+} from '../lib/verification';
+import {
+  ALERT_ACTIVATION_MODES,
+  AlertActivationMode,
+  DEFAULT_ACTIVATION_MODE,
+  getActivationModeDescription,
+  getActivationModeLabel,
+  saveAlertActivationMode,
+} from '../lib/alertActivation';
+import {
+  getCivilianProfile,
+  getResponderProfile,
+  updateCivilianProfile,
+  updateResponderProfile,
+} from '../lib/profiles';
+import ServiceAreaEditor from '../components/ServiceAreaEditor';
+import DiscreetSosSettings from '../components/DiscreetSosSettings';
+
+type UserProfile = {
+  full_name: string;
+  phone_number: string;
+};
+
+type ResponderProfile = {
+  organization_name: string;
+  jurisdiction: string;
+  badge_number: string;
+  organization_id: string;
+};
+
+// Kept out of ResponderProfile so saveProfile never sends it back
+type Verification = {
+  state: VerificationState;
+  reason: string | null;
+};
+
+export default function SettingsScreen() {
+  const { role: userType, userId } = useRole();
+  const [profile, setProfile] = useState<UserProfile | ResponderProfile | null>(null);
+  const [notificationsEnabled, setNotificationsEnabled] = useState(true);
+  const [isEditing, setIsEditing] = useState(false);
+  const [error, setError] = useState('');
+  const [loading, setLoading] = useState(true);
+  const [serviceArea, setServiceArea] = useState<ServiceArea>(EMPTY_SERVICE_AREA);
+  const [isEditingArea, setIsEditingArea] = useState(false);
+  const [verification, setVerification] = useState<Verification | null>(null);
+  const [documents, setDocuments] = useState<ResponderDocument[]>([]);
+  const [isUploading, setIsUploading] = useState(false);
+  const [canAdminister, setCanAdminister] = useState(false);
+  const [activationMode, setActivationMode] = useState<AlertActivationMode>(DEFAULT_ACTIVATION_MODE);
+  const router = useRouter();
+
+  useEffect(() => {
+    if (userType && userId) {
+      loadProfile(userType, userId);
+    }
+  }, [userType, userId]);
+
+  const loadProfile = async (role: UserRole, id: string) => {
+    try {
+      setLoading(true);
+      setError('');
+
+      isAdmin()
+        .then(setCanAdminister)
+        .catch((err) => console.error('Admin check error:', err));
+
+      if (role === 'civilian') {
+        const civilian = await getCivilianProfile(id);
+        setProfile({
+          full_name: civilian.full_name || '',
+          phone_number: civilian.phone_number || ''
+        });
+        setActivationMode(civilian.alert_activation_mode ?? DEFAULT_ACTIVATION_MODE);
+        setLoading(false);
+        return;
+      }
+
+      const responder = await getResponderProfile(id);
+      setProfile({
+        organization_name: responder.organization_name || '',
+        jurisdiction: responder.jurisdiction || '',
+        badge_number: responder.badge_number || '',
+        organization_id: responder.organization_id || ''
+      });
+      setVerification({
+        state: (responder.verification_state || 'pending') as VerificationState,
+        reason: responder.verification_reason,
+      });
+      await loadServiceArea();
+      await loadDocuments(id);
+      setLoading(false);
+    } catch (err: any) {
+      console.error('Load profile error:', err);
+      setError(err.message || 'Failed to load profile');
+      setLoading(false);
+    }
+  };
+
+  const loadServiceArea = async () => {
+    try {
+      setServiceArea(await getServiceArea());
+    } catch (err: any) {
+      console.error('Load service area error:', err);
+    }
+  };
+
+  const loadDocuments = async (responderId: string) => {
+    try {
+      setDocuments(await getResponderDocuments(responderId));
+    } catch (err: any) {
+      console.error('Load documents error:', err);
+    }
+  };
+
+  const handleUploadDocument = async () => {
+    try {
+      setIsUploading(true);
+      const document = await uploadResponderDocument();
+      if (document) {
+        setDocuments((current) => [...current, document]);
+      }
+      setError('');
+    } catch (err: any) {
+      console.error('Upload document error:', err);
+      setError(err.message);
+    } finally {
+      setIsUploading(false);
+    }
+  };
+
+  const handleDeleteDocument = async (document: ResponderDocument) => {
+    try {
+      await deleteResponderDocument(document);
+      setDocuments((current) => current.filter((d) => d.id !== document.id));
+      setError('');
+    } catch (err: any) {
+      console.error('Delete document error:', err);
+      setError(err.message);
+    }
+  };
+
+  const handleSaveServiceArea = async () => {
+    try {
+      await saveServiceArea(serviceArea);
+      setIsEditingArea(false);
+      setError('');
+    } catch (err: any) {
+      setError(err.message);
+    }
+  };
+
+  const handleActivationModeChange = async (mode: AlertActivationMode) => {
+    if (!userId) return;
+
+    const previous = activationMode;
+    setActivationMode(mode);
+    try {
+      await saveAlertActivationMode(userId, mode);
+      setError('');
+    } catch (err: any) {
+      setActivationMode(previous);
+      setError(err.message);
+    }
+  };
+
+  const handleLogout = async () => {
+    try {
+      const { error } = await supabase.auth.signOut();
+      if (error) throw error;
+      router.replace('/login');
+    } catch (err: any) {
+      setError(err.message);
+    }
+  };
+
+  const saveProfile = async () => {
+    try {
+      if (!profile || !userType) return;
+
+      const { data: { user } } = await supabase.auth.getUser();
+      if (!user) return;
+
+      if (userType === 'civilian') {
+        await updateCivilianProfile(user.id, profile as UserProfile);
+      } else {
+        await updateResponderProfile(user.id, profile as ResponderProfile);
+      }
+      setIsEditing(false);
+      setError('');
+    } catch (err: any) {
+      setError(err.message);
+    }
+  };
+
+  const renderCivilianProfile = () => {
+    const civilianProfile = profile as UserProfile;
+    
+    return (
+      <View style={styles.section}>
+        <Text style={styles.sectionTitle}>Personal Information</Text>
+        {isEditing ? (
+          <>
+            <TextInput
+              style={styles.input}
+              placeholder="Full Name"
+              value={civilianProfile?.full_name || ''}
+              onChangeText={(text) => setProfile({ ...civilianProfile, full_name: text })}
+            />
+            <TextInput
+              style={styles.input}
+              placeholder="Phone Number"
+              value={civilianProfile?.phone_number || ''}
+              onChangeText={(text) => setProfile({ ...civilianProfile, phone_number: text })}
+            />
+          </>
+        ) : (
+          <>
+            <Text style={styles.profileText}>Name: {civilianProfile?.full_name || 'Not provided'}</Text>
+            <Text style={styles.profileText}>Phone: {civilianProfile?.phone_number || 'Not provided'}</Text>
+          </>
+        )}
+      </View>
+    );
+  };
+
+  const renderResponderProfile = () => {
+    const responderProfile = profile as ResponderProfile;
+    
+    return (
+      <View style={styles.section}>
+        <Text style={styles.sectionTitle}>Organization Information</Text>
+        {isEditing ? (
+          <>
+            <TextInput
+              style={styles.input}
+              placeholder="Organization Name"
+              value={responderProfile?.organization_name || ''}
+              onChangeText={(text) =>
+                setProfile({ ...responderProfile, organization_name: text })
+              }
+            />
+            <TextInput
+              style={styles.input}
+              placeholder="Jurisdiction"
+              value={responderProfile?.jurisdiction || ''}
+              onChangeText={(text) =>
+                setProfile({ ...responderProfile, jurisdiction: text })
+              }
+            />
+            <TextInput
+              style={styles.input}
+              placeholder="Badge Number"
+              value={responderProfile?.badge_number || ''}
+              onChangeText={(text) =>
+                setProfile({ ...responderProfile, badge_number: text })
+              }
+            />
+            <TextInput
+              style={styles.input}
+              placeholder="Organization ID"
+              value={responderProfile?.organization_id || ''}
+              onChangeText={(text) =>
+                setProfile({ ...responderProfile, organization_id: text })
+              }
+            />
+          </>
+        ) : (
+          <>
+            <Text style={styles.profileText}>
+              Organization: {responderProfile?.organization_name || 'Not provided'}
+            </Text>
+            <Text style={styles.profileText}>
+              Jurisdiction: {responderProfile?.jurisdiction || 'Not provided'}
+            </Text>
+            <Text style={styles.profileText}>
+              Badge Number: {responderProfile?.badge_number || 'Not provided'}
+            </Text>
+            <Text style={styles.profileText}>
+              Organization ID: {responderProfile?.organization_id || 'Not provided'}
+            </Text>
+            {verification && (
+              <>
+                <Text style={styles.profileText}>
+                  Status:{' '}
+                  <Text style={{ color: getVerificationColor(verification.state) }}>
+                    {getVerificationLabel(verification.state)}
+                  </Text>
+                </Text>
+                {verification.reason && verification.state !== 'approved' && (
+                  <Text style={styles.warningText}>{verification.reason}</Text>
+                )}
+              </>
+            )}
+          </>
+        )}
+      </View>
+    );
+  };
+
+  const renderDocuments = () => (
+    <View style={styles.section}>
+      <Text style={styles.sectionTitle}>Verification Documents</Text>
+      <Text style={styles.hintText}>
+        Upload a photo of your badge or staff ID so an administrator can verify your account.
+      </Text>
+      {documents.map((document) => (
+        <View key={document.id} style={styles.documentRow}>
+          <FileText size={18} color="#666" />
+          <Text style={styles.documentName} numberOfLines={1}>
+            {document.file_name}
+          </Text>
+          <TouchableOpacity onPress={() => handleDeleteDocument(document)}>
+            <Trash2 size={18} color="#FF4444" />
+          </TouchableOpacity>
+        </View>
+      ))}
+      <TouchableOpacity
+        style={[styles.button, styles.editButton, isUploading && styles.disabledButton]}
+        onPress={handleUploadDocument}
+        disabled={isUploading}>
+        <Upload size={20} color="#FF4444" />
+        <Text style={[styles.buttonText, styles.editButtonText]}>
+          {isUploading ? 'Uploading...' : 'Upload Document'}
+        </Text>
+      </TouchableOpacity>
+    </View>
+  );
+
+  const renderActivationMode = () => (
+    <View style={styles.section}>
+      <Text style={styles.sectionTitle}>Emergency Buttons</Text>
+      <Text style={styles.hintText}>
+        How the SOS, Police and Medical buttons confirm a press, so a pocket tap doesn't send an alert.
+      </Text>
+      {ALERT_ACTIVATION_MODES.map((mode) => (
+        <TouchableOpacity
+          key={mode}
+          style={[styles.modeOption, activationMode === mode && styles.modeOptionActive]}
+          onPress={() => handleActivationModeChange(mode)}>
+          <Text style={[styles.modeLabel, activationMode === mode && styles.modeLabelActive]}>
+            {getActivationModeLabel(mode)}
+          </Text>
+          <Text style={styles.modeDescription}>{getActivationModeDescription(mode)}</Text>
+        </TouchableOpacity>
+      ))}
+    </View>
+  );
+
+  const renderServiceArea = () => (
+    <View style={styles.section}>
+      <Text style={styles.sectionTitle}>Service Area</Text>
+      {isEditingArea ? (
+        <>
+          <ServiceAreaEditor value={serviceArea} onChange={setServiceArea} />
+          <View style={[styles.buttonContainer, styles.areaButtons]}>
+            <TouchableOpacity
+              style={[styles.button, styles.cancelButton]}
+              onPress={() => {
+                setIsEditingArea(false);
+                loadServiceArea();
+              }}>
+              <Text style={styles.buttonText}>Cancel</Text>
+            </TouchableOpacity>
+            <TouchableOpacity style={[styles.button, styles.saveButton]} onPress={handleSaveServiceArea}>
+              <Text style={[styles.buttonText, styles.saveButtonText]}>Save Service Area</Text>
+            </TouchableOpacity>
+          </View>
+        </>
+      ) : (
+        <>
+          {serviceArea.polygon ? (
+            <Text style={styles.profileText}>
+              Custom area with {serviceArea.polygon.length} corners
+            </Text>
+          ) : serviceArea.station && serviceArea.radiusM ? (
+            <Text style={styles.profileText}>
+              {serviceArea.radiusM / 1000} km around{' '}
+              {formatCoordinates(serviceArea.station.latitude, serviceArea.station.longitude)}
+            </Text>
+          ) : null}
+          {!hasServiceArea(serviceArea) && (
+            <Text style={styles.warningText}>
+              No service area set. You won't see or be notified of any alerts until you set one.
+            </Text>
+          )}
+          <TouchableOpacity
+            style={[styles.button, styles.editButton]}
+            onPress={() => setIsEditingArea(true)}>
+            <MapPin size={20} color="#FF4444" />
+            <Text style={[styles.buttonText, styles.editButtonText]}>Edit Service Area</Text>
+          </TouchableOpacity>
+        </>
+      )}
+    </View>
+  );
+
+  if (loading) {
+    return (
+      <View style={[styles.container, styles.centered]}>
+        <Text>Loading...</Text>
+      </View>
+    );
+  }
+
+  return (
+    <ScrollView style={styles.container}>
+      <View style={styles.header}>
+        <Shield size={48} color="#FF4444" />
+        <Text style={styles.title}>Settings</Text>
+      </View>
+
+      {error && (
+        <View style={styles.errorContainer}>
+          <AlertTriangle color="#FF4444" size={20} />
+          <Text style={styles.errorText}>{error}</Text>
+        </View>
+      )}
+
+      <View style={styles.content}>
+        {userType === 'civilian' ? renderCivilianProfile() : renderResponderProfile()}
+
+        {userType === 'civilian' && (
+          <View style={styles.section}>
+            <Text style={styles.sectionTitle}>Medical ID</Text>
+            <Text style={styles.hintText}>
+              Blood type, allergies, medications and conditions shared with responders when you send an alert.
+            </Text>
+            <TouchableOpacity
+              style={[styles.button, styles.editButton]}
+              onPress={() => router.push('/medical-id')}>
+              <HeartPulse size={20} color="#FF4444" />
+              <Text style={[styles.buttonText, styles.editButtonText]}>Edit Medical ID</Text>
+            </TouchableOpacity>
+          </View>
+        )}
+
+        {userType === 'civilian' && (
+          <View style={styles.section}>
+            <Text style={styles.sectionTitle}>Who Viewed My Details</Text>
+            <Text style={styles.hintText}>
+              Every time a responder was shown your name, phone number, Medical ID or emergency contacts.
+            </Text>
+            <TouchableOpacity
+              style={[styles.button, styles.editButton]}
+              onPress={() => router.push('/privacy')}>
+              <Eye size={20} color="#FF4444" />
+              <Text style={[styles.buttonText, styles.editButtonText]}>View Access Log</Text>
+            </TouchableOpacity>
+          </View>
+        )}
+
+        {userType === 'civilian' && renderActivationMode()}
+
+        {userType === 'civilian' && <DiscreetSosSettings />}
+
+        {userType !== 'civilian' && renderDocuments()}
+
+        {userType !== 'civilian' && renderServiceArea()}
+
+        <View style={styles.section}>
+          <Text style={styles.sectionTitle}>Preferences</Text>
+          <View style={styles.preference}>
+            <View style={styles.preferenceText}>
+              <Bell size={20} color="#666" />
+              <Text style={styles.preferenceLabel}>Push Notifications</Text>
+            </View>
+            <Switch
+              value={notificationsEnabled}
+              onValueChange={setNotificationsEnabled}
+              trackColor={{ false: '#ddd', true: '#FF4444' }}
+            />
+          </View>
+        </View>
+
+        <View style={styles.buttonContainer}>
+          {isEditing ? (
+            <>
+              <TouchableOpacity
+                style={[styles.button, styles.cancelButton]}
+                onPress={() => setIsEditing(false)}>
+                <Text style={styles.buttonText}>Cancel</Text>
+              </TouchableOpacity>
+              <TouchableOpacity style={[styles.button, styles.saveButton]} onPress={saveProfile}>
+                <Text style={[styles.buttonText, styles.saveButtonText]}>Save Changes</Text>
+              </TouchableOpacity>
+            </>
+          ) : (
+            <TouchableOpacity
+              style={[styles.button, styles.editButton]}
+              onPress={() => setIsEditing(true)}>
+              <User size={20} color="#FF4444" />
+              <Text style={[styles.buttonText, styles.editButtonText]}>Edit Profile</Text>
+            </TouchableOpacity>
+          )}
+
+          {canAdminister && (
+            <TouchableOpacity
+              style={[styles.button, styles.editButton]}
+              onPress={() => router.push('/admin')}>
+              <ShieldCheck size={20} color="#FF4444" />
+              <Text style={[styles.buttonText, styles.editButtonText]}>Admin Console</Text>
+            </TouchableOpacity>
+          )}
+
+          <TouchableOpacity style={[styles.button, styles.logoutButton]} onPress={handleLogout}>
+            <LogOut size={20} color="#fff" />
+            <Text style={[styles.buttonText, styles.logoutButtonText]}>Logout</Text>
+          </TouchableOpacity>
+        </View>
+      </View>
+    </ScrollView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#fff',
+  },
+  centered: {
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  header: {
+    alignItems: 'center',
+    paddingTop: 60,
+    paddingBottom: 20,
+  },
+  title: {
+    fontSize: 24,
+    fontWeight: 'bold',
+    marginTop: 16,
+    color: '#1a1a1a',
+  },
+  content: {
+    padding: 20,
+  },
+  section: {
+    backgroundColor: '#f8f9fa',
+    borderRadius: 12,
+    padding: 16,
+    marginBottom: 20,
+  },
+  sectionTitle: {
+    fontSize: 18,
+    fontWeight: '600',
+    marginBottom: 16,
+    color: '#1a1a1a',
+  },
+  profileText: {
+    fontSize: 16,
+    color: '#666',
+    marginBottom: 8,
+  },
+  warningText: {
+    fontSize: 14,
+    color: '#B26A00',
+    marginBottom: 12,
+  },
+  hintText: {
+    fontSize: 14,
+    color: '#666',
+    marginBottom: 12,
+  },
+  modeOption: {
+    backgroundColor: '#fff',
+    borderWidth: 1,
+    borderColor: '#ddd',
+    borderRadius: 8,
+    padding: 12,
+    marginBottom: 8,
+  },
+  modeOptionActive: {
+    borderColor: '#FF4444',
+  },
+  modeLabel: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#1a1a1a',
+    marginBottom: 4,
+  },
+  modeLabelActive: {
+    color: '#FF4444',
+  },
+  modeDescription: {
+    fontSize: 14,
+    color: '#666',
+  },
+  documentRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+    marginBottom: 12,
+  },
+  documentName: {
+    flex: 1,
+    fontSize: 16,
+    color: '#1a1a1a',
+  },
+  disabledButton: {
+    opacity: 0.5,
+  },
+  areaButtons: {
+    marginTop: 12,
+  },
+  preference: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+  },
+  preferenceText: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 12,
+  },
+  preferenceLabel: {
+    fontSize: 16,
+    color: '#666',
+  },
+  input: {
+    backgroundColor: '#fff',
+    borderWidth: 1,
+    borderColor: '#ddd',
+    borderRadius: 8,
+    padding: 12,
+    fontSize: 16,
+    marginBottom: 12,
+  },
+  buttonContainer: {
+    gap: 12,
+  },
+  button: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    padding: 16,
+    borderRadius: 8,
+    gap: 8,
+  },
+  editButton: {
+    backgroundColor: '#fff',
+    borderWidth: 1,
+    borderColor: '#FF4444',
+  },
+  saveButton: {
+    backgroundColor: '#FF4444',
+  },
+  cancelButton: {
+    backgroundColor: '#f1f3f5',
+  },
+  logoutButton: {
+    backgroundColor: '#FF4444',
+  },
+  buttonText: {
+    fontSize: 16,
+    fontWeight: '600',
+  },
+  editButtonText: {
+    color: '#FF4444',
+  },
+  saveButtonText: {
+    color: '#fff',
+  },
+  logoutButtonText: {
+    color: '#fff',
+  },
+  errorContainer: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: '#FFE5E5',
+    padding: 12,
+    borderRadius: 8,
+    margin: 20,
+  },
+  errorText: {
+    color: '#FF4444',
+    marginLeft: 8,
+  },
+});
\ No newline at end of file
@@ -0,0 +1,94 @@
+/*
+  A stand-in for the Expo push service, for testing push fan-out offline:
+
+    deno run --allow-net supabase/functions/_shared/expo-push-stub.ts
+
+  then serve alert-push against it and send it a webhook:
+
+    EXPO_PUSH_API_URL=http://host.docker.internal:8788 \
+      npx supabase functions serve alert-push --no-verify-jwt --env-file supabase/.env.local
+    curl -X POST http://localhost:54321/functions/v1/alert-push \
+      -H "x-webhook-secret: $WEBHOOK_SECRET" -d '{"type": "RECEIPTS"}'
+
+  What each push token gets back:
+    - containing "invalid": an error ticket with DeviceNotRegistered
+    - containing "stale": an ok ticket whose receipt is DeviceNotRegistered
+    - containing "fail-batch": the whole /send request fails with 500
+    - anything else: an ok ticket and an ok receipt
+  Like Expo, /send refuses more than 100 messages in one request.
+*/
+import type { ExpoPushMessage, ExpoPushReceipt, ExpoPushTicket } from './expo-push.ts';
+
+const MAX_SEND_BATCH = 100;
+
+function json(body: unknown, status = 200) {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { 'Content-Type': 'application/json' },
+  });
+}
+
+/**
+ * The stub's request handler, plus every batch it was sent so tests can
+ * check how messages were split up.
+ */
+export function createExpoPushStub() {
+  const batches: ExpoPushMessage[][] = [];
+  let nextTicket = 1;
+
+  async function handler(req: Request) {
+    const path = new URL(req.url).pathname.split('/').pop();
+
+    if (path === 'send') {
+      const messages: ExpoPushMessage[] = await req.json();
+      batches.push(messages);
+
+      if (messages.length > MAX_SEND_BATCH) {
+        return json({ errors: [{ code: 'PUSH_TOO_MANY_NOTIFICATIONS', message: 'Too many notifications' }] }, 400);
+      }
+      if (messages.some((message) => message.to.includes('fail-batch'))) {
+        return json({ errors: [{ code: 'INTERNAL_SERVER_ERROR', message: 'Stub failure' }] }, 500);
+      }
+
+      const tickets: ExpoPushTicket[] = messages.map((message) => {
+        if (message.to.includes('invalid')) {
+          return {
+            status: 'error',
+            message: `"${message.to}" is not a registered push notification recipient`,
+            details: { error: 'DeviceNotRegistered' },
+          };
+        }
+        const prefix = message.to.includes('stale') ? 'stale' : 'ok';
+        return { status: 'ok', id: `${prefix}-${nextTicket++}` };
+      });
+      return json({ data: tickets });
+    }
+
+    if (path === 'getReceipts') {
+      const { ids }: { ids: string[] } = await req.json();
+      const receipts: Record<string, ExpoPushReceipt> = {};
+      for (const id of ids) {
+        receipts[id] = id.startsWith('stale-')
+          ? {
+              status: 'error',
+              message: 'The recipient device is not registered with FCM.',
+              details: { error: 'DeviceNotRegistered' },
+            }
+          : { status: 'ok' };
+      }
+      return json({ data: receipts });
+    }
+
+    return json({ error: 'Not found' }, 404);
+  }
+
+  return { handler, batches };
+}
+
+if (import.meta.main) {
+  const { handler } = createExpoPushStub();
+  Deno.serve({ port: Number(Deno.env.get('PORT') ?? 8788) }, async (req) => {
+    console.log(req.method, new URL(req.url).pathname);
+    return handler(req);
+  });
+}
@@ -0,0 +1,93 @@
+// Point EXPO_PUSH_API_URL at expo-push-stub.ts (http://localhost:8788) to test
+// fan-out without hitting Expo
+const EXPO_PUSH_API_URL = Deno.env.get('EXPO_PUSH_API_URL') ?? 'https://exp.host/--/api/v2/push';
+const EXPO_ACCESS_TOKEN = Deno.env.get('EXPO_ACCESS_TOKEN');
+
+// Limits documented by the Expo push service
+const SEND_BATCH_SIZE = 100;
+const RECEIPT_BATCH_SIZE = 1000;
+
+export type ExpoPushMessage = {
+  to: string;
+  title: string;
+  body: string;
+  data?: Record<string, unknown>;
+  sound?: 'default' | null;
+  priority?: 'default' | 'normal' | 'high';
+  channelId?: string;
+};
+
+export type ExpoPushTicket =
+  | { status: 'ok'; id: string }
+  | { status: 'error'; message: string; details?: { error?: string } };
+
+export type ExpoPushReceipt =
+  | { status: 'ok' }
+  | { status: 'error'; message: string; details?: { error?: string } };
+
+function chunk<T>(items: T[], size: number) {
+  const chunks: T[][] = [];
+  for (let i = 0; i < items.length; i += size) {
+    chunks.push(items.slice(i, i + size));
+  }
+  return chunks;
+}
+
+async function post<T>(path: string, body: unknown): Promise<T> {
+  const headers: Record<string, string> = {
+    Accept: 'application/json',
+    'Accept-Encoding': 'gzip, deflate',
+    'Content-Type': 'application/json',
+  };
+  if (EXPO_ACCESS_TOKEN) {
+    headers.Authorization = `Bearer ${EXPO_ACCESS_TOKEN}`;
+  }
+
+  const response = await fetch(`${EXPO_PUSH_API_URL}${path}`, {
+    method: 'POST',
+    headers,
+    body: JSON.stringify(body),
+  });
+
+  if (!response.ok) {
+    throw new Error(`Expo push ${path} failed with ${response.status}: ${await response.text()}`);
+  }
+
+  const { data } = await response.json();
+  return data;
+}
+
+/**
+ * Sends messages in batches and returns one ticket per message, in order. A
+ * batch that fails outright yields error tickets so callers can record them.
+ */
+export async function sendExpoPushMessages(messages: ExpoPushMessage[]): Promise<ExpoPushTicket[]> {
+  const tickets: ExpoPushTicket[] = [];
+
+  for (const batch of chunk(messages, SEND_BATCH_SIZE)) {
+    try {
+      tickets.push(...(await post<ExpoPushTicket[]>('/send', batch)));
+    } catch (error) {
+      console.error('Error sending push batch:', error);
+      tickets.push(
+        ...batch.map(() => ({ status: 'error' as const, message: (error as Error).message }))
+      );
+    }
+  }
+
+  return tickets;
+}
+
+export async function getExpoPushReceipts(ticketIds: string[]) {
+  const receipts: Record<string, ExpoPushReceipt> = {};
+
+  for (const batch of chunk(ticketIds, RECEIPT_BATCH_SIZE)) {
+    try {
+      Object.assign(receipts, await post<Record<string, ExpoPushReceipt>>('/getReceipts', { ids: batch }));
+    } catch (error) {
+      console.error('Error fetching push receipts:', error);
+    }
+  }
+
+  return receipts;
+}
@@ -0,0 +1,32 @@
+import { LocationIqProvider, NominatimProvider } from './nominatim.ts';
+import { GeocodingProvider } from './types.ts';
+
+export * from './types.ts';
+
+/**
+ * GEOCODING_PROVIDER picks the backend: `locationiq` (the default, needs
+ * LOCATIONIQ_TOKEN) or `nominatim` for the public or a self-hosted instance
+ * at NOMINATIM_API_URL. Returns null when the chosen one isn't configured.
+ */
+export function getGeocodingProvider(): GeocodingProvider | null {
+  const provider = Deno.env.get('GEOCODING_PROVIDER') ?? 'locationiq';
+
+  if (provider === 'nominatim') {
+    const apiUrl = Deno.env.get('NOMINATIM_API_URL') ?? 'https://nominatim.openstreetmap.org';
+    return new NominatimProvider({
+      apiUrl,
+      userAgent: Deno.env.get('NOMINATIM_USER_AGENT') ?? 'emergency-alert',
+      // Only the public instance needs pacing to its one request a second
+      minIntervalMs: apiUrl.includes('nominatim.openstreetmap.org') ? 1000 : 0,
+    });
+  }
+
+  if (provider === 'locationiq') {
+    const token = Deno.env.get('LOCATIONIQ_TOKEN');
+    if (!token) return null;
+    return new LocationIqProvider(token, Deno.env.get('LOCATIONIQ_API_URL'));
+  }
+
+  console.error(`Unknown GEOCODING_PROVIDER: ${provider}`);
+  return null;
+}
@@ -0,0 +1,162 @@
+import {
+  GeocodePrecision,
+  GeocodedAddress,
+  GeocodingProvider,
+  ReverseGeocodeResult,
+  SearchResult,
+} from './types.ts';
+
+// The subset of Nominatim's `address` object we use; LocationIQ returns the same shape
+type NominatimAddress = {
+  house_number?: string;
+  road?: string;
+  neighbourhood?: string;
+  suburb?: string;
+  city?: string;
+  town?: string;
+  village?: string;
+  county?: string;
+  state?: string;
+  postcode?: string;
+  country?: string;
+};
+
+type NominatimPlace = {
+  lat: string;
+  lon: string;
+  display_name?: string;
+  address?: NominatimAddress;
+  error?: string;
+};
+
+type NominatimConfig = {
+  apiUrl: string;
+  // Nominatim's usage policy asks every application to identify itself
+  userAgent?: string;
+  // The public instance allows one request a second; self-hosted ones can set 0
+  minIntervalMs?: number;
+};
+
+const CONFIDENCE: Record<GeocodePrecision, number> = {
+  building: 0.9,
+  street: 0.75,
+  locality: 0.5,
+  region: 0.25,
+  country: 0.1,
+};
+
+function getPrecision(address: NominatimAddress): GeocodePrecision {
+  if (address.house_number) return 'building';
+  if (address.road) return 'street';
+  if (address.city || address.town || address.village || address.suburb) return 'locality';
+  if (address.county || address.state) return 'region';
+  return 'country';
+}
+
+export function toGeocodedAddress(place: NominatimPlace, provider: string): GeocodedAddress {
+  const address = place.address ?? {};
+  const street = [address.house_number, address.road].filter(Boolean).join(' ');
+  const precision = getPrecision(address);
+
+  return {
+    formatted: place.display_name ?? `${place.lat}, ${place.lon}`,
+    street: street || address.neighbourhood || address.suburb || null,
+    city: address.city ?? address.town ?? address.village ?? address.county ?? null,
+    region: address.state ?? null,
+    postcode: address.postcode ?? null,
+    country: address.country ?? null,
+    latitude: Number(place.lat),
+    longitude: Number(place.lon),
+    precision,
+    confidence: CONFIDENCE[precision],
+    provider,
+  };
+}
+
+/**
+ * Any Nominatim-compatible server: the public instance, a self-hosted one,
+ * or a local stub (see stub-server.ts).
+ */
+export class NominatimProvider implements GeocodingProvider {
+  readonly name: string = 'nominatim';
+  protected format = 'jsonv2';
+  private lastRequestAt = 0;
+
+  constructor(private config: NominatimConfig) {}
+
+  protected buildUrl(path: 'reverse' | 'search', params: Record<string, string>) {
+    const query = new URLSearchParams({ ...params, format: this.format, addressdetails: '1' });
+    return `${this.config.apiUrl}/${path}?${query}`;
+  }
+
+  // Spaces requests out within this isolate; the geocode function also limits each user
+  private async throttle() {
+    const wait = this.lastRequestAt + (this.config.minIntervalMs ?? 0) - Date.now();
+    if (wait > 0) {
+      await new Promise((resolve) => setTimeout(resolve, wait));
+    }
+    this.lastRequestAt = Date.now();
+  }
+
+  private async request(url: string) {
+    await this.throttle();
+    return fetch(url, {
+      headers: this.config.userAgent ? { 'User-Agent': this.config.userAgent } : {},
+    });
+  }
+
+  async reverse(latitude: number, longitude: number): Promise<ReverseGeocodeResult> {
+    try {
+      const response = await this.request(
+        this.buildUrl('reverse', { lat: String(latitude), lon: String(longitude) })
+      );
+      // LocationIQ answers 404 and Nominatim 200 with an error when nothing is there
+      if (response.status === 404) {
+        return { ok: true, address: null };
+      }
+      if (!response.ok) {
+        return { ok: false, error: `${this.name} responded with ${response.status}`, status: response.status };
+      }
+
+      const place: NominatimPlace = await response.json();
+      if (place.error) {
+        return { ok: true, address: null };
+      }
+      return { ok: true, address: toGeocodedAddress(place, this.name) };
+    } catch (error) {
+      return { ok: false, error: (error as Error).message };
+    }
+  }
+
+  async search(query: string, limit: number): Promise<SearchResult> {
+    try {
+      const response = await this.request(this.buildUrl('search', { q: query, limit: String(limit) }));
+      if (response.status === 404) {
+        return { ok: true, addresses: [] };
+      }
+      if (!response.ok) {
+        return { ok: false, error: `${this.name} responded with ${response.status}`, status: response.status };
+      }
+
+      const places: NominatimPlace[] = await response.json();
+      return { ok: true, addresses: places.map((place) => toGeocodedAddress(place, this.name)) };
+    } catch (error) {
+      return { ok: false, error: (error as Error).message };
+    }
+  }
+}
+
+// LocationIQ speaks the Nominatim API with a key and its own base URL
+export class LocationIqProvider extends NominatimProvider {
+  override readonly name = 'locationiq';
+  protected override format = 'json';
+
+  // apiUrl is overridable so tests can point at a local stub
+  constructor(private token: string, apiUrl?: string) {
+    super({ apiUrl: apiUrl ?? 'https://us1.locationiq.com/v1' });
+  }
+
+  protected override buildUrl(path: 'reverse' | 'search', params: Record<string, string>) {
+    return `${super.buildUrl(path, params)}&key=${encodeURIComponent(this.token)}`;
+  }
+}
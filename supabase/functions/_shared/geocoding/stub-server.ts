@@ -0,0 +1,93 @@
+/*
+  A Nominatim-compatible stub for testing geocoding without a real backend:
+
+    deno run --allow-net supabase/functions/_shared/geocoding/stub-server.ts
+
+  then serve the functions with GEOCODING_PROVIDER=nominatim and
+  NOMINATIM_API_URL=http://host.docker.internal:8089 (or LOCATIONIQ_API_URL
+  with any LOCATIONIQ_TOKEN).
+
+  What each lookup gets back:
+    - reverse at a latitude above 89: 200 with an error, as Nominatim answers
+    - reverse at a latitude below -89: 404, as LocationIQ answers
+    - search for "nowhere": 404, as LocationIQ answers when nothing matches
+    - search for "fail": 500
+    - anything else: the same street address
+*/
+
+function place(lat: string, lon: string) {
+  return {
+    lat,
+    lon,
+    display_name: '10 Downing Street, Westminster, London, SW1A 2AA, United Kingdom',
+    address: {
+      house_number: '10',
+      road: 'Downing Street',
+      suburb: 'Westminster',
+      city: 'London',
+      state: 'England',
+      postcode: 'SW1A 2AA',
+      country: 'United Kingdom',
+    },
+  };
+}
+
+function json(body: unknown, status = 200) {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { 'Content-Type': 'application/json' },
+  });
+}
+
+/**
+ * The stub's request handler, plus the URL of every request it was sent so
+ * tests can check what the providers asked for.
+ */
+export function createGeocodingStub() {
+  const requests: URL[] = [];
+
+  function handler(req: Request) {
+    const url = new URL(req.url);
+    const params = url.searchParams;
+    requests.push(url);
+
+    // LocationIQ's legacy .php paths are accepted as well
+    const path = url.pathname.replace(/\.php$/, '').split('/').pop();
+
+    if (path === 'reverse') {
+      const lat = params.get('lat') ?? '0';
+      if (Number(lat) > 89) {
+        return json({ error: 'Unable to geocode' });
+      }
+      if (Number(lat) < -89) {
+        return json({ error: 'Unable to geocode' }, 404);
+      }
+      return json(place(lat, params.get('lon') ?? '0'));
+    }
+
+    if (path === 'search') {
+      const query = params.get('q') ?? '';
+      if (query === 'fail') {
+        return json({ error: 'Stub failure' }, 500);
+      }
+      if (query === 'nowhere') {
+        return json({ error: 'Unable to geocode' }, 404);
+      }
+      const limit = Number(params.get('limit') ?? 5);
+      return json([place('51.5034', '-0.1276')].slice(0, limit));
+    }
+
+    return json({ error: 'Not found' }, 404);
+  }
+
+  return { handler, requests };
+}
+
+if (import.meta.main) {
+  const { handler } = createGeocodingStub();
+  Deno.serve({ port: Number(Deno.env.get('PORT') ?? 8089) }, (req) => {
+    const url = new URL(req.url);
+    console.log(req.method, url.pathname, url.searchParams.toString());
+    return handler(req);
+  });
+}
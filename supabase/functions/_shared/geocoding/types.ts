@@ -0,0 +1,33 @@
+// How precisely an address pins down the point, finest first
+export type GeocodePrecision = 'building' | 'street' | 'locality' | 'region' | 'country';
+
+export type GeocodedAddress = {
+  // One line, as the provider formats it
+  formatted: string;
+  street: string | null;
+  city: string | null;
+  region: string | null;
+  postcode: string | null;
+  country: string | null;
+  // Where the address is, which may differ from the point that was looked up
+  latitude: number;
+  longitude: number;
+  precision: GeocodePrecision;
+  // 0 to 1; how much to trust that the address describes the point
+  confidence: number;
+  provider: string;
+};
+
+export type ReverseGeocodeResult =
+  | { ok: true; address: GeocodedAddress | null }
+  | { ok: false; error: string; status?: number };
+
+export type SearchResult =
+  | { ok: true; addresses: GeocodedAddress[] }
+  | { ok: false; error: string; status?: number };
+
+export interface GeocodingProvider {
+  readonly name: string;
+  reverse(latitude: number, longitude: number): Promise<ReverseGeocodeResult>;
+  search(query: string, limit: number): Promise<SearchResult>;
+}
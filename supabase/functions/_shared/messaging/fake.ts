@@ -0,0 +1,25 @@
+import { MessageChannel, MessagingProvider, OutgoingMessage, SendResult } from './types.ts';
+
+export type FakeSentMessage = OutgoingMessage & { channel: MessageChannel; id: string };
+
+/**
+ * Records messages instead of sending them. Destinations listed in
+ * FAKE_MESSAGING_FAIL_TO (comma separated) fail, to exercise escalation.
+ */
+export class FakeProvider implements MessagingProvider {
+  readonly name = 'fake';
+  readonly sent: FakeSentMessage[] = [];
+
+  constructor(readonly channel: MessageChannel, private failTo: string[] = []) {}
+
+  send(message: OutgoingMessage): Promise<SendResult> {
+    if (this.failTo.includes(message.to)) {
+      return Promise.resolve({ ok: false, error: `Fake delivery failure for ${message.to}` });
+    }
+
+    const id = `fake-${crypto.randomUUID()}`;
+    this.sent.push({ ...message, channel: this.channel, id });
+    console.log(`[fake ${this.channel}] to=${message.to} subject=${message.subject}\n${message.body}`);
+    return Promise.resolve({ ok: true, providerMessageId: id });
+  }
+}
@@ -0,0 +1,45 @@
+import { FakeProvider } from './fake.ts';
+import { SmtpEmailProvider } from './smtp.ts';
+import { TwilioSmsProvider } from './twilio.ts';
+import { MessageChannel, MessagingProvider } from './types.ts';
+
+export * from './types.ts';
+
+/**
+ * MESSAGING_PROVIDER=fake swaps both channels for in-memory fakes. Otherwise
+ * a channel is available only when its credentials are configured.
+ */
+export function getMessagingProviders(): Partial<Record<MessageChannel, MessagingProvider>> {
+  if (Deno.env.get('MESSAGING_PROVIDER') === 'fake') {
+    const failTo = (Deno.env.get('FAKE_MESSAGING_FAIL_TO') ?? '')
+      .split(',')
+      .map((value) => value.trim())
+      .filter(Boolean);
+    return { sms: new FakeProvider('sms', failTo), email: new FakeProvider('email', failTo) };
+  }
+
+  const providers: Partial<Record<MessageChannel, MessagingProvider>> = {};
+
+  const twilioSid = Deno.env.get('TWILIO_ACCOUNT_SID');
+  if (twilioSid) {
+    providers.sms = new TwilioSmsProvider({
+      accountSid: twilioSid,
+      authToken: Deno.env.get('TWILIO_AUTH_TOKEN')!,
+      from: Deno.env.get('TWILIO_FROM_NUMBER')!,
+      apiUrl: Deno.env.get('TWILIO_API_URL'),
+    });
+  }
+
+  const smtpHost = Deno.env.get('SMTP_HOST');
+  if (smtpHost) {
+    providers.email = new SmtpEmailProvider({
+      host: smtpHost,
+      port: Number(Deno.env.get('SMTP_PORT') ?? 465),
+      user: Deno.env.get('SMTP_USER')!,
+      password: Deno.env.get('SMTP_PASSWORD')!,
+      from: Deno.env.get('SMTP_FROM')!,
+    });
+  }
+
+  return providers;
+}
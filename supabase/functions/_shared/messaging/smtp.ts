@@ -0,0 +1,40 @@
+import nodemailer from 'npm:nodemailer@6';
+import { MessagingProvider, OutgoingMessage, SendResult } from './types.ts';
+
+type SmtpConfig = {
+  host: string;
+  port: number;
+  user: string;
+  password: string;
+  from: string;
+};
+
+export class SmtpEmailProvider implements MessagingProvider {
+  readonly name = 'smtp';
+  readonly channel = 'email' as const;
+  private transport;
+
+  constructor(private config: SmtpConfig) {
+    this.transport = nodemailer.createTransport({
+      host: config.host,
+      port: config.port,
+      // Supabase blocks outbound 25 and 587, so implicit TLS on 465 is the default
+      secure: config.port === 465,
+      auth: { user: config.user, pass: config.password },
+    });
+  }
+
+  async send(message: OutgoingMessage): Promise<SendResult> {
+    try {
+      const info = await this.transport.sendMail({
+        from: this.config.from,
+        to: message.to,
+        subject: message.subject,
+        text: message.body,
+      });
+      return { ok: true, providerMessageId: info.messageId ?? null };
+    } catch (error) {
+      return { ok: false, error: (error as Error).message };
+    }
+  }
+}
@@ -0,0 +1,82 @@
+import { MessagingProvider, OutgoingMessage, SendResult } from './types.ts';
+import { timingSafeEqual } from '../webhook.ts';
+
+type TwilioConfig = {
+  accountSid: string;
+  authToken: string;
+  from: string;
+  // Overridable so tests can point at a local stub
+  apiUrl?: string;
+};
+
+export class TwilioSmsProvider implements MessagingProvider {
+  readonly name = 'twilio';
+  readonly channel = 'sms' as const;
+
+  constructor(private config: TwilioConfig) {}
+
+  async send(message: OutgoingMessage): Promise<SendResult> {
+    const apiUrl = this.config.apiUrl ?? 'https://api.twilio.com';
+    const form = new URLSearchParams({
+      To: message.to,
+      From: this.config.from,
+      Body: message.body,
+    });
+    if (message.statusCallbackUrl) {
+      form.set('StatusCallback', message.statusCallbackUrl);
+    }
+
+    try {
+      const response = await fetch(
+        `${apiUrl}/2010-04-01/Accounts/${this.config.accountSid}/Messages.json`,
+        {
+          method: 'POST',
+          headers: {
+            Authorization: `Basic ${btoa(`${this.config.accountSid}:${this.config.authToken}`)}`,
+            'Content-Type': 'application/x-www-form-urlencoded',
+          },
+          body: form,
+        }
+      );
+
+      const data = await response.json();
+      if (!response.ok) {
+        return { ok: false, error: data.message ?? `Twilio responded with ${response.status}` };
+      }
+      return { ok: true, providerMessageId: data.sid };
+    } catch (error) {
+      return { ok: false, error: (error as Error).message };
+    }
+  }
+}
+
+/**
+ * Checks the X-Twilio-Signature on a status callback: a base64 HMAC-SHA1,
+ * keyed with the auth token, of the callback URL followed by each POST
+ * parameter's name and value in name order.
+ * https://www.twilio.com/docs/usage/security#validating-requests
+ */
+export async function isValidTwilioSignature(
+  authToken: string,
+  url: string,
+  params: [string, string][],
+  signature: string | null
+) {
+  if (!signature) return false;
+
+  const payload = [...params]
+    .sort(([a, aValue], [b, bValue]) => (a === b ? (aValue < bValue ? -1 : 1) : a < b ? -1 : 1))
+    .reduce((value, [name, paramValue]) => value + name + paramValue, url);
+
+  const key = await crypto.subtle.importKey(
+    'raw',
+    new TextEncoder().encode(authToken),
+    { name: 'HMAC', hash: 'SHA-1' },
+    false,
+    ['sign']
+  );
+  const digest = await crypto.subtle.sign('HMAC', key, new TextEncoder().encode(payload));
+  const expected = btoa(String.fromCharCode(...new Uint8Array(digest)));
+
+  return timingSafeEqual(signature, expected);
+}
@@ -0,0 +1,19 @@
+export type MessageChannel = 'sms' | 'email';
+
+export type OutgoingMessage = {
+  to: string;
+  subject: string;
+  body: string;
+  // Provider callback for asynchronous delivery updates, where supported
+  statusCallbackUrl?: string;
+};
+
+export type SendResult =
+  | { ok: true; providerMessageId: string | null }
+  | { ok: false; error: string };
+
+export interface MessagingProvider {
+  readonly name: string;
+  readonly channel: MessageChannel;
+  send(message: OutgoingMessage): Promise<SendResult>;
+}
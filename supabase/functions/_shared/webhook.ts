@@ -0,0 +1,35 @@
+export type WebhookPayload<T> = {
+  type: 'INSERT' | 'UPDATE' | 'DELETE';
+  table: string;
+  schema: string;
+  record: T;
+  old_record: T | null;
+};
+
+// Database triggers send the shared secret configured in app.settings.webhook_secret
+export function isAuthorizedWebhook(req: Request) {
+  const secret = Deno.env.get('WEBHOOK_SECRET');
+  if (!secret) {
+    console.error('WEBHOOK_SECRET is not set; rejecting request');
+    return false;
+  }
+  return timingSafeEqual(req.headers.get('x-webhook-secret') ?? '', secret);
+}
+
+// Compared in full so the time taken doesn't reveal how much matched
+export function timingSafeEqual(actual: string, expected: string) {
+  if (actual.length !== expected.length) return false;
+
+  let mismatch = 0;
+  for (let i = 0; i < expected.length; i++) {
+    mismatch |= expected.charCodeAt(i) ^ actual.charCodeAt(i);
+  }
+  return mismatch === 0;
+}
+
+export function jsonResponse(body: unknown, status = 200) {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { 'Content-Type': 'application/json' },
+  });
+}
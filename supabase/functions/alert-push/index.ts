@@ -0,0 +1,233 @@
+/*
+  Push fan-out for alerts.
+
+  Invoked by the `notify_alert_push` trigger on `alerts` insert and status
+  change, and on a schedule with `{ "type": "RECEIPTS" }` to collect Expo
+  delivery receipts for tickets sent earlier.
+
+  - INSERT: every verified responder of the right type whose service area
+    covers the alert (`eligible_push_recipients`)
+  - UPDATE: the civilian who raised the alert, or, when the civilian withdrew
+    it themselves, the responders who were paged about it
+  - Silent alerts never push to the civilian: a notification lighting up
+    their phone could give them away
+
+  Deploy with `--no-verify-jwt`: callers are authenticated by WEBHOOK_SECRET.
+*/
+import { supabaseAdmin } from '../_shared/supabase-admin.ts';
+import { ExpoPushMessage, getExpoPushReceipts, sendExpoPushMessages } from '../_shared/expo-push.ts';
+import { WebhookPayload, isAuthorizedWebhook, jsonResponse } from '../_shared/webhook.ts';
+
+type AlertRecord = {
+  id: string;
+  user_id: string;
+  type: 'police' | 'medical' | 'general';
+  status: string;
+  description: string | null;
+  silent: boolean;
+};
+
+type Recipient = {
+  recipient_id: string;
+  push_token: string;
+};
+
+type PushEvent = 'alert_created' | 'status_changed' | 'alert_withdrawn';
+
+const TYPE_LABELS: Record<AlertRecord['type'], string> = {
+  police: 'Police Emergency',
+  medical: 'Medical Emergency',
+  general: 'Emergency SOS',
+};
+
+async function deliver(alert: AlertRecord, event: PushEvent, recipients: Recipient[], message: Omit<ExpoPushMessage, 'to'>) {
+  if (recipients.length === 0) {
+    return { sent: 0, failed: 0 };
+  }
+
+  const tickets = await sendExpoPushMessages(
+    recipients.map(({ push_token }) => ({ ...message, to: push_token }))
+  );
+
+  const rows = recipients.map((recipient, index) => {
+    const ticket = tickets[index];
+    return {
+      alert_id: alert.id,
+      event,
+      recipient_id: recipient.recipient_id,
+      push_token: recipient.push_token,
+      ticket_id: ticket?.status === 'ok' ? ticket.id : null,
+      ticket_status: ticket?.status ?? 'error',
+      error_code: ticket?.status === 'error' ? ticket.details?.error ?? null : null,
+      error_message: ticket?.status === 'error' ? ticket.message : null,
+    };
+  });
+
+  const { error } = await supabaseAdmin.from('push_deliveries').insert(rows);
+  if (error) {
+    console.error('Error recording push deliveries:', error);
+  }
+
+  const failed = rows.filter((row) => row.ticket_status === 'error').length;
+  return { sent: rows.length - failed, failed };
+}
+
+async function notifyResponders(alert: AlertRecord) {
+  const { data, error } = await supabaseAdmin.rpc('eligible_push_recipients', {
+    p_alert_id: alert.id,
+  });
+  if (error) throw error;
+
+  const body = alert.description ?? 'A new emergency alert needs a response.';
+
+  return deliver(alert, 'alert_created', data ?? [], {
+    title: alert.silent ? `SILENT ${TYPE_LABELS[alert.type]}` : TYPE_LABELS[alert.type],
+    body: alert.silent ? `Do not call or text the reporter. ${body}` : body,
+    data: { alertId: alert.id, event: 'alert_created', silent: alert.silent },
+    sound: 'default',
+    priority: 'high',
+    channelId: 'alerts',
+  });
+}
+
+async function notifyOwner(alert: AlertRecord) {
+  const { data: owner, error } = await supabaseAdmin
+    .from('users')
+    .select('id, push_token')
+    .eq('id', alert.user_id)
+    .maybeSingle();
+  if (error) throw error;
+
+  const recipients = owner?.push_token
+    ? [{ recipient_id: owner.id, push_token: owner.push_token }]
+    : [];
+
+  return deliver(alert, 'status_changed', recipients, {
+    title: 'Alert update',
+    body: `Your ${TYPE_LABELS[alert.type].toLowerCase()} alert is now ${alert.status.replace('_', ' ')}.`,
+    data: { alertId: alert.id, event: 'status_changed', status: alert.status },
+    sound: 'default',
+    priority: 'high',
+  });
+}
+
+// Cancellations are always the reporter's; false alarms may come from either side
+async function isWithdrawnByReporter(alert: AlertRecord) {
+  if (alert.status === 'cancelled') return true;
+  if (alert.status !== 'false_alarm') return false;
+
+  const { data, error } = await supabaseAdmin
+    .from('responses')
+    .select('actor_id')
+    .eq('alert_id', alert.id)
+    .eq('to_status', 'false_alarm')
+    .order('created_at', { ascending: false })
+    .limit(1)
+    .maybeSingle();
+  if (error) throw error;
+
+  return data?.actor_id === alert.user_id;
+}
+
+async function notifyRespondersWithdrawn(alert: AlertRecord) {
+  const { data, error } = await supabaseAdmin
+    .from('push_deliveries')
+    .select('recipient_id, push_token')
+    .eq('alert_id', alert.id)
+    .eq('event', 'alert_created')
+    .eq('ticket_status', 'ok');
+  if (error) throw error;
+
+  const recipients = [...new Map((data ?? []).map((row) => [row.recipient_id, row])).values()];
+
+  return deliver(alert, 'alert_withdrawn', recipients, {
+    title: `${TYPE_LABELS[alert.type]} withdrawn`,
+    body:
+      alert.status === 'cancelled'
+        ? 'The reporter has marked themselves safe. No response is needed.'
+        : 'The reporter has marked this alert as a false alarm. No response is needed.',
+    data: { alertId: alert.id, event: 'alert_withdrawn', status: alert.status },
+    sound: 'default',
+    priority: 'high',
+    channelId: 'alerts',
+  });
+}
+
+async function collectReceipts() {
+  const { data: pending, error } = await supabaseAdmin
+    .from('push_deliveries')
+    .select('id, ticket_id, recipient_id')
+    .eq('ticket_status', 'ok')
+    .is('receipt_status', null)
+    .not('ticket_id', 'is', null)
+    .limit(1000);
+  if (error) throw error;
+  if (!pending?.length) return { checked: 0 };
+
+  const receipts = await getExpoPushReceipts(pending.map((row) => row.ticket_id!));
+  const unregistered: string[] = [];
+
+  for (const row of pending) {
+    // Expo only returns receipts once they are ready; the rest are retried next run
+    const receipt = receipts[row.ticket_id!];
+    if (!receipt) continue;
+
+    const errorCode = receipt.status === 'error' ? receipt.details?.error ?? null : null;
+    if (errorCode === 'DeviceNotRegistered') {
+      unregistered.push(row.recipient_id);
+    }
+
+    await supabaseAdmin
+      .from('push_deliveries')
+      .update({
+        receipt_status: receipt.status,
+        error_code: errorCode,
+        error_message: receipt.status === 'error' ? receipt.message : null,
+        receipt_checked_at: new Date().toISOString(),
+      })
+      .eq('id', row.id);
+  }
+
+  // Stop sending to uninstalled apps; the token is re-registered on next launch
+  if (unregistered.length > 0) {
+    await supabaseAdmin.from('responders').update({ push_token: null }).in('id', unregistered);
+    await supabaseAdmin.from('users').update({ push_token: null }).in('id', unregistered);
+  }
+
+  return { checked: pending.length, unregistered: unregistered.length };
+}
+
+Deno.serve(async (req) => {
+  if (!isAuthorizedWebhook(req)) {
+    return jsonResponse({ error: 'Unauthorized' }, 401);
+  }
+
+  try {
+    const payload = await req.json();
+
+    if (payload.type === 'RECEIPTS') {
+      return jsonResponse(await collectReceipts());
+    }
+
+    const { type, record, old_record } = payload as WebhookPayload<AlertRecord>;
+
+    if (type === 'INSERT') {
+      return jsonResponse(await notifyResponders(record));
+    }
+
+    if (type === 'UPDATE' && record.status !== old_record?.status) {
+      if (await isWithdrawnByReporter(record)) {
+        return jsonResponse(await notifyRespondersWithdrawn(record));
+      }
+      if (record.silent) {
+        return jsonResponse({ skipped: true });
+      }
+      return jsonResponse(await notifyOwner(record));
+    }
+
+    return jsonResponse({ skipped: true });
+  } catch (error) {
+    console.error('alert-push error:', error);
+    return jsonResponse({ error: (error as Error).message }, 500);
+  }
+});
@@ -0,0 +1,85 @@
+/*
+  Public live-status page for an alert, linked from emergency contact messages.
+
+  Looks the alert up by its unguessable `status_token` and shows only its
+  type, status and latest location, never the reporter's profile.
+
+  Deploy with `--no-verify-jwt`: contacts open the link in a plain browser.
+*/
+import { supabaseAdmin } from '../_shared/supabase-admin.ts';
+
+const TYPE_LABELS: Record<string, string> = {
+  police: 'Police Emergency',
+  medical: 'Medical Emergency',
+  general: 'Emergency SOS',
+};
+
+function escapeHtml(value: string) {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+function page(title: string, body: string, status = 200) {
+  return new Response(
+    `<!doctype html>
+<html>
+<head>
+  <meta charset="utf-8">
+  <meta name="viewport" content="width=device-width, initial-scale=1">
+  <meta http-equiv="refresh" content="30">
+  <title>${escapeHtml(title)}</title>
+  <style>
+    body { font-family: -apple-system, sans-serif; margin: 0; padding: 24px; background: #f8f9fa; color: #1a1a1a; }
+    .card { background: #fff; border-radius: 12px; padding: 20px; max-width: 480px; margin: 0 auto; }
+    .status { display: inline-block; padding: 6px 12px; border-radius: 16px; background: #FF4444; color: #fff; text-transform: uppercase; font-size: 12px; }
+    a { color: #FF4444; }
+  </style>
+</head>
+<body><div class="card">${body}</div></body>
+</html>`,
+    { status, headers: { 'Content-Type': 'text/html; charset=utf-8' } }
+  );
+}
+
+Deno.serve(async (req) => {
+  const token = new URL(req.url).searchParams.get('token');
+  if (!token || !/^[0-9a-f-]{36}$/i.test(token)) {
+    return page('Alert not found', '<h1>Alert not found</h1>', 404);
+  }
+
+  const { data: alert, error } = await supabaseAdmin
+    .from('alerts')
+    .select('type, status, created_at, updated_at, latitude, longitude, last_latitude, last_longitude, last_location_at')
+    .eq('status_token', token)
+    .maybeSingle();
+
+  if (error) {
+    console.error('alert-status error:', error);
+    return page('Error', '<h1>Something went wrong</h1>', 500);
+  }
+  if (!alert) {
+    return page('Alert not found', '<h1>Alert not found</h1>', 404);
+  }
+
+  const latitude = alert.last_latitude ?? alert.latitude;
+  const longitude = alert.last_longitude ?? alert.longitude;
+  const seenAt = alert.last_location_at ?? alert.created_at;
+  const label = TYPE_LABELS[alert.type] ?? 'Emergency';
+
+  return page(
+    label,
+    `<h1>${escapeHtml(label)}</h1>
+    <p><span class="status">${escapeHtml(alert.status.replace('_', ' '))}</span></p>
+    <p>Sent ${escapeHtml(new Date(alert.created_at).toUTCString())}</p>
+    <p>Last updated ${escapeHtml(new Date(alert.updated_at ?? alert.created_at).toUTCString())}</p>
+    <p>Last known location (${escapeHtml(new Date(seenAt).toUTCString())}):<br>
+      <a href="https://www.google.com/maps/search/?api=1&query=${latitude},${longitude}">
+        ${Number(latitude).toFixed(6)}, ${Number(longitude).toFixed(6)}
+      </a>
+    </p>
+    <p>This page refreshes every 30 seconds.</p>`
+  );
+});
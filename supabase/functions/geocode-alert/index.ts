@@ -0,0 +1,73 @@
+/*
+  Reverse-geocodes an alert's location and stores the structured address.
+
+  Invoked by the `queue_alert_geocode` trigger when an alert is created and
+  when the reporter has moved far enough from the stored address, with
+  `{ alert_id, latitude, longitude }`. Clients only geocode alerts this
+  hasn't reached yet.
+
+  Deploy with `--no-verify-jwt`: callers are authenticated by WEBHOOK_SECRET.
+*/
+import { getGeocodingProvider } from '../_shared/geocoding/index.ts';
+import { supabaseAdmin } from '../_shared/supabase-admin.ts';
+import { isAuthorizedWebhook, jsonResponse } from '../_shared/webhook.ts';
+
+// Point the provider's API URL at stub-server.ts to test without spending quota
+const geocoder = getGeocodingProvider();
+
+type GeocodeRequest = {
+  alert_id: string;
+  latitude: number;
+  longitude: number;
+};
+
+Deno.serve(async (req) => {
+  if (!isAuthorizedWebhook(req)) {
+    return jsonResponse({ error: 'Unauthorized' }, 401);
+  }
+  if (!geocoder) {
+    console.error('No geocoding provider is configured');
+    return jsonResponse({ error: 'Geocoding is not configured' }, 500);
+  }
+
+  let body: GeocodeRequest | null;
+  try {
+    body = await req.json();
+  } catch {
+    return jsonResponse({ error: 'Request body must be JSON' }, 400);
+  }
+  if (!body?.alert_id || !Number.isFinite(body.latitude) || !Number.isFinite(body.longitude)) {
+    return jsonResponse({ error: 'alert_id, latitude and longitude are required' }, 400);
+  }
+
+  const { alert_id, latitude, longitude } = body;
+
+  try {
+    const result = await geocoder.reverse(latitude, longitude);
+    if (!result.ok) {
+      throw new Error(result.error);
+    }
+
+    const address = result.address;
+    const { error } = await supabaseAdmin
+      .from('alerts')
+      .update({
+        address: address?.formatted ?? null,
+        address_street: address?.street ?? null,
+        address_city: address?.city ?? null,
+        address_region: address?.region ?? null,
+        address_postcode: address?.postcode ?? null,
+        address_country: address?.country ?? null,
+        address_location: `SRID=4326;POINT(${longitude} ${latitude})`,
+        address_resolved_at: new Date().toISOString(),
+      })
+      .eq('id', alert_id);
+
+    if (error) throw error;
+    return jsonResponse({ alert_id, address: address?.formatted ?? null });
+  } catch (error) {
+    // The address stays unresolved, so the next location update queues a retry
+    console.error('geocode-alert error:', error);
+    return jsonResponse({ error: (error as Error).message }, 502);
+  }
+});
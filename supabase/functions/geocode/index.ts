@@ -0,0 +1,93 @@
+/*
+  Geocoding proxy for the app, so the provider key stays on the server.
+
+  Called with the user's session as `{ latitude, longitude }` for the
+  address at a point, or `{ query, limit? }` to search for places. Each user
+  gets GEOCODE_RATE_LIMIT lookups a minute (30 by default); past that the
+  function answers 429 and the app falls back to its offline gazetteer.
+*/
+import { getGeocodingProvider } from '../_shared/geocoding/index.ts';
+import { supabaseAdmin } from '../_shared/supabase-admin.ts';
+
+const RATE_LIMIT = Number(Deno.env.get('GEOCODE_RATE_LIMIT') ?? 30);
+const MAX_SEARCH_RESULTS = 10;
+
+const geocoder = getGeocodingProvider();
+
+// Expo web calls this from the browser
+const CORS_HEADERS = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+};
+
+type GeocodeRequest = {
+  latitude?: number;
+  longitude?: number;
+  query?: string;
+  limit?: number;
+};
+
+function respond(body: unknown, status = 200) {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { ...CORS_HEADERS, 'Content-Type': 'application/json' },
+  });
+}
+
+Deno.serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: CORS_HEADERS });
+  }
+
+  const token = req.headers.get('Authorization')?.replace(/^Bearer /, '');
+  const { data: { user } } = token ? await supabaseAdmin.auth.getUser(token) : { data: { user: null } };
+  if (!user) {
+    return respond({ error: 'Unauthorized' }, 401);
+  }
+  if (!geocoder) {
+    console.error('No geocoding provider is configured');
+    return respond({ error: 'Geocoding is not configured' }, 503);
+  }
+
+  let body: GeocodeRequest | null;
+  try {
+    body = await req.json();
+  } catch {
+    return respond({ error: 'Request body must be JSON' }, 400);
+  }
+
+  const { latitude, longitude, query, limit }: GeocodeRequest = body ?? {};
+  const isReverse = Number.isFinite(latitude) && Number.isFinite(longitude);
+  if (!isReverse && !query?.trim()) {
+    return respond({ error: 'latitude and longitude, or query, are required' }, 400);
+  }
+
+  const { data: allowed, error: quotaError } = await supabaseAdmin.rpc('take_geocode_quota', {
+    p_user_id: user.id,
+    p_limit: RATE_LIMIT,
+    p_window: '1 minute',
+  });
+  if (quotaError) {
+    console.error('geocode quota error:', quotaError);
+    return respond({ error: quotaError.message }, 500);
+  }
+  if (!allowed) {
+    return respond({ error: 'Too many geocoding requests, try again shortly' }, 429);
+  }
+
+  if (isReverse) {
+    const result = await geocoder.reverse(latitude!, longitude!);
+    if (!result.ok) {
+      console.error('geocode reverse error:', result.error);
+      return respond({ error: result.error }, 502);
+    }
+    return respond({ address: result.address });
+  }
+
+  const result = await geocoder.search(query!.trim(), Math.min(limit ?? 5, MAX_SEARCH_RESULTS));
+  if (!result.ok) {
+    console.error('geocode search error:', result.error);
+    return respond({ error: result.error }, 502);
+  }
+  return respond({ addresses: result.addresses });
+});
@@ -0,0 +1,249 @@
+/*
+  Notifies a civilian's emergency contacts by SMS and email.
+
+  Invoked by the `notify_alert_contacts` trigger on alert insert, every minute
+  by cron with `{ "type": "ESCALATE" }`, and by Twilio delivery callbacks at
+  `?callback=twilio`, which are authenticated by their X-Twilio-Signature.
+
+  CONTACT_NOTIFY_MODE
+    - `all` (default): every contact is notified immediately
+    - `primary_first`: only the primary contact is notified; the rest follow
+      if every primary message fails, or once CONTACT_ESCALATION_DELAY_SECONDS
+      pass while the alert is still open
+
+  Messaging providers are chosen by `getMessagingProviders`; set
+  MESSAGING_PROVIDER=fake to run without Twilio or SMTP.
+
+  Deploy with `--no-verify-jwt`: other callers are authenticated by WEBHOOK_SECRET.
+*/
+import { supabaseAdmin } from '../_shared/supabase-admin.ts';
+import { WebhookPayload, isAuthorizedWebhook, jsonResponse } from '../_shared/webhook.ts';
+import { MessageChannel, getMessagingProviders } from '../_shared/messaging/index.ts';
+import { isValidTwilioSignature } from '../_shared/messaging/twilio.ts';
+
+type AlertRecord = {
+  id: string;
+  user_id: string;
+  type: 'police' | 'medical' | 'general';
+  status: string;
+  latitude: number;
+  longitude: number;
+  description: string | null;
+  status_token: string;
+  created_at: string;
+  silent: boolean;
+};
+
+// Snapshot rows from alert_contacts, frozen when the alert was created
+type Contact = {
+  contact_id: string | null;
+  name: string;
+  phone_number: string | null;
+  email: string | null;
+  is_primary: boolean;
+};
+
+const NOTIFY_MODE = Deno.env.get('CONTACT_NOTIFY_MODE') ?? 'all';
+const ESCALATION_DELAY_SECONDS = Number(Deno.env.get('CONTACT_ESCALATION_DELAY_SECONDS') ?? 120);
+const FUNCTIONS_URL = `${Deno.env.get('SUPABASE_URL')}/functions/v1`;
+// Twilio signs the URL it was given, which req.url doesn't match behind the gateway
+const TWILIO_CALLBACK_URL = `${FUNCTIONS_URL}/notify-contacts?callback=twilio`;
+const OPEN_STATUSES = ['pending', 'acknowledged', 'responding', 'escalated'];
+
+const TYPE_LABELS: Record<AlertRecord['type'], string> = {
+  police: 'police emergency',
+  medical: 'medical emergency',
+  general: 'emergency SOS',
+};
+
+function composeMessage(alert: AlertRecord, senderName: string) {
+  const mapUrl = `https://www.google.com/maps/search/?api=1&query=${alert.latitude},${alert.longitude}`;
+  const statusUrl = `${FUNCTIONS_URL}/alert-status?token=${alert.status_token}`;
+  const sentAt = new Date(alert.created_at).toUTCString();
+
+  return {
+    subject: `Emergency alert from ${senderName}`,
+    body: [
+      `${senderName} has sent an ${TYPE_LABELS[alert.type]} alert (${sentAt}).`,
+      alert.description ?? `Location: ${alert.latitude.toFixed(6)}, ${alert.longitude.toFixed(6)}`,
+      `Map: ${mapUrl}`,
+      `Live status: ${statusUrl}`,
+      ...(alert.silent
+        ? ['This alert was sent silently. Do not call or text them: it could put them in danger.']
+        : []),
+      'You are listed as one of their emergency contacts.',
+    ].join('\n'),
+  };
+}
+
+async function notifyContacts(alert: AlertRecord, contacts: Contact[], escalationLevel: number) {
+  const providers = getMessagingProviders();
+
+  const { data: sender } = await supabaseAdmin
+    .from('users')
+    .select('full_name')
+    .eq('id', alert.user_id)
+    .maybeSingle();
+  const message = composeMessage(alert, sender?.full_name || 'Someone');
+
+  const rows = [];
+  for (const contact of contacts) {
+    const destinations: [MessageChannel, string | null][] = [
+      ['sms', contact.phone_number],
+      ['email', contact.email],
+    ];
+
+    for (const [channel, destination] of destinations) {
+      const provider = providers[channel];
+      if (!destination || !provider) continue;
+
+      const result = await provider.send({
+        ...message,
+        to: destination,
+        statusCallbackUrl: channel === 'sms' ? TWILIO_CALLBACK_URL : undefined,
+      });
+
+      rows.push({
+        alert_id: alert.id,
+        contact_id: contact.contact_id,
+        channel,
+        destination,
+        escalation_level: escalationLevel,
+        status: result.ok ? 'sent' : 'failed',
+        provider: provider.name,
+        provider_message_id: result.ok ? result.providerMessageId : null,
+        error_message: result.ok ? null : result.error,
+      });
+    }
+  }
+
+  if (rows.length > 0) {
+    const { error } = await supabaseAdmin.from('contact_notifications').insert(rows);
+    if (error) {
+      console.error('Error recording contact notifications:', error);
+    }
+  }
+
+  return rows;
+}
+
+async function handleAlertCreated(alert: AlertRecord) {
+  const { data: contacts, error } = await supabaseAdmin
+    .from('alert_contacts')
+    .select('contact_id, name, phone_number, email, is_primary')
+    .eq('alert_id', alert.id)
+    .order('is_primary', { ascending: false });
+  if (error) throw error;
+  if (!contacts?.length) return { notified: 0 };
+
+  const primary = contacts.filter((contact) => contact.is_primary);
+  if (NOTIFY_MODE !== 'primary_first' || primary.length === 0) {
+    const rows = await notifyContacts(alert, contacts, 0);
+    return { notified: rows.length };
+  }
+
+  const rows = await notifyContacts(alert, primary, 0);
+
+  // Nobody reached: don't wait for the escalation window
+  if (rows.every((row) => row.status === 'failed')) {
+    const others = contacts.filter((contact) => !contact.is_primary);
+    const escalated = await notifyContacts(alert, others, 1);
+    return { notified: rows.length + escalated.length, escalated: true };
+  }
+
+  return { notified: rows.length };
+}
+
+async function escalateOpenAlerts() {
+  const cutoff = new Date(Date.now() - ESCALATION_DELAY_SECONDS * 1000).toISOString();
+
+  const { data: alerts, error } = await supabaseAdmin
+    .from('alerts')
+    .select('*, contact_notifications(escalation_level)')
+    .in('status', OPEN_STATUSES)
+    .lt('created_at', cutoff)
+    // Older alerts were already handled or predate this feature
+    .gt('created_at', new Date(Date.now() - 24 * 60 * 60 * 1000).toISOString());
+  if (error) throw error;
+
+  let escalated = 0;
+  for (const { contact_notifications: notifications, ...alert } of alerts ?? []) {
+    const levels = (notifications ?? []).map((row: { escalation_level: number }) => row.escalation_level);
+    if (!levels.includes(0) || levels.includes(1)) continue;
+
+    const { data: others } = await supabaseAdmin
+      .from('alert_contacts')
+      .select('contact_id, name, phone_number, email, is_primary')
+      .eq('alert_id', alert.id)
+      .eq('is_primary', false);
+
+    if (others?.length) {
+      await notifyContacts(alert as AlertRecord, others, 1);
+      escalated++;
+    }
+  }
+
+  return { escalated };
+}
+
+// Twilio posts form-encoded status updates for each message
+async function handleTwilioCallback(req: Request) {
+  const form = await req.formData();
+  const authToken = Deno.env.get('TWILIO_AUTH_TOKEN');
+  const params = [...form.entries()].map(([name, value]): [string, string] => [name, String(value)]);
+  if (!authToken || !(await isValidTwilioSignature(authToken, TWILIO_CALLBACK_URL, params, req.headers.get('X-Twilio-Signature')))) {
+    return jsonResponse({ error: 'Unauthorized' }, 401);
+  }
+
+  const messageSid = form.get('MessageSid');
+  const messageStatus = form.get('MessageStatus');
+
+  const status =
+    messageStatus === 'delivered'
+      ? 'delivered'
+      : messageStatus === 'failed' || messageStatus === 'undelivered'
+        ? 'failed'
+        : null;
+
+  if (messageSid && status) {
+    await supabaseAdmin
+      .from('contact_notifications')
+      .update({ status, error_message: form.get('ErrorCode') ? `Twilio error ${form.get('ErrorCode')}` : null })
+      .eq('provider_message_id', messageSid);
+  }
+
+  return new Response(null, { status: 204 });
+}
+
+Deno.serve(async (req) => {
+  const url = new URL(req.url);
+
+  if (url.searchParams.get('callback') === 'twilio') {
+    return handleTwilioCallback(req);
+  }
+
+  if (!isAuthorizedWebhook(req)) {
+    return jsonResponse({ error: 'Unauthorized' }, 401);
+  }
+
+  try {
+    const payload = await req.json();
+
+    if (payload.type === 'ESCALATE') {
+      if (NOTIFY_MODE !== 'primary_first') {
+        return jsonResponse({ skipped: true });
+      }
+      return jsonResponse(await escalateOpenAlerts());
+    }
+
+    const { type, record } = payload as WebhookPayload<AlertRecord>;
+    if (type === 'INSERT') {
+      return jsonResponse(await handleAlertCreated(record));
+    }
+
+    return jsonResponse({ skipped: true });
+  } catch (error) {
+    console.error('notify-contacts error:', error);
+    return jsonResponse({ error: (error as Error).message }, 500);
+  }
+});
@@ -0,0 +1,100 @@
+/*
+  Tells a responder about an admin's verification decision.
+
+  Invoked by the `notify_responder_review` trigger on each insert into
+  `responder_verification_events`. Sends a push notification when the
+  responder has a push token, and an email to their account address when an
+  email provider is configured (see `getMessagingProviders`).
+
+  Deploy with `--no-verify-jwt`: callers are authenticated by WEBHOOK_SECRET.
+*/
+import { supabaseAdmin } from '../_shared/supabase-admin.ts';
+import { sendExpoPushMessages } from '../_shared/expo-push.ts';
+import { WebhookPayload, isAuthorizedWebhook, jsonResponse } from '../_shared/webhook.ts';
+import { getMessagingProviders } from '../_shared/messaging/index.ts';
+
+type VerificationEvent = {
+  id: string;
+  responder_id: string;
+  decision: 'approved' | 'rejected' | 'revoked';
+  reason: string | null;
+};
+
+function composeMessage(event: VerificationEvent, organizationName: string) {
+  switch (event.decision) {
+    case 'approved':
+      return {
+        subject: 'Your responder account is verified',
+        body: `${organizationName} has been verified. You will now receive emergency alerts in your service area.`,
+      };
+    case 'rejected':
+      return {
+        subject: 'Your responder verification was not approved',
+        body: `${organizationName} could not be verified: ${event.reason}\nUpdate your credentials in Settings to be reviewed again.`,
+      };
+    case 'revoked':
+      return {
+        subject: 'Your responder verification has been revoked',
+        body: `Verification for ${organizationName} has been revoked: ${event.reason}\nYou will no longer receive emergency alerts.`,
+      };
+  }
+}
+
+async function notifyResponder(event: VerificationEvent) {
+  const { data: responder, error } = await supabaseAdmin
+    .from('responders')
+    .select('organization_name, push_token')
+    .eq('id', event.responder_id)
+    .maybeSingle();
+  if (error) throw error;
+  if (!responder) return { skipped: true };
+
+  const message = composeMessage(event, responder.organization_name);
+  let pushed = false;
+  let emailed = false;
+
+  if (responder.push_token) {
+    const [ticket] = await sendExpoPushMessages([
+      {
+        to: responder.push_token,
+        title: message.subject,
+        body: message.body,
+        data: { event: 'verification_reviewed', decision: event.decision },
+        sound: 'default',
+      },
+    ]);
+    pushed = ticket?.status === 'ok';
+  }
+
+  const email = getMessagingProviders().email;
+  if (email) {
+    const { data: { user } } = await supabaseAdmin.auth.admin.getUserById(event.responder_id);
+    if (user?.email) {
+      const result = await email.send({ ...message, to: user.email });
+      emailed = result.ok;
+      if (!result.ok) {
+        console.error('Error emailing verification decision:', result.error);
+      }
+    }
+  }
+
+  return { pushed, emailed };
+}
+
+Deno.serve(async (req) => {
+  if (!isAuthorizedWebhook(req)) {
+    return jsonResponse({ error: 'Unauthorized' }, 401);
+  }
+
+  try {
+    const { type, record } = (await req.json()) as WebhookPayload<VerificationEvent>;
+    if (type !== 'INSERT') {
+      return jsonResponse({ skipped: true });
+    }
+
+    return jsonResponse(await notifyResponder(record));
+  } catch (error) {
+    console.error('responder-review error:', error);
+    return jsonResponse({ error: (error as Error).message }, 500);
+  }
+});
@@ -0,0 +1,217 @@
+/*
+  Runs alert-push end to end against the Expo stub, which this file serves on
+  port 8788, and checks who gets paged and the push_deliveries rows it
+  records. Needs the local stack:
+
+    npx supabase start
+    EXPO_PUSH_API_URL=http://host.docker.internal:8788 \
+      npx supabase functions serve alert-push --no-verify-jwt --env-file supabase/.env.local
+    SUPABASE_URL=http://localhost:54321 SUPABASE_SERVICE_ROLE_KEY=... WEBHOOK_SECRET=... \
+      deno test --allow-net --allow-env supabase/functions/tests
+
+  Leave app.settings.edge_functions_url unset so the alert changes made here
+  don't invoke the function a second time. Skipped when the service role key
+  isn't set.
+*/
+import assert from 'node:assert/strict';
+import { createClient } from 'npm:@supabase/supabase-js@2';
+import { createExpoPushStub } from '../_shared/expo-push-stub.ts';
+
+const SUPABASE_URL = Deno.env.get('SUPABASE_URL') ?? 'http://localhost:54321';
+const SERVICE_ROLE_KEY = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY');
+const WEBHOOK_SECRET = Deno.env.get('WEBHOOK_SECRET') ?? '';
+
+const LONDON = 'SRID=4326;POINT(-0.12 51.5)';
+
+function alertPush(body: unknown, secret = WEBHOOK_SECRET) {
+  return fetch(`${SUPABASE_URL}/functions/v1/alert-push`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json', 'x-webhook-secret': secret },
+    body: JSON.stringify(body),
+  });
+}
+
+async function post(body: unknown) {
+  const response = await alertPush(body);
+  assert.equal(response.status, 200);
+  return response.json();
+}
+
+Deno.test({
+  name: 'rejects webhooks without the shared secret',
+  ignore: !SERVICE_ROLE_KEY,
+  fn: async () => {
+    const response = await alertPush({ type: 'RECEIPTS' }, 'forged');
+    assert.equal(response.status, 401);
+    await response.body?.cancel();
+  },
+});
+
+Deno.test({
+  name: 'pages the right responders, tells the reporter, and records tickets and receipts',
+  ignore: !SERVICE_ROLE_KEY,
+  sanitizeResources: false,
+  sanitizeOps: false,
+  fn: async () => {
+    const stub = createExpoPushStub();
+    const server = Deno.serve({ port: 8788, onListen: () => {} }, stub.handler);
+    const admin = createClient(SUPABASE_URL, SERVICE_ROLE_KEY!, {
+      auth: { persistSession: false, autoRefreshToken: false },
+    });
+
+    const run = crypto.randomUUID();
+    const createUser = async (name: string) => {
+      const { data, error } = await admin.auth.admin.createUser({
+        email: `alert-push-${name}-${run}@example.com`,
+        email_confirm: true,
+      });
+      if (error) throw error;
+      return data.user.id;
+    };
+
+    const reporterId = await createUser('reporter');
+    const policeId = await createUser('police');
+    const stalePoliceId = await createUser('stale-police');
+    const hospitalId = await createUser('hospital');
+    const unmappedId = await createUser('unmapped');
+    const userIds = [reporterId, policeId, stalePoliceId, hospitalId, unmappedId];
+
+    // Tokens are unique per run, since receipt collection also sees other runs' rows
+    const token = (name: string) => `${name}-${run}`;
+
+    try {
+      await admin
+        .from('users')
+        .insert({ id: reporterId, email: `alert-push-reporter-${run}@example.com`, push_token: token('reporter') })
+        .throwOnError();
+
+      const verified = { verification_status: true, verification_state: 'approved' };
+      await admin
+        .from('responders')
+        .insert([
+          { ...verified, id: policeId, organization_name: 'City Police', responder_type: 'police', push_token: token('police'), station_location: LONDON, service_radius_m: 5000 },
+          { ...verified, id: stalePoliceId, organization_name: 'Borough Police', responder_type: 'police', push_token: token('stale-police'), station_location: LONDON, service_radius_m: 5000 },
+          { ...verified, id: hospitalId, organization_name: 'City Hospital', responder_type: 'hospital', push_token: token('hospital'), station_location: LONDON, service_radius_m: 5000 },
+          { ...verified, id: unmappedId, organization_name: 'Unmapped Police', responder_type: 'police', push_token: token('unmapped') },
+        ])
+        .throwOnError();
+
+      const { data: silentAlert } = await admin
+        .from('alerts')
+        .insert({ user_id: reporterId, type: 'police', latitude: 51.5, longitude: -0.12, silent: true })
+        .select()
+        .single()
+        .throwOnError();
+
+      // A police alert pages the police units covering it, and nobody else
+      assert.deepEqual(await post({ type: 'INSERT', table: 'alerts', schema: 'public', record: silentAlert, old_record: null }), {
+        sent: 2,
+        failed: 0,
+      });
+      const paged = stub.batches.at(-1)!;
+      assert.deepEqual(paged.map((message) => message.to).sort(), [token('police'), token('stale-police')]);
+      assert.equal(paged[0].title, 'SILENT Police Emergency');
+      assert.match(paged[0].body, /^Do not call or text the reporter\./);
+
+      // The reporter of a silent alert hears nothing about responder updates
+      const batchesBefore = stub.batches.length;
+      assert.deepEqual(
+        await post({
+          type: 'UPDATE',
+          table: 'alerts',
+          schema: 'public',
+          record: { ...silentAlert, status: 'acknowledged' },
+          old_record: silentAlert,
+        }),
+        { skipped: true }
+      );
+      assert.equal(stub.batches.length, batchesBefore);
+
+      // Withdrawing it tells the units that were paged
+      const { data: cancelled } = await admin
+        .from('alerts')
+        .update({ status: 'cancelled' })
+        .eq('id', silentAlert!.id)
+        .select()
+        .single()
+        .throwOnError();
+      assert.deepEqual(
+        await post({ type: 'UPDATE', table: 'alerts', schema: 'public', record: cancelled, old_record: silentAlert }),
+        { sent: 2, failed: 0 }
+      );
+      const withdrawn = stub.batches.at(-1)!;
+      assert.deepEqual(withdrawn.map((message) => message.to).sort(), [token('police'), token('stale-police')]);
+      assert.equal(withdrawn[0].title, 'Police Emergency withdrawn');
+
+      // Any other alert's reporter is told when a responder moves it on
+      const { data: alert } = await admin
+        .from('alerts')
+        .insert({ user_id: reporterId, type: 'general', latitude: 51.5, longitude: -0.12 })
+        .select()
+        .single()
+        .throwOnError();
+      assert.deepEqual(
+        await post({
+          type: 'UPDATE',
+          table: 'alerts',
+          schema: 'public',
+          record: { ...alert, status: 'acknowledged' },
+          old_record: alert,
+        }),
+        { sent: 1, failed: 0 }
+      );
+      assert.deepEqual(stub.batches.at(-1)!.map(({ to, body }) => ({ to, body })), [
+        { to: token('reporter'), body: 'Your emergency sos alert is now acknowledged.' },
+      ]);
+
+      const { data: deliveries } = await admin
+        .from('push_deliveries')
+        .select('event, recipient_id, ticket_status')
+        .in('alert_id', [silentAlert!.id, alert!.id])
+        .throwOnError();
+      const summary = deliveries!
+        .map(({ event, recipient_id, ticket_status }) => `${event} ${recipient_id} ${ticket_status}`)
+        .sort();
+      assert.deepEqual(
+        summary,
+        [
+          `alert_created ${policeId} ok`,
+          `alert_created ${stalePoliceId} ok`,
+          `alert_withdrawn ${policeId} ok`,
+          `alert_withdrawn ${stalePoliceId} ok`,
+          `status_changed ${reporterId} ok`,
+        ].sort()
+      );
+
+      // Receipts mark the uninstalled app and stop sending to its token
+      const receipts = await post({ type: 'RECEIPTS' });
+      assert.ok(receipts.checked >= 5);
+
+      const { data: stale } = await admin
+        .from('push_deliveries')
+        .select('receipt_status, error_code')
+        .eq('recipient_id', stalePoliceId)
+        .throwOnError();
+      assert.deepEqual(stale, [
+        { receipt_status: 'error', error_code: 'DeviceNotRegistered' },
+        { receipt_status: 'error', error_code: 'DeviceNotRegistered' },
+      ]);
+
+      const { data: responders } = await admin
+        .from('responders')
+        .select('id, push_token')
+        .in('id', [policeId, stalePoliceId])
+        .throwOnError();
+      assert.deepEqual(
+        Object.fromEntries(responders!.map(({ id, push_token }) => [id, push_token])),
+        { [policeId]: token('police'), [stalePoliceId]: null }
+      );
+    } finally {
+      // Cascades to the profiles, alerts and delivery rows
+      for (const id of userIds) {
+        await admin.auth.admin.deleteUser(id);
+      }
+      await server.shutdown();
+    }
+  },
+});
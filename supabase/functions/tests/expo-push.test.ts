@@ -0,0 +1,56 @@
+// Batching, ticket and receipt handling in _shared/expo-push.ts, against the
+// local Expo stub. Run with `deno test --allow-net --allow-env supabase/functions/tests`.
+import assert from 'node:assert/strict';
+import { createExpoPushStub } from '../_shared/expo-push-stub.ts';
+
+const stub = createExpoPushStub();
+const server = Deno.serve({ port: 0, onListen: () => {} }, stub.handler);
+Deno.env.set('EXPO_PUSH_API_URL', `http://localhost:${server.addr.port}`);
+
+// Imported after the env is set, since the module reads it on load
+const { getExpoPushReceipts, sendExpoPushMessages } = await import('../_shared/expo-push.ts');
+
+const message = (to: string) => ({ to, title: 'Police Emergency', body: 'Test' });
+
+Deno.test('sends in batches of 100 and returns one ticket per message, in order', async () => {
+  stub.batches.length = 0;
+  const tokens = Array.from({ length: 250 }, (_, i) => (i % 50 === 7 ? `invalid-${i}` : `token-${i}`));
+
+  const tickets = await sendExpoPushMessages(tokens.map(message));
+
+  assert.deepEqual(stub.batches.map((batch) => batch.length), [100, 100, 50]);
+  assert.equal(tickets.length, 250);
+  assert.deepEqual(tickets[7], {
+    status: 'error',
+    message: '"invalid-7" is not a registered push notification recipient',
+    details: { error: 'DeviceNotRegistered' },
+  });
+  assert.equal(tickets[8].status, 'ok');
+  assert.equal(tickets.filter((ticket) => ticket.status === 'error').length, 5);
+});
+
+Deno.test('a batch that fails outright yields an error ticket per message', async () => {
+  const tickets = await sendExpoPushMessages([message('token-a'), message('fail-batch'), message('token-b')]);
+
+  assert.equal(tickets.length, 3);
+  assert.equal(tickets.every((ticket) => ticket.status === 'error'), true);
+});
+
+Deno.test('receipts report DeviceNotRegistered for stale tokens', async () => {
+  const tickets = await sendExpoPushMessages([message('token-c'), message('stale-token')]);
+  const ids = tickets.map((ticket) => (ticket.status === 'ok' ? ticket.id : ''));
+
+  const receipts = await getExpoPushReceipts(ids);
+
+  assert.deepEqual(receipts[ids[0]], { status: 'ok' });
+  assert.deepEqual(receipts[ids[1]], {
+    status: 'error',
+    message: 'The recipient device is not registered with FCM.',
+    details: { error: 'DeviceNotRegistered' },
+  });
+});
+
+Deno.test({
+  name: 'stop the stub',
+  fn: () => server.shutdown(),
+});
@@ -0,0 +1,122 @@
+/*
+  Runs the geocode proxy end to end against the geocoding stub, which this
+  file serves on port 8089. Needs the local stack:
+
+    npx supabase start
+    GEOCODING_PROVIDER=nominatim NOMINATIM_API_URL=http://host.docker.internal:8089 GEOCODE_RATE_LIMIT=5 \
+      npx supabase functions serve geocode --env-file supabase/.env.local
+    SUPABASE_URL=http://localhost:54321 SUPABASE_ANON_KEY=... SUPABASE_SERVICE_ROLE_KEY=... GEOCODE_RATE_LIMIT=5 \
+      deno test --allow-net --allow-env supabase/functions/tests
+
+  Skipped when the anon or service role key isn't set.
+*/
+import assert from 'node:assert/strict';
+import { createClient } from 'npm:@supabase/supabase-js@2';
+import { createGeocodingStub } from '../_shared/geocoding/stub-server.ts';
+
+const SUPABASE_URL = Deno.env.get('SUPABASE_URL') ?? 'http://localhost:54321';
+const ANON_KEY = Deno.env.get('SUPABASE_ANON_KEY');
+const SERVICE_ROLE_KEY = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY');
+const RATE_LIMIT = Number(Deno.env.get('GEOCODE_RATE_LIMIT') ?? 30);
+
+const ignore = !ANON_KEY || !SERVICE_ROLE_KEY;
+
+function geocode(body: unknown, accessToken?: string) {
+  return fetch(`${SUPABASE_URL}/functions/v1/geocode`, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      apikey: ANON_KEY ?? '',
+      ...(accessToken ? { Authorization: `Bearer ${accessToken}` } : {}),
+    },
+    body: typeof body === 'string' ? body : JSON.stringify(body),
+  });
+}
+
+Deno.test({
+  name: 'rejects requests without a user session',
+  ignore,
+  fn: async () => {
+    const response = await geocode({ latitude: 51.5, longitude: -0.12 });
+    assert.equal(response.status, 401);
+    await response.body?.cancel();
+  },
+});
+
+Deno.test({
+  name: 'validates, geocodes through the provider and limits each user',
+  ignore,
+  sanitizeResources: false,
+  sanitizeOps: false,
+  fn: async () => {
+    const stub = createGeocodingStub();
+    const server = Deno.serve({ port: 8089, onListen: () => {} }, stub.handler);
+    const admin = createClient(SUPABASE_URL, SERVICE_ROLE_KEY!, {
+      auth: { persistSession: false, autoRefreshToken: false },
+    });
+
+    const email = `geocode-${crypto.randomUUID()}@example.com`;
+    const password = crypto.randomUUID();
+    const { data: created, error: userError } = await admin.auth.admin.createUser({
+      email,
+      password,
+      email_confirm: true,
+    });
+    if (userError) throw userError;
+
+    try {
+      const client = createClient(SUPABASE_URL, ANON_KEY!, {
+        auth: { persistSession: false, autoRefreshToken: false },
+      });
+      const { data: signedIn, error: signInError } = await client.auth.signInWithPassword({ email, password });
+      if (signInError) throw signInError;
+      const token = signedIn.session.access_token;
+
+      const invalid = await geocode('not json', token);
+      assert.equal(invalid.status, 400);
+      assert.deepEqual(await invalid.json(), { error: 'Request body must be JSON' });
+
+      const empty = await geocode({ query: '  ' }, token);
+      assert.equal(empty.status, 400);
+      await empty.body?.cancel();
+
+      const reverse = await geocode({ latitude: 51.5034, longitude: -0.1276 }, token);
+      assert.equal(reverse.status, 200);
+      assert.equal(reverse.headers.get('Access-Control-Allow-Origin'), '*');
+      const { address } = await reverse.json();
+      assert.equal(address.street, '10 Downing Street');
+      assert.equal(address.precision, 'building');
+      assert.equal(address.confidence, 0.9);
+      assert.equal(address.provider, 'nominatim');
+
+      const nothing = await geocode({ latitude: 89.5, longitude: 0 }, token);
+      assert.deepEqual(await nothing.json(), { address: null });
+
+      const search = await geocode({ query: 'Downing Street', limit: 50 }, token);
+      const { addresses } = await search.json();
+      assert.equal(addresses.length, 1);
+      assert.equal(stub.requests.at(-1)?.searchParams.get('limit'), '10');
+
+      const failed = await geocode({ query: 'fail' }, token);
+      assert.equal(failed.status, 502);
+      assert.deepEqual(await failed.json(), { error: 'nominatim responded with 500' });
+
+      // Validation failures aren't counted, so four lookups have been made so far
+      const statuses: number[] = [];
+      for (let i = 5; i <= RATE_LIMIT; i++) {
+        const response = await geocode({ latitude: 51.5, longitude: -0.12 }, token);
+        statuses.push(response.status);
+        await response.body?.cancel();
+      }
+      assert.equal(statuses.every((status) => status === 200), true);
+
+      const limited = await geocode({ latitude: 51.5, longitude: -0.12 }, token);
+      assert.equal(limited.status, 429);
+      await limited.body?.cancel();
+    } finally {
+      // Cascades to the geocode quota row
+      await admin.auth.admin.deleteUser(created.user.id);
+      await server.shutdown();
+    }
+  },
+});
@@ -0,0 +1,121 @@
+// The Nominatim and LocationIQ providers in _shared/geocoding, against the
+// local geocoding stub. Run with `deno test --allow-net --allow-env supabase/functions/tests`.
+import assert from 'node:assert/strict';
+import { createGeocodingStub } from '../_shared/geocoding/stub-server.ts';
+import { LocationIqProvider, NominatimProvider, toGeocodedAddress } from '../_shared/geocoding/nominatim.ts';
+
+const stub = createGeocodingStub();
+const server = Deno.serve({ port: 0, onListen: () => {} }, stub.handler);
+const apiUrl = `http://localhost:${server.addr.port}`;
+
+const nominatim = new NominatimProvider({ apiUrl, userAgent: 'emergency-alert-tests' });
+const locationIq = new LocationIqProvider('test-token', apiUrl);
+
+Deno.test('reverse geocodes a point to a building-level address', async () => {
+  const result = await nominatim.reverse(51.5034, -0.1276);
+
+  assert.deepEqual(result, {
+    ok: true,
+    address: {
+      formatted: '10 Downing Street, Westminster, London, SW1A 2AA, United Kingdom',
+      street: '10 Downing Street',
+      city: 'London',
+      region: 'England',
+      postcode: 'SW1A 2AA',
+      country: 'United Kingdom',
+      latitude: 51.5034,
+      longitude: -0.1276,
+      precision: 'building',
+      confidence: 0.9,
+      provider: 'nominatim',
+    },
+  });
+});
+
+Deno.test('an error body and a 404 both mean there is no address', async () => {
+  assert.deepEqual(await nominatim.reverse(89.5, 0), { ok: true, address: null });
+  assert.deepEqual(await nominatim.reverse(-89.5, 0), { ok: true, address: null });
+  assert.deepEqual(await locationIq.reverse(-89.5, 0), { ok: true, address: null });
+  assert.deepEqual(await locationIq.search('nowhere', 5), { ok: true, addresses: [] });
+});
+
+Deno.test('other error statuses are reported as failures', async () => {
+  assert.deepEqual(await nominatim.search('fail', 5), {
+    ok: false,
+    error: 'nominatim responded with 500',
+    status: 500,
+  });
+  assert.deepEqual(await locationIq.search('fail', 5), {
+    ok: false,
+    error: 'locationiq responded with 500',
+    status: 500,
+  });
+});
+
+Deno.test('an unreachable server is a failure without a status', async () => {
+  const offline = new NominatimProvider({ apiUrl: 'http://localhost:1' });
+
+  const result = await offline.reverse(51.5, -0.12);
+
+  assert.equal(result.ok, false);
+  assert.equal('status' in result, false);
+});
+
+Deno.test('search passes the limit on and labels results with the provider', async () => {
+  const result = await locationIq.search('Downing Street', 1);
+
+  assert.equal(result.ok, true);
+  assert.equal(result.ok && result.addresses.length, 1);
+  assert.equal(result.ok && result.addresses[0].provider, 'locationiq');
+});
+
+Deno.test('LocationIQ requests carry the key and its json format', async () => {
+  stub.requests.length = 0;
+
+  await locationIq.reverse(51.5, -0.12);
+
+  const [url] = stub.requests;
+  assert.equal(url.pathname, '/reverse');
+  assert.equal(url.searchParams.get('key'), 'test-token');
+  assert.equal(url.searchParams.get('format'), 'json');
+  assert.equal(url.searchParams.get('addressdetails'), '1');
+});
+
+Deno.test('precision and confidence follow the finest address part present', () => {
+  const at = (address: Record<string, string>) => toGeocodedAddress({ lat: '51.5', lon: '-0.12', address }, 'test');
+
+  assert.deepEqual(
+    [
+      at({ house_number: '10', road: 'Downing Street' }),
+      at({ road: 'Downing Street', city: 'London' }),
+      at({ village: 'Grantchester', county: 'Cambridgeshire' }),
+      at({ county: 'Cambridgeshire', state: 'England' }),
+      at({ country: 'United Kingdom' }),
+      toGeocodedAddress({ lat: '51.5', lon: '-0.12' }, 'test'),
+    ].map(({ precision, confidence }) => [precision, confidence]),
+    [
+      ['building', 0.9],
+      ['street', 0.75],
+      ['locality', 0.5],
+      ['region', 0.25],
+      ['country', 0.1],
+      ['country', 0.1],
+    ]
+  );
+});
+
+Deno.test('falls back to the coordinates and coarser parts when details are missing', () => {
+  const address = toGeocodedAddress(
+    { lat: '51.5', lon: '-0.12', address: { suburb: 'Westminster', county: 'Greater London' } },
+    'test'
+  );
+
+  assert.equal(address.formatted, '51.5, -0.12');
+  assert.equal(address.street, 'Westminster');
+  assert.equal(address.city, 'Greater London');
+});
+
+Deno.test({
+  name: 'stop the stub',
+  fn: () => server.shutdown(),
+});
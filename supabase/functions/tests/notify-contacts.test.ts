@@ -0,0 +1,104 @@
+/*
+  Runs notify-contacts end to end with the fake messaging provider and checks
+  the contact_notifications rows it records. Needs the local stack:
+
+    npx supabase start
+    MESSAGING_PROVIDER=fake FAKE_MESSAGING_FAIL_TO=+15550000002 \
+      npx supabase functions serve notify-contacts --no-verify-jwt --env-file supabase/.env.local
+    SUPABASE_URL=http://localhost:54321 SUPABASE_SERVICE_ROLE_KEY=... WEBHOOK_SECRET=... \
+      deno test --allow-net --allow-env supabase/functions/tests
+
+  Leave app.settings.edge_functions_url unset so inserting the alert doesn't
+  invoke the function a second time. Skipped when the service role key isn't set.
+*/
+import assert from 'node:assert/strict';
+import { createClient } from 'npm:@supabase/supabase-js@2';
+
+const SUPABASE_URL = Deno.env.get('SUPABASE_URL') ?? 'http://localhost:54321';
+const SERVICE_ROLE_KEY = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY');
+const WEBHOOK_SECRET = Deno.env.get('WEBHOOK_SECRET') ?? '';
+
+Deno.test({
+  name: 'notifies every contact by SMS and email and records each attempt',
+  ignore: !SERVICE_ROLE_KEY,
+  sanitizeResources: false,
+  sanitizeOps: false,
+  fn: async () => {
+    const admin = createClient(SUPABASE_URL, SERVICE_ROLE_KEY!, {
+      auth: { persistSession: false, autoRefreshToken: false },
+    });
+
+    const email = `notify-contacts-${crypto.randomUUID()}@example.com`;
+    const { data: created, error: userError } = await admin.auth.admin.createUser({ email, email_confirm: true });
+    if (userError) throw userError;
+    const userId = created.user.id;
+
+    try {
+      await admin.from('users').insert({ id: userId, email, full_name: 'Alice' }).throwOnError();
+      await admin
+        .from('contacts')
+        .insert([
+          { user_id: userId, name: 'Sister', phone_number: '+15550000001', email: 'sister@example.com', is_primary: true },
+          { user_id: userId, name: 'Neighbour', phone_number: '+15550000002', is_primary: false },
+        ])
+        .throwOnError();
+
+      const { data: alert } = await admin
+        .from('alerts')
+        .insert({ user_id: userId, type: 'medical', latitude: 51.5, longitude: -0.12 })
+        .select()
+        .single()
+        .throwOnError();
+
+      const response = await fetch(`${SUPABASE_URL}/functions/v1/notify-contacts`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json', 'x-webhook-secret': WEBHOOK_SECRET },
+        body: JSON.stringify({ type: 'INSERT', table: 'alerts', schema: 'public', record: alert, old_record: null }),
+      });
+      assert.equal(response.status, 200);
+      assert.deepEqual(await response.json(), { notified: 3 });
+
+      const { data: rows } = await admin
+        .from('contact_notifications')
+        .select('channel, destination, status, provider, escalation_level, provider_message_id, error_message')
+        .eq('alert_id', alert!.id)
+        .order('destination')
+        .throwOnError();
+
+      assert.deepEqual(
+        rows!.map(({ channel, destination, status, provider, escalation_level }) => ({
+          channel,
+          destination,
+          status,
+          provider,
+          escalation_level,
+        })),
+        [
+          { channel: 'sms', destination: '+15550000001', status: 'sent', provider: 'fake', escalation_level: 0 },
+          { channel: 'sms', destination: '+15550000002', status: 'failed', provider: 'fake', escalation_level: 0 },
+          { channel: 'email', destination: 'sister@example.com', status: 'sent', provider: 'fake', escalation_level: 0 },
+        ]
+      );
+      assert.match(rows![0].provider_message_id!, /^fake-/);
+      assert.equal(rows![1].provider_message_id, null);
+      assert.equal(rows![1].error_message, 'Fake delivery failure for +15550000002');
+    } finally {
+      // Cascades to the profile, contacts, alert and notification rows
+      await admin.auth.admin.deleteUser(userId);
+    }
+  },
+});
+
+Deno.test({
+  name: 'rejects Twilio callbacks without a valid signature',
+  ignore: !SERVICE_ROLE_KEY,
+  fn: async () => {
+    const response = await fetch(`${SUPABASE_URL}/functions/v1/notify-contacts?callback=twilio`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/x-www-form-urlencoded', 'X-Twilio-Signature': 'forged' },
+      body: new URLSearchParams({ MessageSid: 'SM123', MessageStatus: 'delivered' }),
+    });
+    assert.equal(response.status, 401);
+    await response.body?.cancel();
+  },
+});
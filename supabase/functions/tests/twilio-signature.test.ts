@@ -0,0 +1,32 @@
+// X-Twilio-Signature checks on notify-contacts' delivery callbacks.
+// Run with `deno test --allow-net --allow-env supabase/functions/tests`.
+import assert from 'node:assert/strict';
+import { isValidTwilioSignature } from '../_shared/messaging/twilio.ts';
+
+// The worked example from Twilio's request validation docs
+const AUTH_TOKEN = '12345';
+const URL = 'https://mycompany.com/myapp.php?foo=1&bar=2';
+const PARAMS: [string, string][] = [
+  ['Digits', '1234'],
+  ['To', '+18005551212'],
+  ['From', '+12349013030'],
+  ['Caller', '+12349013030'],
+  ['CallSid', 'CA1234567890ABCDE'],
+];
+const SIGNATURE = '0/KCTR6DLpKmkAf8muzZqo1nDgQ=';
+
+Deno.test('accepts the signature Twilio computes, whatever order params arrive in', async () => {
+  assert.equal(await isValidTwilioSignature(AUTH_TOKEN, URL, PARAMS, SIGNATURE), true);
+});
+
+Deno.test('rejects a missing or wrong signature', async () => {
+  assert.equal(await isValidTwilioSignature(AUTH_TOKEN, URL, PARAMS, null), false);
+  assert.equal(await isValidTwilioSignature(AUTH_TOKEN, URL, PARAMS, 'AAAAAAAAAAAAAAAAAAAAAAAAAAA='), false);
+  assert.equal(await isValidTwilioSignature('other-token', URL, PARAMS, SIGNATURE), false);
+});
+
+Deno.test('rejects a signature over different params or another URL', async () => {
+  const tampered: [string, string][] = [...PARAMS.slice(1), ['Digits', '9999']];
+  assert.equal(await isValidTwilioSignature(AUTH_TOKEN, URL, tampered, SIGNATURE), false);
+  assert.equal(await isValidTwilioSignature(AUTH_TOKEN, `${URL}&token=x`, PARAMS, SIGNATURE), false);
+});
@@ -0,0 +1,32 @@
+// The shared-secret check on database webhooks.
+// Run with `deno test --allow-net --allow-env supabase/functions/tests`.
+import assert from 'node:assert/strict';
+import { isAuthorizedWebhook, timingSafeEqual } from '../_shared/webhook.ts';
+
+const request = (secret?: string) =>
+  new Request('http://localhost/alert-push', {
+    method: 'POST',
+    headers: secret === undefined ? {} : { 'x-webhook-secret': secret },
+  });
+
+Deno.test('accepts only the configured secret', () => {
+  Deno.env.set('WEBHOOK_SECRET', 'correct-horse');
+
+  assert.equal(isAuthorizedWebhook(request('correct-horse')), true);
+  assert.equal(isAuthorizedWebhook(request('correct-hors')), false);
+  assert.equal(isAuthorizedWebhook(request('correct-horsf')), false);
+  assert.equal(isAuthorizedWebhook(request()), false);
+});
+
+Deno.test('rejects everything when no secret is configured', () => {
+  Deno.env.delete('WEBHOOK_SECRET');
+
+  assert.equal(isAuthorizedWebhook(request('')), false);
+});
+
+Deno.test('compares strings of any length', () => {
+  assert.equal(timingSafeEqual('', ''), true);
+  assert.equal(timingSafeEqual('abc', 'abc'), true);
+  assert.equal(timingSafeEqual('abc', 'abd'), false);
+  assert.equal(timingSafeEqual('abc', 'abcd'), false);
+});
@@ -0,0 +1,40 @@
+/*
+  # Make room for sparkling_cake's policies
+
+  `jolly_island` and `sparkling_cake` both create "Users can read own data",
+  "Users can update own data", "Users can create alerts" and "Responders can
+  create responses", so replaying every migration on a fresh database stops
+  at `sparkling_cake` with a duplicate_object error. Both files have already
+  run on deployed databases and stay as they are; this migration sorts
+  between them and clears the names first.
+
+  1. Security
+    - Drops the four shared policies from `jolly_island`. `sparkling_cake`
+      recreates them straight after, and 20250415090510_reconcile_base_schema
+      replaces them for good
+    - Does nothing once `sparkling_cake` is recorded as applied, so pushing it
+      late to an existing database (`db push --include-all`) can't drop the
+      reconciled policies that reuse those names
+*/
+
+DO $$
+BEGIN
+  IF to_regclass('supabase_migrations.schema_migrations') IS NOT NULL
+    AND EXISTS (SELECT 1 FROM supabase_migrations.schema_migrations WHERE version = '20250308212752') THEN
+    RETURN;
+  END IF;
+
+  IF to_regclass('public.users') IS NOT NULL THEN
+    DROP POLICY IF EXISTS "Users can read own data" ON users;
+    DROP POLICY IF EXISTS "Users can update own data" ON users;
+  END IF;
+
+  IF to_regclass('public.alerts') IS NOT NULL THEN
+    DROP POLICY IF EXISTS "Users can create alerts" ON alerts;
+  END IF;
+
+  IF to_regclass('public.responses') IS NOT NULL THEN
+    DROP POLICY IF EXISTS "Responders can create responses" ON responses;
+  END IF;
+END;
+$$;
@@ -0,0 +1,22 @@
+/*
+  # Location fix details on alerts
+
+  1. Changes
+    - `alerts`
+      - `location_accuracy` (float8) - horizontal accuracy in metres
+      - `altitude` (float8) - metres above the WGS84 ellipsoid
+      - `location_timestamp` (timestamptz) - when the device took the fix
+      - `location_provider` (text) - provider that produced the fix
+      - `location_stale` (boolean) - true when the fix was older than the
+        freshness window at send time and could not be refreshed
+
+  2. Notes
+    - Existing rows keep null fix details and are treated as not stale
+*/
+
+ALTER TABLE alerts ADD COLUMN IF NOT EXISTS location_accuracy float8;
+ALTER TABLE alerts ADD COLUMN IF NOT EXISTS altitude float8;
+ALTER TABLE alerts ADD COLUMN IF NOT EXISTS location_timestamp timestamptz;
+ALTER TABLE alerts ADD COLUMN IF NOT EXISTS location_provider text
+  CHECK (location_provider IN ('gps', 'network', 'passive', 'fused', 'mock', 'unknown'));
+ALTER TABLE alerts ADD COLUMN IF NOT EXISTS location_stale boolean NOT NULL DEFAULT false;
@@ -0,0 +1,104 @@
+/*
+  # Live location trail for active alerts
+
+  1. New Tables
+    - `alert_locations`
+      - `id` (uuid, primary key)
+      - `alert_id` (uuid) - references alerts.id
+      - `latitude` (float8)
+      - `longitude` (float8)
+      - `accuracy` (float8) - horizontal accuracy in metres
+      - `altitude` (float8)
+      - `speed` (float8) - metres per second
+      - `heading` (float8) - degrees from true north
+      - `recorded_at` (timestamptz) - when the device took the fix
+      - `created_at` (timestamptz)
+
+  2. Changes
+    - `alerts`
+      - `last_latitude`, `last_longitude`, `last_location_accuracy`,
+        `last_location_at` - latest trail point, kept in sync by trigger so
+        responders subscribed to `alerts` see movement without a second channel
+
+  3. Security
+    - Civilians can append points to their own alerts until they are resolved
+    - Civilians and verified responders can read trails they can see the alert for
+*/
+
+CREATE TABLE IF NOT EXISTS alert_locations (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  alert_id uuid NOT NULL REFERENCES alerts(id) ON DELETE CASCADE,
+  latitude float8 NOT NULL,
+  longitude float8 NOT NULL,
+  accuracy float8,
+  altitude float8,
+  speed float8,
+  heading float8,
+  recorded_at timestamptz NOT NULL,
+  created_at timestamptz DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS alert_locations_alert_id_recorded_at_idx
+  ON alert_locations (alert_id, recorded_at DESC);
+
+ALTER TABLE alert_locations ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can add locations to own active alerts"
+  ON alert_locations
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (EXISTS (
+    SELECT 1 FROM alerts
+    WHERE alerts.id = alert_id
+    AND alerts.user_id = auth.uid()
+    AND alerts.status <> 'resolved'
+  ));
+
+CREATE POLICY "Users can read own alert locations"
+  ON alert_locations
+  FOR SELECT
+  TO authenticated
+  USING (EXISTS (
+    SELECT 1 FROM alerts WHERE alerts.id = alert_id AND alerts.user_id = auth.uid()
+  ));
+
+CREATE POLICY "Responders can read alert locations"
+  ON alert_locations
+  FOR SELECT
+  TO authenticated
+  USING (EXISTS (
+    SELECT 1 FROM responders WHERE id = auth.uid() AND verification_status = true
+  ));
+
+ALTER TABLE alerts ADD COLUMN IF NOT EXISTS last_latitude float8;
+ALTER TABLE alerts ADD COLUMN IF NOT EXISTS last_longitude float8;
+ALTER TABLE alerts ADD COLUMN IF NOT EXISTS last_location_accuracy float8;
+ALTER TABLE alerts ADD COLUMN IF NOT EXISTS last_location_at timestamptz;
+
+-- Runs as owner: civilians have no update rights on alerts
+CREATE OR REPLACE FUNCTION record_alert_last_location()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  UPDATE alerts
+  SET
+    last_latitude = NEW.latitude,
+    last_longitude = NEW.longitude,
+    last_location_accuracy = NEW.accuracy,
+    last_location_at = NEW.recorded_at
+  WHERE id = NEW.alert_id
+  AND (last_location_at IS NULL OR last_location_at < NEW.recorded_at);
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER record_alert_last_location
+  AFTER INSERT ON alert_locations
+  FOR EACH ROW
+  EXECUTE FUNCTION record_alert_last_location();
+
+ALTER PUBLICATION supabase_realtime ADD TABLE alert_locations;
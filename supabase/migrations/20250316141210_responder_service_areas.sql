@@ -0,0 +1,168 @@
+/*
+  # Geographic dispatch
+
+  1. Changes
+    - `responders`
+      - `service_area` (geography polygon) - area the unit covers
+      - `station_location` (geography point) - station used with `service_radius_m`
+      - `service_radius_m` (integer) - radius around the station in metres
+    - `alerts`
+      - `location` (geography point) - generated from latitude/longitude
+
+  2. Functions
+    - `responder_covers_location(responders, geography)` - polygon wins over
+      station + radius; a responder with neither configured is unrestricted
+    - `can_respond_at(geography)` - verified caller covers the location
+    - `distance_m(alerts)` - computed column: metres from the caller's station
+      (or service area centroid) to the alert, for nearest-first ordering
+    - `set_service_area(...)` / `get_service_area()` - read and write the
+      caller's own area without exposing PostGIS types to the client
+
+  3. Security
+    - Responders only see alerts and trails inside their service area. Realtime
+      `postgres_changes` applies the same select policies, so subscriptions are
+      scoped without client-side filtering.
+*/
+
+ALTER TABLE responders ADD COLUMN IF NOT EXISTS service_area geography(Polygon, 4326);
+ALTER TABLE responders ADD COLUMN IF NOT EXISTS station_location geography(Point, 4326);
+ALTER TABLE responders ADD COLUMN IF NOT EXISTS service_radius_m integer
+  CHECK (service_radius_m > 0);
+
+ALTER TABLE alerts ADD COLUMN IF NOT EXISTS location geography(Point, 4326)
+  GENERATED ALWAYS AS (ST_SetSRID(ST_MakePoint(longitude, latitude), 4326)::geography) STORED;
+
+CREATE INDEX IF NOT EXISTS alerts_location_idx ON alerts USING gist (location);
+CREATE INDEX IF NOT EXISTS responders_service_area_idx ON responders USING gist (service_area);
+CREATE INDEX IF NOT EXISTS responders_station_location_idx ON responders USING gist (station_location);
+
+CREATE OR REPLACE FUNCTION responder_covers_location(p_responder responders, p_location geography)
+RETURNS boolean
+LANGUAGE sql
+STABLE
+AS $$
+  SELECT CASE
+    WHEN p_responder.service_area IS NOT NULL THEN
+      ST_Covers(p_responder.service_area, p_location)
+    WHEN p_responder.station_location IS NOT NULL AND p_responder.service_radius_m IS NOT NULL THEN
+      ST_DWithin(p_responder.station_location, p_location, p_responder.service_radius_m)
+    ELSE true
+  END;
+$$;
+
+CREATE OR REPLACE FUNCTION can_respond_at(p_location geography)
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public, extensions
+AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM responders r
+    WHERE r.id = auth.uid()
+    AND r.verification_status = true
+    AND responder_covers_location(r, p_location)
+  );
+$$;
+
+CREATE OR REPLACE FUNCTION distance_m(p_alert alerts)
+RETURNS float8
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public, extensions
+AS $$
+  SELECT ST_Distance(
+    COALESCE(r.station_location, ST_Centroid(r.service_area::geometry)::geography),
+    p_alert.location
+  )
+  FROM responders r
+  WHERE r.id = auth.uid();
+$$;
+
+-- The combined owner/responder policy gives every verified responder every alert
+DROP POLICY IF EXISTS "Responders can view alerts" ON alerts;
+DROP POLICY IF EXISTS "Users can read own alerts" ON alerts;
+DROP POLICY IF EXISTS "Users can view own alerts" ON alerts;
+
+CREATE POLICY "Users can view own alerts"
+  ON alerts
+  FOR SELECT
+  TO authenticated
+  USING (user_id = auth.uid());
+
+CREATE POLICY "Responders can view alerts in their service area"
+  ON alerts
+  FOR SELECT
+  TO authenticated
+  USING (can_respond_at(location));
+
+DROP POLICY IF EXISTS "Responders can read alert locations" ON alert_locations;
+
+CREATE POLICY "Responders can read alert locations in their service area"
+  ON alert_locations
+  FOR SELECT
+  TO authenticated
+  USING (EXISTS (
+    SELECT 1 FROM alerts
+    WHERE alerts.id = alert_id
+    AND can_respond_at(alerts.location)
+  ));
+
+CREATE OR REPLACE FUNCTION set_service_area(
+  p_station_latitude float8 DEFAULT NULL,
+  p_station_longitude float8 DEFAULT NULL,
+  p_radius_m integer DEFAULT NULL,
+  p_polygon jsonb DEFAULT NULL
+)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public, extensions
+AS $$
+DECLARE
+  v_polygon geometry;
+BEGIN
+  IF p_polygon IS NOT NULL THEN
+    v_polygon := ST_SetSRID(ST_GeomFromGeoJSON(p_polygon::text), 4326);
+    IF GeometryType(v_polygon) <> 'POLYGON' OR NOT ST_IsValid(v_polygon) THEN
+      RAISE EXCEPTION 'Service area must be a valid, non self-intersecting polygon';
+    END IF;
+  END IF;
+
+  IF (p_station_latitude IS NULL) <> (p_station_longitude IS NULL) THEN
+    RAISE EXCEPTION 'Station location needs both latitude and longitude';
+  END IF;
+
+  UPDATE responders
+  SET
+    service_area = v_polygon::geography,
+    station_location = CASE
+      WHEN p_station_latitude IS NOT NULL THEN
+        ST_SetSRID(ST_MakePoint(p_station_longitude, p_station_latitude), 4326)::geography
+    END,
+    service_radius_m = p_radius_m
+  WHERE id = auth.uid();
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Responder profile not found';
+  END IF;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION get_service_area()
+RETURNS jsonb
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public, extensions
+AS $$
+  SELECT jsonb_build_object(
+    'station_latitude', ST_Y(station_location::geometry),
+    'station_longitude', ST_X(station_location::geometry),
+    'radius_m', service_radius_m,
+    'polygon', ST_AsGeoJSON(service_area)::jsonb
+  )
+  FROM responders
+  WHERE id = auth.uid();
+$$;
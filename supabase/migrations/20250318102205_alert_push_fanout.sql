@@ -0,0 +1,143 @@
+/*
+  # Push notification fan-out
+
+  1. New Tables
+    - `push_deliveries`
+      - `id` (uuid, primary key)
+      - `alert_id` (uuid) - references alerts.id
+      - `event` (text) - 'alert_created' or 'status_changed'
+      - `recipient_id` (uuid) - responder or civilian the push was sent to
+      - `push_token` (text) - Expo token used for this delivery
+      - `ticket_id` (text) - Expo push ticket, used to fetch the receipt
+      - `ticket_status` (text) - 'ok' or 'error' when handing off to Expo
+      - `receipt_status` (text) - 'ok' or 'error' once Expo reports delivery
+      - `error_code`, `error_message` (text)
+      - `created_at`, `receipt_checked_at` (timestamptz)
+
+  2. Functions
+    - `eligible_push_recipients(uuid)` - verified responders of the right type
+      whose service area covers the alert and who have a push token
+    - `invoke_edge_function(text, jsonb)` - posts to an edge function with
+      pg_net, using `app.settings.edge_functions_url` and
+      `app.settings.webhook_secret`:
+        ALTER DATABASE postgres SET app.settings.edge_functions_url = 'https://<ref>.supabase.co/functions/v1';
+        ALTER DATABASE postgres SET app.settings.webhook_secret = '<same as WEBHOOK_SECRET>';
+    - `notify_alert_push()` - trigger on alert insert and status change
+
+  3. Security
+    - RLS enabled on `push_deliveries` with no policies: only the service role
+      used by the edge function reads or writes it
+*/
+
+CREATE EXTENSION IF NOT EXISTS pg_net;
+
+ALTER TABLE users ADD COLUMN IF NOT EXISTS push_token text;
+ALTER TABLE responders ADD COLUMN IF NOT EXISTS push_token text;
+
+CREATE TABLE IF NOT EXISTS push_deliveries (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  alert_id uuid NOT NULL REFERENCES alerts(id) ON DELETE CASCADE,
+  event text NOT NULL CHECK (event IN ('alert_created', 'status_changed')),
+  recipient_id uuid NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  push_token text NOT NULL,
+  ticket_id text,
+  ticket_status text NOT NULL CHECK (ticket_status IN ('ok', 'error')),
+  receipt_status text CHECK (receipt_status IN ('ok', 'error')),
+  error_code text,
+  error_message text,
+  created_at timestamptz DEFAULT now(),
+  receipt_checked_at timestamptz
+);
+
+CREATE INDEX IF NOT EXISTS push_deliveries_alert_id_idx ON push_deliveries (alert_id);
+CREATE INDEX IF NOT EXISTS push_deliveries_pending_receipts_idx
+  ON push_deliveries (created_at)
+  WHERE ticket_status = 'ok' AND receipt_status IS NULL;
+
+ALTER TABLE push_deliveries ENABLE ROW LEVEL SECURITY;
+
+CREATE OR REPLACE FUNCTION eligible_push_recipients(p_alert_id uuid)
+RETURNS TABLE (recipient_id uuid, push_token text)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public, extensions
+AS $$
+  SELECT r.id, r.push_token
+  FROM alerts a
+  JOIN responders r
+    ON r.verification_status = true
+    AND r.push_token IS NOT NULL
+    AND (
+      a.type = 'general'
+      OR (a.type = 'police' AND r.responder_type = 'police')
+      OR (a.type = 'medical' AND r.responder_type = 'hospital')
+    )
+    AND responder_covers_location(r, a.location)
+  WHERE a.id = p_alert_id;
+$$;
+
+REVOKE EXECUTE ON FUNCTION eligible_push_recipients(uuid) FROM public, anon, authenticated;
+
+CREATE OR REPLACE FUNCTION invoke_edge_function(p_name text, p_payload jsonb)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public, extensions
+AS $$
+DECLARE
+  v_base_url text := current_setting('app.settings.edge_functions_url', true);
+  v_secret text := current_setting('app.settings.webhook_secret', true);
+BEGIN
+  IF v_base_url IS NULL OR v_base_url = '' THEN
+    RAISE WARNING 'app.settings.edge_functions_url is not set, skipping %', p_name;
+    RETURN;
+  END IF;
+
+  PERFORM net.http_post(
+    url := v_base_url || '/' || p_name,
+    body := p_payload,
+    headers := jsonb_build_object(
+      'Content-Type', 'application/json',
+      'x-webhook-secret', coalesce(v_secret, '')
+    )
+  );
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION invoke_edge_function(text, jsonb) FROM public, anon, authenticated;
+
+CREATE OR REPLACE FUNCTION notify_alert_push()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF TG_OP = 'INSERT' OR NEW.status IS DISTINCT FROM OLD.status THEN
+    PERFORM invoke_edge_function('alert-push', jsonb_build_object(
+      'type', TG_OP,
+      'table', TG_TABLE_NAME,
+      'schema', TG_TABLE_SCHEMA,
+      'record', to_jsonb(NEW),
+      'old_record', CASE WHEN TG_OP = 'UPDATE' THEN to_jsonb(OLD) END
+    ));
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER notify_alert_push
+  AFTER INSERT OR UPDATE OF status ON alerts
+  FOR EACH ROW
+  EXECUTE FUNCTION notify_alert_push();
+
+-- Expo keeps receipts for about a day; collect them every 15 minutes
+CREATE EXTENSION IF NOT EXISTS pg_cron;
+
+SELECT cron.schedule(
+  'alert-push-receipts',
+  '*/15 * * * *',
+  $$SELECT invoke_edge_function('alert-push', '{"type": "RECEIPTS"}'::jsonb)$$
+);
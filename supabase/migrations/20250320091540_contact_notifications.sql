@@ -0,0 +1,97 @@
+/*
+  # Emergency contact notifications
+
+  1. New Tables
+    - `contact_notifications`
+      - `id` (uuid, primary key)
+      - `alert_id` (uuid) - references alerts.id
+      - `contact_id` (uuid) - references contacts.id, kept null if the contact is deleted
+      - `channel` (text) - 'sms' or 'email'
+      - `destination` (text) - phone number or email address used
+      - `escalation_level` (integer) - 0 for the primary contact, 1 for the rest
+      - `status` (text) - 'sent', 'delivered' or 'failed'
+      - `provider` (text) - provider that handled the message
+      - `provider_message_id` (text)
+      - `error_message` (text)
+      - `created_at`, `updated_at` (timestamptz)
+
+  2. Changes
+    - `alerts`
+      - `status_token` (uuid) - unguessable token for the public live-status
+        page linked from contact messages
+
+  3. Triggers
+    - `notify_alert_contacts` - invokes the `notify-contacts` edge function on
+      alert insert; a cron job re-invokes it to escalate past the primary contact
+
+  4. Security
+    - Civilians can read delivery status for their own alerts; only the
+      service role writes
+*/
+
+ALTER TABLE alerts ADD COLUMN IF NOT EXISTS status_token uuid NOT NULL DEFAULT gen_random_uuid();
+CREATE UNIQUE INDEX IF NOT EXISTS alerts_status_token_idx ON alerts (status_token);
+
+CREATE TABLE IF NOT EXISTS contact_notifications (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  alert_id uuid NOT NULL REFERENCES alerts(id) ON DELETE CASCADE,
+  contact_id uuid REFERENCES contacts(id) ON DELETE SET NULL,
+  channel text NOT NULL CHECK (channel IN ('sms', 'email')),
+  destination text NOT NULL,
+  escalation_level integer NOT NULL DEFAULT 0,
+  status text NOT NULL CHECK (status IN ('sent', 'delivered', 'failed')),
+  provider text NOT NULL,
+  provider_message_id text,
+  error_message text,
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS contact_notifications_alert_id_idx ON contact_notifications (alert_id);
+CREATE INDEX IF NOT EXISTS contact_notifications_provider_message_id_idx
+  ON contact_notifications (provider_message_id);
+
+ALTER TABLE contact_notifications ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can read notifications for own alerts"
+  ON contact_notifications
+  FOR SELECT
+  TO authenticated
+  USING (EXISTS (
+    SELECT 1 FROM alerts WHERE alerts.id = alert_id AND alerts.user_id = auth.uid()
+  ));
+
+CREATE TRIGGER update_contact_notifications_updated_at
+  BEFORE UPDATE ON contact_notifications
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at();
+
+CREATE OR REPLACE FUNCTION notify_alert_contacts()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  PERFORM invoke_edge_function('notify-contacts', jsonb_build_object(
+    'type', TG_OP,
+    'table', TG_TABLE_NAME,
+    'schema', TG_TABLE_SCHEMA,
+    'record', to_jsonb(NEW),
+    'old_record', null
+  ));
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER notify_alert_contacts
+  AFTER INSERT ON alerts
+  FOR EACH ROW
+  EXECUTE FUNCTION notify_alert_contacts();
+
+SELECT cron.schedule(
+  'notify-contacts-escalation',
+  '* * * * *',
+  $$SELECT invoke_edge_function('notify-contacts', '{"type": "ESCALATE"}'::jsonb)$$
+);
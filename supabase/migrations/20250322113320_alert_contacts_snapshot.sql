@@ -0,0 +1,87 @@
+/*
+  # Emergency contacts snapshotted onto alerts
+
+  1. New Tables
+    - `alert_contacts`
+      - `id` (uuid, primary key)
+      - `alert_id` (uuid) - references alerts.id
+      - `contact_id` (uuid) - references contacts.id, null once the contact is deleted
+      - `name`, `relationship`, `phone_number`, `email`, `is_primary` - copied
+        from `contacts` when the alert is created and never updated after
+      - `created_at` (timestamptz)
+
+  2. Triggers
+    - `attach_alert_contacts` - copies the reporter's contacts onto every new
+      alert in the same transaction, so responders and the notify-contacts
+      function see the contacts as they were at the moment of the emergency
+
+  3. Security
+    - Civilians can read snapshots on their own alerts
+    - Responders can read snapshots on alerts inside their service area
+    - Nobody writes directly; only the trigger inserts
+
+  4. Notes
+    - Alerts created before this migration have no snapshot; their contacts at
+      send time are unknown
+    - AFTER triggers fire in name order, so `attach_alert_contacts` runs before
+      `notify_alert_contacts` hands the alert to the notify-contacts function
+*/
+
+CREATE TABLE IF NOT EXISTS alert_contacts (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  alert_id uuid NOT NULL,
+  contact_id uuid,
+  name text NOT NULL,
+  relationship text,
+  phone_number text,
+  email text,
+  is_primary boolean NOT NULL DEFAULT false,
+  created_at timestamptz DEFAULT now(),
+  CONSTRAINT alert_contacts_alert_id_fkey
+    FOREIGN KEY (alert_id) REFERENCES alerts(id) ON DELETE CASCADE,
+  CONSTRAINT alert_contacts_contact_id_fkey
+    FOREIGN KEY (contact_id) REFERENCES contacts(id) ON DELETE SET NULL
+);
+
+CREATE INDEX IF NOT EXISTS alert_contacts_alert_id_idx ON alert_contacts (alert_id);
+
+ALTER TABLE alert_contacts ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can read contacts on own alerts"
+  ON alert_contacts
+  FOR SELECT
+  TO authenticated
+  USING (EXISTS (
+    SELECT 1 FROM alerts WHERE alerts.id = alert_id AND alerts.user_id = auth.uid()
+  ));
+
+CREATE POLICY "Responders can read contacts on alerts in their service area"
+  ON alert_contacts
+  FOR SELECT
+  TO authenticated
+  USING (EXISTS (
+    SELECT 1 FROM alerts
+    WHERE alerts.id = alert_id
+    AND can_respond_at(alerts.location)
+  ));
+
+CREATE OR REPLACE FUNCTION attach_alert_contacts()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  INSERT INTO alert_contacts (alert_id, contact_id, name, relationship, phone_number, email, is_primary)
+  SELECT NEW.id, c.id, c.name, c.relationship, c.phone_number, c.email, coalesce(c.is_primary, false)
+  FROM contacts c
+  WHERE c.user_id = NEW.user_id;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER attach_alert_contacts
+  AFTER INSERT ON alerts
+  FOR EACH ROW
+  EXECUTE FUNCTION attach_alert_contacts();
@@ -0,0 +1,170 @@
+/*
+  # Alert status lifecycle
+
+  1. Changes
+    - `alert_status` enum gains `cancelled`, `false_alarm` and `escalated`
+    - `responses`
+      - `actor_id` (uuid) - user who made the change; `responder_id` stays
+        null when the reporter cancels their own alert
+      - `from_status`, `to_status` (alert_status) - the transition recorded
+      - `reason` (text) - free-text reason given with the change
+
+  2. Functions
+    - `alert_transition_allowed(text, text)` - the allowed lifecycle:
+        pending      -> acknowledged, responding, false_alarm, cancelled
+        acknowledged -> responding, escalated, false_alarm, cancelled
+        responding   -> resolved, escalated, false_alarm, cancelled
+        escalated    -> acknowledged, responding, resolved, false_alarm, cancelled
+      `resolved`, `cancelled` and `false_alarm` are terminal
+    - `transition_alert(uuid, alert_status, text)` - the only way clients
+      change an alert's status. Responders may move alerts in their service
+      area through the lifecycle; the reporter may only cancel
+
+  3. Triggers
+    - `enforce_alert_status_transition` - rejects any status change outside
+      the lifecycle, whoever makes it
+    - `record_alert_status_transition` - writes the `responses` row for every
+      status change in the same transaction
+
+  4. Security
+    - Drops the "Responders can update alerts" policy: any verified responder
+      could set any status on any alert
+
+  5. Notes
+    - New enum values can't be used in the transaction that adds them, so the
+      functions and policy below compare statuses as text
+*/
+
+ALTER TYPE alert_status ADD VALUE IF NOT EXISTS 'cancelled';
+ALTER TYPE alert_status ADD VALUE IF NOT EXISTS 'false_alarm';
+ALTER TYPE alert_status ADD VALUE IF NOT EXISTS 'escalated';
+
+ALTER TABLE responses ADD COLUMN IF NOT EXISTS actor_id uuid REFERENCES auth.users(id) ON DELETE SET NULL;
+ALTER TABLE responses ADD COLUMN IF NOT EXISTS from_status alert_status;
+ALTER TABLE responses ADD COLUMN IF NOT EXISTS to_status alert_status;
+ALTER TABLE responses ADD COLUMN IF NOT EXISTS reason text;
+
+CREATE OR REPLACE FUNCTION alert_transition_allowed(p_from text, p_to text)
+RETURNS boolean
+LANGUAGE plpgsql
+IMMUTABLE
+AS $$
+BEGIN
+  RETURN CASE p_from
+    WHEN 'pending' THEN p_to IN ('acknowledged', 'responding', 'false_alarm', 'cancelled')
+    WHEN 'acknowledged' THEN p_to IN ('responding', 'escalated', 'false_alarm', 'cancelled')
+    WHEN 'responding' THEN p_to IN ('resolved', 'escalated', 'false_alarm', 'cancelled')
+    WHEN 'escalated' THEN p_to IN ('acknowledged', 'responding', 'resolved', 'false_alarm', 'cancelled')
+    ELSE false
+  END;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION enforce_alert_status_transition()
+RETURNS trigger
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  IF NEW.status IS DISTINCT FROM OLD.status
+    AND NOT alert_transition_allowed(OLD.status::text, NEW.status::text) THEN
+    RAISE EXCEPTION 'Alert cannot move from % to %', OLD.status, NEW.status
+      USING ERRCODE = 'check_violation';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER enforce_alert_status_transition
+  BEFORE UPDATE OF status ON alerts
+  FOR EACH ROW
+  EXECUTE FUNCTION enforce_alert_status_transition();
+
+CREATE OR REPLACE FUNCTION record_alert_status_transition()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.status IS DISTINCT FROM OLD.status THEN
+    INSERT INTO responses (alert_id, responder_id, actor_id, action_taken, from_status, to_status, reason)
+    VALUES (
+      NEW.id,
+      (SELECT id FROM responders WHERE id = auth.uid()),
+      auth.uid(),
+      format('Status updated to %s', NEW.status),
+      OLD.status,
+      NEW.status,
+      nullif(current_setting('app.transition_reason', true), '')
+    );
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER record_alert_status_transition
+  AFTER UPDATE OF status ON alerts
+  FOR EACH ROW
+  EXECUTE FUNCTION record_alert_status_transition();
+
+CREATE OR REPLACE FUNCTION transition_alert(
+  p_alert_id uuid,
+  p_status alert_status,
+  p_reason text DEFAULT NULL
+)
+RETURNS alerts
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public, extensions
+AS $$
+DECLARE
+  v_alert alerts;
+BEGIN
+  SELECT * INTO v_alert FROM alerts WHERE id = p_alert_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Alert not found' USING ERRCODE = 'no_data_found';
+  END IF;
+
+  IF p_status::text = 'cancelled' THEN
+    IF v_alert.user_id IS DISTINCT FROM auth.uid() THEN
+      RAISE EXCEPTION 'Only the reporter can cancel an alert' USING ERRCODE = 'insufficient_privilege';
+    END IF;
+  ELSIF NOT can_respond_at(v_alert.location) THEN
+    RAISE EXCEPTION 'Not allowed to update this alert' USING ERRCODE = 'insufficient_privilege';
+  END IF;
+
+  -- Read back by record_alert_status_transition in the same transaction
+  PERFORM set_config('app.transition_reason', coalesce(p_reason, ''), true);
+
+  UPDATE alerts
+  SET status = p_status
+  WHERE id = p_alert_id
+  RETURNING * INTO v_alert;
+
+  PERFORM set_config('app.transition_reason', '', true);
+
+  RETURN v_alert;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION transition_alert(uuid, alert_status, text) FROM public, anon;
+GRANT EXECUTE ON FUNCTION transition_alert(uuid, alert_status, text) TO authenticated;
+
+DROP POLICY IF EXISTS "Responders can update alerts" ON alerts;
+
+-- Cancelled and false alarms stop the trail as well as resolved alerts
+DROP POLICY IF EXISTS "Users can add locations to own active alerts" ON alert_locations;
+
+CREATE POLICY "Users can add locations to own active alerts"
+  ON alert_locations
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (EXISTS (
+    SELECT 1 FROM alerts
+    WHERE alerts.id = alert_id
+    AND alerts.user_id = auth.uid()
+    AND alerts.status::text NOT IN ('resolved', 'cancelled', 'false_alarm')
+  ));
@@ -0,0 +1,79 @@
+/*
+  # Reporter withdrawal of alerts
+
+  1. Changes
+    - `transition_alert` lets the reporter mark their own open alert as a
+      false alarm as well as cancel it ("I'm safe"); responders still can't
+      cancel on the reporter's behalf
+    - `push_deliveries.event` accepts 'alert_withdrawn', sent to responders
+      who were paged about an alert the reporter has since withdrawn
+
+  2. Realtime
+    - `alerts` is added to the `supabase_realtime` publication so responder
+      lists update as soon as an alert is withdrawn
+
+  3. Notes
+    - PIN/biometric confirmation happens on the device before the call; the
+      database only checks that the caller is the reporter
+*/
+
+CREATE OR REPLACE FUNCTION transition_alert(
+  p_alert_id uuid,
+  p_status alert_status,
+  p_reason text DEFAULT NULL
+)
+RETURNS alerts
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public, extensions
+AS $$
+DECLARE
+  v_alert alerts;
+  v_is_reporter boolean;
+BEGIN
+  SELECT * INTO v_alert FROM alerts WHERE id = p_alert_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Alert not found' USING ERRCODE = 'no_data_found';
+  END IF;
+
+  v_is_reporter := v_alert.user_id = auth.uid();
+
+  IF p_status = 'cancelled' THEN
+    IF NOT v_is_reporter THEN
+      RAISE EXCEPTION 'Only the reporter can cancel an alert' USING ERRCODE = 'insufficient_privilege';
+    END IF;
+  ELSIF p_status = 'false_alarm' AND v_is_reporter THEN
+    NULL;
+  ELSIF NOT can_respond_at(v_alert.location) THEN
+    RAISE EXCEPTION 'Not allowed to update this alert' USING ERRCODE = 'insufficient_privilege';
+  END IF;
+
+  -- Read back by record_alert_status_transition in the same transaction
+  PERFORM set_config('app.transition_reason', coalesce(p_reason, ''), true);
+
+  UPDATE alerts
+  SET status = p_status
+  WHERE id = p_alert_id
+  RETURNING * INTO v_alert;
+
+  PERFORM set_config('app.transition_reason', '', true);
+
+  RETURN v_alert;
+END;
+$$;
+
+ALTER TABLE push_deliveries DROP CONSTRAINT IF EXISTS push_deliveries_event_check;
+ALTER TABLE push_deliveries ADD CONSTRAINT push_deliveries_event_check
+  CHECK (event IN ('alert_created', 'status_changed', 'alert_withdrawn'));
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_publication_tables
+    WHERE pubname = 'supabase_realtime' AND schemaname = 'public' AND tablename = 'alerts'
+  ) THEN
+    ALTER PUBLICATION supabase_realtime ADD TABLE alerts;
+  END IF;
+END;
+$$;
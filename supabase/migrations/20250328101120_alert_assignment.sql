@@ -0,0 +1,287 @@
+/*
+  # Responder assignment for alerts
+
+  1. Changes
+    - `alerts`
+      - `assigned_responder_id` (uuid) - responder unit that owns the alert
+      - `assigned_at` (timestamptz) - when the current assignment was made
+    - `responders`
+      - `is_dispatcher` (boolean) - may assign and reassign any alert in their
+        service area, not just their own
+
+  2. Functions
+    - `claim_alert(uuid)` - assigns an open, unassigned alert to the caller.
+      The conditional update makes concurrent claims safe: exactly one wins
+      and the others get "already assigned"
+    - `reassign_alert(uuid, uuid, text)` - hands an alert to another unit, or
+      releases it when the new responder is null. Allowed for the current
+      assignee and for dispatchers
+    - `assignable_responders(uuid)` - verified units of the right type whose
+      service area covers the alert, for the handoff picker
+    - `assignee(alerts)` - computed column with the assigned unit's id, name
+      and type, so cards can show it without reading the responders table
+    - `transition_alert` now refuses status changes from anyone but the
+      assignee or a dispatcher, and acknowledging or responding to an
+      unassigned alert claims it
+
+  3. Security
+    - `protect_responder_dispatcher_flag` stops responders granting
+      themselves `is_dispatcher` through their own-row update policy
+
+  4. Notes
+    - Claims, handoffs and releases are logged in `responses`
+*/
+
+ALTER TABLE alerts ADD COLUMN IF NOT EXISTS assigned_responder_id uuid REFERENCES responders(id) ON DELETE SET NULL;
+ALTER TABLE alerts ADD COLUMN IF NOT EXISTS assigned_at timestamptz;
+ALTER TABLE responders ADD COLUMN IF NOT EXISTS is_dispatcher boolean NOT NULL DEFAULT false;
+
+CREATE INDEX IF NOT EXISTS alerts_assigned_responder_id_idx ON alerts (assigned_responder_id);
+
+-- "Responders can update own data" would otherwise let anyone promote themselves
+CREATE OR REPLACE FUNCTION protect_responder_dispatcher_flag()
+RETURNS trigger
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  IF NEW.is_dispatcher IS DISTINCT FROM OLD.is_dispatcher AND auth.role() <> 'service_role' THEN
+    RAISE EXCEPTION 'is_dispatcher can only be changed by an administrator'
+      USING ERRCODE = 'insufficient_privilege';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER protect_responder_dispatcher_flag
+  BEFORE UPDATE OF is_dispatcher ON responders
+  FOR EACH ROW
+  EXECUTE FUNCTION protect_responder_dispatcher_flag();
+
+CREATE OR REPLACE FUNCTION is_dispatcher()
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM responders
+    WHERE id = auth.uid()
+    AND verification_status = true
+    AND is_dispatcher = true
+  );
+$$;
+
+CREATE OR REPLACE FUNCTION responder_handles_alert(p_responder responders, p_alert alerts)
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SET search_path = public, extensions
+AS $$
+  SELECT p_responder.verification_status = true
+    AND (
+      p_alert.type = 'general'
+      OR (p_alert.type = 'police' AND p_responder.responder_type = 'police')
+      OR (p_alert.type = 'medical' AND p_responder.responder_type = 'hospital')
+    )
+    AND responder_covers_location(p_responder, p_alert.location);
+$$;
+
+CREATE OR REPLACE FUNCTION assignee(p_alert alerts)
+RETURNS jsonb
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT jsonb_build_object(
+    'id', r.id,
+    'organization_name', r.organization_name,
+    'responder_type', r.responder_type
+  )
+  FROM responders r
+  WHERE r.id = p_alert.assigned_responder_id;
+$$;
+
+CREATE OR REPLACE FUNCTION claim_alert(p_alert_id uuid)
+RETURNS alerts
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public, extensions
+AS $$
+DECLARE
+  v_alert alerts;
+  v_responder responders;
+BEGIN
+  SELECT * INTO v_responder FROM responders WHERE id = auth.uid();
+  SELECT * INTO v_alert FROM alerts WHERE id = p_alert_id;
+
+  IF v_alert.id IS NULL OR v_responder.id IS NULL OR NOT responder_handles_alert(v_responder, v_alert) THEN
+    RAISE EXCEPTION 'Not allowed to claim this alert' USING ERRCODE = 'insufficient_privilege';
+  END IF;
+
+  -- Only one of several concurrent claims can match assigned_responder_id IS NULL
+  UPDATE alerts
+  SET assigned_responder_id = v_responder.id, assigned_at = now()
+  WHERE id = p_alert_id
+  AND assigned_responder_id IS NULL
+  AND status::text NOT IN ('resolved', 'cancelled', 'false_alarm')
+  RETURNING * INTO v_alert;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Alert is already assigned or closed' USING ERRCODE = 'lock_not_available';
+  END IF;
+
+  INSERT INTO responses (alert_id, responder_id, actor_id, action_taken)
+  VALUES (p_alert_id, v_responder.id, auth.uid(), format('Claimed by %s', v_responder.organization_name));
+
+  RETURN v_alert;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION reassign_alert(
+  p_alert_id uuid,
+  p_responder_id uuid,
+  p_reason text DEFAULT NULL
+)
+RETURNS alerts
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public, extensions
+AS $$
+DECLARE
+  v_alert alerts;
+  v_from responders;
+  v_to responders;
+BEGIN
+  SELECT * INTO v_alert FROM alerts WHERE id = p_alert_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Alert not found' USING ERRCODE = 'no_data_found';
+  END IF;
+
+  IF v_alert.status::text IN ('resolved', 'cancelled', 'false_alarm') THEN
+    RAISE EXCEPTION 'Alert is already closed' USING ERRCODE = 'check_violation';
+  END IF;
+
+  IF NOT (
+    v_alert.assigned_responder_id = auth.uid()
+    OR (is_dispatcher() AND can_respond_at(v_alert.location))
+  ) THEN
+    RAISE EXCEPTION 'Only the assigned unit or a dispatcher can reassign this alert'
+      USING ERRCODE = 'insufficient_privilege';
+  END IF;
+
+  IF p_responder_id IS NOT NULL THEN
+    SELECT * INTO v_to FROM responders WHERE id = p_responder_id;
+    IF v_to.id IS NULL OR NOT responder_handles_alert(v_to, v_alert) THEN
+      RAISE EXCEPTION 'That unit cannot take this alert' USING ERRCODE = 'check_violation';
+    END IF;
+  END IF;
+
+  SELECT * INTO v_from FROM responders WHERE id = v_alert.assigned_responder_id;
+
+  UPDATE alerts
+  SET assigned_responder_id = p_responder_id,
+      assigned_at = CASE WHEN p_responder_id IS NULL THEN NULL ELSE now() END
+  WHERE id = p_alert_id
+  RETURNING * INTO v_alert;
+
+  INSERT INTO responses (alert_id, responder_id, actor_id, action_taken, reason)
+  VALUES (
+    p_alert_id,
+    (SELECT id FROM responders WHERE id = auth.uid()),
+    auth.uid(),
+    CASE
+      WHEN p_responder_id IS NULL THEN format('Released by %s', coalesce(v_from.organization_name, 'unassigned'))
+      ELSE format('Handed off from %s to %s', coalesce(v_from.organization_name, 'unassigned'), v_to.organization_name)
+    END,
+    nullif(trim(p_reason), '')
+  );
+
+  RETURN v_alert;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION assignable_responders(p_alert_id uuid)
+RETURNS TABLE (id uuid, organization_name text, responder_type responder_type)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public, extensions
+AS $$
+  SELECT r.id, r.organization_name, r.responder_type
+  FROM alerts a
+  JOIN responders r ON responder_handles_alert(r, a)
+  WHERE a.id = p_alert_id
+  AND can_respond_at(a.location)
+  ORDER BY r.organization_name;
+$$;
+
+CREATE OR REPLACE FUNCTION transition_alert(
+  p_alert_id uuid,
+  p_status alert_status,
+  p_reason text DEFAULT NULL
+)
+RETURNS alerts
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public, extensions
+AS $$
+DECLARE
+  v_alert alerts;
+  v_is_reporter boolean;
+BEGIN
+  SELECT * INTO v_alert FROM alerts WHERE id = p_alert_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Alert not found' USING ERRCODE = 'no_data_found';
+  END IF;
+
+  v_is_reporter := v_alert.user_id = auth.uid();
+
+  IF p_status = 'cancelled' THEN
+    IF NOT v_is_reporter THEN
+      RAISE EXCEPTION 'Only the reporter can cancel an alert' USING ERRCODE = 'insufficient_privilege';
+    END IF;
+  ELSIF p_status = 'false_alarm' AND v_is_reporter THEN
+    NULL;
+  ELSIF NOT can_respond_at(v_alert.location) THEN
+    RAISE EXCEPTION 'Not allowed to update this alert' USING ERRCODE = 'insufficient_privilege';
+  ELSIF v_alert.assigned_responder_id IS NOT NULL
+    AND v_alert.assigned_responder_id <> auth.uid()
+    AND NOT is_dispatcher() THEN
+    RAISE EXCEPTION 'Alert is assigned to another unit' USING ERRCODE = 'insufficient_privilege';
+  ELSIF v_alert.assigned_responder_id IS NULL AND p_status IN ('acknowledged', 'responding') THEN
+    -- Taking an unassigned alert claims it; the row lock above keeps this race-safe
+    UPDATE alerts
+    SET assigned_responder_id = auth.uid(), assigned_at = now()
+    WHERE id = p_alert_id;
+
+    INSERT INTO responses (alert_id, responder_id, actor_id, action_taken)
+    SELECT p_alert_id, r.id, r.id, format('Claimed by %s', r.organization_name)
+    FROM responders r
+    WHERE r.id = auth.uid();
+  END IF;
+
+  -- Read back by record_alert_status_transition in the same transaction
+  PERFORM set_config('app.transition_reason', coalesce(p_reason, ''), true);
+
+  UPDATE alerts
+  SET status = p_status
+  WHERE id = p_alert_id
+  RETURNING * INTO v_alert;
+
+  PERFORM set_config('app.transition_reason', '', true);
+
+  RETURN v_alert;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION claim_alert(uuid) FROM public, anon;
+REVOKE EXECUTE ON FUNCTION reassign_alert(uuid, uuid, text) FROM public, anon;
+REVOKE EXECUTE ON FUNCTION assignable_responders(uuid) FROM public, anon;
+GRANT EXECUTE ON FUNCTION claim_alert(uuid) TO authenticated;
+GRANT EXECUTE ON FUNCTION reassign_alert(uuid, uuid, text) TO authenticated;
+GRANT EXECUTE ON FUNCTION assignable_responders(uuid) TO authenticated;
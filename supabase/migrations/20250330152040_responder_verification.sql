@@ -0,0 +1,312 @@
+/*
+  # Responder verification and admin review
+
+  1. New Tables
+    - `admins`
+      - `id` (uuid, primary key) - references auth.users.id
+      - `created_at` (timestamptz)
+      Rows are added by hand or with the service role; there is no sign-up
+    - `responder_documents`
+      - `id` (uuid, primary key)
+      - `responder_id` (uuid) - references responders.id
+      - `storage_path` (text) - object in the `responder-documents` bucket
+      - `file_name`, `content_type` (text)
+      - `created_at` (timestamptz)
+    - `responder_verification_events` - audit log of admin decisions
+      - `id` (uuid, primary key)
+      - `responder_id` (uuid) - references responders.id
+      - `admin_id` (uuid) - references auth.users.id
+      - `decision` (text) - 'approved', 'rejected' or 'revoked'
+      - `previous_state` (text)
+      - `reason` (text)
+      - `created_at` (timestamptz)
+
+  2. Changes
+    - `responders`
+      - `badge_number`, `organization_id` (text) - credentials for review
+      - `verification_state` (text) - 'pending', 'approved', 'rejected' or
+        'revoked'; `verification_status` stays the boolean every policy
+        checks and is kept equal to `verification_state = 'approved'`
+      - `verification_reason` (text) - reason given with the last decision
+      - `reviewed_at` (timestamptz), `reviewed_by` (uuid)
+
+  3. Functions
+    - `is_admin()`
+    - `review_responder(uuid, text, text)` - the only way to change a
+      responder's verification. Approve from pending, rejected or revoked;
+      reject from pending; revoke from approved. Rejecting and revoking need
+      a reason. Revoking also releases the responder's open alerts
+
+  4. Triggers
+    - `protect_responder_verification` - responders can't approve themselves,
+      on insert or through "Responders can update own data". Rejected
+      responders return to pending when they change their credentials
+    - `notify_responder_review` - invokes the `responder-review` edge function
+      to tell the responder about each decision
+
+  5. Storage
+    - Private `responder-documents` bucket. Responders manage files under
+      their own `<user id>/` folder; admins can read everything
+*/
+
+CREATE TABLE IF NOT EXISTS admins (
+  id uuid PRIMARY KEY REFERENCES auth.users(id) ON DELETE CASCADE,
+  created_at timestamptz DEFAULT now()
+);
+
+ALTER TABLE admins ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Admins can read own row"
+  ON admins
+  FOR SELECT
+  TO authenticated
+  USING (id = auth.uid());
+
+CREATE OR REPLACE FUNCTION is_admin()
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (SELECT 1 FROM admins WHERE id = auth.uid());
+$$;
+
+ALTER TABLE responders ADD COLUMN IF NOT EXISTS badge_number text;
+ALTER TABLE responders ADD COLUMN IF NOT EXISTS organization_id text;
+ALTER TABLE responders ADD COLUMN IF NOT EXISTS verification_state text NOT NULL DEFAULT 'pending'
+  CHECK (verification_state IN ('pending', 'approved', 'rejected', 'revoked'));
+ALTER TABLE responders ADD COLUMN IF NOT EXISTS verification_reason text;
+ALTER TABLE responders ADD COLUMN IF NOT EXISTS reviewed_at timestamptz;
+ALTER TABLE responders ADD COLUMN IF NOT EXISTS reviewed_by uuid REFERENCES auth.users(id) ON DELETE SET NULL;
+
+-- Responders verified by hand before this migration
+UPDATE responders SET verification_state = 'approved' WHERE verification_status = true;
+
+CREATE INDEX IF NOT EXISTS responders_verification_state_idx ON responders (verification_state);
+
+CREATE POLICY "Admins can read responders"
+  ON responders
+  FOR SELECT
+  TO authenticated
+  USING (is_admin());
+
+CREATE OR REPLACE FUNCTION protect_responder_verification()
+RETURNS trigger
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  -- review_responder sets this for the duration of its own update
+  IF auth.role() = 'service_role' OR current_setting('app.reviewing_responder', true) = 'on' THEN
+    RETURN NEW;
+  END IF;
+
+  IF TG_OP = 'INSERT' THEN
+    NEW.verification_status := false;
+    NEW.verification_state := 'pending';
+    NEW.verification_reason := NULL;
+    NEW.reviewed_at := NULL;
+    NEW.reviewed_by := NULL;
+    NEW.is_dispatcher := false;
+    RETURN NEW;
+  END IF;
+
+  IF NEW.verification_status IS DISTINCT FROM OLD.verification_status
+    OR NEW.verification_state IS DISTINCT FROM OLD.verification_state
+    OR NEW.verification_reason IS DISTINCT FROM OLD.verification_reason
+    OR NEW.reviewed_at IS DISTINCT FROM OLD.reviewed_at
+    OR NEW.reviewed_by IS DISTINCT FROM OLD.reviewed_by THEN
+    RAISE EXCEPTION 'Verification can only be changed by an administrator'
+      USING ERRCODE = 'insufficient_privilege';
+  END IF;
+
+  -- A rejected responder who corrects their credentials goes back in the queue
+  IF OLD.verification_state = 'rejected'
+    AND (NEW.badge_number IS DISTINCT FROM OLD.badge_number
+      OR NEW.organization_id IS DISTINCT FROM OLD.organization_id) THEN
+    NEW.verification_state := 'pending';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER protect_responder_verification
+  BEFORE INSERT OR UPDATE ON responders
+  FOR EACH ROW
+  EXECUTE FUNCTION protect_responder_verification();
+
+CREATE TABLE IF NOT EXISTS responder_documents (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  responder_id uuid NOT NULL REFERENCES responders(id) ON DELETE CASCADE,
+  storage_path text NOT NULL UNIQUE,
+  file_name text NOT NULL,
+  content_type text,
+  created_at timestamptz DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS responder_documents_responder_id_idx ON responder_documents (responder_id);
+
+ALTER TABLE responder_documents ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Responders can manage own documents"
+  ON responder_documents
+  FOR ALL
+  TO authenticated
+  USING (responder_id = auth.uid())
+  WITH CHECK (responder_id = auth.uid());
+
+CREATE POLICY "Admins can read responder documents"
+  ON responder_documents
+  FOR SELECT
+  TO authenticated
+  USING (is_admin());
+
+CREATE TABLE IF NOT EXISTS responder_verification_events (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  responder_id uuid NOT NULL REFERENCES responders(id) ON DELETE CASCADE,
+  admin_id uuid REFERENCES auth.users(id) ON DELETE SET NULL,
+  decision text NOT NULL CHECK (decision IN ('approved', 'rejected', 'revoked')),
+  previous_state text NOT NULL,
+  reason text,
+  created_at timestamptz DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS responder_verification_events_created_at_idx
+  ON responder_verification_events (created_at DESC);
+
+ALTER TABLE responder_verification_events ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Admins can read verification events"
+  ON responder_verification_events
+  FOR SELECT
+  TO authenticated
+  USING (is_admin());
+
+CREATE POLICY "Responders can read own verification events"
+  ON responder_verification_events
+  FOR SELECT
+  TO authenticated
+  USING (responder_id = auth.uid());
+
+CREATE OR REPLACE FUNCTION review_responder(
+  p_responder_id uuid,
+  p_decision text,
+  p_reason text DEFAULT NULL
+)
+RETURNS responders
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_responder responders;
+  v_previous text;
+  v_reason text := nullif(trim(p_reason), '');
+BEGIN
+  IF NOT is_admin() THEN
+    RAISE EXCEPTION 'Only administrators can review responders' USING ERRCODE = 'insufficient_privilege';
+  END IF;
+
+  SELECT * INTO v_responder FROM responders WHERE id = p_responder_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Responder not found' USING ERRCODE = 'no_data_found';
+  END IF;
+
+  v_previous := v_responder.verification_state;
+
+  IF NOT (
+    (p_decision = 'approved' AND v_previous IN ('pending', 'rejected', 'revoked'))
+    OR (p_decision = 'rejected' AND v_previous = 'pending')
+    OR (p_decision = 'revoked' AND v_previous = 'approved')
+  ) THEN
+    RAISE EXCEPTION 'A % responder cannot be %', v_previous, p_decision
+      USING ERRCODE = 'check_violation';
+  END IF;
+
+  IF p_decision IN ('rejected', 'revoked') AND v_reason IS NULL THEN
+    RAISE EXCEPTION 'A reason is required' USING ERRCODE = 'not_null_violation';
+  END IF;
+
+  PERFORM set_config('app.reviewing_responder', 'on', true);
+
+  UPDATE responders
+  SET verification_state = p_decision,
+      verification_status = p_decision = 'approved',
+      verification_reason = v_reason,
+      reviewed_at = now(),
+      reviewed_by = auth.uid()
+  WHERE id = p_responder_id
+  RETURNING * INTO v_responder;
+
+  PERFORM set_config('app.reviewing_responder', '', true);
+
+  IF p_decision = 'revoked' THEN
+    UPDATE alerts
+    SET assigned_responder_id = NULL, assigned_at = NULL
+    WHERE assigned_responder_id = p_responder_id
+    AND status::text NOT IN ('resolved', 'cancelled', 'false_alarm');
+  END IF;
+
+  INSERT INTO responder_verification_events (responder_id, admin_id, decision, previous_state, reason)
+  VALUES (p_responder_id, auth.uid(), p_decision, v_previous, v_reason);
+
+  RETURN v_responder;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION review_responder(uuid, text, text) FROM public, anon;
+GRANT EXECUTE ON FUNCTION review_responder(uuid, text, text) TO authenticated;
+
+CREATE OR REPLACE FUNCTION notify_responder_review()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  PERFORM invoke_edge_function('responder-review', jsonb_build_object(
+    'type', TG_OP,
+    'table', TG_TABLE_NAME,
+    'schema', TG_TABLE_SCHEMA,
+    'record', to_jsonb(NEW),
+    'old_record', null
+  ));
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER notify_responder_review
+  AFTER INSERT ON responder_verification_events
+  FOR EACH ROW
+  EXECUTE FUNCTION notify_responder_review();
+
+INSERT INTO storage.buckets (id, name, public)
+VALUES ('responder-documents', 'responder-documents', false)
+ON CONFLICT (id) DO NOTHING;
+
+CREATE POLICY "Responders can upload own documents"
+  ON storage.objects
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (bucket_id = 'responder-documents' AND (storage.foldername(name))[1] = auth.uid()::text);
+
+CREATE POLICY "Responders can read own documents"
+  ON storage.objects
+  FOR SELECT
+  TO authenticated
+  USING (bucket_id = 'responder-documents' AND (storage.foldername(name))[1] = auth.uid()::text);
+
+CREATE POLICY "Responders can delete own documents"
+  ON storage.objects
+  FOR DELETE
+  TO authenticated
+  USING (bucket_id = 'responder-documents' AND (storage.foldername(name))[1] = auth.uid()::text);
+
+CREATE POLICY "Admins can read responder documents"
+  ON storage.objects
+  FOR SELECT
+  TO authenticated
+  USING (bucket_id = 'responder-documents' AND is_admin());
@@ -0,0 +1,181 @@
+/*
+  # Per-alert message threads
+
+  1. New Tables
+    - `alert_messages`
+      - `id` (uuid, primary key)
+      - `alert_id` (uuid) - references alerts.id
+      - `sender_id` (uuid) - references auth.users.id, defaults to the caller
+      - `body` (text) - up to 2000 characters
+      - `attachment_path` (text) - photo in the `alert-attachments` bucket
+      - `created_at` (timestamptz)
+      A message needs a body, a photo, or both
+    - `alert_message_reads` - read receipts
+      - `message_id` (uuid) - references alert_messages.id
+      - `reader_id` (uuid) - references auth.users.id
+      - `read_at` (timestamptz)
+
+  2. Functions
+    - `can_access_alert_thread(uuid)` - the reporter, or a responder who can
+      see the alert
+    - `sender(alert_messages)` - computed column with the sender's display
+      name and role, since civilians can't read `responders` directly
+    - `mark_alert_messages_read(uuid)` - records receipts for every message
+      in the thread the caller didn't send
+
+  3. Security
+    - Participants can read the thread. They can post while the alert is
+      open, always as themselves
+    - Receipts are only written through `mark_alert_messages_read`
+
+  4. Storage
+    - Private `alert-attachments` bucket. Objects live under `<alert id>/`
+      and follow the same participant check as the thread
+
+  5. Realtime
+    - Both tables are added to the `supabase_realtime` publication
+*/
+
+CREATE TABLE IF NOT EXISTS alert_messages (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  alert_id uuid NOT NULL REFERENCES alerts(id) ON DELETE CASCADE,
+  sender_id uuid NOT NULL DEFAULT auth.uid() REFERENCES auth.users(id) ON DELETE CASCADE,
+  body text CHECK (body IS NULL OR char_length(body) BETWEEN 1 AND 2000),
+  attachment_path text,
+  created_at timestamptz DEFAULT now(),
+  CONSTRAINT alert_messages_content_check CHECK (body IS NOT NULL OR attachment_path IS NOT NULL)
+);
+
+CREATE INDEX IF NOT EXISTS alert_messages_alert_id_idx ON alert_messages (alert_id, created_at);
+
+CREATE TABLE IF NOT EXISTS alert_message_reads (
+  message_id uuid NOT NULL REFERENCES alert_messages(id) ON DELETE CASCADE,
+  reader_id uuid NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  read_at timestamptz DEFAULT now(),
+  PRIMARY KEY (message_id, reader_id)
+);
+
+ALTER TABLE alert_messages ENABLE ROW LEVEL SECURITY;
+ALTER TABLE alert_message_reads ENABLE ROW LEVEL SECURITY;
+
+CREATE OR REPLACE FUNCTION can_access_alert_thread(p_alert_id uuid)
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public, extensions
+AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM alerts
+    WHERE id = p_alert_id
+    AND (user_id = auth.uid() OR can_respond_at(location))
+  );
+$$;
+
+CREATE POLICY "Participants can read alert messages"
+  ON alert_messages
+  FOR SELECT
+  TO authenticated
+  USING (can_access_alert_thread(alert_id));
+
+CREATE POLICY "Participants can post to open alerts"
+  ON alert_messages
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    sender_id = auth.uid()
+    AND can_access_alert_thread(alert_id)
+    AND EXISTS (
+      SELECT 1 FROM alerts
+      WHERE alerts.id = alert_id
+      AND alerts.status::text NOT IN ('resolved', 'cancelled', 'false_alarm')
+    )
+  );
+
+CREATE POLICY "Participants can read receipts"
+  ON alert_message_reads
+  FOR SELECT
+  TO authenticated
+  USING (EXISTS (
+    SELECT 1 FROM alert_messages m
+    WHERE m.id = message_id
+    AND can_access_alert_thread(m.alert_id)
+  ));
+
+CREATE OR REPLACE FUNCTION sender(p_message alert_messages)
+RETURNS jsonb
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT COALESCE(
+    (SELECT jsonb_build_object('id', r.id, 'name', r.organization_name, 'role', r.responder_type)
+     FROM responders r WHERE r.id = p_message.sender_id),
+    (SELECT jsonb_build_object('id', u.id, 'name', COALESCE(u.full_name, 'Reporter'), 'role', 'civilian')
+     FROM users u WHERE u.id = p_message.sender_id)
+  );
+$$;
+
+CREATE OR REPLACE FUNCTION mark_alert_messages_read(p_alert_id uuid)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public, extensions
+AS $$
+BEGIN
+  IF NOT can_access_alert_thread(p_alert_id) THEN
+    RAISE EXCEPTION 'Not allowed to read this alert' USING ERRCODE = 'insufficient_privilege';
+  END IF;
+
+  INSERT INTO alert_message_reads (message_id, reader_id)
+  SELECT m.id, auth.uid()
+  FROM alert_messages m
+  WHERE m.alert_id = p_alert_id
+  AND m.sender_id <> auth.uid()
+  ON CONFLICT DO NOTHING;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION mark_alert_messages_read(uuid) FROM public, anon;
+GRANT EXECUTE ON FUNCTION mark_alert_messages_read(uuid) TO authenticated;
+
+INSERT INTO storage.buckets (id, name, public)
+VALUES ('alert-attachments', 'alert-attachments', false)
+ON CONFLICT (id) DO NOTHING;
+
+CREATE POLICY "Participants can upload alert attachments"
+  ON storage.objects
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    bucket_id = 'alert-attachments'
+    AND can_access_alert_thread(((storage.foldername(name))[1])::uuid)
+  );
+
+CREATE POLICY "Participants can read alert attachments"
+  ON storage.objects
+  FOR SELECT
+  TO authenticated
+  USING (
+    bucket_id = 'alert-attachments'
+    AND can_access_alert_thread(((storage.foldername(name))[1])::uuid)
+  );
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_publication_tables
+    WHERE pubname = 'supabase_realtime' AND schemaname = 'public' AND tablename = 'alert_messages'
+  ) THEN
+    ALTER PUBLICATION supabase_realtime ADD TABLE alert_messages;
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_publication_tables
+    WHERE pubname = 'supabase_realtime' AND schemaname = 'public' AND tablename = 'alert_message_reads'
+  ) THEN
+    ALTER PUBLICATION supabase_realtime ADD TABLE alert_message_reads;
+  END IF;
+END;
+$$;
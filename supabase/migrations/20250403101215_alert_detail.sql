@@ -0,0 +1,63 @@
+/*
+  # Alert detail screen
+
+  1. Functions
+    - `reporter(alerts)` - computed column with the reporter's name, phone and
+      medical details. Responders can't read `users`, so the alert cards had
+      no reporter to show them. Returns null unless the caller is the
+      reporter or a responder who can see the alert
+    - `actor(responses)` - computed column with the name and role of whoever
+      made each change in the timeline, since civilians can't read
+      `responders` and responders can't read `users`
+
+  2. Realtime
+    - `responses` is added to the `supabase_realtime` publication so the
+      detail screen's timeline updates as changes are made
+*/
+
+CREATE OR REPLACE FUNCTION reporter(p_alert alerts)
+RETURNS jsonb
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public, extensions
+AS $$
+  -- Looks the alert up again rather than trusting the row passed in
+  SELECT jsonb_build_object(
+    'id', u.id,
+    'full_name', u.full_name,
+    'phone_number', u.phone_number,
+    'medical_conditions', u.medical_conditions,
+    'blood_type', u.blood_type
+  )
+  FROM alerts a
+  JOIN users u ON u.id = a.user_id
+  WHERE a.id = p_alert.id
+  AND (a.user_id = auth.uid() OR can_respond_at(a.location));
+$$;
+
+CREATE OR REPLACE FUNCTION actor(p_response responses)
+RETURNS jsonb
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT COALESCE(
+    (SELECT jsonb_build_object('id', r.id, 'name', r.organization_name, 'role', r.responder_type)
+     FROM responders r WHERE r.id = COALESCE(p_response.actor_id, p_response.responder_id)),
+    (SELECT jsonb_build_object('id', u.id, 'name', COALESCE(u.full_name, 'Reporter'), 'role', 'civilian')
+     FROM users u WHERE u.id = p_response.actor_id)
+  );
+$$;
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_publication_tables
+    WHERE pubname = 'supabase_realtime' AND schemaname = 'public' AND tablename = 'responses'
+  ) THEN
+    ALTER PUBLICATION supabase_realtime ADD TABLE responses;
+  END IF;
+END;
+$$;
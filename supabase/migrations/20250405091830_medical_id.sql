@@ -0,0 +1,206 @@
+/*
+  # Structured Medical ID
+
+  1. New Types
+    - `blood_type` - A+, A-, B+, B-, AB+, AB-, O+, O-
+    - `allergy_severity` - mild, moderate, severe, life_threatening
+
+  2. New Tables
+    - `medical_ids` - one per civilian
+      - `user_id` (uuid, primary key) - references users.id
+      - `blood_type` (blood_type)
+      - `allergies` (jsonb) - `[{ substance, severity, reaction }]`
+      - `medications` (jsonb) - `[{ name, dosage, frequency }]`
+      - `conditions` (jsonb) - `[{ name, notes }]`
+      - `implanted_devices` (jsonb) - `[{ name, notes }]`
+      - `organ_donor` (boolean) - null when the user hasn't said
+      - `physician_name`, `physician_phone` (text)
+      - `updated_at` (timestamptz)
+
+  3. Functions
+    - `validate_medical_id` - trigger that rejects malformed entries, so
+      responders never see half-filled records
+    - `reporter(alerts)` now returns the reporter's Medical ID instead of the
+      old free-text fields
+
+  4. Security
+    - Users manage their own Medical ID. Responders only see it through
+      `reporter(alerts)`, for alerts they can respond to
+
+  5. Changes
+    - Existing `users.blood_type` values and `users.medical_conditions` are
+      copied into `medical_ids`; both columns are then dropped. Common
+      spellings such as "A positive" or "O neg" become the enum, and blood
+      types that still can't be read are kept as a "Blood type" condition
+      with the original text as its notes
+*/
+
+DO $$
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM pg_type WHERE typname = 'blood_type') THEN
+    CREATE TYPE blood_type AS ENUM ('A+', 'A-', 'B+', 'B-', 'AB+', 'AB-', 'O+', 'O-');
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM pg_type WHERE typname = 'allergy_severity') THEN
+    CREATE TYPE allergy_severity AS ENUM ('mild', 'moderate', 'severe', 'life_threatening');
+  END IF;
+END;
+$$;
+
+CREATE TABLE IF NOT EXISTS medical_ids (
+  user_id uuid PRIMARY KEY REFERENCES users(id) ON DELETE CASCADE,
+  blood_type blood_type,
+  allergies jsonb NOT NULL DEFAULT '[]',
+  medications jsonb NOT NULL DEFAULT '[]',
+  conditions jsonb NOT NULL DEFAULT '[]',
+  implanted_devices jsonb NOT NULL DEFAULT '[]',
+  organ_donor boolean,
+  physician_name text CHECK (physician_name IS NULL OR char_length(physician_name) <= 200),
+  physician_phone text CHECK (physician_phone IS NULL OR char_length(physician_phone) <= 50),
+  updated_at timestamptz DEFAULT now()
+);
+
+ALTER TABLE medical_ids ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can read own medical ID"
+  ON medical_ids
+  FOR SELECT
+  TO authenticated
+  USING (user_id = auth.uid());
+
+CREATE POLICY "Users can create own medical ID"
+  ON medical_ids
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (user_id = auth.uid());
+
+CREATE POLICY "Users can update own medical ID"
+  ON medical_ids
+  FOR UPDATE
+  TO authenticated
+  USING (user_id = auth.uid())
+  WITH CHECK (user_id = auth.uid());
+
+-- Every entry in a list must be an object with a non-empty `key`
+CREATE OR REPLACE FUNCTION medical_entries_valid(p_entries jsonb, p_key text)
+RETURNS boolean
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT jsonb_typeof(p_entries) = 'array'
+    AND jsonb_array_length(p_entries) <= 50
+    AND NOT EXISTS (
+      SELECT 1 FROM jsonb_array_elements(p_entries) AS entry
+      WHERE jsonb_typeof(entry) <> 'object'
+      OR COALESCE(btrim(entry ->> p_key), '') = ''
+      OR char_length(entry::text) > 1000
+    );
+$$;
+
+CREATE OR REPLACE FUNCTION validate_medical_id()
+RETURNS trigger
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  IF NOT medical_entries_valid(NEW.allergies, 'substance') THEN
+    RAISE EXCEPTION 'Each allergy needs a substance' USING ERRCODE = 'check_violation';
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM jsonb_array_elements(NEW.allergies) AS entry
+    WHERE COALESCE(entry ->> 'severity', '') <> ALL (enum_range(NULL::allergy_severity)::text[])
+  ) THEN
+    RAISE EXCEPTION 'Each allergy needs a severity of mild, moderate, severe or life_threatening'
+      USING ERRCODE = 'check_violation';
+  END IF;
+
+  IF NOT medical_entries_valid(NEW.medications, 'name') THEN
+    RAISE EXCEPTION 'Each medication needs a name' USING ERRCODE = 'check_violation';
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM jsonb_array_elements(NEW.medications) AS entry
+    WHERE COALESCE(btrim(entry ->> 'dosage'), '') = ''
+  ) THEN
+    RAISE EXCEPTION 'Each medication needs a dosage' USING ERRCODE = 'check_violation';
+  END IF;
+
+  IF NOT medical_entries_valid(NEW.conditions, 'name') THEN
+    RAISE EXCEPTION 'Each condition needs a name' USING ERRCODE = 'check_violation';
+  END IF;
+
+  IF NOT medical_entries_valid(NEW.implanted_devices, 'name') THEN
+    RAISE EXCEPTION 'Each implanted device needs a name' USING ERRCODE = 'check_violation';
+  END IF;
+
+  NEW.updated_at := now();
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER validate_medical_id
+  BEFORE INSERT OR UPDATE ON medical_ids
+  FOR EACH ROW
+  EXECUTE FUNCTION validate_medical_id();
+
+-- Free-text blood types as people wrote them: "A positive", "O neg", "AB Rh+",
+-- "type 0-". Anything still unreadable is kept as a condition note
+WITH old_blood_types AS (
+  SELECT
+    u.id,
+    NULLIF(btrim(u.blood_type), '') AS original,
+    regexp_match(
+      regexp_replace(lower(COALESCE(u.blood_type, '')), '\s|\.|\(|\)|rh|type', '', 'g'),
+      '^(ab|a|b|o|0)(\+|-|\+ve|-ve|pos|positive|neg|negative)$'
+    ) AS parts
+  FROM users u
+)
+INSERT INTO medical_ids (user_id, blood_type, conditions)
+SELECT
+  u.id,
+  CASE
+    WHEN b.parts IS NOT NULL THEN
+      (replace(upper(b.parts[1]), '0', 'O')
+        || CASE WHEN b.parts[2] IN ('+', '+ve', 'pos', 'positive') THEN '+' ELSE '-' END)::blood_type
+  END,
+  COALESCE(
+    (SELECT jsonb_agg(jsonb_build_object('name', btrim(c)))
+     FROM unnest(u.medical_conditions) AS c
+     WHERE btrim(c) <> ''),
+    '[]'
+  ) || CASE
+    WHEN b.parts IS NULL AND b.original IS NOT NULL THEN
+      jsonb_build_array(jsonb_build_object('name', 'Blood type', 'notes', left(b.original, 500)))
+    ELSE '[]'
+  END
+FROM users u
+JOIN old_blood_types b ON b.id = u.id
+WHERE u.blood_type IS NOT NULL OR cardinality(u.medical_conditions) > 0
+ON CONFLICT (user_id) DO NOTHING;
+
+ALTER TABLE users DROP COLUMN IF EXISTS blood_type;
+ALTER TABLE users DROP COLUMN IF EXISTS medical_conditions;
+
+CREATE OR REPLACE FUNCTION reporter(p_alert alerts)
+RETURNS jsonb
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public, extensions
+AS $$
+  -- Looks the alert up again rather than trusting the row passed in
+  SELECT jsonb_build_object(
+    'id', u.id,
+    'full_name', u.full_name,
+    'phone_number', u.phone_number,
+    'medical_id', (
+      SELECT to_jsonb(m) - 'user_id'
+      FROM medical_ids m
+      WHERE m.user_id = u.id
+    )
+  )
+  FROM alerts a
+  JOIN users u ON u.id = a.user_id
+  WHERE a.id = p_alert.id
+  AND (a.user_id = auth.uid() OR can_respond_at(a.location));
+$$;
@@ -0,0 +1,34 @@
+/*
+  # Silent alerts
+
+  1. Changes
+    - `alerts`
+      - `silent` (boolean) - sent from discreet mode. The reporter may be
+        near the person they are hiding from, so responders and contacts
+        must not call or text them, and the reporter gets no push
+        notifications about the alert
+
+  2. Triggers
+    - `protect_alert_silent_flag` - the flag is fixed at insert, so a
+      responder can't turn a silent alert into a normal one
+*/
+
+ALTER TABLE alerts ADD COLUMN IF NOT EXISTS silent boolean NOT NULL DEFAULT false;
+
+CREATE OR REPLACE FUNCTION protect_alert_silent_flag()
+RETURNS trigger
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  IF NEW.silent IS DISTINCT FROM OLD.silent THEN
+    RAISE EXCEPTION 'An alert''s silent flag cannot be changed' USING ERRCODE = 'insufficient_privilege';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER protect_alert_silent_flag
+  BEFORE UPDATE OF silent ON alerts
+  FOR EACH ROW
+  EXECUTE FUNCTION protect_alert_silent_flag();
@@ -0,0 +1,28 @@
+/*
+  # Emergency button activation mode
+
+  1. New Types
+    - `alert_activation_mode` - countdown, hold
+
+  2. Changes
+    - `users`
+      - `alert_activation_mode` (alert_activation_mode) - how the SOS,
+        Police and Medical buttons confirm a press. `countdown` sends after
+        a cancellable grace period, `hold` sends once the button has been
+        held down long enough. Either way nothing is written to `alerts`
+        until the press is confirmed on the device
+
+  3. Security
+    - Covered by the existing "Users can update own data" policy
+*/
+
+DO $$
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM pg_type WHERE typname = 'alert_activation_mode') THEN
+    CREATE TYPE alert_activation_mode AS ENUM ('countdown', 'hold');
+  END IF;
+END;
+$$;
+
+ALTER TABLE users
+  ADD COLUMN IF NOT EXISTS alert_activation_mode alert_activation_mode NOT NULL DEFAULT 'countdown';
@@ -0,0 +1,23 @@
+/*
+  # Alert history search
+
+  1. Changes
+    - `alerts`
+      - `address` (text) - address resolved on the reporter's device when
+        the alert was sent, so lists no longer reverse-geocode every row on
+        every load. Null for older alerts and when geocoding failed
+
+  2. Indexes
+    - `alerts_created_at_id_idx` - keyset pagination, newest first, with
+      `id` breaking ties between alerts sent in the same instant
+    - `alerts_description_trgm_idx`, `alerts_address_trgm_idx` - substring
+      search on description and address (ILIKE '%...%')
+*/
+
+CREATE EXTENSION IF NOT EXISTS pg_trgm;
+
+ALTER TABLE alerts ADD COLUMN IF NOT EXISTS address text;
+
+CREATE INDEX IF NOT EXISTS alerts_created_at_id_idx ON alerts (created_at DESC, id DESC);
+CREATE INDEX IF NOT EXISTS alerts_description_trgm_idx ON alerts USING gin (description gin_trgm_ops);
+CREATE INDEX IF NOT EXISTS alerts_address_trgm_idx ON alerts USING gin (address gin_trgm_ops);
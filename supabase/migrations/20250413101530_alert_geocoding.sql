@@ -0,0 +1,80 @@
+/*
+  # Server-side reverse geocoding for alerts
+
+  1. Changes
+    - `alerts`
+      - `address_street`, `address_city`, `address_region`,
+        `address_postcode`, `address_country` (text) - structured address
+        from the `geocode-alert` edge function
+      - `address_location` (geography point) - where the stored address was
+        resolved, so movement can be measured against it
+      - `address_resolved_at` (timestamptz)
+      - `address_requested_at` (timestamptz) - last time a lookup was queued
+      - `address` keeps the one-line form. The reporter's device may fill it
+        in at insert; the edge function replaces it with its own result
+
+  2. Functions
+    - `queue_alert_geocode()` - trigger on alert insert and on new last
+      locations. Queues a lookup when the alert has no address yet or the
+      reporter has moved more than 250 m from where it was resolved. At most
+      one lookup per alert is queued every 30 seconds
+
+  3. Setup
+    - The edge function reads the LocationIQ key from `LOCATIONIQ_TOKEN`:
+        supabase secrets set LOCATIONIQ_TOKEN=<key>
+*/
+
+ALTER TABLE alerts ADD COLUMN IF NOT EXISTS address_street text;
+ALTER TABLE alerts ADD COLUMN IF NOT EXISTS address_city text;
+ALTER TABLE alerts ADD COLUMN IF NOT EXISTS address_region text;
+ALTER TABLE alerts ADD COLUMN IF NOT EXISTS address_postcode text;
+ALTER TABLE alerts ADD COLUMN IF NOT EXISTS address_country text;
+ALTER TABLE alerts ADD COLUMN IF NOT EXISTS address_location geography(Point, 4326);
+ALTER TABLE alerts ADD COLUMN IF NOT EXISTS address_resolved_at timestamptz;
+ALTER TABLE alerts ADD COLUMN IF NOT EXISTS address_requested_at timestamptz;
+
+CREATE OR REPLACE FUNCTION queue_alert_geocode()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public, extensions
+AS $$
+DECLARE
+  v_latitude float8 := COALESCE(NEW.last_latitude, NEW.latitude);
+  v_longitude float8 := COALESCE(NEW.last_longitude, NEW.longitude);
+BEGIN
+  IF v_latitude IS NULL OR v_longitude IS NULL THEN
+    RETURN NEW;
+  END IF;
+
+  IF NEW.address_requested_at > now() - interval '30 seconds' THEN
+    RETURN NEW;
+  END IF;
+
+  IF NEW.address_location IS NOT NULL AND ST_DWithin(
+    NEW.address_location,
+    ST_SetSRID(ST_MakePoint(v_longitude, v_latitude), 4326)::geography,
+    250
+  ) THEN
+    RETURN NEW;
+  END IF;
+
+  -- Recorded first so a burst of location updates queues a single lookup
+  UPDATE alerts SET address_requested_at = now() WHERE id = NEW.id;
+
+  PERFORM invoke_edge_function('geocode-alert', jsonb_build_object(
+    'alert_id', NEW.id,
+    'latitude', v_latitude,
+    'longitude', v_longitude
+  ));
+
+  RETURN NEW;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION queue_alert_geocode() FROM public, anon, authenticated;
+
+CREATE TRIGGER queue_alert_geocode
+  AFTER INSERT OR UPDATE OF last_latitude, last_longitude ON alerts
+  FOR EACH ROW
+  EXECUTE FUNCTION queue_alert_geocode();
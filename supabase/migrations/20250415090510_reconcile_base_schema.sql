@@ -0,0 +1,284 @@
+/*
+  # Reconcile the two base schemas
+
+  `jolly_island` and `sparkling_cake` both create `users`, `responders`,
+  `contacts`, `alerts` and `responses`, so which one a database got depends
+  on the order they first ran in. This migration brings either variant, and
+  the columns the app wrote before any migration defined them, to one schema.
+  Both files are left as they first ran. The four policy names they share
+  are cleared in between by 20250308212751_base_schema_policy_names, which
+  sorts just before `sparkling_cake`, so a fresh database replays them all.
+
+  1. Types
+    - `alerts.type`, `alerts.status` and `responders.responder_type` use the
+      `alert_type`, `alert_status` and `responder_type` enums. Text columns
+      from `sparkling_cake` are converted and their CHECK constraints dropped
+    - `alerts.status` is NOT NULL
+
+  2. Columns
+    - `users`
+      - `email` (text) - copied from auth.users at sign-up; backfilled here
+      - `user_type` (text) - always 'civilian'; responders live in `responders`
+      - `last_login` (timestamptz) - NULL until the first login, which shows
+        the welcome screens
+      - `updated_at` (timestamptz)
+    - `responders.updated_at`, `contacts.updated_at` (timestamptz)
+    - `alerts.description` (text), `alerts.updated_at` (timestamptz)
+    - `contacts.phone_number` is optional, but a contact needs a phone
+      number or an email address
+
+  3. Foreign keys
+    - `users.id` and `responders.id` cascade from auth.users
+    - `responses.responder_id` is set to NULL when a responder is deleted, so
+      an alert's timeline survives the account
+
+  4. Triggers
+    - `update_updated_at` on `users`, `responders`, `contacts` and `alerts`
+    - The `UPDATE OF status` triggers are recreated unchanged; they pin the
+      column type and have to be dropped while it converts
+
+  5. Security
+    - One policy set per table, replacing both originals
+    - `users` and `responders`: owners can create, read and update their
+      own row
+    - `contacts`: owners can do anything with their own contacts
+    - `alerts`: civilians create alerts as themselves. Reads and status
+      changes are unchanged (service area policies and `transition_alert`)
+    - `responses`: reporters read their alert's timeline and verified
+      responders read timelines for alerts in their service area. Nobody
+      inserts directly; the alert functions and triggers write every row
+    - Tests for every policy are in `supabase/tests/database`
+*/
+
+-- 1. Types
+
+DROP TRIGGER IF EXISTS notify_alert_push ON alerts;
+DROP TRIGGER IF EXISTS enforce_alert_status_transition ON alerts;
+DROP TRIGGER IF EXISTS record_alert_status_transition ON alerts;
+DROP POLICY IF EXISTS "Users can add locations to own active alerts" ON alert_locations;
+DROP POLICY IF EXISTS "Participants can post to open alerts" ON alert_messages;
+
+ALTER TABLE alerts DROP CONSTRAINT IF EXISTS alerts_type_check;
+ALTER TABLE alerts DROP CONSTRAINT IF EXISTS alerts_status_check;
+ALTER TABLE responders DROP CONSTRAINT IF EXISTS responders_responder_type_check;
+
+DO $$
+BEGIN
+  IF (SELECT data_type FROM information_schema.columns
+      WHERE table_schema = 'public' AND table_name = 'alerts' AND column_name = 'type') = 'text' THEN
+    ALTER TABLE alerts ALTER COLUMN type TYPE alert_type USING type::alert_type;
+  END IF;
+
+  IF (SELECT data_type FROM information_schema.columns
+      WHERE table_schema = 'public' AND table_name = 'alerts' AND column_name = 'status') = 'text' THEN
+    ALTER TABLE alerts ALTER COLUMN status DROP DEFAULT;
+    ALTER TABLE alerts ALTER COLUMN status TYPE alert_status USING status::alert_status;
+  END IF;
+
+  IF (SELECT data_type FROM information_schema.columns
+      WHERE table_schema = 'public' AND table_name = 'responders' AND column_name = 'responder_type') = 'text' THEN
+    ALTER TABLE responders ALTER COLUMN responder_type TYPE responder_type USING responder_type::responder_type;
+  END IF;
+END;
+$$;
+
+UPDATE alerts SET status = 'pending' WHERE status IS NULL;
+ALTER TABLE alerts ALTER COLUMN status SET DEFAULT 'pending';
+ALTER TABLE alerts ALTER COLUMN status SET NOT NULL;
+
+-- 2. Columns
+
+ALTER TABLE users ADD COLUMN IF NOT EXISTS email text;
+ALTER TABLE users ADD COLUMN IF NOT EXISTS user_type text;
+ALTER TABLE users ADD COLUMN IF NOT EXISTS last_login timestamptz;
+ALTER TABLE users ADD COLUMN IF NOT EXISTS updated_at timestamptz DEFAULT now();
+
+UPDATE users
+SET email = auth_users.email
+FROM auth.users auth_users
+WHERE auth_users.id = users.id
+AND users.email IS NULL;
+
+UPDATE users SET user_type = 'civilian' WHERE user_type IS DISTINCT FROM 'civilian';
+ALTER TABLE users ALTER COLUMN user_type SET DEFAULT 'civilian';
+ALTER TABLE users ALTER COLUMN user_type SET NOT NULL;
+ALTER TABLE users DROP CONSTRAINT IF EXISTS users_user_type_check;
+ALTER TABLE users ADD CONSTRAINT users_user_type_check CHECK (user_type = 'civilian');
+
+ALTER TABLE responders ADD COLUMN IF NOT EXISTS updated_at timestamptz DEFAULT now();
+ALTER TABLE contacts ADD COLUMN IF NOT EXISTS updated_at timestamptz DEFAULT now();
+ALTER TABLE alerts ADD COLUMN IF NOT EXISTS description text;
+ALTER TABLE alerts ADD COLUMN IF NOT EXISTS updated_at timestamptz DEFAULT now();
+
+ALTER TABLE contacts ALTER COLUMN phone_number DROP NOT NULL;
+ALTER TABLE contacts DROP CONSTRAINT IF EXISTS contacts_reachable_check;
+-- NOT VALID: existing rows are left alone, new and edited ones are checked
+ALTER TABLE contacts ADD CONSTRAINT contacts_reachable_check
+  CHECK (phone_number IS NOT NULL OR email IS NOT NULL) NOT VALID;
+
+-- 3. Foreign keys
+
+ALTER TABLE users DROP CONSTRAINT IF EXISTS users_id_fkey;
+ALTER TABLE users ADD CONSTRAINT users_id_fkey
+  FOREIGN KEY (id) REFERENCES auth.users(id) ON DELETE CASCADE;
+
+ALTER TABLE responders DROP CONSTRAINT IF EXISTS responders_id_fkey;
+ALTER TABLE responders ADD CONSTRAINT responders_id_fkey
+  FOREIGN KEY (id) REFERENCES auth.users(id) ON DELETE CASCADE;
+
+ALTER TABLE responses DROP CONSTRAINT IF EXISTS responses_responder_id_fkey;
+ALTER TABLE responses ADD CONSTRAINT responses_responder_id_fkey
+  FOREIGN KEY (responder_id) REFERENCES responders(id) ON DELETE SET NULL;
+
+-- 4. Triggers
+
+DROP TRIGGER IF EXISTS update_users_updated_at ON users;
+CREATE TRIGGER update_users_updated_at
+  BEFORE UPDATE ON users
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at();
+
+DROP TRIGGER IF EXISTS update_responders_updated_at ON responders;
+CREATE TRIGGER update_responders_updated_at
+  BEFORE UPDATE ON responders
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at();
+
+DROP TRIGGER IF EXISTS update_contacts_updated_at ON contacts;
+CREATE TRIGGER update_contacts_updated_at
+  BEFORE UPDATE ON contacts
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at();
+
+DROP TRIGGER IF EXISTS update_alerts_updated_at ON alerts;
+CREATE TRIGGER update_alerts_updated_at
+  BEFORE UPDATE ON alerts
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at();
+
+CREATE TRIGGER notify_alert_push
+  AFTER INSERT OR UPDATE OF status ON alerts
+  FOR EACH ROW
+  EXECUTE FUNCTION notify_alert_push();
+
+CREATE TRIGGER enforce_alert_status_transition
+  BEFORE UPDATE OF status ON alerts
+  FOR EACH ROW
+  EXECUTE FUNCTION enforce_alert_status_transition();
+
+CREATE TRIGGER record_alert_status_transition
+  AFTER UPDATE OF status ON alerts
+  FOR EACH ROW
+  EXECUTE FUNCTION record_alert_status_transition();
+
+-- 5. Security
+
+DROP POLICY IF EXISTS "Users can read own data" ON users;
+DROP POLICY IF EXISTS "Users can update own data" ON users;
+
+CREATE POLICY "Users can read own data"
+  ON users
+  FOR SELECT
+  TO authenticated
+  USING (id = auth.uid());
+
+CREATE POLICY "Users can create own profile"
+  ON users
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (id = auth.uid());
+
+CREATE POLICY "Users can update own data"
+  ON users
+  FOR UPDATE
+  TO authenticated
+  USING (id = auth.uid())
+  WITH CHECK (id = auth.uid());
+
+DROP POLICY IF EXISTS "Responders can read own data" ON responders;
+DROP POLICY IF EXISTS "Responders can update own data" ON responders;
+
+CREATE POLICY "Responders can read own data"
+  ON responders
+  FOR SELECT
+  TO authenticated
+  USING (id = auth.uid());
+
+-- protect_responder_verification resets the verification fields on insert
+CREATE POLICY "Responders can create own profile"
+  ON responders
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (id = auth.uid());
+
+CREATE POLICY "Responders can update own data"
+  ON responders
+  FOR UPDATE
+  TO authenticated
+  USING (id = auth.uid())
+  WITH CHECK (id = auth.uid());
+
+DROP POLICY IF EXISTS "Users can CRUD their contacts" ON contacts;
+DROP POLICY IF EXISTS "Users can CRUD own contacts" ON contacts;
+
+CREATE POLICY "Users can manage own contacts"
+  ON contacts
+  FOR ALL
+  TO authenticated
+  USING (user_id = auth.uid())
+  WITH CHECK (user_id = auth.uid());
+
+DROP POLICY IF EXISTS "Users can create alerts" ON alerts;
+
+CREATE POLICY "Users can create alerts"
+  ON alerts
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (user_id = auth.uid());
+
+DROP POLICY IF EXISTS "Responders can create responses" ON responses;
+DROP POLICY IF EXISTS "Users can view responses to their alerts" ON responses;
+DROP POLICY IF EXISTS "Users can read responses to their alerts" ON responses;
+
+CREATE POLICY "Users can read responses to their alerts"
+  ON responses
+  FOR SELECT
+  TO authenticated
+  USING (EXISTS (
+    SELECT 1 FROM alerts WHERE alerts.id = alert_id AND alerts.user_id = auth.uid()
+  ));
+
+CREATE POLICY "Responders can read responses in their service area"
+  ON responses
+  FOR SELECT
+  TO authenticated
+  USING (EXISTS (
+    SELECT 1 FROM alerts
+    WHERE alerts.id = alert_id
+    AND can_respond_at(alerts.location)
+  ));
+
+CREATE POLICY "Users can add locations to own active alerts"
+  ON alert_locations
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (EXISTS (
+    SELECT 1 FROM alerts
+    WHERE alerts.id = alert_id
+    AND alerts.user_id = auth.uid()
+    AND alerts.status::text NOT IN ('resolved', 'cancelled', 'false_alarm')
+  ));
+
+CREATE POLICY "Participants can post to open alerts"
+  ON alert_messages
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    sender_id = auth.uid()
+    AND can_access_alert_thread(alert_id)
+    AND EXISTS (
+      SELECT 1 FROM alerts
+      WHERE alerts.id = alert_id
+      AND alerts.status::text NOT IN ('resolved', 'cancelled', 'false_alarm')
+    )
+  );
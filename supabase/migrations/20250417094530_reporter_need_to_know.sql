@@ -0,0 +1,269 @@
+/*
+  # Need-to-know access to reporter details
+
+  Verified responders could read the name, phone number, medical ID and
+  emergency contacts of every civilian behind every alert in their service
+  area, including alerts that closed long ago. Reporter details are now only
+  returned to responders who need them, and every read is logged for the
+  civilian to see.
+
+  1. New Tables
+    - `reporter_access_events` - one row per read of a civilian's details.
+      Repeat reads of the same fields within 15 minutes share a row
+      - `id` (uuid, primary key)
+      - `user_id` (uuid) - the civilian whose details were read
+      - `alert_id` (uuid) - the alert they were read through
+      - `responder_id` (uuid) - who read them
+      - `organization_name` (text), `responder_type` (responder_type) - copied
+        from the responder, since civilians can't read `responders` and the
+        responder may later be deleted
+      - `fields` (text[]) - any of 'contact_details', 'medical_id' and
+        'emergency_contacts'
+      - `created_at` (timestamptz)
+
+  2. Changes
+    - `alerts.closed_at` (timestamptz) - when the alert was resolved,
+      cancelled or marked a false alarm. Backfilled from the timeline
+
+  3. Functions
+    - `can_read_reporter_details(uuid)` - true for a verified responder when
+      the alert is open and either assigned to them or in their service
+      area, or when it closed in the last 24 hours and was assigned to them
+    - `read_alert_reporters(uuid[])` - the reporter and emergency contacts
+      for each alert the caller may see them on. Reads by anyone but the
+      reporter are written to `reporter_access_events`. This is an RPC
+      rather than a computed column because PostgREST runs reads in
+      read-only transactions, where the log can't be written
+    - `reporter(alerts)` is dropped in favour of `read_alert_reporters`
+    - `actor(responses)` and `sender(alert_messages)` name a civilian only
+      to themselves and to responders who may read the reporter's details;
+      everyone else sees 'Reporter'
+    - `can_access_alert_thread(uuid)` - the reporter, or a responder who may
+      read the reporter's details. Responders in the service area lose the
+      thread and its photos when the alert closes, like the details
+
+  4. Triggers
+    - `stamp_alert_closed_at` sets `closed_at` when an alert closes
+
+  5. Security
+    - `reporter_access_events`: civilians read their own; admins read all.
+      Rows are only written by `read_alert_reporters`
+    - `alert_contacts`: responders no longer read the table directly
+    - `alert_messages`, `alert_message_reads` and the `alert-attachments`
+      bucket follow the new `can_access_alert_thread`
+*/
+
+ALTER TABLE alerts ADD COLUMN IF NOT EXISTS closed_at timestamptz;
+
+UPDATE alerts
+SET closed_at = COALESCE(
+  (SELECT max(r.created_at) FROM responses r WHERE r.alert_id = alerts.id AND r.to_status = alerts.status),
+  alerts.updated_at,
+  alerts.created_at
+)
+WHERE status::text IN ('resolved', 'cancelled', 'false_alarm')
+AND closed_at IS NULL;
+
+CREATE OR REPLACE FUNCTION stamp_alert_closed_at()
+RETURNS trigger
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  IF NEW.status::text IN ('resolved', 'cancelled', 'false_alarm')
+    AND OLD.status::text NOT IN ('resolved', 'cancelled', 'false_alarm') THEN
+    NEW.closed_at := now();
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS stamp_alert_closed_at ON alerts;
+CREATE TRIGGER stamp_alert_closed_at
+  BEFORE UPDATE OF status ON alerts
+  FOR EACH ROW
+  EXECUTE FUNCTION stamp_alert_closed_at();
+
+CREATE TABLE IF NOT EXISTS reporter_access_events (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id uuid NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  alert_id uuid REFERENCES alerts(id) ON DELETE SET NULL,
+  responder_id uuid REFERENCES responders(id) ON DELETE SET NULL,
+  organization_name text NOT NULL,
+  responder_type responder_type NOT NULL,
+  fields text[] NOT NULL,
+  created_at timestamptz DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS reporter_access_events_user_id_idx
+  ON reporter_access_events (user_id, created_at DESC);
+
+CREATE INDEX IF NOT EXISTS reporter_access_events_alert_id_idx
+  ON reporter_access_events (alert_id, responder_id, created_at DESC);
+
+ALTER TABLE reporter_access_events ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can read who accessed their details"
+  ON reporter_access_events
+  FOR SELECT
+  TO authenticated
+  USING (user_id = auth.uid());
+
+CREATE POLICY "Admins can read reporter access events"
+  ON reporter_access_events
+  FOR SELECT
+  TO authenticated
+  USING (is_admin());
+
+CREATE OR REPLACE FUNCTION can_read_reporter_details(p_alert_id uuid)
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public, extensions
+AS $$
+  SELECT EXISTS (
+    SELECT 1
+    FROM alerts a
+    JOIN responders r ON r.id = auth.uid() AND r.verification_status = true
+    WHERE a.id = p_alert_id
+    AND CASE
+      WHEN a.status::text NOT IN ('resolved', 'cancelled', 'false_alarm') THEN
+        a.assigned_responder_id = r.id OR can_respond_at(a.location)
+      ELSE
+        a.assigned_responder_id = r.id AND a.closed_at > now() - interval '24 hours'
+    END
+  );
+$$;
+
+CREATE OR REPLACE FUNCTION read_alert_reporters(p_alert_ids uuid[])
+RETURNS TABLE (alert_id uuid, reporter jsonb, contacts jsonb)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public, extensions
+AS $$
+DECLARE
+  v_alert alerts;
+  v_reporter jsonb;
+  v_contacts jsonb;
+  v_fields text[];
+BEGIN
+  FOR v_alert IN
+    SELECT * FROM alerts a
+    WHERE a.id = ANY (p_alert_ids)
+    AND (a.user_id = auth.uid() OR can_read_reporter_details(a.id))
+  LOOP
+    SELECT jsonb_build_object(
+      'id', u.id,
+      'full_name', u.full_name,
+      'phone_number', u.phone_number,
+      'medical_id', (
+        SELECT to_jsonb(m) - 'user_id'
+        FROM medical_ids m
+        WHERE m.user_id = u.id
+      )
+    )
+    INTO v_reporter
+    FROM users u
+    WHERE u.id = v_alert.user_id;
+
+    SELECT COALESCE(jsonb_agg(to_jsonb(c) - 'alert_id' - 'contact_id' - 'created_at' ORDER BY c.is_primary DESC, c.name), '[]'::jsonb)
+    INTO v_contacts
+    FROM alert_contacts c
+    WHERE c.alert_id = v_alert.id;
+
+    IF v_alert.user_id IS DISTINCT FROM auth.uid() THEN
+      v_fields := ARRAY['contact_details'];
+      IF v_reporter->'medical_id' <> 'null'::jsonb THEN
+        v_fields := array_append(v_fields, 'medical_id');
+      END IF;
+      IF jsonb_array_length(v_contacts) > 0 THEN
+        v_fields := array_append(v_fields, 'emergency_contacts');
+      END IF;
+
+      -- Feeds reload as alerts change, so repeat reads of the same fields are logged once
+      INSERT INTO reporter_access_events (user_id, alert_id, responder_id, organization_name, responder_type, fields)
+      SELECT v_alert.user_id, v_alert.id, r.id, r.organization_name, r.responder_type, v_fields
+      FROM responders r
+      WHERE r.id = auth.uid()
+      AND NOT EXISTS (
+        SELECT 1 FROM reporter_access_events e
+        WHERE e.alert_id = v_alert.id
+        AND e.responder_id = r.id
+        AND e.fields @> v_fields
+        AND e.created_at > now() - interval '15 minutes'
+      );
+    END IF;
+
+    alert_id := v_alert.id;
+    reporter := v_reporter;
+    contacts := v_contacts;
+    RETURN NEXT;
+  END LOOP;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION read_alert_reporters(uuid[]) FROM public, anon;
+GRANT EXECUTE ON FUNCTION read_alert_reporters(uuid[]) TO authenticated;
+
+DROP FUNCTION IF EXISTS reporter(alerts);
+
+DROP POLICY IF EXISTS "Responders can read contacts on alerts in their service area" ON alert_contacts;
+
+CREATE OR REPLACE FUNCTION actor(p_response responses)
+RETURNS jsonb
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT COALESCE(
+    (SELECT jsonb_build_object('id', r.id, 'name', r.organization_name, 'role', r.responder_type)
+     FROM responders r WHERE r.id = COALESCE(p_response.actor_id, p_response.responder_id)),
+    (SELECT jsonb_build_object(
+       'id', u.id,
+       'name', CASE
+         WHEN u.id = auth.uid() OR can_read_reporter_details(p_response.alert_id) THEN COALESCE(u.full_name, 'Reporter')
+         ELSE 'Reporter'
+       END,
+       'role', 'civilian'
+     )
+     FROM users u WHERE u.id = p_response.actor_id)
+  );
+$$;
+
+CREATE OR REPLACE FUNCTION sender(p_message alert_messages)
+RETURNS jsonb
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT COALESCE(
+    (SELECT jsonb_build_object('id', r.id, 'name', r.organization_name, 'role', r.responder_type)
+     FROM responders r WHERE r.id = p_message.sender_id),
+    (SELECT jsonb_build_object(
+       'id', u.id,
+       'name', CASE
+         WHEN u.id = auth.uid() OR can_read_reporter_details(p_message.alert_id) THEN COALESCE(u.full_name, 'Reporter')
+         ELSE 'Reporter'
+       END,
+       'role', 'civilian'
+     )
+     FROM users u WHERE u.id = p_message.sender_id)
+  );
+$$;
+
+CREATE OR REPLACE FUNCTION can_access_alert_thread(p_alert_id uuid)
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public, extensions
+AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM alerts
+    WHERE id = p_alert_id
+    AND (user_id = auth.uid() OR can_read_reporter_details(id))
+  );
+$$;
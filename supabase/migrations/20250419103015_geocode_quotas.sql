@@ -0,0 +1,55 @@
+/*
+  # Geocoding quotas
+
+  The app now geocodes through the `geocode` edge function, which holds the
+  provider key, instead of calling LocationIQ with a key shipped in the app.
+  Each user gets a fixed number of lookups per window so one client can't
+  spend the whole provider quota.
+
+  1. New Tables
+    - `geocode_quotas` - one row per user
+      - `user_id` (uuid, primary key)
+      - `window_started_at` (timestamptz) - when the current window opened
+      - `request_count` (integer) - lookups made in the current window
+
+  2. Functions
+    - `take_geocode_quota(uuid, integer, interval)` - counts a lookup against
+      the user, starting a new window once the current one has passed, and
+      returns whether they were still within the limit
+
+  3. Security
+    - `geocode_quotas`: RLS enabled with no policies; only the edge function,
+      using the service role, reads or writes it
+    - `take_geocode_quota` can't be called by clients
+*/
+
+CREATE TABLE IF NOT EXISTS geocode_quotas (
+  user_id uuid PRIMARY KEY REFERENCES auth.users(id) ON DELETE CASCADE,
+  window_started_at timestamptz NOT NULL DEFAULT now(),
+  request_count integer NOT NULL DEFAULT 0
+);
+
+ALTER TABLE geocode_quotas ENABLE ROW LEVEL SECURITY;
+
+CREATE OR REPLACE FUNCTION take_geocode_quota(p_user_id uuid, p_limit integer, p_window interval)
+RETURNS boolean
+LANGUAGE sql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  INSERT INTO geocode_quotas AS q (user_id, window_started_at, request_count)
+  VALUES (p_user_id, now(), 1)
+  ON CONFLICT (user_id) DO UPDATE
+  SET
+    window_started_at = CASE
+      WHEN q.window_started_at <= now() - p_window THEN now()
+      ELSE q.window_started_at
+    END,
+    request_count = CASE
+      WHEN q.window_started_at <= now() - p_window THEN 1
+      ELSE q.request_count + 1
+    END
+  RETURNING request_count <= p_limit;
+$$;
+
+REVOKE EXECUTE ON FUNCTION take_geocode_quota(uuid, integer, interval) FROM public, anon, authenticated;
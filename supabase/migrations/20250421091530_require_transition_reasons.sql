@@ -0,0 +1,79 @@
+/*
+  # Reasons required for escalations and withdrawals
+
+  The app asks for a reason before an alert is escalated, marked a false
+  alarm or cancelled, but `transition_alert` accepted those changes without
+  one when called directly, leaving the timeline entry unexplained.
+
+  1. Functions
+    - `transition_alert(uuid, alert_status, text)` raises check_violation when
+      moving to 'escalated', 'false_alarm' or 'cancelled' without a reason.
+      Blank reasons count as missing, and the reason is stored trimmed.
+      Otherwise unchanged from 20250328101120_alert_assignment
+*/
+
+CREATE OR REPLACE FUNCTION transition_alert(
+  p_alert_id uuid,
+  p_status alert_status,
+  p_reason text DEFAULT NULL
+)
+RETURNS alerts
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public, extensions
+AS $$
+DECLARE
+  v_alert alerts;
+  v_is_reporter boolean;
+  v_reason text := nullif(trim(p_reason), '');
+BEGIN
+  -- Mirrors requiresReason() in lib/alerts.ts
+  IF p_status IN ('escalated', 'false_alarm', 'cancelled') AND v_reason IS NULL THEN
+    RAISE EXCEPTION 'A reason is required to mark an alert %', p_status USING ERRCODE = 'check_violation';
+  END IF;
+
+  SELECT * INTO v_alert FROM alerts WHERE id = p_alert_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Alert not found' USING ERRCODE = 'no_data_found';
+  END IF;
+
+  v_is_reporter := v_alert.user_id = auth.uid();
+
+  IF p_status = 'cancelled' THEN
+    IF NOT v_is_reporter THEN
+      RAISE EXCEPTION 'Only the reporter can cancel an alert' USING ERRCODE = 'insufficient_privilege';
+    END IF;
+  ELSIF p_status = 'false_alarm' AND v_is_reporter THEN
+    NULL;
+  ELSIF NOT can_respond_at(v_alert.location) THEN
+    RAISE EXCEPTION 'Not allowed to update this alert' USING ERRCODE = 'insufficient_privilege';
+  ELSIF v_alert.assigned_responder_id IS NOT NULL
+    AND v_alert.assigned_responder_id <> auth.uid()
+    AND NOT is_dispatcher() THEN
+    RAISE EXCEPTION 'Alert is assigned to another unit' USING ERRCODE = 'insufficient_privilege';
+  ELSIF v_alert.assigned_responder_id IS NULL AND p_status IN ('acknowledged', 'responding') THEN
+    -- Taking an unassigned alert claims it; the row lock above keeps this race-safe
+    UPDATE alerts
+    SET assigned_responder_id = auth.uid(), assigned_at = now()
+    WHERE id = p_alert_id;
+
+    INSERT INTO responses (alert_id, responder_id, actor_id, action_taken)
+    SELECT p_alert_id, r.id, r.id, format('Claimed by %s', r.organization_name)
+    FROM responders r
+    WHERE r.id = auth.uid();
+  END IF;
+
+  -- Read back by record_alert_status_transition in the same transaction
+  PERFORM set_config('app.transition_reason', coalesce(v_reason, ''), true);
+
+  UPDATE alerts
+  SET status = p_status
+  WHERE id = p_alert_id
+  RETURNING * INTO v_alert;
+
+  PERFORM set_config('app.transition_reason', '', true);
+
+  RETURN v_alert;
+END;
+$$;
@@ -0,0 +1,64 @@
+/*
+  # Queue alert geocoding without a second update
+
+  `queue_alert_geocode` ran AFTER the insert or location change and then
+  updated the same alert again to stamp `address_requested_at`. Every new
+  alert and every qualifying move therefore reached realtime subscribers as
+  an extra UPDATE, and each one reloads the responders' alert feeds.
+
+  1. Functions
+    - `queue_alert_geocode()` now sets `NEW.address_requested_at` instead of
+      updating the row. The edge function call is queued through pg_net, which
+      only sends it once the transaction commits, so it never sees an alert
+      that doesn't exist yet
+
+  2. Triggers
+    - `queue_alert_geocode` is recreated as a BEFORE trigger
+*/
+
+CREATE OR REPLACE FUNCTION queue_alert_geocode()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public, extensions
+AS $$
+DECLARE
+  v_latitude float8 := COALESCE(NEW.last_latitude, NEW.latitude);
+  v_longitude float8 := COALESCE(NEW.last_longitude, NEW.longitude);
+BEGIN
+  IF v_latitude IS NULL OR v_longitude IS NULL THEN
+    RETURN NEW;
+  END IF;
+
+  IF NEW.address_requested_at > now() - interval '30 seconds' THEN
+    RETURN NEW;
+  END IF;
+
+  IF NEW.address_location IS NOT NULL AND ST_DWithin(
+    NEW.address_location,
+    ST_SetSRID(ST_MakePoint(v_longitude, v_latitude), 4326)::geography,
+    250
+  ) THEN
+    RETURN NEW;
+  END IF;
+
+  -- Written with the row itself, so a burst of location updates queues a single lookup
+  NEW.address_requested_at := now();
+
+  PERFORM invoke_edge_function('geocode-alert', jsonb_build_object(
+    'alert_id', NEW.id,
+    'latitude', v_latitude,
+    'longitude', v_longitude
+  ));
+
+  RETURN NEW;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION queue_alert_geocode() FROM public, anon, authenticated;
+
+DROP TRIGGER IF EXISTS queue_alert_geocode ON alerts;
+CREATE TRIGGER queue_alert_geocode
+  BEFORE INSERT OR UPDATE OF last_latitude, last_longitude ON alerts
+  FOR EACH ROW
+  EXECUTE FUNCTION queue_alert_geocode();
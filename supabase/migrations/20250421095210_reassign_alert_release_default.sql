@@ -0,0 +1,76 @@
+/*
+  # Releasing an alert without a placeholder responder
+
+  `reassign_alert` releases an alert back to the pool when `p_responder_id`
+  is NULL, but the parameter had no default, so the generated client types
+  required a string and the release call had to cast NULL away.
+
+  1. Functions
+    - `reassign_alert(uuid, uuid, text)` - `p_responder_id` defaults to NULL,
+      so omitting it releases the alert. Otherwise unchanged from
+      20250328101120_alert_assignment
+*/
+
+CREATE OR REPLACE FUNCTION reassign_alert(
+  p_alert_id uuid,
+  p_responder_id uuid DEFAULT NULL,
+  p_reason text DEFAULT NULL
+)
+RETURNS alerts
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public, extensions
+AS $$
+DECLARE
+  v_alert alerts;
+  v_from responders;
+  v_to responders;
+BEGIN
+  SELECT * INTO v_alert FROM alerts WHERE id = p_alert_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Alert not found' USING ERRCODE = 'no_data_found';
+  END IF;
+
+  IF v_alert.status::text IN ('resolved', 'cancelled', 'false_alarm') THEN
+    RAISE EXCEPTION 'Alert is already closed' USING ERRCODE = 'check_violation';
+  END IF;
+
+  IF NOT (
+    v_alert.assigned_responder_id = auth.uid()
+    OR (is_dispatcher() AND can_respond_at(v_alert.location))
+  ) THEN
+    RAISE EXCEPTION 'Only the assigned unit or a dispatcher can reassign this alert'
+      USING ERRCODE = 'insufficient_privilege';
+  END IF;
+
+  IF p_responder_id IS NOT NULL THEN
+    SELECT * INTO v_to FROM responders WHERE id = p_responder_id;
+    IF v_to.id IS NULL OR NOT responder_handles_alert(v_to, v_alert) THEN
+      RAISE EXCEPTION 'That unit cannot take this alert' USING ERRCODE = 'check_violation';
+    END IF;
+  END IF;
+
+  SELECT * INTO v_from FROM responders WHERE id = v_alert.assigned_responder_id;
+
+  UPDATE alerts
+  SET assigned_responder_id = p_responder_id,
+      assigned_at = CASE WHEN p_responder_id IS NULL THEN NULL ELSE now() END
+  WHERE id = p_alert_id
+  RETURNING * INTO v_alert;
+
+  INSERT INTO responses (alert_id, responder_id, actor_id, action_taken, reason)
+  VALUES (
+    p_alert_id,
+    (SELECT id FROM responders WHERE id = auth.uid()),
+    auth.uid(),
+    CASE
+      WHEN p_responder_id IS NULL THEN format('Released by %s', coalesce(v_from.organization_name, 'unassigned'))
+      ELSE format('Handed off from %s to %s', coalesce(v_from.organization_name, 'unassigned'), v_to.organization_name)
+    END,
+    nullif(trim(p_reason), '')
+  );
+
+  RETURN v_alert;
+END;
+$$;
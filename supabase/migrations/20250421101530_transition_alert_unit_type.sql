@@ -0,0 +1,98 @@
+/*
+  # Alert status changes need a unit of the right type
+
+  `transition_alert` let any verified responder whose area covered an alert
+  change its status, so a police unit could acknowledge a medical alert and
+  claim it. Civilians could also raise an alert that was already closed, or
+  assigned to a unit of their choosing, locking every other unit out.
+
+  1. Functions
+    - `transition_alert(uuid, alert_status, text)` checks the caller with
+      `responder_handles_alert`, like `claim_alert`: verified, the right type
+      for the alert, and covering its location. Otherwise unchanged from
+      20250421091530_require_transition_reasons
+
+  2. Security
+    - "Users can create alerts" also requires new alerts to be pending,
+      unassigned and not closed
+*/
+
+CREATE OR REPLACE FUNCTION transition_alert(
+  p_alert_id uuid,
+  p_status alert_status,
+  p_reason text DEFAULT NULL
+)
+RETURNS alerts
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public, extensions
+AS $$
+DECLARE
+  v_alert alerts;
+  v_responder responders;
+  v_is_reporter boolean;
+  v_reason text := nullif(trim(p_reason), '');
+BEGIN
+  -- Mirrors requiresReason() in lib/alerts.ts
+  IF p_status IN ('escalated', 'false_alarm', 'cancelled') AND v_reason IS NULL THEN
+    RAISE EXCEPTION 'A reason is required to mark an alert %', p_status USING ERRCODE = 'check_violation';
+  END IF;
+
+  SELECT * INTO v_alert FROM alerts WHERE id = p_alert_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Alert not found' USING ERRCODE = 'no_data_found';
+  END IF;
+
+  SELECT * INTO v_responder FROM responders WHERE id = auth.uid();
+  v_is_reporter := v_alert.user_id = auth.uid();
+
+  IF p_status = 'cancelled' THEN
+    IF NOT v_is_reporter THEN
+      RAISE EXCEPTION 'Only the reporter can cancel an alert' USING ERRCODE = 'insufficient_privilege';
+    END IF;
+  ELSIF p_status = 'false_alarm' AND v_is_reporter THEN
+    NULL;
+  ELSIF v_responder.id IS NULL OR NOT responder_handles_alert(v_responder, v_alert) THEN
+    RAISE EXCEPTION 'Not allowed to update this alert' USING ERRCODE = 'insufficient_privilege';
+  ELSIF v_alert.assigned_responder_id IS NOT NULL
+    AND v_alert.assigned_responder_id <> auth.uid()
+    AND NOT is_dispatcher() THEN
+    RAISE EXCEPTION 'Alert is assigned to another unit' USING ERRCODE = 'insufficient_privilege';
+  ELSIF v_alert.assigned_responder_id IS NULL AND p_status IN ('acknowledged', 'responding') THEN
+    -- Taking an unassigned alert claims it; the row lock above keeps this race-safe
+    UPDATE alerts
+    SET assigned_responder_id = auth.uid(), assigned_at = now()
+    WHERE id = p_alert_id;
+
+    INSERT INTO responses (alert_id, responder_id, actor_id, action_taken)
+    VALUES (p_alert_id, v_responder.id, v_responder.id, format('Claimed by %s', v_responder.organization_name));
+  END IF;
+
+  -- Read back by record_alert_status_transition in the same transaction
+  PERFORM set_config('app.transition_reason', coalesce(v_reason, ''), true);
+
+  UPDATE alerts
+  SET status = p_status
+  WHERE id = p_alert_id
+  RETURNING * INTO v_alert;
+
+  PERFORM set_config('app.transition_reason', '', true);
+
+  RETURN v_alert;
+END;
+$$;
+
+DROP POLICY IF EXISTS "Users can create alerts" ON alerts;
+
+CREATE POLICY "Users can create alerts"
+  ON alerts
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    user_id = auth.uid()
+    AND status = 'pending'
+    AND assigned_responder_id IS NULL
+    AND assigned_at IS NULL
+    AND closed_at IS NULL
+  );
@@ -0,0 +1,26 @@
+/*
+  # Responders without a service area cover nowhere
+
+  `responder_covers_location` treated a responder with neither a polygon nor
+  a station and radius as unrestricted, so every verified unit that never set
+  an area saw, and was pushed, every alert in the country.
+
+  1. Functions
+    - `responder_covers_location(responders, geography)` is false when the
+      responder has no service area. They see no alerts, get no pushes and
+      can't take alerts until they set one; the app prompts them to
+*/
+
+CREATE OR REPLACE FUNCTION responder_covers_location(p_responder responders, p_location geography)
+RETURNS boolean
+LANGUAGE sql
+STABLE
+AS $$
+  SELECT CASE
+    WHEN p_responder.service_area IS NOT NULL THEN
+      ST_Covers(p_responder.service_area, p_location)
+    WHEN p_responder.station_location IS NOT NULL AND p_responder.service_radius_m IS NOT NULL THEN
+      ST_DWithin(p_responder.station_location, p_location, p_responder.service_radius_m)
+    ELSE false
+  END;
+$$;
@@ -0,0 +1,34 @@
+/*
+  # Reporter details only for units that handle the alert
+
+  While an alert was open, `can_read_reporter_details` let in any verified
+  responder covering its location, whatever their type: a police unit could
+  read the Medical ID and emergency contacts on a medical alert.
+
+  1. Functions
+    - `can_read_reporter_details(uuid)` - on open alerts, the assignee or a
+      responder for whom `responder_handles_alert` holds (the right type and
+      covering the location). Closed alerts are unchanged from
+      20250417094530_reporter_need_to_know
+*/
+
+CREATE OR REPLACE FUNCTION can_read_reporter_details(p_alert_id uuid)
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public, extensions
+AS $$
+  SELECT EXISTS (
+    SELECT 1
+    FROM alerts a
+    JOIN responders r ON r.id = auth.uid() AND r.verification_status = true
+    WHERE a.id = p_alert_id
+    AND CASE
+      WHEN a.status::text NOT IN ('resolved', 'cancelled', 'false_alarm') THEN
+        a.assigned_responder_id = r.id OR responder_handles_alert(r, a)
+      ELSE
+        a.assigned_responder_id = r.id AND a.closed_at > now() - interval '24 hours'
+    END
+  );
+$$;
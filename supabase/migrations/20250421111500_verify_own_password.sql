@@ -0,0 +1,89 @@
+/*
+  # Password confirmation without signing in again
+
+  Responders without biometrics or a device passcode confirm sensitive
+  status changes with their account password. The app checked it by calling
+  signInWithPassword, which replaced the session and fired every auth
+  listener while the confirmation dialog was still open. The check now runs
+  in the database and leaves the session alone.
+
+  1. New Tables
+    - `password_check_failures` - one row per user
+      - `user_id` (uuid, primary key)
+      - `window_started_at` (timestamptz) - when the first recent failure was
+      - `failure_count` (integer) - wrong passwords since then
+
+  2. Functions
+    - `verify_own_password(text)` - whether the text is the caller's current
+      password. After 5 wrong passwords within 15 minutes it raises instead
+      of answering, until the window passes; a right one clears the count
+
+  3. Security
+    - `password_check_failures`: RLS enabled with no policies; only
+      `verify_own_password` reads or writes it
+    - `verify_own_password` can only be called by signed-in users, and only
+      checks their own password
+*/
+
+CREATE TABLE IF NOT EXISTS password_check_failures (
+  user_id uuid PRIMARY KEY REFERENCES auth.users(id) ON DELETE CASCADE,
+  window_started_at timestamptz NOT NULL DEFAULT now(),
+  failure_count integer NOT NULL DEFAULT 0
+);
+
+ALTER TABLE password_check_failures ENABLE ROW LEVEL SECURITY;
+
+CREATE OR REPLACE FUNCTION verify_own_password(p_password text)
+RETURNS boolean
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public, extensions
+AS $$
+DECLARE
+  v_user_id uuid := auth.uid();
+  v_matches boolean;
+BEGIN
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated'
+      USING ERRCODE = 'insufficient_privilege';
+  END IF;
+
+  IF EXISTS (
+    SELECT 1
+    FROM password_check_failures
+    WHERE user_id = v_user_id
+      AND window_started_at > now() - interval '15 minutes'
+      AND failure_count >= 5
+  ) THEN
+    RAISE EXCEPTION 'Too many incorrect passwords, try again in a few minutes';
+  END IF;
+
+  SELECT u.encrypted_password = crypt(p_password, u.encrypted_password)
+  INTO v_matches
+  FROM auth.users u
+  WHERE u.id = v_user_id;
+
+  IF coalesce(v_matches, false) THEN
+    DELETE FROM password_check_failures WHERE user_id = v_user_id;
+    RETURN true;
+  END IF;
+
+  INSERT INTO password_check_failures AS f (user_id, window_started_at, failure_count)
+  VALUES (v_user_id, now(), 1)
+  ON CONFLICT (user_id) DO UPDATE
+  SET
+    window_started_at = CASE
+      WHEN f.window_started_at <= now() - interval '15 minutes' THEN now()
+      ELSE f.window_started_at
+    END,
+    failure_count = CASE
+      WHEN f.window_started_at <= now() - interval '15 minutes' THEN 1
+      ELSE f.failure_count + 1
+    END;
+
+  RETURN false;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION verify_own_password(text) FROM public, anon;
+GRANT EXECUTE ON FUNCTION verify_own_password(text) TO authenticated;
@@ -0,0 +1,63 @@
+-- Queueing server-side geocoding when alerts are created or move.
+-- Run with `npx supabase test db`.
+BEGIN;
+CREATE EXTENSION IF NOT EXISTS pgtap WITH SCHEMA extensions;
+
+SELECT plan(5);
+
+INSERT INTO auth.users (id, email) VALUES
+  ('11111111-1111-4111-8111-111111111111', 'alice@example.com');
+
+INSERT INTO users (id, email, full_name) VALUES
+  ('11111111-1111-4111-8111-111111111111', 'alice@example.com', 'Alice');
+
+-- Counts every UPDATE realtime subscribers would see; rolled back with the test
+CREATE TABLE alert_update_log (alert_id uuid);
+
+CREATE FUNCTION log_alert_update() RETURNS trigger LANGUAGE plpgsql AS $$
+BEGIN
+  INSERT INTO alert_update_log VALUES (NEW.id);
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER log_alert_update AFTER UPDATE ON alerts FOR EACH ROW EXECUTE FUNCTION log_alert_update();
+
+SELECT ok(
+  (SELECT tgtype & 2 = 2 FROM pg_trigger WHERE tgname = 'queue_alert_geocode' AND tgrelid = 'alerts'::regclass),
+  'queue_alert_geocode runs before the row is written'
+);
+
+INSERT INTO alerts (id, user_id, type, latitude, longitude) VALUES
+  ('aaaaaaaa-1111-4111-8111-111111111111', '11111111-1111-4111-8111-111111111111', 'police', 51.5, -0.12);
+
+SELECT ok(
+  (SELECT address_requested_at IS NOT NULL FROM alerts WHERE id = 'aaaaaaaa-1111-4111-8111-111111111111'),
+  'a new alert is stamped as queued'
+);
+SELECT is_empty($$ SELECT * FROM alert_update_log $$, 'queueing a new alert does not update it again');
+
+-- Moved well past 250 m, with the last lookup long enough ago to queue another
+UPDATE alerts
+SET address_requested_at = now() - interval '1 minute',
+  address_location = 'SRID=4326;POINT(-0.12 51.5)'
+WHERE id = 'aaaaaaaa-1111-4111-8111-111111111111';
+DELETE FROM alert_update_log;
+
+UPDATE alerts
+SET last_latitude = 51.52, last_longitude = -0.12
+WHERE id = 'aaaaaaaa-1111-4111-8111-111111111111';
+
+SELECT is(
+  (SELECT address_requested_at FROM alerts WHERE id = 'aaaaaaaa-1111-4111-8111-111111111111'),
+  now(),
+  'moving far enough queues another lookup'
+);
+SELECT is(
+  (SELECT count(*) FROM alert_update_log),
+  1::bigint,
+  'the move reaches subscribers as a single update'
+);
+
+SELECT * FROM finish();
+ROLLBACK;
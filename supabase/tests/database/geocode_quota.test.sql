@@ -0,0 +1,34 @@
+-- Per-user geocoding quotas taken by the geocode edge function.
+-- Run with `npx supabase test db`.
+BEGIN;
+CREATE EXTENSION IF NOT EXISTS pgtap WITH SCHEMA extensions;
+
+SELECT plan(7);
+
+INSERT INTO auth.users (id, email) VALUES
+  ('11111111-1111-4111-8111-111111111111', 'alice@example.com'),
+  ('22222222-2222-4222-8222-222222222222', 'bob@example.com');
+
+SELECT ok(take_geocode_quota('11111111-1111-4111-8111-111111111111', 2, '1 minute'), 'first lookup is allowed');
+SELECT ok(take_geocode_quota('11111111-1111-4111-8111-111111111111', 2, '1 minute'), 'lookups up to the limit are allowed');
+SELECT ok(NOT take_geocode_quota('11111111-1111-4111-8111-111111111111', 2, '1 minute'), 'lookups past the limit are refused');
+SELECT ok(take_geocode_quota('22222222-2222-4222-8222-222222222222', 2, '1 minute'), 'each user has their own quota');
+
+UPDATE geocode_quotas
+SET window_started_at = now() - interval '2 minutes'
+WHERE user_id = '11111111-1111-4111-8111-111111111111';
+
+SELECT ok(take_geocode_quota('11111111-1111-4111-8111-111111111111', 2, '1 minute'), 'a new window resets the count');
+
+SET LOCAL role authenticated;
+SELECT set_config('request.jwt.claims', '{"sub": "11111111-1111-4111-8111-111111111111", "role": "authenticated"}', true);
+
+SELECT throws_ok(
+  $$ SELECT take_geocode_quota('11111111-1111-4111-8111-111111111111', 1000, '1 minute') $$,
+  '42501', NULL,
+  'clients cannot take quota themselves'
+);
+SELECT is_empty($$ SELECT user_id FROM geocode_quotas $$, 'clients cannot read quotas');
+
+SELECT * FROM finish();
+ROLLBACK;
@@ -0,0 +1,258 @@
+-- Need-to-know access to reporter details through read_alert_reporters, and
+-- the access log civilians see in Settings.
+-- Run with `npx supabase test db`.
+BEGIN;
+CREATE EXTENSION IF NOT EXISTS pgtap WITH SCHEMA extensions;
+
+SELECT plan(28);
+
+-- Fixtures, inserted as the table owner so RLS doesn't apply
+
+INSERT INTO auth.users (id, email) VALUES
+  ('11111111-1111-4111-8111-111111111111', 'alice@example.com'),
+  ('22222222-2222-4222-8222-222222222222', 'bob@example.com'),
+  ('33333333-3333-4333-8333-333333333333', 'unverified@example.com'),
+  ('44444444-4444-4444-8444-444444444444', 'assigned@example.com'),
+  ('55555555-5555-4555-8555-555555555555', 'far@example.com'),
+  ('66666666-6666-4666-8666-666666666666', 'nearby@example.com'),
+  ('77777777-7777-4777-8777-777777777777', 'no-area@example.com');
+
+INSERT INTO users (id, email, full_name, phone_number) VALUES
+  ('11111111-1111-4111-8111-111111111111', 'alice@example.com', 'Alice', '+441111111111'),
+  ('22222222-2222-4222-8222-222222222222', 'bob@example.com', 'Bob', '+442222222222');
+
+INSERT INTO responders (id, organization_name, responder_type) VALUES
+  ('33333333-3333-4333-8333-333333333333', 'Unverified Police', 'police');
+
+SELECT set_config('app.reviewing_responder', 'on', true);
+
+INSERT INTO responders (
+  id, organization_name, responder_type, verification_status, verification_state,
+  station_location, service_radius_m
+) VALUES
+  ('44444444-4444-4444-8444-444444444444', 'City Police', 'police', true, 'approved',
+   'SRID=4326;POINT(-0.12 51.5)', 5000),
+  ('66666666-6666-4666-8666-666666666666', 'City Hospital', 'hospital', true, 'approved',
+   'SRID=4326;POINT(-0.12 51.5)', 5000);
+
+INSERT INTO responders (
+  id, organization_name, responder_type, verification_status, verification_state,
+  station_location, service_radius_m
+) VALUES (
+  '55555555-5555-4555-8555-555555555555', 'Far Away Police', 'police', true, 'approved',
+  'SRID=4326;POINT(0 0)', 1000
+);
+
+INSERT INTO responders (id, organization_name, responder_type, verification_status, verification_state) VALUES
+  ('77777777-7777-4777-8777-777777777777', 'Unmapped Police', 'police', true, 'approved');
+
+SELECT set_config('app.reviewing_responder', '', true);
+
+INSERT INTO contacts (user_id, name, phone_number, is_primary) VALUES
+  ('11111111-1111-4111-8111-111111111111', 'Alice''s sister', '+441234567890', true);
+
+-- Open and unassigned (general, then medical); closed 2 hours ago; closed 2
+-- days ago. All in London
+INSERT INTO alerts (id, user_id, type, latitude, longitude) VALUES
+  ('aaaaaaaa-1111-4111-8111-111111111111', '11111111-1111-4111-8111-111111111111', 'general', 51.5, -0.12),
+  ('aaaaaaaa-4444-4444-8444-444444444444', '11111111-1111-4111-8111-111111111111', 'medical', 51.5, -0.12);
+
+INSERT INTO alerts (id, user_id, type, status, latitude, longitude, assigned_responder_id, closed_at) VALUES
+  ('aaaaaaaa-2222-4222-8222-222222222222', '11111111-1111-4111-8111-111111111111', 'police', 'resolved', 51.5, -0.12,
+   '44444444-4444-4444-8444-444444444444', now() - interval '2 hours'),
+  ('aaaaaaaa-3333-4333-8333-333333333333', '11111111-1111-4111-8111-111111111111', 'police', 'resolved', 51.5, -0.12,
+   '44444444-4444-4444-8444-444444444444', now() - interval '2 days');
+
+-- What Alice added to the alert closed 2 hours ago
+INSERT INTO responses (alert_id, actor_id, action_taken) VALUES
+  ('aaaaaaaa-2222-4222-8222-222222222222', '11111111-1111-4111-8111-111111111111', 'Added a note');
+
+INSERT INTO alert_messages (alert_id, sender_id, body, attachment_path) VALUES
+  ('aaaaaaaa-2222-4222-8222-222222222222', '11111111-1111-4111-8111-111111111111', 'Back door',
+   'aaaaaaaa-2222-4222-8222-222222222222/door.jpg');
+
+INSERT INTO storage.objects (bucket_id, name) VALUES
+  ('alert-attachments', 'aaaaaaaa-2222-4222-8222-222222222222/door.jpg');
+
+SET LOCAL role authenticated;
+
+-- Verified responder nearby, not assigned
+
+SELECT set_config('request.jwt.claims', '{"sub": "66666666-6666-4666-8666-666666666666", "role": "authenticated"}', true);
+
+SELECT results_eq(
+  $$ SELECT reporter->>'full_name', reporter->>'phone_number', jsonb_array_length(contacts)
+     FROM read_alert_reporters(ARRAY['aaaaaaaa-1111-4111-8111-111111111111']::uuid[]) $$,
+  $$ VALUES ('Alice', '+441111111111', 1) $$,
+  'responder nearby reads the reporter and contacts on an open alert'
+);
+SELECT isnt_empty(
+  $$ SELECT * FROM read_alert_reporters(ARRAY['aaaaaaaa-1111-4111-8111-111111111111']::uuid[]) $$,
+  'responder nearby reads them again when the feed reloads'
+);
+SELECT is_empty(
+  $$ SELECT * FROM read_alert_reporters(ARRAY['aaaaaaaa-2222-4222-8222-222222222222']::uuid[]) $$,
+  'responder nearby cannot read details once the alert closes'
+);
+SELECT is(
+  (SELECT actor(r)->>'name' FROM responses r WHERE r.alert_id = 'aaaaaaaa-2222-4222-8222-222222222222'),
+  'Reporter',
+  'responder nearby sees the reporter unnamed on the closed alert''s timeline'
+);
+SELECT is_empty(
+  $$ SELECT id FROM alert_messages WHERE alert_id = 'aaaaaaaa-2222-4222-8222-222222222222' $$,
+  'responder nearby cannot read the thread once the alert closes'
+);
+SELECT is_empty(
+  $$ SELECT name FROM storage.objects WHERE bucket_id = 'alert-attachments' $$,
+  'responder nearby cannot read the thread''s photos once the alert closes'
+);
+SELECT is_empty($$ SELECT id FROM reporter_access_events $$, 'responders cannot read the access log');
+SELECT throws_ok(
+  $$ INSERT INTO reporter_access_events (user_id, organization_name, responder_type, fields)
+     VALUES ('11111111-1111-4111-8111-111111111111', 'Forged', 'hospital', ARRAY['contact_details']) $$,
+  '42501', NULL,
+  'responders cannot write the access log'
+);
+SELECT is_empty($$ SELECT id FROM alert_contacts $$, 'responders cannot read alert contacts directly');
+SELECT hasnt_function('public', 'reporter', ARRAY['alerts'], 'the unlogged reporter computed column is gone');
+
+-- Verified responder assigned to the closed alerts
+
+SELECT set_config('request.jwt.claims', '{"sub": "44444444-4444-4444-8444-444444444444", "role": "authenticated"}', true);
+
+SELECT results_eq(
+  $$ SELECT alert_id FROM read_alert_reporters(ARRAY[
+       'aaaaaaaa-2222-4222-8222-222222222222',
+       'aaaaaaaa-3333-4333-8333-333333333333'
+     ]::uuid[]) $$,
+  $$ VALUES ('aaaaaaaa-2222-4222-8222-222222222222'::uuid) $$,
+  'assigned responder reads details for 24 hours after the alert closes'
+);
+SELECT is_empty(
+  $$ SELECT * FROM read_alert_reporters(ARRAY['aaaaaaaa-4444-4444-8444-444444444444']::uuid[]) $$,
+  'police cannot read the reporter on a medical alert in their area'
+);
+SELECT is(
+  (SELECT actor(r)->>'name' FROM responses r WHERE r.alert_id = 'aaaaaaaa-2222-4222-8222-222222222222'),
+  'Alice',
+  'assigned responder sees the reporter''s name on the timeline'
+);
+SELECT is(
+  (SELECT sender(m)->>'name' FROM alert_messages m WHERE m.alert_id = 'aaaaaaaa-2222-4222-8222-222222222222'),
+  'Alice',
+  'assigned responder reads the thread and who sent it'
+);
+SELECT is(
+  (SELECT count(*) FROM storage.objects WHERE bucket_id = 'alert-attachments'),
+  1::bigint,
+  'assigned responder reads the thread''s photos'
+);
+
+-- Verified responder outside the service area
+
+SELECT set_config('request.jwt.claims', '{"sub": "55555555-5555-4555-8555-555555555555", "role": "authenticated"}', true);
+
+SELECT is_empty(
+  $$ SELECT * FROM read_alert_reporters(ARRAY['aaaaaaaa-1111-4111-8111-111111111111']::uuid[]) $$,
+  'responder outside the service area cannot read details'
+);
+
+-- Verified responder without a service area
+
+SELECT set_config('request.jwt.claims', '{"sub": "77777777-7777-4777-8777-777777777777", "role": "authenticated"}', true);
+
+SELECT is_empty(
+  $$ SELECT * FROM read_alert_reporters(ARRAY['aaaaaaaa-1111-4111-8111-111111111111']::uuid[]) $$,
+  'responder without a service area cannot read details'
+);
+
+-- Unverified responder
+
+SELECT set_config('request.jwt.claims', '{"sub": "33333333-3333-4333-8333-333333333333", "role": "authenticated"}', true);
+
+SELECT is_empty(
+  $$ SELECT * FROM read_alert_reporters(ARRAY['aaaaaaaa-1111-4111-8111-111111111111']::uuid[]) $$,
+  'unverified responder cannot read details'
+);
+
+-- Another civilian
+
+SELECT set_config('request.jwt.claims', '{"sub": "22222222-2222-4222-8222-222222222222", "role": "authenticated"}', true);
+
+SELECT is_empty(
+  $$ SELECT * FROM read_alert_reporters(ARRAY['aaaaaaaa-1111-4111-8111-111111111111']::uuid[]) $$,
+  'civilians cannot read another civilian''s details'
+);
+SELECT is_empty($$ SELECT id FROM reporter_access_events $$, 'civilians cannot read another civilian''s access log');
+
+-- The reporter
+
+SELECT set_config('request.jwt.claims', '{"sub": "11111111-1111-4111-8111-111111111111", "role": "authenticated"}', true);
+
+SELECT results_eq(
+  $$ SELECT organization_name, responder_type::text, fields, alert_id
+     FROM reporter_access_events ORDER BY created_at, organization_name $$,
+  $$ VALUES
+    ('City Hospital', 'hospital', ARRAY['contact_details', 'emergency_contacts'], 'aaaaaaaa-1111-4111-8111-111111111111'::uuid),
+    ('City Police', 'police', ARRAY['contact_details'], 'aaaaaaaa-2222-4222-8222-222222222222'::uuid) $$,
+  'the reporter sees one entry per responder and alert, not per reload'
+);
+SELECT is(
+  (SELECT count(*) FROM read_alert_reporters(ARRAY[
+    'aaaaaaaa-1111-4111-8111-111111111111',
+    'aaaaaaaa-3333-4333-8333-333333333333'
+  ]::uuid[])),
+  2::bigint,
+  'the reporter reads their own details on any of their alerts'
+);
+SELECT is(
+  (SELECT count(*) FROM reporter_access_events),
+  2::bigint,
+  'the reporter''s own reads are not logged'
+);
+
+-- Medical IDs are logged as such
+
+RESET role;
+
+INSERT INTO medical_ids (user_id, blood_type) VALUES ('11111111-1111-4111-8111-111111111111', 'O+');
+
+SET LOCAL role authenticated;
+SELECT set_config('request.jwt.claims', '{"sub": "66666666-6666-4666-8666-666666666666", "role": "authenticated"}', true);
+
+SELECT is(
+  (SELECT reporter->'medical_id'->>'blood_type'
+   FROM read_alert_reporters(ARRAY['aaaaaaaa-1111-4111-8111-111111111111']::uuid[])),
+  'O+',
+  'responder nearby reads the Medical ID'
+);
+
+SELECT set_config('request.jwt.claims', '{"sub": "11111111-1111-4111-8111-111111111111", "role": "authenticated"}', true);
+
+SELECT is(
+  (SELECT fields FROM reporter_access_events WHERE 'medical_id' = ANY (fields)),
+  ARRAY['contact_details', 'medical_id', 'emergency_contacts'],
+  'reading the Medical ID is logged'
+);
+
+-- closed_at is stamped when an alert closes
+
+SELECT lives_ok(
+  $$ SELECT transition_alert('aaaaaaaa-1111-4111-8111-111111111111', 'cancelled', 'I am safe') $$,
+  'the reporter cancels their alert'
+);
+SELECT ok(
+  (SELECT closed_at IS NOT NULL FROM alerts WHERE id = 'aaaaaaaa-1111-4111-8111-111111111111'),
+  'closing an alert stamps closed_at'
+);
+
+SELECT set_config('request.jwt.claims', '{"sub": "66666666-6666-4666-8666-666666666666", "role": "authenticated"}', true);
+
+SELECT is_empty(
+  $$ SELECT * FROM read_alert_reporters(ARRAY['aaaaaaaa-1111-4111-8111-111111111111']::uuid[]) $$,
+  'responder nearby loses access as soon as the alert closes'
+);
+
+SELECT * FROM finish();
+ROLLBACK;
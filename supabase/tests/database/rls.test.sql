@@ -0,0 +1,326 @@
+-- Row level security on the base tables, per persona: civilians, unverified
+-- responders, verified responders inside their service area and outside it.
+-- Run with `npx supabase test db`.
+BEGIN;
+CREATE EXTENSION IF NOT EXISTS pgtap WITH SCHEMA extensions;
+
+SELECT plan(54);
+
+-- Fixtures, inserted as the table owner so RLS doesn't apply
+
+INSERT INTO auth.users (id, email) VALUES
+  ('11111111-1111-4111-8111-111111111111', 'alice@example.com'),
+  ('22222222-2222-4222-8222-222222222222', 'bob@example.com'),
+  ('33333333-3333-4333-8333-333333333333', 'unverified@example.com'),
+  ('44444444-4444-4444-8444-444444444444', 'verified@example.com'),
+  ('55555555-5555-4555-8555-555555555555', 'far@example.com'),
+  ('66666666-6666-4666-8666-666666666666', 'new-civilian@example.com'),
+  ('77777777-7777-4777-8777-777777777777', 'new-responder@example.com'),
+  ('88888888-8888-4888-8888-888888888888', 'no-area@example.com');
+
+INSERT INTO users (id, email, full_name) VALUES
+  ('11111111-1111-4111-8111-111111111111', 'alice@example.com', 'Alice'),
+  ('22222222-2222-4222-8222-222222222222', 'bob@example.com', 'Bob');
+
+INSERT INTO responders (id, organization_name, responder_type) VALUES
+  ('33333333-3333-4333-8333-333333333333', 'Unverified Police', 'police');
+
+-- protect_responder_verification lets review_responder through the same way
+SELECT set_config('app.reviewing_responder', 'on', true);
+
+INSERT INTO responders (
+  id, organization_name, responder_type, verification_status, verification_state,
+  station_location, service_radius_m
+) VALUES (
+  '44444444-4444-4444-8444-444444444444', 'City Police', 'police', true, 'approved',
+  'SRID=4326;POINT(-0.12 51.5)', 5000
+);
+
+INSERT INTO responders (id, organization_name, responder_type, verification_status, verification_state) VALUES
+  ('88888888-8888-4888-8888-888888888888', 'Unmapped Police', 'police', true, 'approved');
+
+INSERT INTO responders (
+  id, organization_name, responder_type, verification_status, verification_state,
+  station_location, service_radius_m
+) VALUES (
+  '55555555-5555-4555-8555-555555555555', 'Far Away Police', 'police', true, 'approved',
+  'SRID=4326;POINT(0 0)', 1000
+);
+
+SELECT set_config('app.reviewing_responder', '', true);
+
+INSERT INTO contacts (id, user_id, name, phone_number, is_primary) VALUES
+  ('a1111111-1111-4111-8111-111111111111', '11111111-1111-4111-8111-111111111111', 'Alice''s sister', '+441234567890', true),
+  ('b2222222-2222-4222-8222-222222222222', '22222222-2222-4222-8222-222222222222', 'Bob''s brother', '+449876543210', true);
+
+-- attach_alert_contacts snapshots each reporter's contacts onto their alert
+INSERT INTO alerts (id, user_id, type, latitude, longitude) VALUES
+  ('aaaaaaaa-1111-4111-8111-111111111111', '11111111-1111-4111-8111-111111111111', 'police', 51.5, -0.12),
+  ('bbbbbbbb-2222-4222-8222-222222222222', '22222222-2222-4222-8222-222222222222', 'medical', 51.5, -0.12);
+
+INSERT INTO responses (alert_id, action_taken) VALUES
+  ('aaaaaaaa-1111-4111-8111-111111111111', 'Call received'),
+  ('bbbbbbbb-2222-4222-8222-222222222222', 'Call received');
+
+SET LOCAL role authenticated;
+
+-- Civilian
+
+SELECT set_config('request.jwt.claims', '{"sub": "11111111-1111-4111-8111-111111111111", "role": "authenticated"}', true);
+
+SELECT results_eq(
+  $$ SELECT id FROM users $$,
+  $$ VALUES ('11111111-1111-4111-8111-111111111111'::uuid) $$,
+  'civilian reads only their own profile'
+);
+SELECT results_eq(
+  $$ UPDATE users SET full_name = 'Alice Smith' WHERE id = '11111111-1111-4111-8111-111111111111' RETURNING full_name $$,
+  $$ VALUES ('Alice Smith') $$,
+  'civilian updates their own profile'
+);
+SELECT is_empty(
+  $$ UPDATE users SET full_name = 'Hijacked' WHERE id = '22222222-2222-4222-8222-222222222222' RETURNING id $$,
+  'civilian cannot update another profile'
+);
+SELECT throws_ok(
+  $$ INSERT INTO users (id, full_name) VALUES ('66666666-6666-4666-8666-666666666666', 'Someone else') $$,
+  '42501', NULL,
+  'civilian cannot create a profile for another user'
+);
+SELECT is_empty($$ SELECT id FROM responders $$, 'civilian reads no responders');
+
+SELECT results_eq(
+  $$ SELECT id FROM contacts $$,
+  $$ VALUES ('a1111111-1111-4111-8111-111111111111'::uuid) $$,
+  'civilian reads only their own contacts'
+);
+SELECT lives_ok(
+  $$ INSERT INTO contacts (user_id, name, email) VALUES ('11111111-1111-4111-8111-111111111111', 'Alice''s friend', 'friend@example.com') $$,
+  'civilian adds a contact'
+);
+SELECT throws_ok(
+  $$ INSERT INTO contacts (user_id, name, phone_number) VALUES ('22222222-2222-4222-8222-222222222222', 'Planted', '+440000000000') $$,
+  '42501', NULL,
+  'civilian cannot add a contact for another user'
+);
+SELECT throws_ok(
+  $$ INSERT INTO contacts (user_id, name) VALUES ('11111111-1111-4111-8111-111111111111', 'Unreachable') $$,
+  '23514', NULL,
+  'a contact needs a phone number or an email'
+);
+SELECT is_empty(
+  $$ UPDATE contacts SET name = 'Hijacked' WHERE id = 'b2222222-2222-4222-8222-222222222222' RETURNING id $$,
+  'civilian cannot edit another user''s contact'
+);
+SELECT is_empty(
+  $$ DELETE FROM contacts WHERE id = 'b2222222-2222-4222-8222-222222222222' RETURNING id $$,
+  'civilian cannot delete another user''s contact'
+);
+
+SELECT lives_ok(
+  $$ INSERT INTO alerts (id, user_id, type, latitude, longitude) VALUES ('cccccccc-1111-4111-8111-111111111111', '11111111-1111-4111-8111-111111111111', 'general', 51.5, -0.12) $$,
+  'civilian raises an alert'
+);
+SELECT throws_ok(
+  $$ INSERT INTO alerts (user_id, type, latitude, longitude) VALUES ('22222222-2222-4222-8222-222222222222', 'police', 51.5, -0.12) $$,
+  '42501', NULL,
+  'civilian cannot raise an alert as another user'
+);
+SELECT throws_ok(
+  $$ INSERT INTO alerts (user_id, type, latitude, longitude, assigned_responder_id)
+     VALUES ('11111111-1111-4111-8111-111111111111', 'police', 51.5, -0.12, '44444444-4444-4444-8444-444444444444') $$,
+  '42501', NULL,
+  'civilian cannot raise an alert already assigned to a unit'
+);
+SELECT throws_ok(
+  $$ INSERT INTO alerts (user_id, type, status, latitude, longitude)
+     VALUES ('11111111-1111-4111-8111-111111111111', 'police', 'resolved', 51.5, -0.12) $$,
+  '42501', NULL,
+  'civilian cannot raise an alert that is already closed'
+);
+SELECT results_eq(
+  $$ SELECT id FROM alerts ORDER BY id $$,
+  $$ VALUES ('aaaaaaaa-1111-4111-8111-111111111111'::uuid), ('cccccccc-1111-4111-8111-111111111111'::uuid) $$,
+  'civilian reads only their own alerts'
+);
+SELECT is_empty(
+  $$ UPDATE alerts SET status = 'resolved' WHERE id = 'aaaaaaaa-1111-4111-8111-111111111111' RETURNING id $$,
+  'civilian cannot change an alert directly'
+);
+
+SELECT results_eq(
+  $$ SELECT alert_id FROM responses $$,
+  $$ VALUES ('aaaaaaaa-1111-4111-8111-111111111111'::uuid) $$,
+  'civilian reads responses to their own alerts only'
+);
+SELECT throws_ok(
+  $$ INSERT INTO responses (alert_id, action_taken) VALUES ('aaaaaaaa-1111-4111-8111-111111111111', 'Forged') $$,
+  '42501', NULL,
+  'civilian cannot write a response'
+);
+
+-- A civilian signing up
+
+SELECT set_config('request.jwt.claims', '{"sub": "66666666-6666-4666-8666-666666666666", "role": "authenticated"}', true);
+
+SELECT lives_ok(
+  $$ INSERT INTO users (id, email, full_name) VALUES ('66666666-6666-4666-8666-666666666666', 'new-civilian@example.com', 'Carol') $$,
+  'civilian creates their own profile'
+);
+SELECT throws_ok(
+  $$ UPDATE users SET user_type = 'responder' WHERE id = '66666666-6666-4666-8666-666666666666' $$,
+  '23514', NULL,
+  'a civilian profile cannot become a responder'
+);
+
+-- A responder signing up
+
+SELECT set_config('request.jwt.claims', '{"sub": "77777777-7777-4777-8777-777777777777", "role": "authenticated"}', true);
+
+SELECT lives_ok(
+  $$ INSERT INTO responders (id, organization_name, responder_type, verification_status, verification_state)
+     VALUES ('77777777-7777-4777-8777-777777777777', 'Self Approved', 'hospital', true, 'approved') $$,
+  'responder creates their own profile'
+);
+SELECT results_eq(
+  $$ SELECT verification_status, verification_state FROM responders $$,
+  $$ VALUES (false, 'pending') $$,
+  'a new responder starts unverified whatever they send'
+);
+SELECT throws_ok(
+  $$ INSERT INTO responders (id, organization_name, responder_type) VALUES ('55555555-5555-4555-8555-555555555555', 'Impostor', 'police') $$,
+  '42501', NULL,
+  'responder cannot create a profile for another user'
+);
+
+-- Unverified responder
+
+SELECT set_config('request.jwt.claims', '{"sub": "33333333-3333-4333-8333-333333333333", "role": "authenticated"}', true);
+
+SELECT results_eq(
+  $$ SELECT id FROM responders $$,
+  $$ VALUES ('33333333-3333-4333-8333-333333333333'::uuid) $$,
+  'unverified responder reads only their own profile'
+);
+SELECT results_eq(
+  $$ UPDATE responders SET jurisdiction = 'Westminster' WHERE id = '33333333-3333-4333-8333-333333333333' RETURNING jurisdiction $$,
+  $$ VALUES ('Westminster') $$,
+  'unverified responder updates their own profile'
+);
+SELECT throws_ok(
+  $$ UPDATE responders SET verification_status = true WHERE id = '33333333-3333-4333-8333-333333333333' $$,
+  '42501', NULL,
+  'unverified responder cannot approve themselves'
+);
+SELECT is_empty($$ SELECT id FROM users $$, 'unverified responder reads no civilian profiles');
+SELECT is_empty($$ SELECT id FROM alerts $$, 'unverified responder reads no alerts');
+SELECT is_empty($$ SELECT id FROM responses $$, 'unverified responder reads no responses');
+SELECT is_empty($$ SELECT id FROM alert_contacts $$, 'unverified responder reads no alert contacts');
+SELECT throws_ok(
+  $$ SELECT transition_alert('aaaaaaaa-1111-4111-8111-111111111111', 'acknowledged') $$,
+  '42501', NULL,
+  'unverified responder cannot acknowledge an alert'
+);
+SELECT throws_ok(
+  $$ INSERT INTO alerts (user_id, type, latitude, longitude) VALUES ('33333333-3333-4333-8333-333333333333', 'police', 51.5, -0.12) $$,
+  '23503', NULL,
+  'responders have no civilian profile to raise alerts from'
+);
+
+-- Verified responder covering the alerts
+
+SELECT set_config('request.jwt.claims', '{"sub": "44444444-4444-4444-8444-444444444444", "role": "authenticated"}', true);
+
+SELECT results_eq(
+  $$ SELECT id FROM alerts ORDER BY id $$,
+  $$ VALUES
+    ('aaaaaaaa-1111-4111-8111-111111111111'::uuid),
+    ('bbbbbbbb-2222-4222-8222-222222222222'::uuid),
+    ('cccccccc-1111-4111-8111-111111111111'::uuid) $$,
+  'verified responder reads alerts in their service area'
+);
+SELECT is(
+  (SELECT count(*) FROM responses WHERE alert_id IN ('aaaaaaaa-1111-4111-8111-111111111111', 'bbbbbbbb-2222-4222-8222-222222222222')),
+  2::bigint,
+  'verified responder reads responses to alerts in their service area'
+);
+SELECT is_empty(
+  $$ SELECT id FROM alert_contacts $$,
+  'verified responder reads alert contacts only through read_alert_reporters'
+);
+SELECT is_empty($$ SELECT id FROM users $$, 'verified responder reads no civilian profiles');
+SELECT is_empty($$ SELECT id FROM contacts $$, 'verified responder reads no address books');
+SELECT results_eq(
+  $$ SELECT id FROM responders $$,
+  $$ VALUES ('44444444-4444-4444-8444-444444444444'::uuid) $$,
+  'verified responder reads only their own profile'
+);
+SELECT is_empty(
+  $$ UPDATE alerts SET status = 'resolved' WHERE id = 'aaaaaaaa-1111-4111-8111-111111111111' RETURNING id $$,
+  'verified responder cannot change an alert directly'
+);
+SELECT throws_ok(
+  $$ INSERT INTO responses (alert_id, action_taken) VALUES ('aaaaaaaa-1111-4111-8111-111111111111', 'Forged') $$,
+  '42501', NULL,
+  'verified responder cannot write a response directly'
+);
+SELECT throws_ok(
+  $$ SELECT transition_alert('bbbbbbbb-2222-4222-8222-222222222222', 'acknowledged') $$,
+  '42501', NULL,
+  'police cannot acknowledge a medical alert'
+);
+SELECT is(
+  (SELECT assigned_responder_id FROM alerts WHERE id = 'bbbbbbbb-2222-4222-8222-222222222222'),
+  NULL::uuid,
+  'a unit of the wrong type does not claim the alert'
+);
+SELECT lives_ok(
+  $$ SELECT transition_alert('aaaaaaaa-1111-4111-8111-111111111111', 'acknowledged') $$,
+  'verified responder acknowledges an alert through transition_alert'
+);
+SELECT results_eq(
+  $$ SELECT status::text, assigned_responder_id FROM alerts WHERE id = 'aaaaaaaa-1111-4111-8111-111111111111' $$,
+  $$ VALUES ('acknowledged', '44444444-4444-4444-8444-444444444444'::uuid) $$,
+  'acknowledging claims the alert'
+);
+SELECT throws_ok(
+  $$ SELECT transition_alert('aaaaaaaa-1111-4111-8111-111111111111', 'escalated') $$,
+  '23514', NULL,
+  'escalating without a reason is refused'
+);
+SELECT throws_ok(
+  $$ SELECT transition_alert('aaaaaaaa-1111-4111-8111-111111111111', 'false_alarm', '   ') $$,
+  '23514', NULL,
+  'a blank reason counts as none'
+);
+SELECT lives_ok(
+  $$ SELECT transition_alert('aaaaaaaa-1111-4111-8111-111111111111', 'escalated', '  Needs backup ') $$,
+  'escalating with a reason goes through'
+);
+SELECT is(
+  (SELECT reason FROM responses WHERE alert_id = 'aaaaaaaa-1111-4111-8111-111111111111' AND to_status = 'escalated'),
+  'Needs backup',
+  'the trimmed reason is recorded on the timeline'
+);
+
+-- Verified responder whose station is nowhere near the alerts
+
+SELECT set_config('request.jwt.claims', '{"sub": "55555555-5555-4555-8555-555555555555", "role": "authenticated"}', true);
+
+SELECT is_empty($$ SELECT id FROM alerts $$, 'verified responder reads no alerts outside their service area');
+SELECT is_empty($$ SELECT id FROM responses $$, 'verified responder reads no responses outside their service area');
+SELECT is_empty($$ SELECT id FROM alert_contacts $$, 'verified responder reads no contacts outside their service area');
+SELECT throws_ok(
+  $$ SELECT transition_alert('bbbbbbbb-2222-4222-8222-222222222222', 'acknowledged') $$,
+  '42501', NULL,
+  'verified responder cannot acknowledge an alert outside their service area'
+);
+
+-- Verified responder who hasn't set a service area
+
+SELECT set_config('request.jwt.claims', '{"sub": "88888888-8888-4888-8888-888888888888", "role": "authenticated"}', true);
+
+SELECT is_empty($$ SELECT id FROM alerts $$, 'verified responder without a service area reads no alerts');
+
+SELECT * FROM finish();
+ROLLBACK;
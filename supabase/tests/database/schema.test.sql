@@ -0,0 +1,76 @@
+-- The converged base schema, whichever of jolly_island or sparkling_cake ran first.
+-- Run with `npx supabase test db`.
+BEGIN;
+CREATE EXTENSION IF NOT EXISTS pgtap WITH SCHEMA extensions;
+
+SELECT plan(25);
+
+SELECT col_type_is('public', 'alerts', 'type', 'alert_type', 'alerts.type is the alert_type enum');
+SELECT col_type_is('public', 'alerts', 'status', 'alert_status', 'alerts.status is the alert_status enum');
+SELECT col_not_null('public', 'alerts', 'status', 'alerts.status is required');
+SELECT col_type_is('public', 'responders', 'responder_type', 'responder_type', 'responders.responder_type is the responder_type enum');
+
+SELECT has_column('public', 'users', 'email', 'users has email');
+SELECT has_column('public', 'users', 'user_type', 'users has user_type');
+SELECT col_not_null('public', 'users', 'user_type', 'users.user_type is required');
+SELECT has_column('public', 'users', 'last_login', 'users has last_login');
+SELECT has_column('public', 'users', 'updated_at', 'users has updated_at');
+SELECT has_column('public', 'users', 'push_token', 'users has push_token');
+SELECT has_column('public', 'responders', 'updated_at', 'responders has updated_at');
+SELECT has_column('public', 'contacts', 'updated_at', 'contacts has updated_at');
+SELECT col_is_null('public', 'contacts', 'phone_number', 'contacts.phone_number is optional');
+SELECT has_column('public', 'alerts', 'description', 'alerts has description');
+SELECT has_column('public', 'alerts', 'updated_at', 'alerts has updated_at');
+
+SELECT is(
+  (SELECT confdeltype FROM pg_constraint WHERE conname = 'users_id_fkey'),
+  'c'::"char",
+  'users are deleted with their auth user'
+);
+SELECT is(
+  (SELECT confdeltype FROM pg_constraint WHERE conname = 'responders_id_fkey'),
+  'c'::"char",
+  'responders are deleted with their auth user'
+);
+SELECT is(
+  (SELECT confdeltype FROM pg_constraint WHERE conname = 'responses_responder_id_fkey'),
+  'n'::"char",
+  'responses outlive the responder who wrote them'
+);
+
+SELECT has_trigger('public', 'users', 'update_users_updated_at', 'users stamps updated_at');
+SELECT has_trigger('public', 'alerts', 'update_alerts_updated_at', 'alerts stamps updated_at');
+
+SELECT policies_are(
+  'public', 'users',
+  ARRAY['Users can read own data', 'Users can create own profile', 'Users can update own data'],
+  'users has only the reconciled policies'
+);
+SELECT policies_are(
+  'public', 'responders',
+  ARRAY[
+    'Responders can read own data',
+    'Responders can create own profile',
+    'Responders can update own data',
+    'Admins can read responders'
+  ],
+  'responders has only the reconciled policies'
+);
+SELECT policies_are(
+  'public', 'contacts',
+  ARRAY['Users can manage own contacts'],
+  'contacts has only the reconciled policy'
+);
+SELECT policies_are(
+  'public', 'alerts',
+  ARRAY['Users can create alerts', 'Users can view own alerts', 'Responders can view alerts in their service area'],
+  'alerts has only the reconciled policies'
+);
+SELECT policies_are(
+  'public', 'responses',
+  ARRAY['Users can read responses to their alerts', 'Responders can read responses in their service area'],
+  'responses has no insert policy'
+);
+
+SELECT * FROM finish();
+ROLLBACK;
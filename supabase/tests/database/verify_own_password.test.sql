@@ -0,0 +1,59 @@
+-- Password confirmation for status changes, checked without a new sign-in.
+-- Run with `npx supabase test db`.
+BEGIN;
+CREATE EXTENSION IF NOT EXISTS pgtap WITH SCHEMA extensions;
+
+SELECT plan(10);
+
+INSERT INTO auth.users (id, email, encrypted_password) VALUES
+  ('11111111-1111-4111-8111-111111111111', 'alice@example.com', extensions.crypt('alice-password', extensions.gen_salt('bf'))),
+  ('22222222-2222-4222-8222-222222222222', 'bob@example.com', extensions.crypt('bob-password', extensions.gen_salt('bf')));
+
+SET LOCAL role anon;
+
+SELECT throws_ok(
+  $$ SELECT verify_own_password('alice-password') $$,
+  '42501', NULL,
+  'anonymous callers cannot check passwords'
+);
+
+SET LOCAL role authenticated;
+SELECT set_config('request.jwt.claims', '{"sub": "11111111-1111-4111-8111-111111111111", "role": "authenticated"}', true);
+
+SELECT ok(verify_own_password('alice-password'), 'the right password is confirmed');
+SELECT ok(NOT verify_own_password('bob-password'), 'another user''s password is not');
+SELECT ok(NOT verify_own_password(''), 'an empty password is not');
+SELECT is_empty($$ SELECT user_id FROM password_check_failures $$, 'clients cannot read failures');
+
+SELECT is(
+  (SELECT count(*) FILTER (WHERE NOT confirmed) FROM (SELECT verify_own_password('wrong') AS confirmed FROM generate_series(1, 3)) attempts),
+  3::bigint,
+  'wrong passwords are refused'
+);
+
+SELECT throws_ok(
+  $$ SELECT verify_own_password('alice-password') $$,
+  'P0001', 'Too many incorrect passwords, try again in a few minutes',
+  'five wrong passwords lock the check, even for the right one'
+);
+
+RESET role;
+UPDATE password_check_failures
+SET window_started_at = now() - interval '20 minutes'
+WHERE user_id = '11111111-1111-4111-8111-111111111111';
+SET LOCAL role authenticated;
+
+SELECT ok(verify_own_password('alice-password'), 'the lock lifts once the window passes');
+
+RESET role;
+SELECT is_empty(
+  $$ SELECT user_id FROM password_check_failures WHERE user_id = '11111111-1111-4111-8111-111111111111' $$,
+  'the right password clears the count'
+);
+SET LOCAL role authenticated;
+
+SELECT set_config('request.jwt.claims', '{"sub": "22222222-2222-4222-8222-222222222222", "role": "authenticated"}', true);
+SELECT ok(verify_own_password('bob-password'), 'each user checks their own password');
+
+SELECT * FROM finish();
+ROLLBACK;